@@ -12,7 +12,7 @@
  *
  * @example
  * ```typescript
- * import { TurboPush } from './TurboPush';
+ * import { TurboPush } from './TurboPush.js';
  *
  * const uploader = new TurboPush({
  *     endpoint: '/api/upload',
@@ -29,6 +29,26 @@
  * ```
  */
 
+import { resolveChecksumAlgorithm, digestBytes, sha256, utf8 } from './TurboPushChecksum.js';
+import { HttpTransport } from './TurboPushTransport.js';
+import { AdaptiveChunkSizer } from './TurboPushChunkSizer.js';
+import { UploadScheduler } from './TurboPushScheduler.js';
+import { BandwidthThrottle } from './TurboPushThrottle.js';
+import { TypedEventEmitter } from './TurboPushEvents.js';
+import { checkFile, runValidators, FileValidationError } from './TurboPushValidation.js';
+import { TurboPushError, TimeoutError, AbortedError, ReadError, isRetryable, toTurboPushError } from './TurboPushErrors.js';
+import { computeRetryDelay, CircuitBreaker } from './TurboPushRetry.js';
+import { BrowserConnectivity } from './TurboPushConnectivity.js';
+import { isUploadSource, isSizeKnown, readRange } from './TurboPushInput.js';
+import { resolveDedupOptions, splitByContent } from './TurboPushDedup.js';
+import { resolveCompressionOptions, isCompressedType, compressBytes } from './TurboPushCompression.js';
+import { createFileEncryption, encryptChunk, sealHeader, ENCRYPTION_OVERHEAD } from './TurboPushEncryption.js';
+import type { FileEncryption } from './TurboPushEncryption.js';
+import { applyTransforms } from './TurboPushPreprocess.js';
+
+/** Characters of the file name kept in a file ID (servers accept IDs of up to 255) */
+const MAX_ID_NAME_LENGTH = 100;
+
 /**
  * Configuration options for TurboPush instance
  *
@@ -50,12 +70,46 @@ interface TurboPushConfig {
     chunkSize?: number;
 
     /**
-     * Maximum number of concurrent chunk uploads (default: 3, range: 1-10)
+     * Adapt each chunk's size to the measured throughput (default: false)
+     * Chunks are then created lazily while uploading: the first ones use
+     * `minChunkSize`, later ones are sized so a request takes about
+     * `targetDuration`. `true` uses the default bounds; `chunkSize` is
+     * ignored for splitting files in this mode
+     * @default false
+     */
+    adaptiveChunkSize?: boolean | AdaptiveChunkOptions;
+
+    /**
+     * Maximum number of concurrent chunk uploads across all files (default: 3, range: 1-10)
      * Higher values upload faster but use more bandwidth/connections
      * @default 3
      */
     maxConcurrentUploads?: number;
 
+    /**
+     * Maximum number of concurrent chunk uploads for a single file (default: maxConcurrentUploads)
+     * Lower it to let several files upload side by side
+     * @default maxConcurrentUploads
+     */
+    maxConcurrentUploadsPerFile?: number;
+
+    /**
+     * Order in which files get connection slots (default: 'fifo')
+     * - 'fifo': in the order files were added
+     * - 'smallest-first': smaller files first
+     * - 'priority': higher `priority` (see addFile) first, then in order added
+     * @default 'fifo'
+     */
+    fileOrder?: 'fifo' | 'smallest-first' | 'priority';
+
+    /**
+     * Upload bandwidth cap in bytes per second across all files (default: unlimited)
+     * Chunks are held back until the cap allows them, so smaller chunks
+     * give a smoother rate. Set to 0 for no limit
+     * @default 0
+     */
+    maxBytesPerSecond?: number;
+
     /**
      * Maximum retry attempts for failed chunks (default: 3)
      * Set to 0 to disable retries
@@ -65,11 +119,26 @@ interface TurboPushConfig {
 
     /**
      * Base delay in milliseconds between retry attempts (default: 1000ms)
-     * Actual delay = retryDelay * attemptNumber (exponential backoff)
+     * Scaled per attempt by `retryPolicy.strategy`
      * @default 1000
      */
     retryDelay?: number;
 
+    /**
+     * Backoff strategy, delay cap, Retry-After handling and circuit breaker
+     * (default: jittered exponential backoff capped at 30s, honouring Retry-After)
+     * @default {}
+     */
+    retryPolicy?: RetryPolicy;
+
+    /**
+     * Decides whether a failed chunk is retried (default: isRetryable)
+     * The default retries network errors, timeouts, 5xx, 408, 429 and checksum
+     * mismatches, so permanent errors such as 400 or 413 fail the file at once
+     * @default isRetryable
+     */
+    shouldRetry?: (error: TurboPushError) => boolean;
+
     /**
      * Request timeout in milliseconds (default: 30000ms / 30s)
      * Requests exceeding this duration will be aborted
@@ -89,904 +158,3591 @@ interface TurboPushConfig {
      * @default false
      */
     withCredentials?: boolean;
+
+    /**
+     * Persistent store for per-file chunk completion (default: none)
+     * When set, file IDs are derived from the file's name, size and
+     * modification time so that re-adding the same file after a reload
+     * or crash resumes from the chunks that were not yet uploaded
+     * @default undefined
+     */
+    stateStore?: UploadStateStore;
+
+    /**
+     * Ask the server which chunks it already holds before uploading (default: false)
+     * Sends an `action: 'status'` request per file and skips the chunks the
+     * server reports, so a client that lost its local state does not re-send them.
+     * File IDs are then derived from name, size and modification time, so a
+     * new session asks about the same upload. Servers that do not support the
+     * action are ignored.
+     * @default false
+     */
+    checkServerStatus?: boolean;
+
+    /**
+     * Send only chunks the server does not already hold (default: false)
+     * Files are split at content-defined boundaries (around `chunkSize`
+     * bytes, or as set in DedupOptions) and each chunk is hashed with
+     * SHA-256; the server is asked which hashes it holds, and finalize sends
+     * the list of hashes instead of relying on chunk indexes. Needs a
+     * transport with getStoredHashes() and a server with a chunk store;
+     * streams read once are uploaded without deduplication
+     * @default false
+     */
+    dedup?: boolean | DedupOptions;
+
+    /**
+     * Compress chunks before sending them (default: none)
+     * Each chunk is compressed with gzip or deflate (zlib format) and sent
+     * with `compression` and `originalSize` form fields; chunks that do not
+     * shrink are sent as they are. Files of already-compressed types are
+     * skipped unless `skipCompressedTypes` is false. Progress still counts
+     * file bytes, UploadStats.wireBytes counts the bytes actually sent.
+     * Needs a transport that supports compression, such as HttpTransport
+     * @default undefined
+     */
+    compression?: CompressionCodec | CompressionOptions;
+
+    /**
+     * Encrypt chunks on the client before sending them (default: none)
+     * Each file gets an AES-256-GCM data key, wrapped with the key from
+     * `keyProvider` and sent as an EncryptionHeader in the finalize request;
+     * decrypt downloads with decryptFile(). Needs WebCrypto and a transport
+     * that supports encryption, such as HttpTransport. Encrypted files do
+     * not resume across sessions, and cannot be compressed or deduplicated
+     * @default undefined
+     */
+    encryption?: EncryptionOptions;
+
+    /**
+     * Checksum algorithm for integrity verification (default: none)
+     * Each chunk's digest is sent as a `checksum` form field and the
+     * whole-file digest is sent in the finalize request.
+     * Built-ins: 'sha256' (WebCrypto with pure TS fallback) and 'crc32c'
+     * @default undefined
+     */
+    checksum?: 'sha256' | 'crc32c' | ChecksumAlgorithm;
+
+    /**
+     * Protocol used to send chunks and finalize files (default: HttpTransport)
+     * The default speaks the FormData + finalize-JSON protocol of
+     * TurboPushEndpoint.php; TusTransport speaks tus 1.0
+     * @default new HttpTransport()
+     */
+    transport?: UploadTransport;
+
+    /**
+     * Rules checked before a file is queued (default: none)
+     * addFile() rejects violating files with a FileValidationError and
+     * emits `fileRejected` instead of failing at finalize
+     * @default undefined
+     */
+    validation?: ValidationRules;
+
+    /**
+     * Transforms run in order over each file before it is chunked (default: none)
+     * e.g. `[resizeImage({ maxDimension: 2048 }), stripExif()]` from
+     * TurboPushPreprocess.ts. Files show the 'processing' status meanwhile
+     * and are processed one at a time; `validation` checks them as added.
+     * Files a transform changed do not resume across sessions
+     * @default undefined
+     */
+    preprocess?: FileTransform[];
+
+    /**
+     * Computes extra fields sent with every chunk request and the finalize
+     * request (default: none), e.g. an album ID or the target folder.
+     * `context.chunk` is undefined for finalize. Fields named like protocol
+     * fields are ignored. Sent by HttpTransport and XhrTransport
+     * @default undefined
+     */
+    formFields?: FormFieldsProvider;
+
+    /**
+     * Detects when the network drops and comes back (default: BrowserConnectivity in browsers)
+     * While offline, uploads wait without using up retries and resume on reconnect.
+     * Use ProbeConnectivity in Node.js, or false to disable
+     * @default new BrowserConnectivity()
+     */
+    connectivity?: ConnectivitySource | false;
 }
 
 /**
- * Real-time progress information for a single file upload
+ * Configuration with defaults applied to every tunable option
  *
- * @interface UploadProgress
+ * @private
  */
-interface UploadProgress {
-    /** The File object being uploaded */
-    file: File;
+type ResolvedConfig = TurboPushConfig & Required<Pick<TurboPushConfig,
+    'chunkSize' | 'adaptiveChunkSize' | 'maxConcurrentUploads' | 'maxConcurrentUploadsPerFile' |
+    'fileOrder' | 'maxBytesPerSecond' | 'maxRetries' | 'retryDelay' | 'retryPolicy' | 'shouldRetry' | 'timeout' | 'headers' | 'withCredentials' |
+    'checkServerStatus' | 'transport'
+>>;
 
-    /** Name of the file including extension */
-    fileName: string;
+/**
+ * Input for computing the delay before a retry
+ *
+ * @interface RetryDelayContext
+ */
+interface RetryDelayContext {
+    /** Number of the retry about to be made, 1 for the first retry */
+    attempt: number;
 
-    /** Unique identifier for this file upload session */
-    fileId: string;
+    /** Delay before the previous retry of the chunk (`retryDelay` before the first) */
+    previousDelay: number;
 
-    /** Total file size in bytes */
-    totalSize: number;
+    /** Failure of the previous attempt */
+    error: TurboPushError;
+}
 
-    /** Number of bytes uploaded so far */
-    uploadedSize: number;
+/**
+ * How long failed chunks wait before retrying, and when to stop the queue
+ *
+ * @interface RetryPolicy
+ */
+interface RetryPolicy {
+    /**
+     * Delay strategy (default: 'exponential')
+     * - 'exponential': retryDelay * 2^(attempt - 1)
+     * - 'decorrelated-jitter': random between retryDelay and 3x the previous delay
+     * - function: custom delay in milliseconds
+     * @default 'exponential'
+     */
+    strategy?: 'exponential' | 'decorrelated-jitter' | ((context: RetryDelayContext) => number);
 
-    /** Upload completion percentage (0-100) */
-    percentage: number;
+    /**
+     * Scale exponential delays by a random factor in [0.5, 1] (default: true)
+     * Keeps parallel chunks from retrying in lockstep
+     * @default true
+     */
+    jitter?: boolean;
 
-    /** Current upload speed in bytes per second */
-    speed: number;
+    /**
+     * Largest computed delay in milliseconds (default: 30000ms)
+     * @default 30000
+     */
+    maxDelay?: number;
 
-    /** Estimated remaining time in seconds (0 if speed is 0) */
-    remainingTime: number;
+    /**
+     * Wait at least as long as a `Retry-After` header asks (default: true)
+     * Applies to any failed chunk response that sends one, typically 429 and 503
+     * @default true
+     */
+    respectRetryAfter?: boolean;
 
-    /** Current status of the file upload */
-    status: 'pending' | 'uploading' | 'completed' | 'failed' | 'paused';
+    /**
+     * Pause the whole queue after consecutive retryable failures (default: off)
+     * `threshold` failures in a row, across all files, pause uploads; they
+     * resume after `cooldown` milliseconds (default: 30000ms, 0 = stay paused)
+     * @default undefined
+     */
+    circuitBreaker?: { threshold: number; cooldown?: number };
+}
 
-    /** Error message if status is 'failed' */
-    error?: string;
+/**
+ * Bounds and target for adaptive chunk sizing
+ *
+ * @interface AdaptiveChunkOptions
+ */
+interface AdaptiveChunkOptions {
+    /**
+     * Smallest chunk size in bytes, used for the first chunks (default: 256KB)
+     * @default 262144
+     */
+    minChunkSize?: number;
+
+    /**
+     * Largest chunk size in bytes (default: 16MB)
+     * @default 16777216
+     */
+    maxChunkSize?: number;
+
+    /**
+     * Request duration in milliseconds that chunk sizes aim for (default: 2000ms)
+     * Keep well below `timeout`
+     * @default 2000
+     */
+    targetDuration?: number;
 }
 
 /**
- * Internal chunk metadata and state
+ * Chunk size bounds for content-defined chunking (dedup mode)
  *
- * @interface ChunkInfo
- * @private
+ * @interface DedupOptions
  */
-interface ChunkInfo {
-    /** Zero-based index of this chunk */
-    index: number;
+interface DedupOptions {
+    /**
+     * Smallest chunk size in bytes (default: avgChunkSize / 4)
+     */
+    minChunkSize?: number;
 
-    /** Starting byte position in the file */
-    start: number;
+    /**
+     * Chunk size in bytes that cuts aim for on average (default: chunkSize)
+     */
+    avgChunkSize?: number;
 
-    /** Ending byte position in the file (exclusive) */
-    end: number;
+    /**
+     * Largest chunk size in bytes (default: avgChunkSize * 4)
+     */
+    maxChunkSize?: number;
+}
 
-    /** The actual chunk data as a Blob */
-    blob: Blob;
+/**
+ * Compression format for chunks: gzip (RFC 1952) or deflate (zlib, RFC 1950)
+ */
+type CompressionCodec = 'gzip' | 'deflate';
 
-    /** Number of upload attempts made for this chunk */
-    attempts: number;
+/**
+ * Chunk compression settings
+ *
+ * @interface CompressionOptions
+ */
+interface CompressionOptions {
+    /** Compression format */
+    codec: CompressionCodec;
 
-    /** Whether this chunk has been successfully uploaded */
-    uploaded: boolean;
+    /**
+     * Send files of already-compressed types (images, audio, video,
+     * archives, office documents) uncompressed (default: true)
+     * @default true
+     */
+    skipCompressedTypes?: boolean;
 }
 
 /**
- * Upload session statistics
+ * Key-encryption key handed out by an EncryptionKeyProvider
  *
- * @interface UploadStats
+ * @interface EncryptionKey
  */
-interface UploadStats {
-    /** Total number of files queued for upload */
-    totalFiles: number;
+interface EncryptionKey {
+    /** Identifies the key; stored in the header so decryption can ask for it again */
+    id: string;
 
-    /** Number of files successfully uploaded */
-    completedFiles: number;
+    /**
+     * Wraps each file's data key: an AES-KW or AES-GCM key with the
+     * wrapKey/unwrapKey usages, or an RSA-OAEP public key (uploads) and
+     * private key (decryption)
+     */
+    key: CryptoKey;
+}
 
-    /** Number of files that failed to upload */
-    failedFiles: number;
+/**
+ * Supplies key-encryption keys: called without an ID for each uploaded
+ * file, and with the header's `keyId` when decrypting
+ */
+type EncryptionKeyProvider = (keyId?: string) => Promise<EncryptionKey>;
 
-    /** Total size of all files in bytes */
-    totalBytes: number;
+/**
+ * Client-side encryption settings
+ *
+ * @interface EncryptionOptions
+ */
+interface EncryptionOptions {
+    /** Supplies the key that wraps each file's data key */
+    keyProvider: EncryptionKeyProvider;
+}
 
-    /** Total bytes uploaded across all files */
-    uploadedBytes: number;
+/**
+ * Parameters needed to decrypt an encrypted file, sent with finalize
+ * Holds no secret: the data key is wrapped and the chunk sizes are sealed
+ *
+ * @interface EncryptionHeader
+ */
+interface EncryptionHeader {
+    /** Header format version */
+    version: 1;
 
-    /** Timestamp when upload session started */
-    startTime: number;
+    /** Chunk cipher: AES-256-GCM with 16-byte tags */
+    algorithm: 'AES-GCM';
 
-    /** Timestamp when upload session ended (undefined if in progress) */
-    endTime?: number;
+    /** ID of the key-encryption key, as returned by the key provider */
+    keyId: string;
 
-    /** Total duration of upload session in seconds */
-    duration?: number;
+    /** Algorithm that wrapped the data key: 'AES-KW', 'AES-GCM' or 'RSA-OAEP' */
+    wrapAlgorithm: string;
 
-    /** Average upload speed in bytes per second */
-    averageSpeed?: number;
+    /** IV the data key was wrapped with, for AES-GCM (base64) */
+    wrapIv?: string;
+
+    /** The file's data key, wrapped (base64) */
+    wrappedKey: string;
+
+    /** First 8 bytes of every chunk nonce, derived from the fileId (base64) */
+    noncePrefix: string;
+
+    /** Plaintext chunk sizes in file order, encrypted with the data key (base64) */
+    manifest: string;
 }
 
 /**
- * TurboPush - Main file upload class
+ * Context passed to a FileTransform
  *
- * Manages chunked file uploads with parallel processing, retry logic,
- * and comprehensive progress tracking.
+ * @interface FileTransformContext
+ */
+interface FileTransformContext {
+    /** ID of the file being processed */
+    fileId: string;
+}
+
+/**
+ * Preprocessing step; returns the file to upload in place of `file`
+ * Return `file` itself to leave it unchanged. A Blob without a name keeps
+ * the file's name
  *
- * @class TurboPush
- * @since 1.0.0
+ * @example
+ * ```typescript
+ * const watermark: FileTransform = async (file) => {
+ *     if (!file.type.startsWith('image/')) return file;
+ *     return drawWatermark(file); // Blob
+ * };
+ * ```
  */
-export class TurboPush {
-    /** Validated and normalized configuration with all defaults applied */
-    private config: Required<TurboPushConfig>;
+type FileTransform = (file: UploadFile, context: FileTransformContext) => Promise<UploadFile | Blob>;
 
-    /** Map of fileId -> File object for all queued files */
-    private files: Map<string, File> = new Map();
+/**
+ * Context passed to the `formFields` function
+ *
+ * @interface FormFieldsContext
+ */
+interface FormFieldsContext {
+    /** ID of the file being uploaded */
+    fileId: string;
 
-    /** Map of fileId -> upload progress for tracking */
-    private fileProgress: Map<string, UploadProgress> = new Map();
+    /** The file being uploaded, after preprocessing */
+    file: UploadFile;
 
-    /** Map of fileId -> array of chunk metadata */
-    private fileChunks: Map<string, ChunkInfo[]> = new Map();
+    /** Metadata passed to addFile(), if any */
+    metadata?: Record<string, unknown>;
 
-    /** Map of upload keys -> AbortController for cancellation */
-    private activeUploads: Map<string, AbortController> = new Map();
+    /** Chunk about to be sent; undefined for the finalize request */
+    chunk?: ChunkEvent;
+}
 
-    /** Aggregate statistics for the entire upload session */
-    private stats: UploadStats;
+/**
+ * Computes extra form fields for a chunk or finalize request
+ *
+ * @example
+ * ```typescript
+ * const formFields: FormFieldsProvider = ({ file, chunk }) => ({
+ *     folder: currentFolder,
+ *     ...(!chunk && { lastModified: String(file.lastModified) })
+ * });
+ * ```
+ */
+type FormFieldsProvider = (
+    context: FormFieldsContext
+) => Record<string, string> | void | Promise<Record<string, string> | void>;
+
+/**
+ * Custom file check; returns (or throws) a reason to reject the file
+ *
+ * @example
+ * ```typescript
+ * const minWidth: FileValidator = async (file) => {
+ *     const { width } = await createImageBitmap(file);
+ *     if (width < 800) return 'image must be at least 800px wide';
+ * };
+ * ```
+ */
+type FileValidator = (file: UploadFile) => string | void | Promise<string | void>;
+
+/**
+ * Client-side rules for files added to the queue
+ * Mirrors the limits enforced by TurboPushEndpoint.php
+ *
+ * @interface ValidationRules
+ */
+interface ValidationRules {
+    /** Largest allowed file size in bytes */
+    maxFileSize?: number;
 
-    /** Callback function for progress updates */
-    private progressCallback?: (progress: UploadProgress[]) => void;
+    /** Smallest allowed file size in bytes */
+    minFileSize?: number;
 
-    /** Callback function when individual file completes */
-    private fileCompleteCallback?: (fileName: string, fileId: string) => void;
+    /** Allowed extensions, case-insensitive, e.g. ['jpg', 'png'] */
+    allowedExtensions?: string[];
 
-    /** Callback function when all uploads complete */
-    private completeCallback?: (stats: UploadStats) => void;
+    /** Allowed MIME types, with wildcard subtypes, e.g. ['image/*', 'application/pdf'] */
+    allowedMimeTypes?: string[];
 
-    /** Callback function for error handling */
-    private errorCallback?: (error: Error, fileName: string, fileId: string) => void;
+    /** Largest number of files in the queue (cancelled files excluded) */
+    maxFiles?: number;
 
-    /** Whether uploads are currently paused */
-    private isPaused: boolean = false;
+    /** Largest combined size in bytes of the files in the queue */
+    maxTotalSize?: number;
 
     /**
-     * Creates a new TurboPush instance
-     *
-     * @param {TurboPushConfig} config - Configuration options
-     * @throws {Error} If endpoint is not provided
-     *
-     * @example
-     * ```typescript
-     * const uploader = new TurboPush({
-     *     endpoint: '/api/upload',
-     *     chunkSize: 2 * 1024 * 1024, // 2MB chunks
-     *     maxConcurrentUploads: 5,
-     *     maxRetries: 3
-     * });
-     * ```
+     * Custom checks run in order after the built-in rules pass
+     * Asynchronous checks run in the background; push() waits for them
      */
-    constructor(config: TurboPushConfig) {
-        // Validate required configuration
-        if (!config.endpoint) {
-            throw new Error('TurboPush: endpoint is required');
-        }
+    validators?: FileValidator[];
+}
 
-        // Apply defaults and constraints to configuration
-        this.config = {
-            endpoint: config.endpoint,
-            chunkSize: config.chunkSize || 1024 * 1024, // Default 1MB
-            maxConcurrentUploads: Math.max(1, Math.min(10, config.maxConcurrentUploads || 3)), // Clamp 1-10
-            maxRetries: Math.max(0, config.maxRetries || 3), // Minimum 0
-            retryDelay: Math.max(100, config.retryDelay || 1000), // Minimum 100ms
-            timeout: Math.max(5000, config.timeout || 30000), // Minimum 5s
-            headers: config.headers || {},
-            withCredentials: config.withCredentials || false
-        };
+/**
+ * Persisted resume state for a single file upload
+ *
+ * @interface UploadState
+ */
+interface UploadState {
+    /** Stable identifier of the file upload */
+    fileId: string;
 
-        // Initialize statistics
-        this.stats = {
-            totalFiles: 0,
-            completedFiles: 0,
-            failedFiles: 0,
-            totalBytes: 0,
-            uploadedBytes: 0,
-            startTime: Date.now()
-        };
-    }
+    /** Name of the file including extension */
+    fileName: string;
+
+    /** Total file size in bytes */
+    fileSize: number;
+
+    /** Chunk size the file was split with (state is discarded if it changes) */
+    chunkSize: number;
+
+    /** Total number of chunks for the file */
+    totalChunks: number;
+
+    /** Indexes of chunks the server has acknowledged */
+    uploadedChunks: number[];
+
+    /** Byte ranges of the chunks created so far (adaptive chunk sizing only) */
+    chunkRanges?: Array<[number, number]>;
+
+    /** Timestamp of the last update */
+    updatedAt: number;
+}
+
+/**
+ * Storage backend for resume state
+ * Implementations live in TurboPushStateStore.ts (IndexedDB, JSON file, in-memory)
+ *
+ * @interface UploadStateStore
+ */
+interface UploadStateStore {
+    /** Loads the state for a file, or undefined if none is stored */
+    get(fileId: string): Promise<UploadState | undefined>;
+
+    /** Stores (replaces) the state for a file */
+    set(state: UploadState): Promise<void>;
+
+    /** Removes the state for a file */
+    delete(fileId: string): Promise<void>;
+}
+
+/**
+ * Incremental hash state for a checksum algorithm
+ *
+ * @interface ChecksumHasher
+ */
+interface ChecksumHasher {
+    /** Feeds more data into the hash */
+    update(data: Uint8Array): void;
+
+    /** Finishes the hash and returns a lowercase hex digest */
+    digest(): string;
+}
+
+/**
+ * Checksum algorithm used for chunk and whole-file digests
+ * Built-in implementations live in TurboPushChecksum.ts
+ *
+ * @interface ChecksumAlgorithm
+ */
+interface ChecksumAlgorithm {
+    /** Algorithm name sent to the server as `checksumAlgorithm` */
+    name: string;
+
+    /** Creates an incremental hasher (used for the whole-file digest) */
+    create(): ChecksumHasher;
+
+    /** Optional one-shot digest for chunks, e.g. backed by WebCrypto */
+    digest?(data: Uint8Array): Promise<string>;
+}
+
+/**
+ * Per-file information and request options handed to a transport
+ *
+ * @interface TransportFileContext
+ */
+interface TransportFileContext {
+    /** Unique identifier for this file upload session */
+    fileId: string;
+
+    /** The file being uploaded */
+    file: UploadFile;
+
+    /**
+     * Total number of chunks for the file
+     * With adaptive chunk sizing, the number of chunks created so far
+     * (final once the file is finalized)
+     */
+    totalChunks: number;
+
+    /**
+     * Bytes the server receives for the file, when they differ from
+     * `file.size` (encrypted uploads; like totalChunks, final at finalize)
+     */
+    uploadSize?: number;
+
+    /** Metadata passed to addFile(), if any */
+    metadata?: Record<string, unknown>;
+
+    /** Configured endpoint URL */
+    endpoint: string;
+
+    /** Custom HTTP headers to include with each request */
+    headers: Record<string, string>;
+
+    /** Whether to include credentials in cross-origin requests */
+    withCredentials: boolean;
+}
+
+/**
+ * Context for preparing a file before its chunks are uploaded
+ *
+ * @interface TransportPrepareContext
+ */
+interface TransportPrepareContext extends TransportFileContext {
+    /** Byte ranges of every chunk of the file */
+    chunks: Array<{ index: number; start: number; end: number }>;
+}
+
+/**
+ * Context for uploading a single chunk
+ *
+ * @interface TransportChunkContext
+ */
+interface TransportChunkContext extends TransportFileContext {
+    /** Chunk to upload */
+    chunk: {
+        /** Zero-based index of this chunk */
+        index: number;
+
+        /** Starting byte position in the file */
+        start: number;
+
+        /** Ending byte position in the file (exclusive) */
+        end: number;
+
+        /** The chunk data */
+        blob: Blob;
+
+        /** Digest of the chunk data, if checksums are enabled */
+        checksum?: string;
+
+        /** SHA-256 of the chunk data identifying it in the server's chunk store (dedup mode) */
+        hash?: string;
+
+        /**
+         * Set when `blob` holds the compressed chunk data; start, end,
+         * checksum and hash always describe the uncompressed data
+         */
+        compression?: {
+            /** Compression format of `blob` */
+            codec: CompressionCodec;
+
+            /** Size of the chunk data before compression */
+            originalSize: number;
+        };
+
+        /**
+         * Whether `blob` holds the encrypted chunk data; checksum then
+         * covers the encrypted data, start and end the plaintext
+         */
+        encrypted?: boolean;
+    };
+
+    /** Name of the checksum algorithm, if checksums are enabled */
+    checksumAlgorithm?: string;
+
+    /** Extra fields from the `formFields` function, if configured */
+    fields?: Record<string, string>;
+
+    /** Aborted on timeout, pause or cancel */
+    signal: AbortSignal;
+
+    /**
+     * Reports how many bytes of the chunk data have been sent so far
+     * Optional for transports; counts towards progress until the chunk
+     * succeeds, and is rolled back if it fails
+     */
+    onProgress: (bytesSent: number) => void;
+}
+
+/**
+ * Context for finalizing a file once all chunks are uploaded
+ *
+ * @interface TransportFinalizeContext
+ */
+interface TransportFinalizeContext extends TransportFileContext {
+    /** Whole-file digest, if checksums are enabled */
+    checksum?: string;
+
+    /** Name of the checksum algorithm, if checksums are enabled */
+    checksumAlgorithm?: string;
+
+    /** Hash and size of every chunk in file order (dedup mode) */
+    manifest?: Array<{ hash: string; size: number }>;
+
+    /** Wrapped key and parameters for decrypting the file (encrypted uploads) */
+    encryption?: EncryptionHeader;
+
+    /** Extra fields from the `formFields` function, if configured */
+    fields?: Record<string, string>;
+}
+
+/**
+ * Context for asking which chunk hashes the server holds (dedup mode)
+ *
+ * @interface TransportHashesContext
+ */
+interface TransportHashesContext extends TransportFileContext {
+    /** SHA-256 hashes of chunks not yet uploaded, without duplicates */
+    hashes: string[];
+}
+
+/**
+ * Upload protocol used by TurboPush to move chunks to the server
+ * Implementations: HttpTransport (TurboPushTransport.ts), TusTransport (TurboPushTus.ts)
+ *
+ * @interface UploadTransport
+ */
+interface UploadTransport {
+    /**
+     * Whether chunks of one file must be sent one at a time, in order
+     * TurboPush then uploads each file sequentially and retries a failed
+     * chunk before moving on to the next
+     */
+    readonly sequential?: boolean;
+
+    /**
+     * Whether the transport can send compressed chunks, telling the server
+     * how to decompress them (needed for the `compression` option)
+     */
+    readonly supportsCompression?: boolean;
+
+    /**
+     * Whether the transport can send encrypted chunks: it reports
+     * `uploadSize` as the file size and sends the finalize `encryption`
+     * header (needed for the `encryption` option)
+     */
+    readonly supportsEncryption?: boolean;
+
+    /**
+     * Whether the transport checks part sizes against every chunk of a file
+     * in prepareFile() (S3 multipart); it then cannot be combined with
+     * `adaptiveChunkSize`, whose chunks are created lazily
+     */
+    readonly requiresFixedChunks?: boolean;
+
+    /**
+     * Whether a file that fails for good is discarded with abortFile(): set
+     * when the transport cannot resume the upload later (S3 multipart keeps
+     * it in memory only) and its stored parts would otherwise be left behind
+     */
+    readonly abortOnFailure?: boolean;
+
+    /**
+     * Sets up a file before its chunks are uploaded (e.g. creates the upload)
+     * May resolve with the complete list of chunk indexes the server holds;
+     * the list is authoritative, so chunks missing from it are uploaded even
+     * if local resume state recorded them as done
+     */
+    prepareFile?(context: TransportPrepareContext): Promise<number[] | void>;
+
+    /** Uploads a single chunk */
+    uploadChunk(context: TransportChunkContext): Promise<void>;
+
+    /** Completes the file once all chunks are uploaded, resolving with the server's payload */
+    finalizeFile(context: TransportFinalizeContext): Promise<unknown>;
+
+    /** Lists chunk indexes the server already holds (used when checkServerStatus is enabled) */
+    getUploadedChunks?(context: TransportFileContext): Promise<number[]>;
+
+    /**
+     * Lists which of the given chunk hashes the server already holds, from
+     * any file (needed for dedup mode)
+     */
+    getStoredHashes?(context: TransportHashesContext): Promise<string[]>;
+
+    /** Discards a partially uploaded file on the server (used by cancel(), and on failure with abortOnFailure) */
+    abortFile?(context: TransportFileContext): Promise<void>;
+}
+
+/**
+ * File data that does not come from a DOM `File`: a file path, an
+ * `fs.FileHandle`, a Buffer or a stream
+ * Created with the helpers in TurboPushInput.ts
+ *
+ * @interface UploadSource
+ */
+interface UploadSource {
+    /** Name of the file including extension */
+    readonly name: string;
+
+    /** Size in bytes; for a stream of unknown length, the bytes read so far */
+    readonly size: number;
+
+    /** MIME type, or an empty string if unknown */
+    readonly type: string;
+
+    /** Modification time in milliseconds since epoch */
+    readonly lastModified: number;
+
+    /** False until a stream of unknown length has ended */
+    readonly sizeKnown: boolean;
+
+    /** True if the bytes can only be read once, in order (streams) */
+    readonly sequential: boolean;
+
+    /**
+     * Reads the bytes from `start` to `end` (exclusive)
+     * Returns fewer bytes only when a stream ends first
+     */
+    read(start: number, end: number): Promise<Blob>;
+}
+
+/**
+ * A file to upload: a DOM `File` or an UploadSource
+ */
+type UploadFile = File | UploadSource;
+
+/**
+ * Source of online/offline state
+ * Built-ins live in TurboPushConnectivity.ts
+ *
+ * @interface ConnectivitySource
+ */
+interface ConnectivitySource {
+    /** Checks whether the network is reachable now */
+    isOnline(): Promise<boolean>;
+
+    /** Calls `listener` whenever connectivity changes; returns an unsubscribe function */
+    subscribe(listener: (online: boolean) => void): () => void;
+}
+
+/**
+ * Result passed to onFileComplete for a successfully uploaded file
+ *
+ * @interface FileUploadResult
+ */
+interface FileUploadResult {
+    /** Unique identifier for this file upload session */
+    fileId: string;
+
+    /** Name of the file including extension */
+    fileName: string;
+
+    /** Total file size in bytes */
+    fileSize: number;
+
+    /** Whole-file digest, if a checksum algorithm is configured */
+    checksum?: string;
+
+    /** Name of the checksum algorithm used */
+    checksumAlgorithm?: string;
+
+    /** Bytes not sent because the server already held their chunks (dedup mode) */
+    dedupedBytes?: number;
+
+    /**
+     * Header needed to decrypt the stored file (encrypted uploads)
+     * Keep it with the file, e.g. next to its URL in your database
+     */
+    encryption?: EncryptionHeader;
+
+    /**
+     * Payload of the server's finalize response, e.g. the `data` object of
+     * TurboPushEndpoint.php with the stored (possibly renamed) `fileName`
+     */
+    response?: unknown;
+}
+
+/**
+ * Handle for a queued file, returned by addFile()
+ *
+ * @interface UploadHandle
+ */
+interface UploadHandle {
+    /** Unique identifier for this file upload session */
+    fileId: string;
+
+    /** The file being uploaded */
+    file: UploadFile;
+
+    /**
+     * Resolves with the upload result once the file completes; rejects if
+     * the file fails, or is cancelled or removed
+     */
+    promise: Promise<FileUploadResult>;
+}
+
+/**
+ * Chunk passed to chunk events
+ *
+ * @interface ChunkEvent
+ */
+interface ChunkEvent {
+    /** Zero-based index of the chunk */
+    index: number;
+
+    /** Starting byte position in the file */
+    start: number;
+
+    /** Ending byte position in the file (exclusive) */
+    end: number;
+
+    /** Attempt number, 1 for the first try */
+    attempt: number;
+}
+
+/**
+ * Events emitted by TurboPush, with their listener signatures
+ * Listen with on(), once() and off()
+ *
+ * @interface TurboPushEvents
+ */
+interface TurboPushEvents {
+    /** A file was added to the queue */
+    fileAdded: (fileName: string, fileId: string) => void;
+
+    /** A file violated a validation rule and was not (or is no longer) queued */
+    fileRejected: (fileName: string, fileId: string, error: FileValidationError) => void;
+
+    /** A file started uploading */
+    fileStarted: (fileName: string, fileId: string) => void;
+
+    /** A chunk request is being sent */
+    chunkStarted: (fileName: string, fileId: string, chunk: ChunkEvent) => void;
+
+    /** A chunk was accepted by the server */
+    chunkUploaded: (fileName: string, fileId: string, chunk: ChunkEvent) => void;
+
+    /** A chunk failed and will be retried */
+    chunkRetry: (fileName: string, fileId: string, chunk: ChunkEvent, error: TurboPushError) => void;
+
+    /** Upload progress changed for any file */
+    progress: (progress: UploadProgress[]) => void;
+
+    /** All chunks of a file are uploaded and the server is merging them */
+    finalizing: (fileName: string, fileId: string) => void;
+
+    /** A file finished uploading successfully */
+    fileComplete: (fileName: string, fileId: string, result: FileUploadResult) => void;
+
+    /** A file failed to upload after all retries */
+    error: (error: TurboPushError, fileName: string, fileId: string) => void;
+
+    /** All files have finished (successfully or with errors) */
+    complete: (stats: UploadStats) => void;
+
+    /** Uploads were paused; `fileId` is set when a single file was paused */
+    paused: (fileId?: string) => void;
+
+    /** Uploads were resumed; `fileId` is set when a single file was resumed */
+    resumed: (fileId?: string) => void;
+
+    /** Uploads were cancelled; `fileId` is set when a single file was cancelled */
+    cancelled: (fileId?: string) => void;
+
+    /** The network dropped; uploads wait for it to come back */
+    offline: () => void;
+
+    /** The network came back; uploads continue */
+    online: () => void;
+
+    /** Consecutive failures opened the circuit breaker and paused all uploads */
+    circuitOpened: (error: TurboPushError, cooldown: number) => void;
+}
+
+/**
+ * Per-file options for addFile()
+ *
+ * @interface AddFileOptions
+ */
+interface AddFileOptions {
+    /**
+     * Scheduling priority, higher goes first (default: 0)
+     * Only used when `fileOrder` is 'priority'
+     * @default 0
+     */
+    priority?: number;
+
+    /**
+     * Metadata stored with the file on the server, e.g. `{ albumId, tags }`
+     * Must be JSON-serializable. Sent with the first chunk and the finalize
+     * request; TurboPushEndpoint.php echoes it in the finalize response
+     */
+    metadata?: Record<string, unknown>;
+}
+
+/**
+ * Real-time progress information for a single file upload
+ *
+ * @interface UploadProgress
+ */
+interface UploadProgress {
+    /** The file being uploaded */
+    file: UploadFile;
+
+    /** Name of the file including extension */
+    fileName: string;
+
+    /** Unique identifier for this file upload session */
+    fileId: string;
+
+    /** Total file size in bytes; for a stream of unknown length, the bytes read so far */
+    totalSize: number;
+
+    /** Number of bytes uploaded so far, including bytes skipped by dedup */
+    uploadedSize: number;
+
+    /** Bytes the server already held and that were not sent (dedup mode) */
+    dedupedBytes?: number;
+
+    /** Upload completion percentage (0-100); 0 until a stream of unknown length ends */
+    percentage: number;
+
+    /** Current upload speed in bytes per second */
+    speed: number;
+
+    /** Estimated remaining time in seconds (0 if speed or the file size is unknown) */
+    remainingTime: number;
+
+    /** Current status of the file upload */
+    status: 'pending' | 'processing' | 'uploading' | 'completed' | 'failed' | 'paused' | 'cancelled' | 'offline';
+
+    /** Error message if status is 'failed' */
+    error?: string;
+
+    /** Payload of the server's finalize response, once completed */
+    response?: unknown;
+}
+
+/**
+ * Internal chunk metadata and state
+ *
+ * @interface ChunkInfo
+ * @private
+ */
+interface ChunkInfo {
+    /** Zero-based index of this chunk */
+    index: number;
+
+    /** Starting byte position in the file */
+    start: number;
+
+    /** Ending byte position in the file (exclusive) */
+    end: number;
+
+    /**
+     * The actual chunk data as a Blob
+     * Read on demand for UploadSources and released once the chunk is uploaded
+     */
+    blob?: Blob;
+
+    /** Number of upload attempts made for this chunk */
+    attempts: number;
+
+    /** Whether this chunk has been successfully uploaded */
+    uploaded: boolean;
+
+    /** Bytes sent by the attempt in progress, already counted in the statistics */
+    bytesSent?: number;
+
+    /** Digest of the chunk data, computed on first upload attempt */
+    checksum?: string;
+
+    /** SHA-256 of the chunk data, set for content-defined chunks (dedup mode) */
+    hash?: string;
+
+    /** Delay before the next attempt, set when a retry is scheduled */
+    retryDelay?: number;
+}
+
+/**
+ * Upload session statistics
+ *
+ * @interface UploadStats
+ */
+interface UploadStats {
+    /** Total number of files queued for upload */
+    totalFiles: number;
+
+    /** Number of files successfully uploaded */
+    completedFiles: number;
+
+    /** Number of files that failed to upload */
+    failedFiles: number;
+
+    /** Total size of all files in bytes */
+    totalBytes: number;
+
+    /** Total bytes uploaded across all files, including bytes skipped by dedup */
+    uploadedBytes: number;
+
+    /** Bytes not sent because the server already held their chunks (dedup mode) */
+    dedupedBytes?: number;
+
+    /**
+     * Chunk bytes sent in accepted chunk requests, after compression
+     * Equals the file bytes sent when compression is off
+     */
+    wireBytes: number;
+
+    /** Timestamp when upload session started */
+    startTime: number;
+
+    /** Timestamp when upload session ended (undefined if in progress) */
+    endTime?: number;
+
+    /** Total duration of upload session in seconds */
+    duration?: number;
+
+    /** Average upload speed in bytes per second */
+    averageSpeed?: number;
+}
+
+/**
+ * TurboPush - Main file upload class
+ *
+ * Manages chunked file uploads with parallel processing, retry logic,
+ * and comprehensive progress tracking.
+ *
+ * @class TurboPush
+ * @since 1.0.0
+ */
+export class TurboPush {
+    /** Validated and normalized configuration with all defaults applied */
+    private config: ResolvedConfig;
+
+    /** Map of fileId -> File or UploadSource for all queued files */
+    private files: Map<string, UploadFile> = new Map();
+
+    /** Map of fileId -> upload progress for tracking */
+    private fileProgress: Map<string, UploadProgress> = new Map();
+
+    /** Map of fileId -> array of chunk metadata */
+    private fileChunks: Map<string, ChunkInfo[]> = new Map();
+
+    /** Map of fileId -> chunk index -> AbortController for cancellation */
+    private activeUploads: Map<string, Map<number, AbortController>> = new Map();
+
+    /** Map of fileId -> running upload, so a file is never uploaded twice at once */
+    private runningUploads: Map<string, Promise<void>> = new Map();
+
+    /** Map of fileId -> restarts the chunk loop of a paused or cancelled file */
+    private fileWakers: Map<string, () => void> = new Map();
+
+    /** IDs of files paused with pauseFile() */
+    private pausedFiles: Set<string> = new Set();
+
+    /** Connection slots shared by all files */
+    private scheduler: UploadScheduler;
+
+    /** Bandwidth cap shared by all files */
+    private throttle: BandwidthThrottle;
+
+    /** Map of fileId -> position in the queue (lower goes first) */
+    private fileOrder: Map<string, number> = new Map();
+
+    /** Map of fileId -> scheduling priority */
+    private filePriorities: Map<string, number> = new Map();
+
+    /** Map of fileId -> metadata passed to addFile() */
+    private fileMetadata: Map<string, Record<string, unknown>> = new Map();
+
+    /** Position assigned to the next added file */
+    private nextFileOrder: number = 0;
+
+    /** Aggregate statistics for the entire upload session */
+    private stats: UploadStats;
+
+    /** Map of fileId -> settles the promise of the file's upload handle */
+    private fileResults: Map<string, {
+        resolve: (result: FileUploadResult) => void;
+        reject: (error: Error) => void;
+    }> = new Map();
+
+    /** Map of fileId -> pending custom validators */
+    private fileValidations: Map<string, Promise<void>> = new Map();
+
+    /** Map of fileId -> whole-file digest of a stream, fed as its chunks are read */
+    private streamHashers: Map<string, ChecksumHasher> = new Map();
+
+    /** Listeners registered with on(), once() and the on* methods */
+    private events: TypedEventEmitter<TurboPushEvents> = new TypedEventEmitter();
+
+    /** Whether uploads are currently paused */
+    private isPaused: boolean = false;
+
+    /** Whether the connectivity source reported the network as down */
+    private isOffline: boolean = false;
+
+    /** Source of online/offline state, if detection is enabled */
+    private connectivity?: ConnectivitySource;
+
+    /** Resolved checksum algorithm, if integrity verification is enabled */
+    private checksumAlgorithm?: ChecksumAlgorithm;
+
+    /** Sizes lazily created chunks, if adaptive chunk sizing is enabled */
+    private chunkSizer?: AdaptiveChunkSizer;
+
+    /** Content-defined chunk size bounds, if dedup is enabled */
+    private dedupOptions?: Required<DedupOptions>;
+
+    /** Resolved compression settings, if chunk compression is enabled */
+    private compressionOptions?: Required<CompressionOptions>;
+
+    /** Map of fileId -> data key and nonce prefix, if encryption is enabled */
+    private fileEncryptions: Map<string, FileEncryption> = new Map();
+
+    /** Map of fileId -> whether the `preprocess` transforms changed the file, once they have run */
+    private processedFiles: Map<string, boolean> = new Map();
+
+    /** Settles when the file being preprocessed is done; files are processed one at a time */
+    private processingQueue: Promise<void> = Promise.resolve();
+
+    /** Counts consecutive failures, if the circuit breaker is enabled */
+    private circuitBreaker?: CircuitBreaker;
+
+    /** Resumes uploads once an open circuit has cooled down */
+    private circuitTimer?: ReturnType<typeof setTimeout>;
+
+    /**
+     * Creates a new TurboPush instance
+     *
+     * @param {TurboPushConfig} config - Configuration options
+     * @throws {Error} If endpoint is not provided
+     *
+     * @example
+     * ```typescript
+     * const uploader = new TurboPush({
+     *     endpoint: '/api/upload',
+     *     chunkSize: 2 * 1024 * 1024, // 2MB chunks
+     *     maxConcurrentUploads: 5,
+     *     maxRetries: 3
+     * });
+     * ```
+     */
+    constructor(config: TurboPushConfig) {
+        // Validate required configuration
+        if (!config.endpoint) {
+            throw new Error('TurboPush: endpoint is required');
+        }
+
+        // Apply defaults and constraints to configuration
+        this.config = {
+            endpoint: config.endpoint,
+            chunkSize: config.chunkSize || 1024 * 1024, // Default 1MB
+            adaptiveChunkSize: config.adaptiveChunkSize || false,
+            maxConcurrentUploads: Math.max(1, Math.min(10, config.maxConcurrentUploads || 3)), // Clamp 1-10
+            maxConcurrentUploadsPerFile: Math.max(1, Math.min(10,
+                config.maxConcurrentUploadsPerFile || config.maxConcurrentUploads || 3
+            )),
+            fileOrder: config.fileOrder || 'fifo',
+            maxBytesPerSecond: Math.max(0, config.maxBytesPerSecond || 0), // 0 = unlimited
+            maxRetries: Math.max(0, config.maxRetries ?? 3), // Minimum 0
+            retryDelay: Math.max(100, config.retryDelay || 1000), // Minimum 100ms
+            retryPolicy: config.retryPolicy || {},
+            shouldRetry: config.shouldRetry || isRetryable,
+            timeout: Math.max(5000, config.timeout || 30000), // Minimum 5s
+            headers: config.headers || {},
+            withCredentials: config.withCredentials || false,
+            stateStore: config.stateStore,
+            checkServerStatus: config.checkServerStatus || false,
+            dedup: config.dedup,
+            compression: config.compression,
+            encryption: config.encryption,
+            checksum: config.checksum,
+            transport: config.transport || new HttpTransport(),
+            validation: config.validation,
+            preprocess: config.preprocess,
+            formFields: config.formFields
+        };
+
+        if (config.checksum) {
+            this.checksumAlgorithm = resolveChecksumAlgorithm(config.checksum);
+        }
+
+        if (config.adaptiveChunkSize) {
+            if (this.config.transport.requiresFixedChunks) {
+                throw new Error('TurboPush: adaptiveChunkSize cannot be combined with this transport, set chunkSize instead');
+            }
+            this.chunkSizer = new AdaptiveChunkSizer(
+                config.adaptiveChunkSize === true ? {} : config.adaptiveChunkSize
+            );
+        }
+
+        if (config.dedup) {
+            if (this.chunkSizer) {
+                throw new Error('TurboPush: dedup and adaptiveChunkSize cannot be combined');
+            }
+            if (!this.config.transport.getStoredHashes) {
+                throw new Error('TurboPush: dedup needs a transport with getStoredHashes(), such as HttpTransport');
+            }
+            this.dedupOptions = resolveDedupOptions(config.dedup === true ? {} : config.dedup, this.config.chunkSize);
+        }
+
+        if (config.compression) {
+            if (!this.config.transport.supportsCompression) {
+                throw new Error('TurboPush: compression needs a transport that supports it, such as HttpTransport');
+            }
+            this.compressionOptions = resolveCompressionOptions(config.compression);
+        }
+
+        if (config.encryption) {
+            if (!this.config.transport.supportsEncryption) {
+                throw new Error('TurboPush: encryption needs a transport that supports it, such as HttpTransport');
+            }
+            if (config.compression || config.dedup) {
+                throw new Error('TurboPush: encryption cannot be combined with compression or dedup');
+            }
+            if (typeof config.encryption.keyProvider !== 'function') {
+                throw new Error('TurboPush: encryption needs a keyProvider');
+            }
+        }
+
+        if (config.connectivity !== false) {
+            this.connectivity = config.connectivity ||
+                (BrowserConnectivity.isSupported() ? new BrowserConnectivity() : undefined);
+        }
+
+        if (config.retryPolicy?.circuitBreaker) {
+            this.circuitBreaker = new CircuitBreaker(config.retryPolicy.circuitBreaker.threshold);
+        }
+
+        this.scheduler = new UploadScheduler(
+            this.config.maxConcurrentUploads,
+            (a, b) => this.compareFiles(a, b)
+        );
+        this.throttle = new BandwidthThrottle(this.config.maxBytesPerSecond);
+
+        // Initialize statistics
+        this.stats = {
+            totalFiles: 0,
+            completedFiles: 0,
+            failedFiles: 0,
+            totalBytes: 0,
+            uploadedBytes: 0,
+            wireBytes: 0,
+            startTime: Date.now()
+        };
+    }
+
+    /**
+     * Adds a single file to the upload queue
+     * Generates a unique file ID and initializes progress tracking.
+     * Files violating the `validation` rules are not queued: the handle's
+     * promise rejects with a FileValidationError and `fileRejected` is emitted.
+     * Custom validators finish in the background and remove the file if they reject it
+     * Outside the browser, pass an UploadSource from TurboPushInput.ts instead of a File
+     *
+     * @param {UploadFile} file - The file to upload
+     * @param {AddFileOptions} [options] - Per-file options such as priority and metadata
+     * @returns {UploadHandle} Handle with the file ID and a promise for the upload result
+     *
+     * @example
+     * ```typescript
+     * const { promise } = uploader.addFile(fileInput.files[0]);
+     * uploader.addFile(urgentFile, { priority: 10 });
+     * uploader.addFile(photo, { metadata: { albumId: 42, tags: ['beach'] } });
+     * uploader.push();
+     *
+     * const result = await promise;
+     * console.log(result.response); // e.g. { fileName: 'photo_1700000000.jpg', ... }
+     *
+     * // Node.js
+     * uploader.addFile(await fromPath('/var/backups/db.tar.gz'));
+     * ```
+     */
+    public addFile(file: UploadFile, options: AddFileOptions = {}): UploadHandle {
+        const fileId = this.generateFileId(file);
+
+        const rules = this.config.validation;
+        const rejection = rules && checkFile(file, rules, this.getQueuedTotals());
+        if (rejection) {
+            const promise = Promise.reject<FileUploadResult>(rejection);
+            promise.catch(() => { /* Rejections only surface to callers awaiting the handle */ });
+
+            this.events.emit('fileRejected', file.name, fileId, rejection);
+            return { fileId, file, promise };
+        }
+
+        this.files.set(fileId, file);
+        this.fileOrder.set(fileId, this.nextFileOrder++);
+        this.filePriorities.set(fileId, options.priority ?? 0);
+        if (options.metadata) {
+            this.fileMetadata.set(fileId, options.metadata);
+        }
+
+        // Initialize progress tracking for this file
+        this.fileProgress.set(fileId, {
+            file,
+            fileName: file.name,
+            fileId,
+            totalSize: file.size,
+            uploadedSize: 0,
+            percentage: 0,
+            speed: 0,
+            remainingTime: 0,
+            status: 'pending'
+        });
+
+        // Update session statistics
+        this.stats.totalFiles++;
+        this.stats.totalBytes += file.size;
+
+        // Settled once the file completes, fails or is cancelled
+        const promise = new Promise<FileUploadResult>((resolve, reject) => {
+            this.fileResults.set(fileId, { resolve, reject });
+        });
+        promise.catch(() => { /* Rejections only surface to callers awaiting the handle */ });
+
+        this.events.emit('fileAdded', file.name, fileId);
+
+        if (rules?.validators?.length) {
+            this.fileValidations.set(fileId, runValidators(file, rules.validators).then(error => {
+                this.fileValidations.delete(fileId);
+                if (error && !this.isFileCancelled(fileId)) {
+                    this.rejectFile(fileId, error);
+                }
+            }));
+        }
+
+        return { fileId, file, promise };
+    }
+
+    /**
+     * Adds multiple files to the upload queue
+     * Use addFile() for a handle per file
+     *
+     * @param {UploadFile[] | FileList} files - Array or FileList of files to upload
+     * @param {AddFileOptions} [options] - Per-file options applied to every file
+     * @returns {TurboPush} This instance for method chaining
+     *
+     * @example
+     * ```typescript
+     * // From file input
+     * uploader.addFiles(fileInput.files);
+     *
+     * // From array
+     * uploader.addFiles([file1, file2, file3]);
+     * ```
+     */
+    public addFiles(files: UploadFile[] | FileList, options: AddFileOptions = {}): this {
+        Array.from(files).forEach(file => this.addFile(file, options));
+        return this;
+    }
+
+    /**
+     * Adds a listener for an event
+     * Any number of listeners can be added per event
+     *
+     * @param {string} event - Event name, see TurboPushEvents
+     * @param {Function} listener - Called with the event arguments
+     * @returns {Function} Disposer that removes the listener
+     *
+     * @example
+     * ```typescript
+     * const dispose = uploader.on('chunkRetry', (fileName, fileId, chunk, error) => {
+     *     console.warn(`Retrying chunk ${chunk.index} of ${fileName}: ${error.message}`);
+     * });
+     * // Later...
+     * dispose();
+     * ```
+     */
+    public on<E extends keyof TurboPushEvents>(event: E, listener: TurboPushEvents[E]): () => void {
+        return this.events.on(event, listener);
+    }
+
+    /**
+     * Adds a listener that is removed after its first call
+     *
+     * @param {string} event - Event name, see TurboPushEvents
+     * @param {Function} listener - Called with the event arguments
+     * @returns {Function} Disposer that removes the listener
+     *
+     * @example
+     * ```typescript
+     * uploader.once('complete', stats => console.log(`Done in ${stats.duration}s`));
+     * ```
+     */
+    public once<E extends keyof TurboPushEvents>(event: E, listener: TurboPushEvents[E]): () => void {
+        return this.events.once(event, listener);
+    }
+
+    /**
+     * Removes a listener added with on(), once() or an on* method
+     *
+     * @param {string} event - Event name, see TurboPushEvents
+     * @param {Function} listener - Listener to remove
+     * @returns {TurboPush} This instance for method chaining
+     *
+     * @example
+     * ```typescript
+     * uploader.off('progress', renderProgress);
+     * ```
+     */
+    public off<E extends keyof TurboPushEvents>(event: E, listener: TurboPushEvents[E]): this {
+        this.events.off(event, listener);
+        return this;
+    }
+
+    /**
+     * Registers a callback for progress updates
+     * Called whenever upload progress changes for any file.
+     * Shorthand for on('progress'); adds to previously registered callbacks
+     *
+     * @param {Function} callback - Callback receiving array of progress objects
+     * @returns {TurboPush} This instance for method chaining
+     *
+     * @example
+     * ```typescript
+     * uploader.onProgress((progress) => {
+     *     progress.forEach(p => {
+     *         console.log(`${p.fileName}: ${p.percentage}% at ${p.speed} B/s`);
+     *     });
+     * });
+     * ```
+     */
+    public onProgress(callback: (progress: UploadProgress[]) => void): this {
+        this.events.on('progress', callback);
+        return this;
+    }
+
+    /**
+     * Registers a callback for individual file completion
+     * Called when each file finishes uploading successfully.
+     * Shorthand for on('fileComplete')
+     *
+     * @param {Function} callback - Callback receiving fileName, fileId and the upload result
+     * @returns {TurboPush} This instance for method chaining
+     *
+     * @example
+     * ```typescript
+     * uploader.onFileComplete((fileName, fileId, result) => {
+     *     console.log(`Completed: ${fileName} (${result.checksum})`);
+     * });
+     * ```
+     */
+    public onFileComplete(callback: (fileName: string, fileId: string, result: FileUploadResult) => void): this {
+        this.events.on('fileComplete', callback);
+        return this;
+    }
+
+    /**
+     * Registers a callback for upload session completion
+     * Called once when all files have finished (successfully or with errors).
+     * Shorthand for on('complete')
+     *
+     * @param {Function} callback - Callback receiving final statistics
+     * @returns {TurboPush} This instance for method chaining
+     *
+     * @example
+     * ```typescript
+     * uploader.onComplete((stats) => {
+     *     console.log(`Uploaded ${stats.completedFiles}/${stats.totalFiles} files`);
+     *     console.log(`Total time: ${stats.duration}s`);
+     * });
+     * ```
+     */
+    public onComplete(callback: (stats: UploadStats) => void): this {
+        this.events.on('complete', callback);
+        return this;
+    }
+
+    /**
+     * Registers a callback for error handling
+     * Called whenever a file fails to upload after all retries, or at once
+     * on an error the `shouldRetry` policy does not retry.
+     * Shorthand for on('error')
+     *
+     * @param {Function} callback - Callback receiving error, fileName, and fileId
+     * @returns {TurboPush} This instance for method chaining
+     *
+     * @example
+     * ```typescript
+     * uploader.onError((error, fileName, fileId) => {
+     *     console.error(`Failed to upload ${fileName}: ${error.message}`);
+     * });
+     * ```
+     */
+    public onError(callback: (error: TurboPushError, fileName: string, fileId: string) => void): this {
+        this.events.on('error', callback);
+        return this;
+    }
+
+    /**
+     * Updates the chunk size for future uploads
+     *
+     * @param {number} bytes - New chunk size in bytes (minimum 64KB)
+     * @returns {TurboPush} This instance for method chaining
+     *
+     * @example
+     * ```typescript
+     * uploader.setChunkSize(5 * 1024 * 1024); // 5MB chunks
+     * ```
+     */
+    public setChunkSize(bytes: number): this {
+        this.config.chunkSize = Math.max(64 * 1024, bytes); // Minimum 64KB
+        return this;
+    }
+
+    /**
+     * Updates the maximum number of concurrent uploads across all files
+     * Takes effect immediately, also for uploads in progress
+     *
+     * @param {number} count - Number of concurrent uploads (1-10)
+     * @returns {TurboPush} This instance for method chaining
+     *
+     * @example
+     * ```typescript
+     * uploader.setMaxConcurrentUploads(8);
+     * ```
+     */
+    public setMaxConcurrentUploads(count: number): this {
+        this.config.maxConcurrentUploads = Math.max(1, Math.min(10, count));
+        this.scheduler.setLimit(this.config.maxConcurrentUploads);
+        return this;
+    }
+
+    /**
+     * Updates the upload bandwidth cap
+     * Takes effect immediately, also for chunks waiting to be sent
+     *
+     * @param {number} bytesPerSecond - Maximum bytes per second across all files, 0 for unlimited
+     * @returns {TurboPush} This instance for method chaining
+     *
+     * @example
+     * ```typescript
+     * uploader.setMaxBytesPerSecond(512 * 1024); // 512KB/s
+     * ```
+     */
+    public setMaxBytesPerSecond(bytesPerSecond: number): this {
+        this.config.maxBytesPerSecond = Math.max(0, bytesPerSecond);
+        this.throttle.setRate(this.config.maxBytesPerSecond);
+        return this;
+    }
+
+    /**
+     * Updates the maximum retry attempts for failed chunks
+     *
+     * @param {number} count - Number of retry attempts (minimum 0)
+     * @returns {TurboPush} This instance for method chaining
+     *
+     * @example
+     * ```typescript
+     * uploader.setMaxRetries(5);
+     * ```
+     */
+    public setMaxRetries(count: number): this {
+        this.config.maxRetries = Math.max(0, count);
+        return this;
+    }
+
+    /**
+     * Starts the upload process for all queued files
+     * Creates chunks and uploads them in parallel according to configuration
+     *
+     * @returns {Promise<UploadStats>} Promise resolving to final upload statistics
+     * @throws {Error} If no files are queued
+     *
+     * @example
+     * ```typescript
+     * const stats = await uploader.push();
+     * console.log(`Uploaded ${stats.completedFiles} files in ${stats.duration}s`);
+     * ```
+     */
+    public async push(): Promise<UploadStats> {
+        // Files rejected by custom validators leave the queue before uploading
+        await Promise.all(this.fileValidations.values());
+
+        if (this.files.size === 0) {
+            throw new Error('TurboPush: No files to upload');
+        }
+
+        this.stats.startTime = Date.now();
+        this.isPaused = false;
+
+        // Wait for the network instead of failing while it is down
+        const unwatch = await this.watchConnectivity();
+
+        // Cancelled files stay listed until removed but are not uploaded
+        const fileIds = Array.from(this.files.keys())
+            .filter(fileId => !this.isFileCancelled(fileId));
+
+        // Create chunks for all queued files (unless already uploading);
+        // files still to be preprocessed are chunked once that is done
+        await Promise.all(fileIds
+            .filter(fileId => !this.runningUploads.has(fileId) && !this.needsPreprocessing(fileId))
+            .map(fileId => this.createFileChunks(fileId)));
+
+        // Start uploading all files concurrently
+        const uploadPromises = fileIds.map(fileId => this.startFile(fileId));
+
+        // Wait for all uploads to complete (successful or failed)
+        await Promise.allSettled(uploadPromises);
+        unwatch();
+
+        // Calculate final statistics
+        this.stats.endTime = Date.now();
+        this.stats.duration = (this.stats.endTime - this.stats.startTime) / 1000;
+        this.stats.averageSpeed = this.stats.totalBytes / (this.stats.duration || 1);
+
+        // Notify completion listeners
+        this.events.emit('complete', this.stats);
+
+        return this.stats;
+    }
+
+    /**
+     * Alias for push() method
+     * Starts the upload process
+     *
+     * @returns {Promise<UploadStats>} Promise resolving to final upload statistics
+     */
+    public async upload(): Promise<UploadStats> {
+        return this.push();
+    }
+
+    /**
+     * Pauses all active uploads
+     * Aborts all in-progress requests and marks files as paused
+     * Files can be resumed later using resume()
+     *
+     * @returns {void}
+     *
+     * @example
+     * ```typescript
+     * uploader.pause();
+     * // Later...
+     * await uploader.resume();
+     * ```
+     */
+    public pause(): void {
+        this.haltUploads();
+        this.events.emit('paused');
+    }
+
+    /**
+     * Resumes paused uploads
+     * Continues uploading files that were paused or pending, except files
+     * paused individually with pauseFile()
+     *
+     * @returns {Promise<void>} Promise that resolves when resume is complete
+     *
+     * @example
+     * ```typescript
+     * uploader.pause();
+     * // Later...
+     * await uploader.resume();
+     * ```
+     */
+    public async resume(): Promise<void> {
+        this.clearCircuitTimer();
+        this.isPaused = false;
+        this.events.emit('resumed');
+
+        // Find all files that need to be resumed
+        const filesToResume = Array.from(this.fileProgress.entries())
+            .filter(([fileId, progress]) =>
+                (progress.status === 'paused' || progress.status === 'pending') &&
+                !this.pausedFiles.has(fileId)
+            )
+            .map(([fileId, _]) => fileId);
+
+        // Resume uploading
+        const uploadPromises = filesToResume.map(fileId => this.continueFile(fileId));
+        await Promise.allSettled(uploadPromises);
+    }
+
+    /**
+     * Cancels all uploads and clears the queue
+     * Aborts all active requests and removes all queued files
+     * Cannot be resumed after cancellation
+     *
+     * @returns {void}
+     *
+     * @example
+     * ```typescript
+     * uploader.cancel(); // Completely stop and clear everything
+     * ```
+     */
+    public cancel(): void {
+        this.haltUploads();
+
+        // Cancelled uploads must not be resumed by a later session
+        for (const [fileId, progress] of this.fileProgress) {
+            this.clearState(fileId);
+            this.settleFile(fileId, new AbortedError('TurboPush: upload cancelled'));
+
+            // Let the server discard partial data for unfinished files
+            if (progress.status !== 'completed') {
+                this.abortOnServer(fileId);
+            }
+        }
+
+        this.files.clear();
+        this.fileProgress.clear();
+        this.fileChunks.clear();
+        this.streamHashers.clear();
+        this.fileEncryptions.clear();
+        this.processedFiles.clear();
+        this.fileOrder.clear();
+        this.filePriorities.clear();
+        this.fileMetadata.clear();
+        this.pausedFiles.clear();
+
+        // Let the chunk loops of paused files notice the cancellation
+        this.wakeFiles();
+        this.events.emit('cancelled');
+    }
+
+    /**
+     * Pauses a single file
+     * Aborts its in-progress requests; other files keep uploading.
+     * Unknown file IDs are ignored
+     *
+     * @param {string} fileId - Unique identifier for the file
+     * @returns {void}
+     *
+     * @example
+     * ```typescript
+     * uploader.pauseFile(fileId);
+     * // Later...
+     * await uploader.resumeFile(fileId);
+     * ```
+     */
+    public pauseFile(fileId: string): void {
+        const progress = this.fileProgress.get(fileId);
+        if (!progress || this.pausedFiles.has(fileId)) return;
+
+        this.pausedFiles.add(fileId);
+        this.abortFileRequests(fileId);
+
+        if (progress.status === 'uploading' || progress.status === 'pending' ||
+            progress.status === 'processing' || progress.status === 'offline') {
+            progress.status = 'paused';
+        }
+        this.events.emit('paused', fileId);
+    }
+
+    /**
+     * Resumes a single paused file
+     * While pause() is in effect the file stays paused until resume()
+     *
+     * @param {string} fileId - Unique identifier for the file
+     * @returns {Promise<void>} Promise that resolves when the file finishes uploading
+     * @throws {Error} If the file fails to upload
+     *
+     * @example
+     * ```typescript
+     * await uploader.resumeFile(fileId);
+     * ```
+     */
+    public async resumeFile(fileId: string): Promise<void> {
+        if (this.pausedFiles.delete(fileId) && !this.isPaused) {
+            this.events.emit('resumed', fileId);
+        }
+        await this.continueFile(fileId);
+    }
+
+    /**
+     * Continues a paused or pending file that is not paused individually
+     *
+     * @private
+     * @param {string} fileId - Unique identifier for the file
+     * @returns {Promise<void>} Promise that resolves when the file finishes uploading
+     * @throws {Error} If the file fails to upload
+     */
+    private async continueFile(fileId: string): Promise<void> {
+        const progress = this.fileProgress.get(fileId);
+        if (!progress || this.isPaused || this.pausedFiles.has(fileId) ||
+            (progress.status !== 'paused' && progress.status !== 'pending')) {
+            return;
+        }
+
+        // Wake the suspended chunk loop, or start the file if it never ran
+        if (this.runningUploads.has(fileId)) {
+            progress.status = this.runningStatus(fileId);
+            this.fileWakers.get(fileId)?.();
+        }
+        await this.startFile(fileId);
+    }
+
+    /**
+     * Cancels a single file
+     * Aborts its requests, discards partial data on the server and its
+     * resume state. The file stays in getProgress() with status 'cancelled'
+     * but no longer counts towards the statistics. Completed and unknown
+     * files are ignored
+     *
+     * @param {string} fileId - Unique identifier for the file
+     * @returns {void}
+     *
+     * @example
+     * ```typescript
+     * uploader.cancelFile(fileId);
+     * ```
+     */
+    public cancelFile(fileId: string): void {
+        const progress = this.fileProgress.get(fileId);
+        if (!progress || progress.status === 'completed' || progress.status === 'cancelled') return;
+
+        this.discountFile(progress);
+        this.stopFile(fileId);
+
+        progress.status = 'cancelled';
+        progress.uploadedSize = 0;
+        progress.percentage = 0;
+        progress.speed = 0;
+        progress.remainingTime = 0;
+
+        this.fileWakers.get(fileId)?.();
+        this.settleFile(fileId, new AbortedError('TurboPush: upload cancelled'));
+        this.events.emit('cancelled', fileId);
+    }
+
+    /**
+     * Removes a file from the queue
+     * Unfinished uploads are cancelled first (see cancelFile()). The file
+     * disappears from getProgress() and the statistics
+     *
+     * @param {string} fileId - Unique identifier for the file
+     * @returns {void}
+     *
+     * @example
+     * ```typescript
+     * uploader.removeFile(fileId);
+     * ```
+     */
+    public removeFile(fileId: string): void {
+        const progress = this.fileProgress.get(fileId);
+        if (!progress) return;
+
+        if (progress.status !== 'cancelled') {
+            this.discountFile(progress);
+        }
+        if (progress.status !== 'completed' && progress.status !== 'cancelled') {
+            this.stopFile(fileId);
+        }
+
+        this.files.delete(fileId);
+        this.fileProgress.delete(fileId);
+        this.fileChunks.delete(fileId);
+        this.streamHashers.delete(fileId);
+        this.fileEncryptions.delete(fileId);
+        this.processedFiles.delete(fileId);
+        this.fileOrder.delete(fileId);
+        this.filePriorities.delete(fileId);
+        this.fileMetadata.delete(fileId);
+        this.pausedFiles.delete(fileId);
+
+        this.fileWakers.get(fileId)?.();
+        this.settleFile(fileId, new AbortedError('TurboPush: file removed'));
+    }
+
+    /**
+     * Changes the scheduling priority of a file (higher goes first)
+     * Only used when `fileOrder` is 'priority'; applies to the file's next requests
+     *
+     * @param {string} fileId - Unique identifier for the file
+     * @param {number} priority - New priority
+     * @returns {TurboPush} This instance for method chaining
+     *
+     * @example
+     * ```typescript
+     * uploader.setPriority(fileId, 10);
+     * ```
+     */
+    public setPriority(fileId: string, priority: number): this {
+        if (this.files.has(fileId)) {
+            this.filePriorities.set(fileId, priority);
+        }
+        return this;
+    }
+
+    /**
+     * Moves a file to the front of the queue
+     * With 'fifo' order the file gets the next free connections; with
+     * 'priority' it goes first among files of the same priority
+     *
+     * @param {string} fileId - Unique identifier for the file
+     * @returns {TurboPush} This instance for method chaining
+     *
+     * @example
+     * ```typescript
+     * uploader.moveToFront(fileId);
+     * ```
+     */
+    public moveToFront(fileId: string): this {
+        if (this.files.has(fileId)) {
+            this.fileOrder.set(fileId, Math.min(0, ...this.fileOrder.values()) - 1);
+        }
+        return this;
+    }
+
+    /**
+     * Gets current upload statistics
+     * Returns a copy of the statistics object
+     *
+     * @returns {UploadStats} Current upload statistics
+     *
+     * @example
+     * ```typescript
+     * const stats = uploader.getStats();
+     * console.log(`Progress: ${stats.uploadedBytes}/${stats.totalBytes} bytes`);
+     * ```
+     */
+    public getStats(): UploadStats {
+        return { ...this.stats };
+    }
+
+    /**
+     * Gets progress information for all files
+     *
+     * @returns {UploadProgress[]} Array of progress objects for all files
+     *
+     * @example
+     * ```typescript
+     * const progress = uploader.getProgress();
+     * progress.forEach(p => {
+     *     console.log(`${p.fileName}: ${p.percentage}%`);
+     * });
+     * ```
+     */
+    public getProgress(): UploadProgress[] {
+        return Array.from(this.fileProgress.values());
+    }
+
+    /**
+     * Gets progress information for a specific file by name
+     *
+     * @param {string} fileName - Name of the file to get progress for
+     * @returns {UploadProgress | undefined} Progress object or undefined if not found
+     *
+     * @example
+     * ```typescript
+     * const progress = uploader.getFileProgress('document.pdf');
+     * if (progress) {
+     *     console.log(`${progress.percentage}% complete`);
+     * }
+     * ```
+     */
+    public getFileProgress(fileName: string): UploadProgress | undefined {
+        for (const progress of this.fileProgress.values()) {
+            if (progress.fileName === fileName) {
+                return progress;
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Checks if uploads are currently paused
+     *
+     * @returns {boolean} True if paused, false otherwise
+     *
+     * @example
+     * ```typescript
+     * if (uploader.isPausedState()) {
+     *     console.log('Uploads are paused');
+     * }
+     * ```
+     */
+    public isPausedState(): boolean {
+        return this.isPaused;
+    }
+
+    /**
+     * Checks if uploads are waiting for the network to come back
+     *
+     * @returns {boolean} True if the connectivity source reports offline
+     *
+     * @example
+     * ```typescript
+     * if (uploader.isOfflineState()) {
+     *     console.log('Waiting for the connection');
+     * }
+     * ```
+     */
+    public isOfflineState(): boolean {
+        return this.isOffline;
+    }
+
+    /**
+     * Gets the number of files currently in the queue
+     *
+     * @returns {number} Number of queued files
+     *
+     * @example
+     * ```typescript
+     * console.log(`${uploader.getQueueSize()} files queued`);
+     * ```
+     */
+    public getQueueSize(): number {
+        return this.files.size;
+    }
+
+    /**
+     * Uploads a single file by uploading all its chunks
+     * Handles progress tracking, error handling, and finalization
+     *
+     * @private
+     * @param {string} fileId - Unique identifier for the file
+     * @returns {Promise<void>} Promise that resolves when file upload completes
+     * @throws {Error} If file is not found or upload fails
+     */
+    private async uploadFile(fileId: string): Promise<void> {
+        // Files resumed before push() may still be validating
+        const validation = this.fileValidations.get(fileId);
+        if (validation) {
+            await validation;
+            if (!this.files.has(fileId)) return;
+        }
+
+        // Files are split once preprocessed; files resumed before push() have not been split yet
+        if (this.needsPreprocessing(fileId)) {
+            await this.preprocessFile(fileId);
+            if (this.isFileCancelled(fileId)) return;
+        }
+        if (this.files.has(fileId) && !this.fileChunks.has(fileId)) {
+            await this.createFileChunks(fileId);
+        }
+
+        const file = this.files.get(fileId);
+        const chunks = this.fileChunks.get(fileId);
+        const progress = this.fileProgress.get(fileId);
+
+        if (!file || !chunks || !progress) {
+            throw new Error(`TurboPush: File not found: ${fileId}`);
+        }
+
+        progress.status = this.runningStatus(fileId);
+        const startTime = Date.now();
+        let lastUpdate = startTime;
+        let lastUploadedSize = progress.uploadedSize;
+        this.events.emit('fileStarted', file.name, fileId);
+
+        try {
+            // Dedup mode: cut the file where its content says so, then skip
+            // chunks the server holds from any upload
+            const dedup = this.usesDedup(file);
+            if (dedup && chunks.length === 0) {
+                await this.createContentChunks(fileId, file, chunks);
+                if (this.isFileCancelled(fileId)) return;
+            }
+
+            // Let the transport set up the file, then skip chunks the
+            // server already holds
+            await this.prepareEncryption(fileId);
+            await this.prepareFile(fileId, chunks);
+            if (dedup) {
+                await this.skipStoredChunks(fileId, chunks);
+            } else if (this.config.checkServerStatus && this.canResume(fileId)) {
+                await this.restoreServerStatus(fileId, chunks);
+            }
+
+            // Upload all chunks with progress tracking
+            await this.uploadChunksInParallel(fileId, chunks, () => {
+                // Calculate current progress (chunk sizes may vary), including
+                // bytes already sent of chunks in flight
+                progress.uploadedSize = chunks.reduce((total, chunk) =>
+                    total + (chunk.uploaded ? chunk.end - chunk.start : chunk.bytesSent ?? 0), 0);
+                progress.percentage = isSizeKnown(file) ? (progress.uploadedSize / file.size) * 100 : 0;
+
+                // Calculate speed and remaining time (throttled to every 100ms)
+                const now = Date.now();
+                const timeDiff = (now - lastUpdate) / 1000;
+
+                if (timeDiff > 0.1) {
+                    const sizeDiff = progress.uploadedSize - lastUploadedSize;
+                    progress.speed = Math.max(0, sizeDiff / timeDiff); // Failed chunks roll back
+                    progress.remainingTime = progress.speed > 0 && isSizeKnown(file)
+                        ? (file.size - progress.uploadedSize) / progress.speed
+                        : 0;
+                    lastUpdate = now;
+                    lastUploadedSize = progress.uploadedSize;
+                }
+
+                // Notify progress listeners
+                this.events.emit('progress', this.getProgress());
+            });
+
+            // Cancelled or removed while uploading
+            if (this.isFileCancelled(fileId)) return;
+
+            // Compute the whole-file digest for server-side verification
+            const checksum = this.checksumAlgorithm
+                ? await this.computeFileChecksum(fileId, file)
+                : undefined;
+
+            // Encrypted uploads send the wrapped key instead of the digest:
+            // the digest covers the plaintext, which the server must not learn about
+            const encryption = await this.sealEncryption(fileId, chunks);
+
+            // Finalize the upload on server
+            this.events.emit('finalizing', file.name, fileId);
+            const response = await this.finalizeUpload(fileId, file, encryption ? undefined : checksum, encryption);
+            if (this.isFileCancelled(fileId)) return;
+            this.fileEncryptions.delete(fileId);
+
+            // Update final status
+            progress.status = 'completed';
+            progress.percentage = 100;
+            progress.uploadedSize = file.size;
+            progress.response = response;
+            this.stats.completedFiles++;
+            await this.clearState(fileId);
+
+            // Notify file complete listeners and the upload handle
+            const result: FileUploadResult = {
+                fileId,
+                fileName: file.name,
+                fileSize: file.size,
+                checksum,
+                checksumAlgorithm: this.checksumAlgorithm?.name,
+                ...(dedup && { dedupedBytes: progress.dedupedBytes ?? 0 }),
+                ...(encryption && { encryption }),
+                response
+            };
+            this.events.emit('fileComplete', file.name, fileId, result);
+            this.settleFile(fileId, result);
+        } catch (error) {
+            // Cancellation is not a failure
+            if (this.isFileCancelled(fileId)) return;
+
+            if (this.config.transport.abortOnFailure) {
+                await this.abortOnServer(fileId);
+            }
+            throw this.failFile(fileId, file, error);
+        }
+    }
+
+    /**
+     * Marks a file as failed and notifies error listeners and its upload handle
+     *
+     * @private
+     * @param {string} fileId - Unique identifier for the file
+     * @param {UploadFile} file - The file
+     * @param {unknown} error - Cause of the failure
+     * @returns {TurboPushError} The failure, to be thrown
+     */
+    private failFile(fileId: string, file: UploadFile, error: unknown): TurboPushError {
+        const failure = toTurboPushError(error);
+        const progress = this.fileProgress.get(fileId);
+        if (progress) {
+            progress.status = 'failed';
+            progress.error = failure.message;
+        }
+        this.stats.failedFiles++;
+
+        this.events.emit('error', failure, file.name, fileId);
+        this.settleFile(fileId, failure);
+        return failure;
+    }
+
+    /**
+     * Runs the `preprocess` transforms over a file and queues the result in
+     * its place. Files take turns: a decoded photo takes tens of megabytes
+     *
+     * @private
+     * @param {string} fileId - Unique identifier for the file
+     * @returns {Promise<void>} Promise that resolves once the file is processed
+     * @throws {TurboPushError} If a transform fails; the file has failed
+     */
+    private async preprocessFile(fileId: string): Promise<void> {
+        const previous = this.processingQueue;
+        let done!: () => void;
+        this.processingQueue = new Promise<void>(resolve => { done = resolve; });
+
+        try {
+            await previous;
+            const file = this.files.get(fileId);
+            const progress = this.fileProgress.get(fileId);
+            if (!file || !progress || this.isFileCancelled(fileId) || !this.needsPreprocessing(fileId)) return;
+
+            if (progress.status === 'pending') {
+                progress.status = 'processing';
+            }
+            this.events.emit('progress', this.getProgress());
+
+            let processed: UploadFile;
+            try {
+                processed = await applyTransforms(file, this.config.preprocess!, { fileId });
+            } catch (error) {
+                if (this.isFileCancelled(fileId)) return;
+                throw this.failFile(fileId, file, error);
+            }
+            if (this.isFileCancelled(fileId)) return;
+
+            // The queue shows the file as it will be uploaded
+            this.processedFiles.set(fileId, processed !== file);
+            if (processed !== file) {
+                this.files.set(fileId, processed);
+                this.stats.totalBytes += processed.size - progress.totalSize;
+                progress.file = processed;
+                progress.fileName = processed.name;
+                progress.totalSize = processed.size;
+            }
+            if (progress.status === 'processing') {
+                progress.status = 'pending';
+            }
+        } finally {
+            done();
+        }
+    }
 
     /**
-     * Adds a single file to the upload queue
-     * Generates a unique file ID and initializes progress tracking
+     * Checks whether a file still has to go through the `preprocess` transforms
      *
-     * @param {File} file - The file to upload
-     * @returns {TurboPush} This instance for method chaining
+     * @private
+     * @param {string} fileId - Unique identifier for the file
+     * @returns {boolean} True if transforms are configured and have not run for the file
+     */
+    private needsPreprocessing(fileId: string): boolean {
+        return !!this.config.preprocess?.length && !this.processedFiles.has(fileId);
+    }
+
+    /**
+     * Checks whether chunks uploaded for a file by an earlier session can be reused
+     * Encrypted chunks used a data key that is gone, and transforms need
+     * not produce the same bytes twice
      *
-     * @example
-     * ```typescript
-     * uploader.addFile(fileInput.files[0]);
-     * ```
+     * @private
+     * @param {string} fileId - Unique identifier for the file
+     * @returns {boolean} True if earlier chunks match the file's bytes
      */
-    public addFile(file: File): this {
-        const fileId = this.generateFileId(file);
-        this.files.set(fileId, file);
+    private canResume(fileId: string): boolean {
+        return !this.config.encryption && !this.processedFiles.get(fileId);
+    }
 
-        // Initialize progress tracking for this file
-        this.fileProgress.set(fileId, {
-            file,
-            fileName: file.name,
-            fileId,
-            totalSize: file.size,
-            uploadedSize: 0,
-            percentage: 0,
-            speed: 0,
-            remainingTime: 0,
-            status: 'pending'
+    /**
+     * Uploads multiple chunks in parallel with automatic retry
+     * Every request takes a connection slot from the shared scheduler, so
+     * the global limit holds across files; the per-file limit applies here.
+     * A chunk waits out its retry backoff before queueing for a slot, so
+     * other files keep the connections meanwhile.
+     * Pausing suspends the loop until it is woken through `fileWakers`;
+     * cancelling or removing the file resolves it once requests have settled
+     * With adaptive chunk sizing, new chunks are appended to `chunks` as
+     * upload slots free up, until the whole file is covered
+     *
+     * @private
+     * @param {string} fileId - Unique identifier for the file
+     * @param {ChunkInfo[]} chunks - Array of chunk metadata
+     * @param {Function} progressCallback - Callback for progress updates
+     * @returns {Promise<void>} Promise that resolves when all chunks uploaded
+     * @throws {Error} If chunks fail after all retries
+     */
+    private async uploadChunksInParallel(
+        fileId: string,
+        chunks: ChunkInfo[],
+        progressCallback: (uploadedCount: number) => void
+    ): Promise<void> {
+        const file = this.files.get(fileId);
+        if (!file) throw new Error('TurboPush: File not found');
+
+        const pendingChunks = [...chunks.filter(chunk => !chunk.uploaded)];
+        let activeCount = 0;
+        let waitingCount = 0;
+        let backoffCount = 0;
+        let completedCount = chunks.filter(c => c.uploaded).length;
+        let currentIndex = 0;
+        let hasError = false;
+        let failure: TurboPushError | undefined;
+
+        // Sequential transports (e.g. tus) accept one chunk at a time, in order
+        const sequential = this.config.transport.sequential === true;
+        const perFileLimit = sequential ? 1 : this.config.maxConcurrentUploadsPerFile;
+
+        // Streams are read as their chunks are taken, one read after the other
+        const streamed = isUploadSource(file) && file.sequential;
+        let reading: Promise<ChunkInfo | undefined> = Promise.resolve(undefined);
+        const readNext = () => {
+            reading = reading
+                .catch(() => undefined)
+                .then(() => this.readNextChunk(fileId, file as UploadSource, chunks));
+            return reading;
+        };
+
+        // Queued chunks first, then lazily created ones
+        const hasNext = () => currentIndex < pendingChunks.length || this.hasUnchunkedBytes(file, chunks);
+        const queuedCount = () => this.hasUnchunkedBytes(file, chunks)
+            ? Infinity
+            : pendingChunks.length - currentIndex;
+        const takeNext = (): ChunkInfo => {
+            if (currentIndex >= pendingChunks.length) {
+                pendingChunks.push(this.createNextChunk(file, chunks));
+            }
+            return pendingChunks[currentIndex++];
+        };
+        const rollback = (chunk: ChunkInfo) => {
+            // Bytes sent by a failed attempt will be sent again
+            if (chunk.bytesSent) {
+                this.stats.uploadedBytes -= chunk.bytesSent;
+                chunk.bytesSent = 0;
+                progressCallback(completedCount);
+            }
+        };
+        const requeue = (chunk: ChunkInfo) => {
+            if (sequential) {
+                pendingChunks.splice(currentIndex, 0, chunk);
+            } else {
+                pendingChunks.push(chunk);
+            }
+        };
+
+        // Paused and offline files keep their loop suspended until woken, cancelled ones end it
+        const suspended = () => this.isPaused || this.isOffline || this.pausedFiles.has(fileId);
+        const stopped = () => this.isFileCancelled(fileId);
+
+        return new Promise((resolve, reject) => {
+            const uploadNext = () => {
+                // Chunks backing off hold no request, so they do not delay a stop or a failure
+                const idle = activeCount === 0 && waitingCount === 0;
+
+                if (stopped()) {
+                    if (idle) {
+                        this.fileWakers.delete(fileId);
+                        resolve();
+                    }
+                    return;
+                }
+
+                // CRITICAL: Check for completion FIRST before checking errors
+                // This ensures the promise resolves/rejects even when errors occur;
+                // after a failure, chunks not started yet are never started
+                if (((!hasNext() && backoffCount === 0) || hasError) && idle) {
+                    this.fileWakers.delete(fileId);
+                    if (!hasError && completedCount === chunks.length) {
+                        resolve();
+                    } else {
+                        reject(failure ?? new TurboPushError('network', 'Some chunks failed'));
+                    }
+                    return;
+                }
+
+                // Check if we should stop starting new uploads; in order, nothing
+                // passes a chunk that is backing off
+                if (suspended() || hasError || (sequential && backoffCount > 0)) return;
+
+                // Queue for connection slots up to the per-file limit, one per chunk left
+                while (activeCount + waitingCount < perFileLimit &&
+                       waitingCount < queuedCount() &&
+                       !suspended() && !hasError) {
+
+                    waitingCount++;
+                    this.scheduler.acquire(fileId).then(async () => {
+                        waitingCount--;
+
+                        // Things may have changed while waiting for the slot
+                        if (!hasNext() || suspended() || stopped() || hasError) {
+                            this.scheduler.release();
+                            uploadNext();
+                            return;
+                        }
+
+                        // Read the stream's next chunk while holding the slot; the
+                        // stream may turn out to have ended
+                        if (streamed && currentIndex >= pendingChunks.length) {
+                            activeCount++;
+                            try {
+                                const read = await readNext();
+                                if (read) pendingChunks.push(read);
+                            } catch (error) {
+                                hasError = true;
+                                failure = toTurboPushError(error);
+                            }
+                            activeCount--;
+
+                            if (currentIndex >= pendingChunks.length || suspended() || stopped() || hasError) {
+                                this.scheduler.release();
+                                uploadNext();
+                                return;
+                            }
+                        }
+
+                        const chunk = takeNext();
+                        activeCount++;
+
+                        // Upload the chunk asynchronously
+                        this.uploadChunk(fileId, chunk, () => progressCallback(completedCount))
+                            .then(async () => {
+                                // A cancelled file's bytes no longer count
+                                if (stopped()) return;
+
+                                // Chunk uploaded successfully
+                                this.circuitBreaker?.recordSuccess();
+                                chunk.uploaded = true;
+                                completedCount++;
+                                if (isUploadSource(file)) chunk.blob = undefined;
+                                this.stats.uploadedBytes += (chunk.end - chunk.start) - (chunk.bytesSent ?? 0);
+                                chunk.bytesSent = 0;
+                                this.events.emit('chunkUploaded', file.name, fileId, this.chunkEvent(chunk));
+                                progressCallback(completedCount);
+                                await this.saveState(fileId);
+                            })
+                            .catch(async (error: TurboPushError) => {
+                                if (stopped()) return;
+                                rollback(chunk);
+
+                                // A network error may mean the connection dropped before
+                                // the connectivity source noticed: ask it now
+                                if (error.code === 'network' && !this.isOffline && this.connectivity) {
+                                    this.setOnline(await this.connectivity.isOnline());
+                                    if (stopped()) return;
+                                }
+
+                                // Aborted by a pause or lost connection: send the chunk
+                                // again later, without using up a retry
+                                if (suspended()) {
+                                    requeue(chunk);
+                                    return;
+                                }
+
+                                // A run of transient failures across the queue means an
+                                // outage: pause everything instead of using up retries
+                                const retryable = this.config.shouldRetry(error);
+                                if (retryable && this.circuitBreaker?.recordFailure()) {
+                                    requeue(chunk);
+                                    this.openCircuit(error);
+                                    return;
+                                }
+
+                                // Chunk upload failed: retry transient errors, fail fast on permanent ones
+                                if (chunk.attempts < this.config.maxRetries && retryable) {
+                                    // Retry the chunk (next, if order matters) after a backoff delay
+                                    chunk.retryDelay = computeRetryDelay(this.config.retryPolicy, this.config.retryDelay, {
+                                        attempt: chunk.attempts + 1,
+                                        previousDelay: chunk.retryDelay ?? this.config.retryDelay,
+                                        error
+                                    });
+                                    this.events.emit('chunkRetry', file.name, fileId, this.chunkEvent(chunk), error);
+                                    chunk.attempts++;
+
+                                    // Back off without a connection slot, then queue again;
+                                    // the file may have been paused, cancelled or failed meanwhile
+                                    backoffCount++;
+                                    this.sleep(chunk.retryDelay).then(() => {
+                                        backoffCount--;
+                                        if (stopped() || hasError) return;
+                                        requeue(chunk);
+                                        uploadNext();
+                                    });
+                                } else {
+                                    // Max retries exceeded or not retryable
+                                    hasError = true;
+                                    failure = error;
+                                }
+                            })
+                            .finally(() => {
+                                // Chunk attempt complete (success or failure). Queue
+                                // for the next chunk before freeing the slot, so the
+                                // slot stays with this file if it ranks first
+                                activeCount--;
+                                uploadNext();
+                                this.scheduler.release();
+                            });
+                    });
+                }
+            };
+
+            // Start the upload process
+            this.fileWakers.set(fileId, uploadNext);
+            uploadNext();
         });
+    }
 
-        // Update session statistics
-        this.stats.totalFiles++;
-        this.stats.totalBytes += file.size;
+    /**
+     * Uploads a single chunk to the server
+     * Handles timeout and error handling; retries have waited out their
+     * backoff delay already
+     *
+     * @private
+     * @param {string} fileId - Unique identifier for the file
+     * @param {ChunkInfo} chunk - Chunk metadata and data
+     * @param {Function} onBytesSent - Called when the transport reports bytes sent
+     * @returns {Promise<void>} Promise that resolves when chunk uploads
+     * @throws {TurboPushError} If upload fails, times out or is aborted
+     */
+    private async uploadChunk(fileId: string, chunk: ChunkInfo, onBytesSent: () => void): Promise<void> {
+        const file = this.files.get(fileId);
+        if (!file) throw new Error('TurboPush: File not found');
 
-        return this;
+        // UploadSources are read when the chunk is sent
+        let blob = chunk.blob;
+        if (!blob) {
+            try {
+                blob = chunk.blob = await readRange(file, chunk.start, chunk.end);
+            } catch (error) {
+                throw new ReadError((error as Error)?.message, {
+                    chunkIndex: chunk.index,
+                    attempt: chunk.attempts + 1,
+                    cause: error
+                });
+            }
+        }
+
+        // Create AbortController for timeout/cancellation
+        const controller = new AbortController();
+        let fileUploads = this.activeUploads.get(fileId);
+        if (!fileUploads) {
+            fileUploads = new Map();
+            this.activeUploads.set(fileId, fileUploads);
+        }
+        fileUploads.set(chunk.index, controller);
+        let timeoutId: ReturnType<typeof setTimeout> | undefined;
+        let timedOut = false;
+
+        try {
+            // Compress first, so the bandwidth cap applies to the bytes sent
+            const size = chunk.end - chunk.start;
+            let data: Uint8Array | undefined;
+            let body = blob;
+            let compression: { codec: CompressionCodec; originalSize: number } | undefined;
+            const codec = this.compressionCodec(file);
+            if (codec) {
+                data = new Uint8Array(await blob.arrayBuffer());
+                const compressed = await compressBytes(data, codec);
+                if (compressed.length < data.length) {
+                    body = new Blob([compressed as BlobPart]);
+                    compression = { codec, originalSize: data.length };
+                }
+            }
+
+            // Encrypt with the file's data key; a checksum then covers the bytes sent
+            let encrypted: Uint8Array | undefined;
+            const encryption = this.fileEncryptions.get(fileId);
+            if (encryption) {
+                data = new Uint8Array(await blob.arrayBuffer());
+                encrypted = await encryptChunk(encryption, chunk.index, data);
+                body = new Blob([encrypted as BlobPart]);
+            }
+
+            const fields = await this.resolveFormFields(fileId, file, chunk);
+
+            // Wait for the bandwidth cap; the wait does not count towards the timeout
+            await this.throttle.consume(body.size, controller.signal);
+
+            // Set up timeout
+            timeoutId = setTimeout(() => {
+                timedOut = true;
+                controller.abort();
+            }, this.config.timeout);
+
+            // Digest is computed once and reused on retries; a dedup hash is a SHA-256 digest already
+            if (this.checksumAlgorithm?.name === 'sha256' && chunk.hash !== undefined) {
+                chunk.checksum = chunk.hash;
+            } else if (this.checksumAlgorithm && chunk.checksum === undefined) {
+                data ??= new Uint8Array(await blob.arrayBuffer());
+                chunk.checksum = await digestBytes(this.checksumAlgorithm, encrypted ?? data);
+            }
+
+            // Hand the chunk to the transport
+            this.events.emit('chunkStarted', file.name, fileId, this.chunkEvent(chunk));
+            const requestStart = Date.now();
+            await this.config.transport.uploadChunk({
+                ...this.transportContext(fileId, file),
+                chunk: {
+                    index: chunk.index,
+                    start: chunk.start,
+                    end: chunk.end,
+                    blob: body,
+                    checksum: chunk.checksum,
+                    hash: chunk.hash,
+                    compression,
+                    ...(encrypted && { encrypted: true })
+                },
+                checksumAlgorithm: this.checksumAlgorithm?.name,
+                ...(fields && { fields }),
+                signal: controller.signal,
+                onProgress: (bytesSent) => {
+                    // Count only new bytes of the attempt in progress, never more than the chunk;
+                    // compressed or encrypted bytes sent count as their share of the file bytes
+                    const fileBytes = body !== blob ? Math.floor(bytesSent * size / body.size) : bytesSent;
+                    const sent = Math.min(fileBytes, size);
+                    const previous = chunk.bytesSent ?? 0;
+                    const current = fileUploads!.get(chunk.index) === controller && !controller.signal.aborted;
+                    if (!current || this.isFileCancelled(fileId) || sent <= previous) return;
+
+                    chunk.bytesSent = sent;
+                    this.stats.uploadedBytes += sent - previous;
+                    onBytesSent();
+                }
+            });
+            this.stats.wireBytes += body.size;
+            this.chunkSizer?.recordSuccess(size, Date.now() - requestStart);
+        } catch (error) {
+            // Slow or failing requests shrink the next chunks (pausing is not a failure)
+            if (!this.isFileHalted(fileId)) {
+                this.chunkSizer?.recordFailure();
+            }
+
+            // Only our own timer makes an abort a timeout; pause() and cancel() abort too
+            const details = { chunkIndex: chunk.index, attempt: chunk.attempts + 1 };
+            if (timedOut) {
+                throw new TimeoutError(undefined, { ...details, cause: error });
+            }
+            throw toTurboPushError(error, details);
+        } finally {
+            // Clean up timeout and abort controller
+            clearTimeout(timeoutId);
+            fileUploads.delete(chunk.index);
+            if (fileUploads.size === 0 && this.activeUploads.get(fileId) === fileUploads) {
+                this.activeUploads.delete(fileId);
+            }
+        }
     }
 
     /**
-     * Adds multiple files to the upload queue
+     * Sends finalization request to server after all chunks uploaded
+     * Tells server to merge chunks into final file
      *
-     * @param {File[] | FileList} files - Array or FileList of files to upload
-     * @returns {TurboPush} This instance for method chaining
+     * @private
+     * @param {string} fileId - Unique identifier for the file
+     * @param {UploadFile} file - The file being uploaded
+     * @param {string} [checksum] - Whole-file digest to verify against
+     * @param {EncryptionHeader} [encryption] - Header of an encrypted file
+     * @returns {Promise<unknown>} Payload of the server's finalize response
+     * @throws {Error} If finalization fails
+     */
+    private async finalizeUpload(
+        fileId: string,
+        file: UploadFile,
+        checksum?: string,
+        encryption?: EncryptionHeader
+    ): Promise<unknown> {
+        const chunks = this.fileChunks.get(fileId) || [];
+        const fields = await this.resolveFormFields(fileId, file);
+        return this.config.transport.finalizeFile({
+            ...this.transportContext(fileId, file),
+            checksum,
+            checksumAlgorithm: checksum !== undefined ? this.checksumAlgorithm?.name : undefined,
+            ...(this.usesDedup(file) && {
+                manifest: chunks.map(chunk => ({ hash: chunk.hash!, size: chunk.end - chunk.start }))
+            }),
+            ...(encryption && { encryption }),
+            ...(fields && { fields })
+        });
+    }
+
+    /**
+     * Runs the `formFields` function for a chunk request or, without a
+     * chunk, for the finalize request
      *
-     * @example
-     * ```typescript
-     * // From file input
-     * uploader.addFiles(fileInput.files);
+     * @private
+     * @param {string} fileId - Unique identifier for the file
+     * @param {UploadFile} file - The file being uploaded
+     * @param {ChunkInfo} [chunk] - Chunk about to be sent
+     * @returns {Promise<Record<string, string> | undefined>} Extra fields, if any
+     * @throws {TurboPushError} With code 'validation' if the function fails
+     */
+    private async resolveFormFields(
+        fileId: string,
+        file: UploadFile,
+        chunk?: ChunkInfo
+    ): Promise<Record<string, string> | undefined> {
+        const provider = this.config.formFields;
+        if (!provider) return undefined;
+
+        try {
+            return await provider({
+                fileId,
+                file,
+                metadata: this.fileMetadata.get(fileId),
+                chunk: chunk && this.chunkEvent(chunk)
+            }) || undefined;
+        } catch (error) {
+            if (error instanceof TurboPushError) throw error;
+            throw new TurboPushError('validation',
+                `TurboPush: formFields failed: ${(error as Error)?.message ?? error}`, { cause: error });
+        }
+    }
+
+    /**
+     * Creates the data key of a file before its first chunk is encrypted
+     * The key lives in memory only; it is kept if the file fails, so a
+     * retry can build on the chunks already sent with it
      *
-     * // From array
-     * uploader.addFiles([file1, file2, file3]);
-     * ```
+     * @private
+     * @param {string} fileId - Unique identifier for the file
+     * @returns {Promise<void>} Promise that resolves once the key exists
+     * @throws {EncryptionError} If the key provider fails or WebCrypto is missing
+     */
+    private async prepareEncryption(fileId: string): Promise<void> {
+        const options = this.config.encryption;
+        if (!options || this.fileEncryptions.has(fileId)) return;
+
+        this.fileEncryptions.set(fileId, await createFileEncryption(fileId, options.keyProvider));
+    }
+
+    /**
+     * Builds the finalize header of an encrypted file
+     *
+     * @private
+     * @param {string} fileId - Unique identifier for the file
+     * @param {ChunkInfo[]} chunks - Chunks for the file, all uploaded
+     * @returns {Promise<EncryptionHeader | undefined>} Header, or undefined if the file is not encrypted
+     * @throws {EncryptionError} If the chunk sizes cannot be sealed
+     */
+    private async sealEncryption(fileId: string, chunks: ChunkInfo[]): Promise<EncryptionHeader | undefined> {
+        const encryption = this.fileEncryptions.get(fileId);
+        if (!encryption) return undefined;
+
+        return sealHeader(encryption, chunks.map(chunk => chunk.end - chunk.start));
+    }
+
+    /**
+     * Lets the transport set up a file before its chunks are uploaded
+     * Chunks the transport reports as already stored are skipped
+     *
+     * @private
+     * @param {string} fileId - Unique identifier for the file
+     * @param {ChunkInfo[]} chunks - Chunks for the file
+     * @returns {Promise<void>} Promise that resolves once the file is prepared
+     * @throws {Error} If the transport cannot prepare the file
+     */
+    private async prepareFile(fileId: string, chunks: ChunkInfo[]): Promise<void> {
+        const file = this.files.get(fileId);
+        if (!file || !this.config.transport.prepareFile) return;
+
+        const received = await this.config.transport.prepareFile({
+            ...this.transportContext(fileId, file),
+            chunks: chunks.map(({ index, start, end }) => ({ index, start, end }))
+        });
+        if (!received) return;
+
+        // The server is authoritative: forget chunks it does not hold
+        const held = new Set(received);
+        const progress = this.fileProgress.get(fileId);
+        for (const chunk of chunks) {
+            if (chunk.uploaded && !held.has(chunk.index) && progress) {
+                chunk.uploaded = false;
+                progress.uploadedSize -= chunk.end - chunk.start;
+                this.stats.uploadedBytes -= chunk.end - chunk.start;
+            }
+        }
+
+        this.markChunksUploaded(fileId, chunks, received);
+        await this.saveState(fileId);
+    }
+
+    /**
+     * Asks the transport to discard a partially uploaded file on the server
+     * Best-effort, failures are ignored
+     *
+     * @private
+     * @param {string} fileId - Unique identifier for the file
+     * @returns {Promise<void>} Promise that resolves once the request settles
+     */
+    private async abortOnServer(fileId: string): Promise<void> {
+        const file = this.files.get(fileId);
+        if (!file || !this.config.transport.abortFile) return;
+
+        try {
+            await this.config.transport.abortFile(this.transportContext(fileId, file));
+        } catch (error) {
+            // The server cleans up stale uploads on its own
+        }
+    }
+
+    /**
+     * Pauses all files: aborts every active request and marks uploading
+     * files as paused
+     *
+     * @private
+     * @returns {void}
+     */
+    private haltUploads(): void {
+        this.clearCircuitTimer();
+        this.isPaused = true;
+
+        // Abort all active uploads
+        for (const fileId of Array.from(this.activeUploads.keys())) {
+            this.abortFileRequests(fileId);
+        }
+
+        // Update file statuses
+        for (const progress of this.fileProgress.values()) {
+            if (progress.status === 'uploading' || progress.status === 'offline') {
+                progress.status = 'paused';
+            }
+        }
+    }
+
+    /**
+     * Follows the connectivity source while push() runs
+     *
+     * @private
+     * @returns {Promise<Function>} Stops following the source
+     */
+    private async watchConnectivity(): Promise<() => void> {
+        const source = this.connectivity;
+        if (!source) return () => {};
+
+        const unsubscribe = source.subscribe(online => this.setOnline(online));
+        this.setOnline(await source.isOnline());
+        return unsubscribe;
+    }
+
+    /**
+     * Suspends uploads when the network drops and continues them when it is back
+     * Requests in flight are aborted and sent again later, without using a retry
+     *
+     * @private
+     * @param {boolean} online - New connectivity state
+     * @returns {void}
+     */
+    private setOnline(online: boolean): void {
+        if (online !== this.isOffline) return;
+        this.isOffline = !online;
+
+        if (!online) {
+            for (const fileId of Array.from(this.activeUploads.keys())) {
+                this.abortFileRequests(fileId);
+            }
+            for (const progress of this.fileProgress.values()) {
+                if (progress.status === 'uploading') {
+                    progress.status = 'offline';
+                }
+            }
+            this.events.emit('offline');
+            return;
+        }
+
+        for (const [fileId, progress] of this.fileProgress) {
+            if (progress.status === 'offline') {
+                progress.status = this.runningStatus(fileId);
+            }
+        }
+        this.events.emit('online');
+        this.wakeFiles();
+    }
+
+    /**
+     * Status of a file whose upload is running
+     *
+     * @private
+     * @param {string} fileId - Unique identifier for the file
+     * @returns {string} 'paused', 'offline' or 'uploading'
      */
-    public addFiles(files: File[] | FileList): this {
-        Array.from(files).forEach(file => this.addFile(file));
-        return this;
+    private runningStatus(fileId: string): 'paused' | 'offline' | 'uploading' {
+        if (this.isPaused || this.pausedFiles.has(fileId)) return 'paused';
+        return this.isOffline ? 'offline' : 'uploading';
     }
 
     /**
-     * Registers a callback for progress updates
-     * Called whenever upload progress changes for any file
+     * Pauses all uploads after the circuit breaker opened
+     * Resumes them after the cooldown, unless it is 0
      *
-     * @param {Function} callback - Callback receiving array of progress objects
-     * @returns {TurboPush} This instance for method chaining
-     *
-     * @example
-     * ```typescript
-     * uploader.onProgress((progress) => {
-     *     progress.forEach(p => {
-     *         console.log(`${p.fileName}: ${p.percentage}% at ${p.speed} B/s`);
-     *     });
-     * });
-     * ```
+     * @private
+     * @param {TurboPushError} error - Failure that opened the circuit
+     * @returns {void}
      */
-    public onProgress(callback: (progress: UploadProgress[]) => void): this {
-        this.progressCallback = callback;
-        return this;
+    private openCircuit(error: TurboPushError): void {
+        const cooldown = this.config.retryPolicy.circuitBreaker?.cooldown ?? 30000;
+
+        this.pause();
+        this.events.emit('circuitOpened', error, cooldown);
+
+        if (cooldown > 0) {
+            this.circuitTimer = setTimeout(() => {
+                this.circuitTimer = undefined;
+                this.resume();
+            }, cooldown);
+        }
     }
 
     /**
-     * Registers a callback for individual file completion
-     * Called when each file finishes uploading successfully
+     * Stops a pending circuit breaker cooldown
      *
-     * @param {Function} callback - Callback receiving fileName and fileId
-     * @returns {TurboPush} This instance for method chaining
-     *
-     * @example
-     * ```typescript
-     * uploader.onFileComplete((fileName, fileId) => {
-     *     console.log(`Completed: ${fileName}`);
-     * });
-     * ```
+     * @private
+     * @returns {void}
      */
-    public onFileComplete(callback: (fileName: string, fileId: string) => void): this {
-        this.fileCompleteCallback = callback;
-        return this;
+    private clearCircuitTimer(): void {
+        if (this.circuitTimer !== undefined) {
+            clearTimeout(this.circuitTimer);
+            this.circuitTimer = undefined;
+        }
     }
 
     /**
-     * Registers a callback for upload session completion
-     * Called once when all files have finished (successfully or with errors)
-     *
-     * @param {Function} callback - Callback receiving final statistics
-     * @returns {TurboPush} This instance for method chaining
+     * Starts uploading a file unless it is already uploading
      *
-     * @example
-     * ```typescript
-     * uploader.onComplete((stats) => {
-     *     console.log(`Uploaded ${stats.completedFiles}/${stats.totalFiles} files`);
-     *     console.log(`Total time: ${stats.duration}s`);
-     * });
-     * ```
+     * @private
+     * @param {string} fileId - Unique identifier for the file
+     * @returns {Promise<void>} The file's running upload
      */
-    public onComplete(callback: (stats: UploadStats) => void): this {
-        this.completeCallback = callback;
-        return this;
+    private startFile(fileId: string): Promise<void> {
+        let running = this.runningUploads.get(fileId);
+        if (!running) {
+            running = this.uploadFile(fileId).finally(() => this.runningUploads.delete(fileId));
+            this.runningUploads.set(fileId, running);
+        }
+        return running;
     }
 
     /**
-     * Registers a callback for error handling
-     * Called whenever a file fails to upload after all retries
-     *
-     * @param {Function} callback - Callback receiving error, fileName, and fileId
-     * @returns {TurboPush} This instance for method chaining
+     * Splits a file into chunks, skipping chunks recorded as uploaded by a
+     * previous session
      *
-     * @example
-     * ```typescript
-     * uploader.onError((error, fileName, fileId) => {
-     *     console.error(`Failed to upload ${fileName}: ${error.message}`);
-     * });
-     * ```
+     * @private
+     * @param {string} fileId - Unique identifier for the file
+     * @returns {Promise<void>} Promise that resolves once the chunks exist
      */
-    public onError(callback: (error: Error, fileName: string, fileId: string) => void): this {
-        this.errorCallback = callback;
-        return this;
+    private async createFileChunks(fileId: string): Promise<void> {
+        const file = this.files.get(fileId);
+        if (!file) return;
+
+        const chunks = this.createChunks(file);
+        this.fileChunks.set(fileId, chunks);
+
+        // In dedup mode the server's chunk store tells what to skip
+        if (!this.usesDedup(file) && this.canResume(fileId)) {
+            await this.restoreState(fileId, chunks);
+        }
     }
 
     /**
-     * Updates the chunk size for future uploads
+     * Checks whether a file was cancelled or removed
      *
-     * @param {number} bytes - New chunk size in bytes (minimum 64KB)
-     * @returns {TurboPush} This instance for method chaining
-     *
-     * @example
-     * ```typescript
-     * uploader.setChunkSize(5 * 1024 * 1024); // 5MB chunks
-     * ```
+     * @private
+     * @param {string} fileId - Unique identifier for the file
+     * @returns {boolean} True if the file must not be uploaded further
      */
-    public setChunkSize(bytes: number): this {
-        this.config.chunkSize = Math.max(64 * 1024, bytes); // Minimum 64KB
-        return this;
+    private isFileCancelled(fileId: string): boolean {
+        const progress = this.fileProgress.get(fileId);
+        return !progress || progress.status === 'cancelled';
     }
 
     /**
-     * Updates the maximum number of concurrent uploads
-     *
-     * @param {number} count - Number of concurrent uploads (1-10)
-     * @returns {TurboPush} This instance for method chaining
+     * Checks whether a file's requests are being stopped on purpose
      *
-     * @example
-     * ```typescript
-     * uploader.setMaxConcurrentUploads(8);
-     * ```
+     * @private
+     * @param {string} fileId - Unique identifier for the file
+     * @returns {boolean} True if the file is paused, offline, cancelled or removed
      */
-    public setMaxConcurrentUploads(count: number): this {
-        this.config.maxConcurrentUploads = Math.max(1, Math.min(10, count));
-        return this;
+    private isFileHalted(fileId: string): boolean {
+        return this.isPaused || this.isOffline || this.pausedFiles.has(fileId) || this.isFileCancelled(fileId);
     }
 
     /**
-     * Updates the maximum retry attempts for failed chunks
-     *
-     * @param {number} count - Number of retry attempts (minimum 0)
-     * @returns {TurboPush} This instance for method chaining
+     * Aborts every in-progress request of a file
      *
-     * @example
-     * ```typescript
-     * uploader.setMaxRetries(5);
-     * ```
+     * @private
+     * @param {string} fileId - Unique identifier for the file
+     * @returns {void}
      */
-    public setMaxRetries(count: number): this {
-        this.config.maxRetries = Math.max(0, count);
-        return this;
+    private abortFileRequests(fileId: string): void {
+        const fileUploads = this.activeUploads.get(fileId);
+        if (!fileUploads) return;
+
+        this.activeUploads.delete(fileId);
+        for (const controller of fileUploads.values()) {
+            controller.abort();
+        }
     }
 
     /**
-     * Starts the upload process for all queued files
-     * Creates chunks and uploads them in parallel according to configuration
+     * Stops an unfinished file for good: aborts its requests, discards its
+     * resume state and the partial upload on the server
      *
-     * @returns {Promise<UploadStats>} Promise resolving to final upload statistics
-     * @throws {Error} If no files are queued
+     * @private
+     * @param {string} fileId - Unique identifier for the file
+     * @returns {void}
+     */
+    private stopFile(fileId: string): void {
+        this.abortFileRequests(fileId);
+        this.clearState(fileId);
+        this.abortOnServer(fileId);
+    }
+
+    /**
+     * Removes a file's contribution from the session statistics
      *
-     * @example
-     * ```typescript
-     * const stats = await uploader.push();
-     * console.log(`Uploaded ${stats.completedFiles} files in ${stats.duration}s`);
-     * ```
+     * @private
+     * @param {UploadProgress} progress - Progress of the file
+     * @returns {void}
      */
-    public async push(): Promise<UploadStats> {
-        if (this.files.size === 0) {
-            throw new Error('TurboPush: No files to upload');
+    private discountFile(progress: UploadProgress): void {
+        this.stats.totalFiles--;
+        this.stats.totalBytes -= progress.totalSize;
+        this.stats.uploadedBytes -= progress.uploadedSize;
+        if (progress.dedupedBytes) {
+            this.stats.dedupedBytes! -= progress.dedupedBytes;
         }
 
-        this.stats.startTime = Date.now();
-        this.isPaused = false;
-
-        // Create chunks for all queued files
-        for (const [fileId, file] of this.files) {
-            this.fileChunks.set(fileId, this.createChunks(file));
+        if (progress.status === 'completed') {
+            this.stats.completedFiles--;
+        } else if (progress.status === 'failed') {
+            this.stats.failedFiles--;
         }
+    }
 
-        // Start uploading all files concurrently
-        const uploadPromises = Array.from(this.files.keys()).map(fileId =>
-            this.uploadFile(fileId)
-        );
-
-        // Wait for all uploads to complete (successful or failed)
-        await Promise.allSettled(uploadPromises);
-
-        // Calculate final statistics
-        this.stats.endTime = Date.now();
-        this.stats.duration = (this.stats.endTime - this.stats.startTime) / 1000;
-        this.stats.averageSpeed = this.stats.totalBytes / (this.stats.duration || 1);
-
-        // Notify completion callback
-        if (this.completeCallback) {
-            this.completeCallback(this.stats);
+    /**
+     * Wakes every suspended chunk loop so it re-checks its state
+     *
+     * @private
+     * @returns {void}
+     */
+    private wakeFiles(): void {
+        for (const wake of Array.from(this.fileWakers.values())) {
+            wake();
         }
-
-        return this.stats;
     }
 
     /**
-     * Alias for push() method
-     * Starts the upload process
+     * Orders two files for the scheduler according to `fileOrder`
      *
-     * @returns {Promise<UploadStats>} Promise resolving to final upload statistics
+     * @private
+     * @param {string} a - First file ID
+     * @param {string} b - Second file ID
+     * @returns {number} Negative if file `a` should get slots first
      */
-    public async upload(): Promise<UploadStats> {
-        return this.push();
+    private compareFiles(a: string, b: string): number {
+        const byOrder = (this.fileOrder.get(a) ?? 0) - (this.fileOrder.get(b) ?? 0);
+
+        switch (this.config.fileOrder) {
+            case 'smallest-first':
+                return ((this.files.get(a)?.size ?? 0) - (this.files.get(b)?.size ?? 0)) || byOrder;
+            case 'priority':
+                return ((this.filePriorities.get(b) ?? 0) - (this.filePriorities.get(a) ?? 0)) || byOrder;
+            default:
+                return byOrder;
+        }
     }
 
     /**
-     * Pauses all active uploads
-     * Aborts all in-progress requests and marks files as paused
-     * Files can be resumed later using resume()
-     *
-     * @returns {void}
+     * Builds the per-file context handed to the transport
      *
-     * @example
-     * ```typescript
-     * uploader.pause();
-     * // Later...
-     * await uploader.resume();
-     * ```
+     * @private
+     * @param {string} fileId - Unique identifier for the file
+     * @param {UploadFile} file - The file being uploaded
+     * @returns {TransportFileContext} File information and request options
      */
-    public pause(): void {
-        this.isPaused = true;
+    private transportContext(fileId: string, file: UploadFile): TransportFileContext {
+        const totalChunks = this.fileChunks.get(fileId)?.length ?? 0;
+        const metadata = this.fileMetadata.get(fileId);
+        return {
+            fileId,
+            file,
+            totalChunks,
+            ...(this.config.encryption && { uploadSize: file.size + ENCRYPTION_OVERHEAD * totalChunks }),
+            ...(metadata && { metadata }),
+            endpoint: this.config.endpoint,
+            headers: this.config.headers,
+            withCredentials: this.config.withCredentials
+        };
+    }
 
-        // Abort all active uploads
-        for (const [key, controller] of this.activeUploads) {
-            controller.abort();
+    /**
+     * Computes the whole-file digest by reading the file sequentially
+     * Reads one chunk-sized slice at a time so memory use stays bounded.
+     * Streams cannot be read twice: their digest was fed as chunks were read
+     *
+     * @private
+     * @param {string} fileId - Unique identifier for the file
+     * @param {UploadFile} file - File to hash
+     * @returns {Promise<string>} Hex digest of the whole file
+     */
+    private async computeFileChecksum(fileId: string, file: UploadFile): Promise<string> {
+        const streamHasher = this.streamHashers.get(fileId);
+        if (streamHasher) {
+            this.streamHashers.delete(fileId);
+            return streamHasher.digest();
         }
-        this.activeUploads.clear();
 
-        // Update file statuses
-        for (const progress of this.fileProgress.values()) {
-            if (progress.status === 'uploading') {
-                progress.status = 'paused';
-            }
+        const hasher = this.checksumAlgorithm!.create();
+
+        for (let offset = 0; offset < file.size; offset += this.config.chunkSize) {
+            const slice = await readRange(file, offset, Math.min(offset + this.config.chunkSize, file.size));
+            hasher.update(new Uint8Array(await slice.arrayBuffer()));
         }
+
+        return hasher.digest();
     }
 
     /**
-     * Resumes paused uploads
-     * Continues uploading files that were paused or pending
-     *
-     * @returns {Promise<void>} Promise that resolves when resume is complete
+     * Splits a file into chunks for uploading
+     * Creates chunk metadata including blob slices (UploadSources are read
+     * when each chunk is sent). With adaptive chunk sizing or a stream
+     * source no chunks are created up front, and in dedup mode they are
+     * created once the file starts uploading
      *
-     * @example
-     * ```typescript
-     * uploader.pause();
-     * // Later...
-     * await uploader.resume();
-     * ```
+     * @private
+     * @param {UploadFile} file - File to split into chunks
+     * @returns {ChunkInfo[]} Array of chunk metadata
      */
-    public async resume(): Promise<void> {
-        this.isPaused = false;
+    private createChunks(file: UploadFile): ChunkInfo[] {
+        const chunks: ChunkInfo[] = [];
+        if (this.chunkSizer || this.usesDedup(file) || (isUploadSource(file) && file.sequential)) return chunks;
 
-        // Find all files that need to be resumed
-        const filesToResume = Array.from(this.fileProgress.entries())
-            .filter(([_, progress]) =>
-                progress.status === 'paused' || progress.status === 'pending'
-            )
-            .map(([fileId, _]) => fileId);
+        const totalChunks = Math.ceil(file.size / this.config.chunkSize);
 
-        // Resume uploading
-        const uploadPromises = filesToResume.map(fileId => this.uploadFile(fileId));
-        await Promise.allSettled(uploadPromises);
+        for (let i = 0; i < totalChunks; i++) {
+            const start = i * this.config.chunkSize;
+            const end = Math.min(start + this.config.chunkSize, file.size);
+
+            chunks.push({
+                index: i,
+                start,
+                end,
+                blob: isUploadSource(file) ? undefined : file.slice(start, end),
+                attempts: 0,
+                uploaded: false
+            });
+        }
+        return chunks;
     }
 
     /**
-     * Cancels all uploads and clears the queue
-     * Aborts all active requests and removes all queued files
-     * Cannot be resumed after cancellation
-     *
-     * @returns {void}
+     * Picks the compression format for a file's chunks
      *
-     * @example
-     * ```typescript
-     * uploader.cancel(); // Completely stop and clear everything
-     * ```
+     * @private
+     * @param {UploadFile} file - File being uploaded
+     * @returns {CompressionCodec | undefined} Format to use, or undefined to send chunks as they are
      */
-    public cancel(): void {
-        this.pause();
-        this.files.clear();
-        this.fileProgress.clear();
-        this.fileChunks.clear();
+    private compressionCodec(file: UploadFile): CompressionCodec | undefined {
+        const options = this.compressionOptions;
+        if (!options || (options.skipCompressedTypes && isCompressedType(file.type, file.name))) {
+            return undefined;
+        }
+        return options.codec;
     }
 
     /**
-     * Gets current upload statistics
-     * Returns a copy of the statistics object
-     *
-     * @returns {UploadStats} Current upload statistics
+     * Checks whether a file is uploaded in dedup mode
+     * Streams read once cannot be scanned ahead and use fixed chunks
      *
-     * @example
-     * ```typescript
-     * const stats = uploader.getStats();
-     * console.log(`Progress: ${stats.uploadedBytes}/${stats.totalBytes} bytes`);
-     * ```
-     */
-    public getStats(): UploadStats {
-        return { ...this.stats };
+     * @private
+     * @param {UploadFile} file - File being uploaded
+     * @returns {boolean} True if the file is split by content
+     */
+    private usesDedup(file: UploadFile): boolean {
+        return this.dedupOptions !== undefined && !(isUploadSource(file) && file.sequential);
     }
 
     /**
-     * Gets progress information for all files
-     *
-     * @returns {UploadProgress[]} Array of progress objects for all files
+     * Splits a file at content-defined boundaries and hashes each chunk
      *
-     * @example
-     * ```typescript
-     * const progress = uploader.getProgress();
-     * progress.forEach(p => {
-     *     console.log(`${p.fileName}: ${p.percentage}%`);
-     * });
-     * ```
+     * @private
+     * @param {string} fileId - Unique identifier for the file
+     * @param {UploadFile} file - File being uploaded
+     * @param {ChunkInfo[]} chunks - Empty chunk list of the file (chunks are appended)
+     * @returns {Promise<void>} Promise that resolves once the file is split
+     * @throws {ReadError} If the file cannot be read
      */
-    public getProgress(): UploadProgress[] {
-        return Array.from(this.fileProgress.values());
+    private async createContentChunks(fileId: string, file: UploadFile, chunks: ChunkInfo[]): Promise<void> {
+        let contentChunks;
+        try {
+            contentChunks = await splitByContent(file, this.dedupOptions!);
+        } catch (error) {
+            throw new ReadError((error as Error)?.message, { cause: error });
+        }
+
+        for (const { start, end, hash } of contentChunks) {
+            chunks.push({
+                index: chunks.length,
+                start,
+                end,
+                hash,
+                blob: isUploadSource(file) ? undefined : file.slice(start, end),
+                attempts: 0,
+                uploaded: false
+            });
+        }
     }
 
     /**
-     * Gets progress information for a specific file by name
-     *
-     * @param {string} fileName - Name of the file to get progress for
-     * @returns {UploadProgress | undefined} Progress object or undefined if not found
+     * Marks chunks as uploaded whose hash the server holds or that repeat an
+     * earlier chunk of the same file, and credits their bytes as deduplicated
+     * A server that cannot answer has no chunk store: every chunk is sent,
+     * repeats included, so it can merge them by index
      *
-     * @example
-     * ```typescript
-     * const progress = uploader.getFileProgress('document.pdf');
-     * if (progress) {
-     *     console.log(`${progress.percentage}% complete`);
-     * }
-     * ```
+     * @private
+     * @param {string} fileId - Unique identifier for the file
+     * @param {ChunkInfo[]} chunks - Content-defined chunks of the file
+     * @returns {Promise<void>} Promise that resolves once stored chunks are skipped
      */
-    public getFileProgress(fileName: string): UploadProgress | undefined {
-        for (const progress of this.fileProgress.values()) {
-            if (progress.fileName === fileName) {
-                return progress;
+    private async skipStoredChunks(fileId: string, chunks: ChunkInfo[]): Promise<void> {
+        const file = this.files.get(fileId);
+        const progress = this.fileProgress.get(fileId);
+        if (!file || !progress) return;
+
+        const pending = chunks.filter(chunk => !chunk.uploaded);
+        const hashes = Array.from(new Set(pending.map(chunk => chunk.hash!)));
+
+        let stored: Set<string> | undefined;
+        if (hashes.length > 0) {
+            try {
+                stored = new Set(await this.config.transport.getStoredHashes!({
+                    ...this.transportContext(fileId, file),
+                    hashes
+                }));
+            } catch (error) {
+                // Upload every chunk instead
             }
         }
-        return undefined;
+
+        // A chunk repeated within the file is sent once; finalize reuses it
+        const sending = new Set<string>();
+        const skipped: number[] = [];
+        if (stored) {
+            for (const chunk of pending) {
+                if (stored.has(chunk.hash!) || sending.has(chunk.hash!)) {
+                    skipped.push(chunk.index);
+                } else {
+                    sending.add(chunk.hash!);
+                }
+            }
+        }
+
+        const dedupedBytes = skipped.reduce((total, index) => total + chunks[index].end - chunks[index].start, 0);
+        progress.dedupedBytes = (progress.dedupedBytes ?? 0) + dedupedBytes;
+        this.stats.dedupedBytes = (this.stats.dedupedBytes ?? 0) + dedupedBytes;
+        this.markChunksUploaded(fileId, chunks, skipped);
     }
 
     /**
-     * Checks if uploads are currently paused
+     * Checks whether part of a file is not yet covered by a chunk
+     * A stream of unknown length may have more bytes until it ends
      *
-     * @returns {boolean} True if paused, false otherwise
-     *
-     * @example
-     * ```typescript
-     * if (uploader.isPausedState()) {
-     *     console.log('Uploads are paused');
-     * }
-     * ```
+     * @private
+     * @param {UploadFile} file - File being uploaded
+     * @param {ChunkInfo[]} chunks - Chunks created so far
+     * @returns {boolean} True if more chunks must be created
      */
-    public isPausedState(): boolean {
-        return this.isPaused;
+    private hasUnchunkedBytes(file: UploadFile, chunks: ChunkInfo[]): boolean {
+        const offset = chunks.length > 0 ? chunks[chunks.length - 1].end : 0;
+        return !isSizeKnown(file) || offset < file.size;
     }
 
     /**
-     * Gets the number of files currently in the queue
+     * Creates the chunk following the last one
      *
-     * @returns {number} Number of queued files
-     *
-     * @example
-     * ```typescript
-     * console.log(`${uploader.getQueueSize()} files queued`);
-     * ```
+     * @private
+     * @param {UploadFile} file - File being uploaded
+     * @param {ChunkInfo[]} chunks - Chunks created so far (the new chunk is appended)
+     * @param {number} [size] - Chunk size in bytes (default: from the adaptive sizer)
+     * @returns {ChunkInfo} The new chunk
      */
-    public getQueueSize(): number {
-        return this.files.size;
+    private createNextChunk(
+        file: UploadFile,
+        chunks: ChunkInfo[],
+        size: number = this.chunkSizer?.nextSize() ?? this.config.chunkSize
+    ): ChunkInfo {
+        const start = chunks.length > 0 ? chunks[chunks.length - 1].end : 0;
+        const end = isSizeKnown(file) ? Math.min(start + size, file.size) : start + size;
+
+        const chunk: ChunkInfo = {
+            index: chunks.length,
+            start,
+            end,
+            blob: isUploadSource(file) ? undefined : file.slice(start, end),
+            attempts: 0,
+            uploaded: false
+        };
+        chunks.push(chunk);
+        return chunk;
     }
 
     /**
-     * Uploads a single file by uploading all its chunks
-     * Handles progress tracking, error handling, and finalization
+     * Creates the next chunk of a stream and reads its bytes
+     * Streams are read once, so the bytes are kept until the chunk is uploaded;
+     * once a stream of unknown length ends, the file's size becomes final
      *
      * @private
      * @param {string} fileId - Unique identifier for the file
-     * @returns {Promise<void>} Promise that resolves when file upload completes
-     * @throws {Error} If file is not found or upload fails
+     * @param {UploadSource} source - Stream being uploaded
+     * @param {ChunkInfo[]} chunks - Chunks created so far (the new chunk is appended)
+     * @returns {Promise<ChunkInfo | undefined>} The new chunk, or undefined if the stream ended
+     * @throws {ReadError} If the stream fails
      */
-    private async uploadFile(fileId: string): Promise<void> {
-        const file = this.files.get(fileId);
-        const chunks = this.fileChunks.get(fileId);
-        const progress = this.fileProgress.get(fileId);
-
-        if (!file || !chunks || !progress) {
-            throw new Error(`TurboPush: File not found: ${fileId}`);
-        }
-
-        progress.status = 'uploading';
-        const startTime = Date.now();
-        let lastUpdate = startTime;
-        let lastUploadedSize = 0;
+    private async readNextChunk(fileId: string, source: UploadSource, chunks: ChunkInfo[]): Promise<ChunkInfo | undefined> {
+        if (!this.hasUnchunkedBytes(source, chunks)) return undefined;
 
+        const chunk = this.createNextChunk(source, chunks);
         try {
-            // Upload all chunks with progress tracking
-            await this.uploadChunksInParallel(fileId, chunks, (uploadedChunks) => {
-                // Calculate current progress
-                const uploadedSize = uploadedChunks * this.config.chunkSize;
-                progress.uploadedSize = Math.min(uploadedSize, file.size);
-                progress.percentage = (progress.uploadedSize / file.size) * 100;
+            chunk.blob = await source.read(chunk.start, chunk.end);
+        } catch (error) {
+            chunks.pop();
+            throw new ReadError((error as Error)?.message, { chunkIndex: chunk.index, cause: error });
+        }
+        chunk.end = chunk.start + chunk.blob.size;
+
+        // The stream ended exactly at the previous chunk
+        if (chunk.end === chunk.start) {
+            chunks.pop();
+        } else if (this.checksumAlgorithm) {
+            let hasher = this.streamHashers.get(fileId);
+            if (!hasher) {
+                hasher = this.checksumAlgorithm.create();
+                this.streamHashers.set(fileId, hasher);
+            }
+            hasher.update(new Uint8Array(await chunk.blob.arrayBuffer()));
+        }
 
-                // Calculate speed and remaining time (throttled to every 100ms)
-                const now = Date.now();
-                const timeDiff = (now - lastUpdate) / 1000;
+        // Sizes of streams of unknown length grow as they are read
+        const progress = this.fileProgress.get(fileId);
+        if (progress && progress.totalSize !== source.size) {
+            this.stats.totalBytes += source.size - progress.totalSize;
+            progress.totalSize = source.size;
+        }
 
-                if (timeDiff > 0.1) {
-                    const sizeDiff = progress.uploadedSize - lastUploadedSize;
-                    progress.speed = sizeDiff / timeDiff;
-                    progress.remainingTime = progress.speed > 0
-                        ? (file.size - progress.uploadedSize) / progress.speed
-                        : 0;
-                    lastUpdate = now;
-                    lastUploadedSize = progress.uploadedSize;
-                }
+        return chunk.end > chunk.start ? chunk : undefined;
+    }
 
-                // Notify progress callback
-                if (this.progressCallback) {
-                    this.progressCallback(this.getProgress());
-                }
-            });
+    /**
+     * Marks chunks recorded in the state store as already uploaded
+     * State is ignored if the file was previously split differently; with
+     * adaptive chunk sizing the recorded chunk ranges are recreated instead
+     *
+     * @private
+     * @param {string} fileId - Unique identifier for the file
+     * @param {ChunkInfo[]} chunks - Freshly created chunks for the file
+     * @returns {Promise<void>} Promise that resolves once state is applied
+     */
+    private async restoreState(fileId: string, chunks: ChunkInfo[]): Promise<void> {
+        const store = this.config.stateStore;
+        const progress = this.fileProgress.get(fileId);
+        if (!store || !progress) return;
 
-            // Finalize the upload on server
-            await this.finalizeUpload(fileId, file);
+        let state: UploadState | undefined;
+        try {
+            state = await store.get(fileId);
+        } catch (error) {
+            // An unreadable store means starting over, not failing the upload
+            return;
+        }
 
-            // Update final status
-            progress.status = 'completed';
-            progress.percentage = 100;
-            progress.uploadedSize = file.size;
-            this.stats.completedFiles++;
+        if (!state || state.fileSize !== progress.totalSize) {
+            return;
+        }
 
-            // Notify file complete callback
-            if (this.fileCompleteCallback) {
-                this.fileCompleteCallback(file.name, fileId);
+        if (this.chunkSizer) {
+            // Recreate the chunks of the previous session, later ones are sized anew
+            const file = this.files.get(fileId);
+            if (!file || !state.chunkRanges || state.chunkRanges.length !== state.totalChunks) {
+                return;
             }
-        } catch (error) {
-            // Handle upload failure
-            progress.status = 'failed';
-            progress.error = (error as Error).message;
-            this.stats.failedFiles++;
-
-            // Notify error callback
-            if (this.errorCallback) {
-                this.errorCallback(error as Error, file.name, fileId);
+            for (const [start, end] of state.chunkRanges) {
+                this.createNextChunk(file, chunks, end - start);
             }
-            throw error;
+        } else if (state.chunkRanges ||
+                   state.chunkSize !== this.config.chunkSize ||
+                   state.totalChunks !== chunks.length) {
+            return;
         }
+
+        this.markChunksUploaded(fileId, chunks, state.uploadedChunks);
     }
 
     /**
-     * Uploads multiple chunks in parallel with automatic retry
-     * Manages concurrent upload limit and handles chunk failures
+     * Marks chunks the server already holds as uploaded
+     * A server that cannot answer the status query is treated as holding nothing
      *
      * @private
      * @param {string} fileId - Unique identifier for the file
-     * @param {ChunkInfo[]} chunks - Array of chunk metadata
-     * @param {Function} progressCallback - Callback for progress updates
-     * @returns {Promise<void>} Promise that resolves when all chunks uploaded
-     * @throws {Error} If chunks fail after all retries
+     * @param {ChunkInfo[]} chunks - Chunks for the file
+     * @returns {Promise<void>} Promise that resolves once status is applied
      */
-    private async uploadChunksInParallel(
-        fileId: string,
-        chunks: ChunkInfo[],
-        progressCallback: (uploadedCount: number) => void
-    ): Promise<void> {
-        const pendingChunks = [...chunks.filter(chunk => !chunk.uploaded)];
-        let activeCount = 0;
-        let completedCount = chunks.filter(c => c.uploaded).length;
-        let currentIndex = 0;
-        let hasError = false;
-        let errorMessage = '';
-
-        return new Promise((resolve, reject) => {
-            const uploadNext = async () => {
-                // CRITICAL: Check for completion FIRST before checking errors
-                // This ensures the promise resolves/rejects even when errors occur
-                if (currentIndex >= pendingChunks.length && activeCount === 0) {
-                    if (completedCount === chunks.length) {
-                        resolve();
-                    } else {
-                        reject(new Error(errorMessage || 'Some chunks failed'));
-                    }
-                    return;
-                }
+    private async restoreServerStatus(fileId: string, chunks: ChunkInfo[]): Promise<void> {
+        const file = this.files.get(fileId);
+        if (!file || !this.config.transport.getUploadedChunks) return;
 
-                // Check if we should stop starting new uploads
-                if (this.isPaused || hasError) return;
-
-                // Start new uploads up to the concurrent limit
-                while (activeCount < this.config.maxConcurrentUploads &&
-                       currentIndex < pendingChunks.length &&
-                       !this.isPaused && !hasError) {
-
-                    const chunk = pendingChunks[currentIndex];
-                    currentIndex++;
-                    activeCount++;
-
-                    // Upload the chunk asynchronously
-                    this.uploadChunk(fileId, chunk)
-                        .then(() => {
-                            // Chunk uploaded successfully
-                            chunk.uploaded = true;
-                            completedCount++;
-                            this.stats.uploadedBytes += (chunk.end - chunk.start);
-                            progressCallback(completedCount);
-                        })
-                        .catch((error) => {
-                            // Chunk upload failed
-                            if (chunk.attempts < this.config.maxRetries) {
-                                // Retry the chunk
-                                chunk.attempts++;
-                                pendingChunks.push(chunk);
-                            } else {
-                                // Max retries exceeded
-                                hasError = true;
-                                errorMessage = `Failed chunk ${chunk.index}: ${error.message}`;
-                            }
-                        })
-                        .finally(() => {
-                            // Chunk attempt complete (success or failure)
-                            activeCount--;
-                            uploadNext();
-                        });
-                }
-            };
+        let indexes: number[];
+        try {
+            indexes = await this.config.transport.getUploadedChunks(this.transportContext(fileId, file));
+        } catch (error) {
+            return;
+        }
 
-            // Start the upload process
-            uploadNext();
-        });
+        this.markChunksUploaded(fileId, chunks, indexes);
+        await this.saveState(fileId);
     }
 
     /**
-     * Uploads a single chunk to the server
-     * Handles retry delay, timeout, and error handling
+     * Flags the given chunk indexes as uploaded and credits their bytes
+     * to the file's progress and the session statistics
      *
      * @private
      * @param {string} fileId - Unique identifier for the file
-     * @param {ChunkInfo} chunk - Chunk metadata and data
-     * @returns {Promise<void>} Promise that resolves when chunk uploads
-     * @throws {Error} If upload fails or times out
+     * @param {ChunkInfo[]} chunks - Chunks for the file
+     * @param {number[]} indexes - Indexes of chunks known to be uploaded
+     * @returns {void}
      */
-    private async uploadChunk(fileId: string, chunk: ChunkInfo): Promise<void> {
-        const file = this.files.get(fileId);
-        if (!file) throw new Error('TurboPush: File not found');
+    private markChunksUploaded(fileId: string, chunks: ChunkInfo[], indexes: number[]): void {
+        const progress = this.fileProgress.get(fileId);
+        if (!progress) return;
+
+        for (const index of indexes) {
+            const chunk = chunks[index];
+            if (!chunk || chunk.uploaded) continue;
 
-        // Apply exponential backoff delay if this is a retry
-        if (chunk.attempts > 0) {
-            await this.sleep(this.config.retryDelay * chunk.attempts);
+            chunk.uploaded = true;
+            const size = chunk.end - chunk.start;
+            progress.uploadedSize += size;
+            this.stats.uploadedBytes += size;
         }
 
-        // Create AbortController for timeout/cancellation
-        const controller = new AbortController();
-        const uploadKey = `${fileId}-${chunk.index}`;
-        this.activeUploads.set(uploadKey, controller);
+        progress.percentage = progress.totalSize > 0
+            ? (progress.uploadedSize / progress.totalSize) * 100
+            : 0;
+    }
 
-        try {
-            // Prepare form data with chunk and metadata
-            const formData = new FormData();
-            formData.append('file', chunk.blob);
-            formData.append('fileName', file.name);
-            formData.append('fileId', fileId);
-            formData.append('chunkIndex', chunk.index.toString());
-            formData.append('totalChunks', this.fileChunks.get(fileId)!.length.toString());
-            formData.append('fileSize', file.size.toString());
+    /**
+     * Records which chunks of a file have been uploaded
+     * Persistence is best-effort: a failed write only costs resumability
+     *
+     * @private
+     * @param {string} fileId - Unique identifier for the file
+     * @returns {Promise<void>} Promise that resolves once state is written
+     */
+    private async saveState(fileId: string): Promise<void> {
+        const store = this.config.stateStore;
+        const file = this.files.get(fileId);
+        const chunks = this.fileChunks.get(fileId);
+        if (!store || !file || !chunks) return;
 
-            // Set up timeout
-            const timeoutId = setTimeout(() => controller.abort(), this.config.timeout);
-
-            // Upload the chunk
-            const response = await fetch(this.config.endpoint, {
-                method: 'POST',
-                body: formData,
-                headers: this.config.headers,
-                credentials: this.config.withCredentials ? 'include' : 'omit',
-                signal: controller.signal
+        try {
+            await store.set({
+                fileId,
+                fileName: file.name,
+                fileSize: file.size,
+                chunkSize: this.config.chunkSize,
+                totalChunks: chunks.length,
+                uploadedChunks: chunks.filter(c => c.uploaded).map(c => c.index),
+                ...(this.chunkSizer && {
+                    chunkRanges: chunks.map(c => [c.start, c.end] as [number, number])
+                }),
+                updatedAt: Date.now()
             });
-
-            clearTimeout(timeoutId);
-
-            // Check for HTTP errors
-            if (!response.ok) {
-                throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-            }
-
-            // Parse and validate response
-            const result = await response.json();
-            if (!result.success) {
-                throw new Error(result.error || 'Upload failed');
-            }
         } catch (error) {
-            // Handle timeout errors specifically
-            if ((error as Error).name === 'AbortError') {
-                throw new Error('Upload timeout');
-            }
-            throw error;
-        } finally {
-            // Clean up abort controller
-            this.activeUploads.delete(uploadKey);
+            // Ignore store failures, the upload itself is unaffected
         }
     }
 
     /**
-     * Sends finalization request to server after all chunks uploaded
-     * Tells server to merge chunks into final file
+     * Removes the persisted state for a file
      *
      * @private
      * @param {string} fileId - Unique identifier for the file
-     * @param {File} file - The File object
-     * @returns {Promise<void>} Promise that resolves when finalization completes
-     * @throws {Error} If finalization fails
+     * @returns {Promise<void>} Promise that resolves once state is removed
      */
-    private async finalizeUpload(fileId: string, file: File): Promise<void> {
-        const response = await fetch(this.config.endpoint, {
-            method: 'POST',
-            headers: {
-                'Content-Type': 'application/json',
-                ...this.config.headers
-            },
-            body: JSON.stringify({
-                action: 'finalize',
-                fileName: file.name,
-                fileId: fileId,
-                fileSize: file.size,
-                totalChunks: this.fileChunks.get(fileId)!.length
-            }),
-            credentials: this.config.withCredentials ? 'include' : 'omit'
-        });
+    private async clearState(fileId: string): Promise<void> {
+        if (!this.config.stateStore) return;
 
-        if (!response.ok) {
-            throw new Error(`Finalization failed: ${response.statusText}`);
+        try {
+            await this.config.stateStore.delete(fileId);
+        } catch (error) {
+            // Ignore store failures, stale state is discarded on mismatch
         }
+    }
 
-        const result = await response.json();
-        if (!result.success) {
-            throw new Error(result.error || 'Finalization failed');
+    /**
+     * Generates a unique identifier for a file upload session
+     * Combines filename (cut to MAX_ID_NAME_LENGTH), size, timestamp, and random string
+     *
+     * When a state store or server status queries are configured the ID is
+     * derived from the file's name (and a hash of it), size and modification time instead, so
+     * the same file maps to the same ID (and server-side temp chunks) across sessions
+     *
+     * Streams cannot be resumed, so they always get a random ID
+     *
+     * @private
+     * @param {UploadFile} file - File to generate ID for
+     * @returns {string} Unique file identifier
+     */
+    private generateFileId(file: UploadFile): string {
+        const baseName = file.name.replace(/[^a-zA-Z0-9]/g, '_').slice(0, MAX_ID_NAME_LENGTH);
+
+        const resumable = this.config.stateStore || this.config.checkServerStatus;
+        if (resumable && !(isUploadSource(file) && file.sequential)) {
+            // The name is sanitized and cut, so a hash of the full name keeps
+            // e.g. `a b.txt` and `a_b.txt` apart
+            const nameHash = sha256.create();
+            nameHash.update(utf8(file.name));
+            const fingerprint = `${baseName}-${nameHash.digest().slice(0, 16)}-${file.size}-${file.lastModified}`;
+
+            // The same file queued twice in one session still needs distinct IDs
+            let fileId = fingerprint;
+            for (let n = 2; this.files.has(fileId); n++) {
+                fileId = `${fingerprint}-${n}`;
+            }
+            return fileId;
         }
+
+        const timestamp = Date.now();
+        const random = Math.random().toString(36).substring(2, 15);
+        return `${baseName}-${file.size}-${timestamp}-${random}`;
     }
 
     /**
-     * Splits a file into chunks for uploading
-     * Creates chunk metadata including blob slices
+     * Settles the promise of a file's upload handle
+     * Later outcomes of the same file are ignored
      *
      * @private
-     * @param {File} file - File to split into chunks
-     * @returns {ChunkInfo[]} Array of chunk metadata
+     * @param {string} fileId - Unique identifier for the file
+     * @param {FileUploadResult | Error} outcome - Result to resolve with, or error to reject with
+     * @returns {void}
      */
-    private createChunks(file: File): ChunkInfo[] {
-        const chunks: ChunkInfo[] = [];
-        const totalChunks = Math.ceil(file.size / this.config.chunkSize);
+    private settleFile(fileId: string, outcome: FileUploadResult | Error): void {
+        const handle = this.fileResults.get(fileId);
+        if (!handle) return;
+
+        this.fileResults.delete(fileId);
+        if (outcome instanceof Error) {
+            handle.reject(outcome);
+        } else {
+            handle.resolve(outcome);
+        }
+    }
 
-        for (let i = 0; i < totalChunks; i++) {
-            const start = i * this.config.chunkSize;
-            const end = Math.min(start + this.config.chunkSize, file.size);
+    /**
+     * Removes a queued file that failed a custom validator
+     *
+     * @private
+     * @param {string} fileId - Unique identifier for the file
+     * @param {FileValidationError} error - The violated rule
+     * @returns {void}
+     */
+    private rejectFile(fileId: string, error: FileValidationError): void {
+        const file = this.files.get(fileId)!;
 
-            chunks.push({
-                index: i,
-                start,
-                end,
-                blob: file.slice(start, end),
-                attempts: 0,
-                uploaded: false
-            });
+        this.settleFile(fileId, error);
+        this.removeFile(fileId);
+        this.events.emit('fileRejected', file.name, fileId, error);
+    }
+
+    /**
+     * Counts the files in the queue for the `maxFiles` and `maxTotalSize` rules
+     *
+     * @private
+     * @returns {Object} Number and combined size of queued, non-cancelled files
+     */
+    private getQueuedTotals(): { count: number; totalBytes: number } {
+        let count = 0;
+        let totalBytes = 0;
+        for (const progress of this.fileProgress.values()) {
+            if (progress.status === 'cancelled') continue;
+            count++;
+            totalBytes += progress.file.size;
         }
-        return chunks;
+        return { count, totalBytes };
     }
 
     /**
-     * Generates a unique identifier for a file upload session
-     * Combines filename, size, timestamp, and random string
+     * Describes a chunk for chunk events
      *
      * @private
-     * @param {File} file - File to generate ID for
-     * @returns {string} Unique file identifier
+     * @param {ChunkInfo} chunk - Chunk metadata
+     * @returns {ChunkEvent} Chunk range and attempt number
      */
-    private generateFileId(file: File): string {
-        const timestamp = Date.now();
-        const random = Math.random().toString(36).substring(2, 15);
-        return `${file.name.replace(/[^a-zA-Z0-9]/g, '_')}-${file.size}-${timestamp}-${random}`;
+    private chunkEvent(chunk: ChunkInfo): ChunkEvent {
+        return {
+            index: chunk.index,
+            start: chunk.start,
+            end: chunk.end,
+            attempt: chunk.attempts + 1
+        };
     }
 
     /**
@@ -1002,4 +3758,42 @@ export class TurboPush {
 }
 
 // Export type definitions for external use
-export type { TurboPushConfig, UploadProgress, UploadStats };
\ No newline at end of file
+export type {
+    TurboPushConfig,
+    ValidationRules,
+    FileValidator,
+    ConnectivitySource,
+    UploadSource,
+    UploadFile,
+    RetryPolicy,
+    RetryDelayContext,
+    AdaptiveChunkOptions,
+    DedupOptions,
+    CompressionCodec,
+    CompressionOptions,
+    EncryptionOptions,
+    EncryptionKey,
+    EncryptionKeyProvider,
+    EncryptionHeader,
+    FileTransform,
+    FileTransformContext,
+    FormFieldsProvider,
+    FormFieldsContext,
+    AddFileOptions,
+    UploadProgress,
+    UploadStats,
+    UploadState,
+    UploadStateStore,
+    ChecksumAlgorithm,
+    ChecksumHasher,
+    FileUploadResult,
+    UploadHandle,
+    ChunkEvent,
+    TurboPushEvents,
+    UploadTransport,
+    TransportFileContext,
+    TransportPrepareContext,
+    TransportChunkContext,
+    TransportFinalizeContext,
+    TransportHashesContext
+};
\ No newline at end of file
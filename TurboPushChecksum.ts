@@ -0,0 +1,306 @@
+/**
+ * TurboPush Checksums - Chunk and file integrity digests
+ *
+ * Pure TypeScript implementations of SHA-256 and CRC32C used by TurboPush
+ * to send a digest with every chunk and a whole-file digest on finalize.
+ * SHA-256 uses WebCrypto for one-shot chunk digests where available.
+ * All digests are lowercase hex strings, matching PHP's hash() output.
+ *
+ * @module TurboPushChecksum
+ * @since 1.1.0
+ *
+ * @example
+ * ```typescript
+ * import { sha256 } from './TurboPushChecksum.js';
+ *
+ * const hasher = sha256.create();
+ * hasher.update(new Uint8Array([1, 2, 3]));
+ * console.log(hasher.digest());
+ * ```
+ */
+
+import type { ChecksumAlgorithm, ChecksumHasher } from './TurboPush.js';
+
+/** SHA-256 round constants */
+const SHA256_K = new Uint32Array([
+    0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+    0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+    0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+    0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+    0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+    0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+    0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+    0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2
+]);
+
+/** CRC32C (Castagnoli, reflected polynomial 0x82F63B78) lookup table */
+const CRC32C_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0x82f63b78 ^ (c >>> 1) : c >>> 1;
+        }
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+/**
+ * Encodes text as UTF-8
+ *
+ * @param {string} text - Text to encode
+ * @returns {Uint8Array} UTF-8 bytes
+ */
+export function utf8(text: string): Uint8Array {
+    const binary = encodeURIComponent(text).replace(
+        /%([0-9A-F]{2})/g,
+        (_, hex: string) => String.fromCharCode(parseInt(hex, 16))
+    );
+    return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+/**
+ * Formats bytes as a lowercase hex string
+ *
+ * @param {Uint8Array} bytes - Bytes to format
+ * @returns {string} Hex string
+ */
+export function toHex(bytes: Uint8Array): string {
+    let hex = '';
+    for (let i = 0; i < bytes.length; i++) {
+        hex += bytes[i].toString(16).padStart(2, '0');
+    }
+    return hex;
+}
+
+/**
+ * Sha256Hasher - Incremental SHA-256 (FIPS 180-4)
+ *
+ * @class Sha256Hasher
+ * @implements {ChecksumHasher}
+ * @private
+ */
+class Sha256Hasher implements ChecksumHasher {
+    /** Current hash state (H0-H7) */
+    private state = new Uint32Array([
+        0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a,
+        0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19
+    ]);
+
+    /** Partial block awaiting more input */
+    private block = new Uint8Array(64);
+
+    /** Number of bytes currently held in block */
+    private blockLength = 0;
+
+    /** Total number of bytes hashed so far */
+    private totalLength = 0;
+
+    /** Message schedule, reused between blocks */
+    private w = new Uint32Array(64);
+
+    /**
+     * Feeds more data into the hash
+     *
+     * @param {Uint8Array} data - Data to hash
+     * @returns {void}
+     */
+    public update(data: Uint8Array): void {
+        this.totalLength += data.length;
+        let offset = 0;
+
+        while (offset < data.length) {
+            const take = Math.min(64 - this.blockLength, data.length - offset);
+            this.block.set(data.subarray(offset, offset + take), this.blockLength);
+            this.blockLength += take;
+            offset += take;
+
+            if (this.blockLength === 64) {
+                this.compress();
+                this.blockLength = 0;
+            }
+        }
+    }
+
+    /**
+     * Finishes the hash and returns the digest
+     *
+     * @returns {string} 64-character hex digest
+     */
+    public digest(): string {
+        const bitLength = this.totalLength * 8;
+
+        // Append 0x80, pad with zeros, then the 64-bit big-endian bit length
+        this.block[this.blockLength++] = 0x80;
+        if (this.blockLength > 56) {
+            this.block.fill(0, this.blockLength);
+            this.compress();
+            this.blockLength = 0;
+        }
+        this.block.fill(0, this.blockLength, 56);
+
+        const view = new DataView(this.block.buffer);
+        view.setUint32(56, Math.floor(bitLength / 0x100000000));
+        view.setUint32(60, bitLength >>> 0);
+        this.compress();
+
+        const out = new Uint8Array(32);
+        const outView = new DataView(out.buffer);
+        this.state.forEach((word, i) => outView.setUint32(i * 4, word));
+        return toHex(out);
+    }
+
+    /**
+     * Processes one full 64-byte block
+     *
+     * @private
+     * @returns {void}
+     */
+    private compress(): void {
+        const w = this.w;
+        const view = new DataView(this.block.buffer);
+
+        for (let i = 0; i < 16; i++) {
+            w[i] = view.getUint32(i * 4);
+        }
+        for (let i = 16; i < 64; i++) {
+            const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+            const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+            w[i] = (w[i - 16] + s0 + w[i - 7] + s1) >>> 0;
+        }
+
+        let [a, b, c, d, e, f, g, h] = this.state;
+
+        for (let i = 0; i < 64; i++) {
+            const s1 = rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25);
+            const ch = (e & f) ^ (~e & g);
+            const t1 = (h + s1 + ch + SHA256_K[i] + w[i]) >>> 0;
+            const s0 = rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22);
+            const maj = (a & b) ^ (a & c) ^ (b & c);
+            const t2 = (s0 + maj) >>> 0;
+
+            h = g;
+            g = f;
+            f = e;
+            e = (d + t1) >>> 0;
+            d = c;
+            c = b;
+            b = a;
+            a = (t1 + t2) >>> 0;
+        }
+
+        const s = this.state;
+        s[0] += a; s[1] += b; s[2] += c; s[3] += d;
+        s[4] += e; s[5] += f; s[6] += g; s[7] += h;
+    }
+}
+
+/**
+ * Crc32cHasher - Incremental CRC32C
+ *
+ * @class Crc32cHasher
+ * @implements {ChecksumHasher}
+ * @private
+ */
+class Crc32cHasher implements ChecksumHasher {
+    /** Running CRC register (pre-inverted) */
+    private crc = 0xffffffff;
+
+    /**
+     * Feeds more data into the checksum
+     *
+     * @param {Uint8Array} data - Data to checksum
+     * @returns {void}
+     */
+    public update(data: Uint8Array): void {
+        let crc = this.crc;
+        for (let i = 0; i < data.length; i++) {
+            crc = CRC32C_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+        }
+        this.crc = crc;
+    }
+
+    /**
+     * Finishes the checksum and returns the digest
+     *
+     * @returns {string} 8-character hex digest
+     */
+    public digest(): string {
+        return ((this.crc ^ 0xffffffff) >>> 0).toString(16).padStart(8, '0');
+    }
+}
+
+/**
+ * Rotates a 32-bit word right
+ *
+ * @param {number} x - Word to rotate
+ * @param {number} n - Bit count
+ * @returns {number} Rotated word
+ */
+function rotr(x: number, n: number): number {
+    return (x >>> n) | (x << (32 - n));
+}
+
+/**
+ * SHA-256 checksum algorithm
+ * Chunk digests use WebCrypto when available, the whole-file digest is
+ * always computed incrementally in pure TypeScript
+ */
+export const sha256: ChecksumAlgorithm = {
+    name: 'sha256',
+    create: () => new Sha256Hasher(),
+    digest: async (data: Uint8Array): Promise<string> => {
+        const subtle = globalThis.crypto?.subtle;
+        if (subtle) {
+            return toHex(new Uint8Array(await subtle.digest('SHA-256', data as BufferSource)));
+        }
+
+        const hasher = new Sha256Hasher();
+        hasher.update(data);
+        return hasher.digest();
+    }
+};
+
+/**
+ * CRC32C checksum algorithm
+ * Much cheaper than SHA-256; detects transfer corruption but is not
+ * suitable for content-addressed deduplication
+ */
+export const crc32c: ChecksumAlgorithm = {
+    name: 'crc32c',
+    create: () => new Crc32cHasher()
+};
+
+/**
+ * Resolves a checksum option to an algorithm
+ *
+ * @param {'sha256' | 'crc32c' | ChecksumAlgorithm} option - Built-in name or custom algorithm
+ * @returns {ChecksumAlgorithm} The algorithm to use
+ * @throws {Error} If the name is not a built-in algorithm
+ */
+export function resolveChecksumAlgorithm(
+    option: 'sha256' | 'crc32c' | ChecksumAlgorithm
+): ChecksumAlgorithm {
+    if (typeof option !== 'string') return option;
+    if (option === 'sha256') return sha256;
+    if (option === 'crc32c') return crc32c;
+    throw new Error(`TurboPush: unknown checksum algorithm: ${option}`);
+}
+
+/**
+ * Computes a one-shot digest of some bytes
+ *
+ * @param {ChecksumAlgorithm} algorithm - Algorithm to use
+ * @param {Uint8Array} data - Data to hash
+ * @returns {Promise<string>} Hex digest
+ */
+export async function digestBytes(algorithm: ChecksumAlgorithm, data: Uint8Array): Promise<string> {
+    if (algorithm.digest) {
+        return algorithm.digest(data);
+    }
+
+    const hasher = algorithm.create();
+    hasher.update(data);
+    return hasher.digest();
+}
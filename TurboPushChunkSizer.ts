@@ -0,0 +1,131 @@
+/**
+ * TurboPush Chunk Sizer - Adaptive chunk sizing
+ *
+ * Picks the size of the next chunk from the throughput measured on the
+ * chunks uploaded so far, so each request takes roughly a target duration:
+ * fast links get few large requests, slow or mobile links get small
+ * requests that finish well within the timeout.
+ *
+ * Starts at the minimum size, at most doubles per completed chunk and
+ * halves after a failed request.
+ *
+ * @module TurboPushChunkSizer
+ * @since 1.1.0
+ *
+ * @example
+ * ```typescript
+ * import { AdaptiveChunkSizer } from './TurboPushChunkSizer.js';
+ *
+ * const sizer = new AdaptiveChunkSizer({ minChunkSize: 256 * 1024 });
+ * sizer.recordSuccess(256 * 1024, 150); // 256 KiB took 150ms
+ * console.log(sizer.nextSize());        // 512 KiB
+ * ```
+ */
+
+import type { AdaptiveChunkOptions } from './TurboPush.js';
+
+/** Default lower bound for chunk sizes (256 KiB) */
+const DEFAULT_MIN_CHUNK_SIZE = 256 * 1024;
+
+/** Default upper bound for chunk sizes (16 MiB) */
+const DEFAULT_MAX_CHUNK_SIZE = 16 * 1024 * 1024;
+
+/** Default target duration of a chunk request in milliseconds */
+const DEFAULT_TARGET_DURATION = 2000;
+
+/** Largest factor the chunk size may grow by after one completed chunk */
+const MAX_GROWTH = 2;
+
+/** Weight of the newest sample in the smoothed throughput */
+const SMOOTHING = 0.5;
+
+/**
+ * AdaptiveChunkSizer - Sizes chunks from measured per-request throughput
+ *
+ * @class AdaptiveChunkSizer
+ */
+export class AdaptiveChunkSizer {
+    /** Lower bound for chunk sizes in bytes */
+    public readonly minChunkSize: number;
+
+    /** Upper bound for chunk sizes in bytes */
+    public readonly maxChunkSize: number;
+
+    /** Target duration of a chunk request in milliseconds */
+    public readonly targetDuration: number;
+
+    /** Size of the next chunk in bytes */
+    private size: number;
+
+    /** Smoothed throughput of recent requests in bytes per millisecond */
+    private throughput?: number;
+
+    /**
+     * Creates a new AdaptiveChunkSizer
+     *
+     * @param {AdaptiveChunkOptions} [options] - Size bounds and target duration
+     * @throws {Error} If the bounds are invalid
+     */
+    constructor(options: AdaptiveChunkOptions = {}) {
+        this.minChunkSize = options.minChunkSize ?? DEFAULT_MIN_CHUNK_SIZE;
+        this.maxChunkSize = options.maxChunkSize ?? Math.max(DEFAULT_MAX_CHUNK_SIZE, this.minChunkSize);
+        this.targetDuration = options.targetDuration ?? DEFAULT_TARGET_DURATION;
+
+        if (!(this.minChunkSize > 0) || this.minChunkSize > this.maxChunkSize) {
+            throw new Error('TurboPush: adaptive chunk sizes must satisfy 0 < minChunkSize <= maxChunkSize');
+        }
+        if (!(this.targetDuration > 0)) {
+            throw new Error('TurboPush: targetDuration must be positive');
+        }
+
+        this.size = this.minChunkSize;
+    }
+
+    /**
+     * Gets the size for the next chunk
+     *
+     * @returns {number} Chunk size in bytes
+     */
+    public nextSize(): number {
+        return this.size;
+    }
+
+    /**
+     * Records a completed chunk request and resizes the next chunk
+     *
+     * @param {number} bytes - Size of the uploaded chunk
+     * @param {number} duration - Request duration in milliseconds
+     * @returns {void}
+     */
+    public recordSuccess(bytes: number, duration: number): void {
+        const sample = bytes / Math.max(1, duration);
+        this.throughput = this.throughput === undefined
+            ? sample
+            : SMOOTHING * sample + (1 - SMOOTHING) * this.throughput;
+
+        const ideal = this.throughput * this.targetDuration;
+        this.size = this.clamp(Math.min(ideal, this.size * MAX_GROWTH));
+    }
+
+    /**
+     * Records a failed chunk request (e.g. a timeout) and halves the next chunk
+     * The throughput estimate is discarded, as the link has likely changed
+     *
+     * @returns {void}
+     */
+    public recordFailure(): void {
+        this.throughput = undefined;
+        this.size = this.clamp(this.size / 2);
+    }
+
+    /**
+     * Rounds a size and limits it to the configured bounds
+     *
+     * @private
+     * @param {number} size - Proposed size in bytes
+     * @returns {number} Size within [minChunkSize, maxChunkSize]
+     */
+    private clamp(size: number): number {
+        return Math.max(this.minChunkSize, Math.min(this.maxChunkSize, Math.round(size)));
+    }
+}
@@ -0,0 +1,558 @@
+#!/usr/bin/env node
+/**
+ * TurboPush CLI - Command-line uploader
+ *
+ * Uploads files, directories and glob matches with the same client as the
+ * browser: chunking, parallel connections, retries and resumable state.
+ * Shows a progress bar on a terminal, or prints one JSON object per line
+ * for scripts; exits with status 1 if any file fails.
+ *
+ * @module TurboPushCli
+ * @since 1.1.0
+ *
+ * @example
+ * ```bash
+ * turbopush -e https://example.com/upload --chunk-size 5MB --concurrency 4 \
+ *     -H "Authorization: Bearer $TOKEN" --state ~/.turbopush-state.json \
+ *     'backups/*.tar.gz' ./reports
+ * ```
+ */
+
+import { TurboPush } from './TurboPush.js';
+import type { UploadProgress } from './TurboPush.js';
+import { FileStateStore } from './TurboPushStateStore.js';
+import { fromPath } from './TurboPushInput.js';
+import { toTurboPushError } from './TurboPushErrors.js';
+
+/** Printed by --help */
+const USAGE = `Usage: turbopush [options] <file | directory | glob>...
+
+Options:
+  -e, --endpoint <url>     Upload endpoint (required)
+  -c, --chunk-size <size>  Chunk size, e.g. 1048576, 512KB or 5MB (default: 1MB)
+      --concurrency <n>    Parallel connections, 1-10 (default: 3)
+      --retries <n>        Retries per chunk (default: 3)
+  -H, --header <header>    Extra request header "Name: value" (repeatable)
+      --exclude <glob>     Skip matching files (repeatable)
+      --state <file>       Resume state file; interrupted uploads continue on the next run
+      --json               Print one JSON object per line instead of a progress bar
+      --no-progress        Do not draw the progress bar
+  -h, --help               Show this help
+
+Directories are uploaded recursively, each file named by its path below the
+directory. Exits with status 1 if any file fails, 2 on invalid usage.
+`;
+
+/**
+ * Parsed command-line options
+ *
+ * @interface CliOptions
+ */
+export interface CliOptions {
+    /** Upload endpoint URL */
+    endpoint: string;
+
+    /** Files, directories and glob patterns to upload */
+    patterns: string[];
+
+    /** Glob patterns of files to skip */
+    exclude: string[];
+
+    /** Chunk size in bytes */
+    chunkSize?: number;
+
+    /** Parallel connections */
+    concurrency?: number;
+
+    /** Retries per chunk */
+    retries?: number;
+
+    /** Extra request headers */
+    headers: Record<string, string>;
+
+    /** Resume state file */
+    stateFile?: string;
+
+    /** Print JSON lines instead of human-readable output */
+    json: boolean;
+
+    /** Draw the progress bar (on terminals only) */
+    progress: boolean;
+
+    /** Show usage and exit */
+    help: boolean;
+}
+
+/**
+ * A file to upload, as found by collectFiles()
+ *
+ * @interface CollectedFile
+ */
+export interface CollectedFile {
+    /** Path of the file on disk */
+    path: string;
+
+    /**
+     * Name to upload the file as: its path relative to the directory or the
+     * glob's base directory it was found in, or its base name if given as is
+     */
+    name: string;
+}
+
+/**
+ * Output streams of the CLI (process.stdout and process.stderr by default)
+ *
+ * @interface CliIo
+ */
+export interface CliIo {
+    /** Receives results: file lines, JSON lines and the summary */
+    stdout: { write(text: string): unknown };
+
+    /** Receives the progress bar and errors; the bar is drawn only if `isTTY` */
+    stderr: { write(text: string): unknown; isTTY?: boolean };
+}
+
+/**
+ * Parses command-line arguments
+ *
+ * @param {string[]} argv - Arguments without the node and script paths
+ * @returns {CliOptions} Parsed options
+ * @throws {Error} On unknown options, missing values or invalid numbers
+ */
+export function parseArgs(argv: string[]): CliOptions {
+    const options: CliOptions = {
+        endpoint: '',
+        patterns: [],
+        exclude: [],
+        headers: {},
+        json: false,
+        progress: true,
+        help: false
+    };
+
+    for (let i = 0; i < argv.length; i++) {
+        let arg = argv[i];
+        let inlineValue: string | undefined;
+
+        // --name=value
+        const eq = arg.indexOf('=');
+        if (arg.startsWith('--') && eq > 0) {
+            inlineValue = arg.slice(eq + 1);
+            arg = arg.slice(0, eq);
+        }
+
+        const value = (): string => {
+            if (inlineValue !== undefined) return inlineValue;
+            if (i + 1 >= argv.length) {
+                throw new Error(`TurboPush: ${arg} needs a value`);
+            }
+            return argv[++i];
+        };
+
+        switch (arg) {
+            case '-e':
+            case '--endpoint':
+                options.endpoint = value();
+                break;
+            case '-c':
+            case '--chunk-size':
+                options.chunkSize = parseSize(value());
+                break;
+            case '--concurrency':
+                options.concurrency = parseInteger(arg, value(), 1);
+                break;
+            case '--retries':
+                options.retries = parseInteger(arg, value(), 0);
+                break;
+            case '-H':
+            case '--header': {
+                const header = value();
+                const colon = header.indexOf(':');
+                if (colon <= 0) {
+                    throw new Error(`TurboPush: header must look like "Name: value", got "${header}"`);
+                }
+                options.headers[header.slice(0, colon).trim()] = header.slice(colon + 1).trim();
+                break;
+            }
+            case '--exclude':
+                options.exclude.push(value());
+                break;
+            case '--state':
+                options.stateFile = value();
+                break;
+            case '--json':
+                options.json = true;
+                break;
+            case '--no-progress':
+                options.progress = false;
+                break;
+            case '-h':
+            case '--help':
+                options.help = true;
+                break;
+            default:
+                if (arg.startsWith('-') && arg !== '-') {
+                    throw new Error(`TurboPush: unknown option ${arg}`);
+                }
+                options.patterns.push(arg);
+        }
+    }
+
+    if (!options.help) {
+        if (!options.endpoint) {
+            throw new Error('TurboPush: --endpoint is required');
+        }
+        if (options.patterns.length === 0) {
+            throw new Error('TurboPush: no files given');
+        }
+    }
+    return options;
+}
+
+/**
+ * Parses a byte size such as '1048576', '512KB', '5MB' or '1.5m'
+ * Units are binary (1KB = 1024 bytes)
+ *
+ * @param {string} value - Size with an optional unit
+ * @returns {number} Size in bytes
+ * @throws {Error} If the size is not a positive number
+ */
+export function parseSize(value: string): number {
+    const match = /^(\d+(?:\.\d+)?)\s*([kmg]?)(?:i?b)?$/i.exec(value.trim());
+    const units: Record<string, number> = { '': 1, k: 1024, m: 1024 ** 2, g: 1024 ** 3 };
+    const bytes = match ? Math.floor(parseFloat(match[1]) * units[match[2].toLowerCase()]) : NaN;
+
+    if (!(bytes > 0)) {
+        throw new Error(`TurboPush: invalid size "${value}"`);
+    }
+    return bytes;
+}
+
+/**
+ * Converts a glob pattern to a regular expression
+ * Supports `*`, `**`, `?`, `[...]` and `{a,b}`; paths use forward slashes
+ *
+ * @param {string} pattern - Glob pattern
+ * @returns {RegExp} Expression matching whole paths
+ */
+export function globToRegExp(pattern: string): RegExp {
+    let source = '';
+    let braces = 0;
+
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i];
+
+        if (char === '*') {
+            if (pattern[i + 1] === '*') {
+                // '**/' matches any number of directories, including none
+                const slash = pattern[i + 2] === '/';
+                source += slash ? '(?:.*/)?' : '.*';
+                i += slash ? 2 : 1;
+            } else {
+                source += '[^/]*';
+            }
+        } else if (char === '?') {
+            source += '[^/]';
+        } else if (char === '[') {
+            const close = pattern.indexOf(']', i + 1);
+            if (close === -1) {
+                source += '\\[';
+            } else {
+                source += '[' + pattern.slice(i + 1, close).replace(/^!/, '^').replace(/\\/g, '\\\\') + ']';
+                i = close;
+            }
+        } else if (char === '{') {
+            braces++;
+            source += '(?:';
+        } else if (char === '}' && braces > 0) {
+            braces--;
+            source += ')';
+        } else if (char === ',' && braces > 0) {
+            source += '|';
+        } else {
+            source += char.replace(/[.+^$()|\\{}]/g, '\\$&');
+        }
+    }
+    return new RegExp(`^${source}$`);
+}
+
+/**
+ * Resolves files, directories and glob patterns to files (Node.js)
+ * Directories are walked recursively; their files are named by their path
+ * below the directory, so the structure survives the upload. Exclude
+ * patterns without a slash match file names, others match whole paths
+ *
+ * @param {string[]} patterns - Files, directories and glob patterns
+ * @param {string[]} [exclude] - Glob patterns of files to skip
+ * @returns {Promise<CollectedFile[]>} Matching files sorted by path, without duplicates
+ * @throws {Error} If a path without glob characters does not exist
+ */
+export async function collectFiles(patterns: string[], exclude: string[] = []): Promise<CollectedFile[]> {
+    const fs = await import('fs/promises');
+    const found = new Map<string, string>();
+
+    // Records a file under its upload name (the first pattern to find it wins)
+    const add = (path: string, name: string): void => {
+        if (!found.has(path)) found.set(path, name);
+    };
+    const relativeTo = (root: string, path: string): string =>
+        root === '.' ? path : path.slice(root.replace(/\/$/, '').length + 1);
+
+    // Lists files below `dir`, descending at most `depth` levels
+    const walk = async (dir: string, depth: number = Infinity): Promise<string[]> => {
+        const files: string[] = [];
+        for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+            const entryPath = dir === '.' ? entry.name : `${dir.replace(/\/$/, '')}/${entry.name}`;
+            if (entry.isDirectory()) {
+                if (depth > 1) files.push(...await walk(entryPath, depth - 1));
+            } else if (entry.isFile()) {
+                files.push(entryPath);
+            }
+        }
+        return files;
+    };
+
+    for (const raw of patterns) {
+        const pattern = raw.replace(/\\/g, '/').replace(/^\.\//, '');
+
+        if (/[*?[{]/.test(pattern)) {
+            // Walk from the directory part before the first glob character
+            const segments = pattern.split('/');
+            const firstGlob = segments.findIndex(segment => /[*?[{]/.test(segment));
+            const base = segments.slice(0, firstGlob).join('/') || (pattern.startsWith('/') ? '/' : '.');
+            const matcher = globToRegExp(pattern);
+            const depth = pattern.includes('**') ? Infinity : segments.length - firstGlob;
+
+            let candidates: string[];
+            try {
+                candidates = await walk(base, depth);
+            } catch (error) {
+                continue; // No such directory: nothing matches
+            }
+            candidates.filter(path => matcher.test(path)).forEach(path => add(path, relativeTo(base, path)));
+            continue;
+        }
+
+        let stats;
+        try {
+            stats = await fs.stat(pattern);
+        } catch (error) {
+            throw new Error(`TurboPush: no such file or directory: ${raw}`);
+        }
+        if (stats.isDirectory()) {
+            (await walk(pattern)).forEach(path => add(path, relativeTo(pattern, path)));
+        } else {
+            add(pattern, pattern.slice(pattern.lastIndexOf('/') + 1));
+        }
+    }
+
+    const excluded = exclude.map(pattern => ({ matcher: globToRegExp(pattern), byName: !pattern.includes('/') }));
+    return Array.from(found, ([path, name]) => ({ path, name }))
+        .filter(({ path }) => !excluded.some(({ matcher, byName }) =>
+            matcher.test(byName ? path.slice(path.lastIndexOf('/') + 1) : path)))
+        .sort((a, b) => a.path < b.path ? -1 : a.path > b.path ? 1 : 0);
+}
+
+/**
+ * Runs the CLI
+ *
+ * @param {string[]} argv - Arguments without the node and script paths
+ * @param {CliIo} [io] - Output streams (default: process.stdout and process.stderr)
+ * @returns {Promise<number>} Exit status: 0 if every file was uploaded, 1 if any failed, 2 on invalid usage
+ */
+export async function runCli(
+    argv: string[],
+    io: CliIo = { stdout: process.stdout, stderr: process.stderr }
+): Promise<number> {
+    let options: CliOptions;
+    let files: CollectedFile[];
+    try {
+        options = parseArgs(argv);
+        if (options.help) {
+            io.stdout.write(USAGE);
+            return 0;
+        }
+
+        files = await collectFiles(options.patterns, options.exclude);
+        if (files.length === 0) {
+            throw new Error('TurboPush: no files match');
+        }
+    } catch (error) {
+        io.stderr.write(`${(error as Error).message}\nRun turbopush --help for usage.\n`);
+        return 2;
+    }
+
+    const uploader = new TurboPush({
+        endpoint: options.endpoint,
+        chunkSize: options.chunkSize,
+        maxConcurrentUploads: options.concurrency,
+        maxRetries: options.retries,
+        headers: options.headers,
+        stateStore: options.stateFile ? new FileStateStore(options.stateFile) : undefined
+    });
+
+    const showProgress = options.progress && !options.json && io.stderr.isTTY === true;
+    let lastRender = 0;
+    const clearLine = () => {
+        if (showProgress) io.stderr.write('\r\x1b[K');
+    };
+    if (showProgress) {
+        uploader.onProgress((progress) => {
+            // Redraw at most every 100ms
+            const now = Date.now();
+            if (now - lastRender < 100) return;
+            lastRender = now;
+            io.stderr.write(`\r${renderProgressBar(progress)}\x1b[K`);
+        });
+    }
+
+    let failed = 0;
+    const reportFailure = (path: string, fileId: string | undefined, error: unknown) => {
+        failed++;
+        const failure = toTurboPushError(error);
+        if (options.json) {
+            io.stdout.write(JSON.stringify({
+                event: 'failed',
+                file: path,
+                fileId,
+                code: failure.code,
+                status: failure.status,
+                message: failure.message
+            }) + '\n');
+        } else {
+            clearLine();
+            io.stderr.write(`✗ ${path}: ${failure.message}\n`);
+        }
+    };
+
+    const results: Promise<void>[] = [];
+    for (const { path, name } of files) {
+        let handle;
+        try {
+            handle = uploader.addFile(await fromPath(path, { name }));
+        } catch (error) {
+            reportFailure(path, undefined, error);
+            continue;
+        }
+
+        const { fileId } = handle;
+        results.push(handle.promise.then(
+            (result) => {
+                if (options.json) {
+                    io.stdout.write(JSON.stringify({
+                        event: 'complete',
+                        file: path,
+                        fileId,
+                        size: result.fileSize,
+                        response: result.response
+                    }) + '\n');
+                } else {
+                    clearLine();
+                    io.stdout.write(`✓ ${path} (${formatBytes(result.fileSize)})\n`);
+                }
+            },
+            (error) => reportFailure(path, fileId, error)
+        ));
+    }
+
+    let stats;
+    try {
+        stats = await uploader.push();
+    } catch (error) {
+        // e.g. no file could be opened
+        clearLine();
+        io.stderr.write(`${(error as Error).message}\n`);
+        return 1;
+    }
+    await Promise.all(results);
+
+    if (showProgress) {
+        io.stderr.write(`\r${renderProgressBar(uploader.getProgress())}\x1b[K\n`);
+    }
+
+    const completed = files.length - failed;
+    const duration = stats.duration ?? 0;
+    if (options.json) {
+        io.stdout.write(JSON.stringify({
+            event: 'summary',
+            completed,
+            failed,
+            bytes: stats.uploadedBytes,
+            duration
+        }) + '\n');
+    } else {
+        io.stdout.write(`Uploaded ${completed} of ${files.length} files ` +
+            `(${formatBytes(stats.uploadedBytes)}) in ${duration.toFixed(1)}s\n`);
+    }
+
+    return failed > 0 ? 1 : 0;
+}
+
+/**
+ * Draws one line of overall progress
+ *
+ * @private
+ * @param {UploadProgress[]} progress - Progress of every file
+ * @param {number} [width] - Width of the bar in characters
+ * @returns {string} e.g. `[#####-----]  50% 5.0 MB/10.0 MB 1.2 MB/s 1/2 files`
+ */
+function renderProgressBar(progress: UploadProgress[], width: number = 30): string {
+    const total = progress.reduce((sum, file) => sum + file.totalSize, 0);
+    const uploaded = progress.reduce((sum, file) => sum + file.uploadedSize, 0);
+    const speed = progress.reduce((sum, file) => sum + (file.status === 'uploading' ? file.speed : 0), 0);
+    const done = progress.filter(file => file.status === 'completed').length;
+
+    const ratio = total > 0 ? Math.min(1, uploaded / total) : 0;
+    const filled = Math.round(ratio * width);
+    const bar = '#'.repeat(filled) + '-'.repeat(width - filled);
+    const percentage = `${Math.floor(ratio * 100)}%`.padStart(4);
+
+    return `[${bar}] ${percentage} ${formatBytes(uploaded)}/${formatBytes(total)} ` +
+        `${formatBytes(speed)}/s ${done}/${progress.length} files`;
+}
+
+/**
+ * Parses an integer option
+ *
+ * @private
+ * @param {string} name - Option name, for the error message
+ * @param {string} value - Option value
+ * @param {number} min - Smallest allowed value
+ * @returns {number} The integer
+ * @throws {Error} If the value is not an integer of at least `min`
+ */
+function parseInteger(name: string, value: string, min: number): number {
+    const number = Number(value);
+    if (!/^\d+$/.test(value.trim()) || number < min) {
+        throw new Error(`TurboPush: ${name} must be an integer of at least ${min}, got "${value}"`);
+    }
+    return number;
+}
+
+/**
+ * Formats a byte count for people
+ *
+ * @private
+ * @param {number} bytes - Byte count
+ * @returns {string} e.g. '512 B' or '1.5 MB'
+ */
+function formatBytes(bytes: number): string {
+    const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+    let value = bytes;
+    let unit = 0;
+    while (value >= 1024 && unit < units.length - 1) {
+        value /= 1024;
+        unit++;
+    }
+    return unit === 0 ? `${value} B` : `${value.toFixed(1)} ${units[unit]}`;
+}
+
+// Run when executed (`turbopush` or `node TurboPushCli.js`), not when imported
+if (typeof process !== 'undefined' && /(?:TurboPushCli(?:\.[cm]?[jt]s)?|turbopush)$/.test(process.argv[1] ?? '')) {
+    runCli(process.argv.slice(2)).then((status) => {
+        process.exitCode = status;
+    }, (error) => {
+        process.stderr.write(`turbopush: ${error instanceof Error ? error.message : String(error)}\n`);
+        process.exitCode = 1;
+    });
+}
@@ -0,0 +1,438 @@
+/**
+ * TurboPush Compression - Chunk compression before upload
+ *
+ * Compresses chunk data with gzip (RFC 1952) or deflate (zlib format,
+ * RFC 1950), the two formats of the standard CompressionStream. Where
+ * CompressionStream is missing, a pure TypeScript DEFLATE encoder is used
+ * instead: LZ77 with hash chains and the fixed Huffman codes. It compresses
+ * text somewhat less than zlib but any inflater reads its output.
+ *
+ * Files whose content is compressed already (most images, audio, video,
+ * archives and office documents) gain nothing from another pass and can
+ * be recognised by MIME type, or by extension when the type is unknown.
+ *
+ * @module TurboPushCompression
+ * @since 1.1.0
+ *
+ * @example
+ * ```typescript
+ * import { compressBytes, isCompressedType } from './TurboPushCompression.js';
+ *
+ * if (!isCompressedType(file.type, file.name)) {
+ *     const gzipped = await compressBytes(new Uint8Array(await file.arrayBuffer()), 'gzip');
+ * }
+ * ```
+ */
+
+import type { CompressionCodec, CompressionOptions } from './TurboPush.js';
+
+/** Lengths of LZ77 matches, by length code (257-285) */
+const LENGTH_BASE = [
+    3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31,
+    35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258
+];
+
+/** Extra bits following each length code */
+const LENGTH_EXTRA = [
+    0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2,
+    3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0
+];
+
+/** Distances of LZ77 matches, by distance code (0-29) */
+const DISTANCE_BASE = [
+    1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193,
+    257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577
+];
+
+/** Extra bits following each distance code */
+const DISTANCE_EXTRA = [
+    0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6,
+    7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13
+];
+
+/** LZ77 window size (the DEFLATE maximum) */
+const WINDOW_SIZE = 32768;
+
+/** Shortest and longest match DEFLATE can encode */
+const MIN_MATCH = 3;
+const MAX_MATCH = 258;
+
+/** Matches tried per position before settling for the best so far */
+const MAX_CHAIN = 64;
+
+/** Bits of the hash of the next three bytes */
+const HASH_BITS = 15;
+
+/** CRC-32 (IEEE, reflected polynomial 0xEDB88320) lookup table, used by gzip */
+const CRC32_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+/** MIME types of compressed data outside image/, audio/ and video/ */
+const COMPRESSED_TYPES = new Set([
+    'application/zip',
+    'application/gzip',
+    'application/x-gzip',
+    'application/x-bzip2',
+    'application/x-xz',
+    'application/x-7z-compressed',
+    'application/vnd.rar',
+    'application/x-rar-compressed',
+    'application/zstd',
+    'application/java-archive',
+    'application/vnd.android.package-archive',
+    'font/woff',
+    'font/woff2'
+]);
+
+/** Media types that are stored uncompressed */
+const UNCOMPRESSED_MEDIA_TYPES = new Set([
+    'image/svg+xml',
+    'image/bmp',
+    'image/x-ms-bmp',
+    'image/tiff',
+    'audio/wav',
+    'audio/wave',
+    'audio/x-wav'
+]);
+
+/** Extensions of compressed formats, for files without a useful MIME type */
+const COMPRESSED_EXTENSIONS = new Set([
+    'jpg', 'jpeg', 'png', 'gif', 'webp', 'avif', 'heic', 'heif',
+    'mp3', 'm4a', 'aac', 'ogg', 'oga', 'opus', 'flac',
+    'mp4', 'm4v', 'mov', 'mkv', 'webm', 'avi',
+    'zip', 'gz', 'tgz', 'bz2', 'xz', 'txz', '7z', 'rar', 'zst', 'jar', 'apk',
+    'docx', 'xlsx', 'pptx', 'odt', 'ods', 'odp', 'epub', 'woff', 'woff2'
+]);
+
+/**
+ * Applies defaults to the compression option and checks it
+ *
+ * @param {CompressionCodec | CompressionOptions} option - Codec name or options
+ * @returns {Required<CompressionOptions>} Options with every field set
+ * @throws {Error} If the codec is not 'gzip' or 'deflate'
+ */
+export function resolveCompressionOptions(option: CompressionCodec | CompressionOptions): Required<CompressionOptions> {
+    const options = typeof option === 'string' ? { codec: option } : option;
+    if (options.codec !== 'gzip' && options.codec !== 'deflate') {
+        throw new Error(`TurboPush: unknown compression codec: ${options.codec}`);
+    }
+    return {
+        codec: options.codec,
+        skipCompressedTypes: options.skipCompressedTypes ?? true
+    };
+}
+
+/**
+ * Checks whether a file's content is most likely compressed already
+ * Uses the MIME type, or the extension if the type is empty or generic
+ *
+ * @param {string} type - MIME type, possibly empty or with parameters
+ * @param {string} name - File name
+ * @returns {boolean} True if compressing the file would gain little
+ */
+export function isCompressedType(type: string, name: string): boolean {
+    const mime = type.split(';')[0].trim().toLowerCase();
+
+    if (mime && mime !== 'application/octet-stream') {
+        if (UNCOMPRESSED_MEDIA_TYPES.has(mime)) return false;
+        return /^(image|audio|video)\//.test(mime) ||
+            COMPRESSED_TYPES.has(mime) ||
+            mime.endsWith('+zip') ||
+            mime.startsWith('application/vnd.openxmlformats-officedocument.') ||
+            mime.startsWith('application/vnd.oasis.opendocument.');
+    }
+
+    const dot = name.lastIndexOf('.');
+    return dot >= 0 && COMPRESSED_EXTENSIONS.has(name.slice(dot + 1).toLowerCase());
+}
+
+/**
+ * Compresses bytes with CompressionStream, or in TypeScript where it is missing
+ *
+ * @param {Uint8Array} data - Bytes to compress
+ * @param {CompressionCodec} codec - 'gzip' or 'deflate' (zlib format)
+ * @returns {Promise<Uint8Array>} Compressed bytes
+ * @throws {Error} If the compression stream fails
+ */
+export async function compressBytes(data: Uint8Array, codec: CompressionCodec): Promise<Uint8Array> {
+    if (typeof CompressionStream !== 'undefined') {
+        return compressWithStream(data, codec);
+    }
+
+    const deflated = deflateRaw(data);
+    return codec === 'gzip' ? wrapGzip(deflated, data) : wrapZlib(deflated, data);
+}
+
+/**
+ * Compresses bytes with the standard CompressionStream
+ *
+ * @private
+ * @param {Uint8Array} data - Bytes to compress
+ * @param {CompressionCodec} codec - Stream format
+ * @returns {Promise<Uint8Array>} Compressed bytes
+ */
+async function compressWithStream(data: Uint8Array, codec: CompressionCodec): Promise<Uint8Array> {
+    const stream = new CompressionStream(codec);
+    const writer = stream.writable.getWriter();
+
+    // Write without waiting: the stream only drains while it is read
+    const writing = writer.write(data as BufferSource).then(() => writer.close());
+
+    const parts: Uint8Array[] = [];
+    const reader = stream.readable.getReader();
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        parts.push(value);
+    }
+    await writing;
+
+    const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        result.set(part, offset);
+        offset += part.length;
+    }
+    return result;
+}
+
+/**
+ * BitWriter - Packs DEFLATE codes into bytes, least significant bit first
+ *
+ * @class BitWriter
+ * @private
+ */
+class BitWriter {
+    /** Output buffer, sized for the worst case by the caller */
+    public readonly bytes: Uint8Array;
+
+    /** Bytes written so far */
+    public length: number = 0;
+
+    /** Bits not yet flushed to the buffer */
+    private bits: number = 0;
+
+    /** Number of bits held in `bits` */
+    private count: number = 0;
+
+    /**
+     * Creates a new BitWriter
+     *
+     * @param {number} capacity - Size of the output buffer in bytes
+     */
+    constructor(capacity: number) {
+        this.bytes = new Uint8Array(capacity);
+    }
+
+    /**
+     * Writes a value, least significant bit first (header fields, extra bits)
+     *
+     * @param {number} value - Value to write
+     * @param {number} count - Number of bits, at most 16
+     * @returns {void}
+     */
+    public write(value: number, count: number): void {
+        this.bits |= value << this.count;
+        this.count += count;
+        while (this.count >= 8) {
+            this.bytes[this.length++] = this.bits & 0xff;
+            this.bits >>>= 8;
+            this.count -= 8;
+        }
+    }
+
+    /**
+     * Writes a Huffman code, most significant bit first
+     *
+     * @param {number} code - Code value
+     * @param {number} count - Code length in bits
+     * @returns {void}
+     */
+    public writeCode(code: number, count: number): void {
+        let reversed = 0;
+        for (let i = 0; i < count; i++) {
+            reversed = (reversed << 1) | ((code >>> i) & 1);
+        }
+        this.write(reversed, count);
+    }
+
+    /**
+     * Pads the last byte with zero bits
+     *
+     * @returns {void}
+     */
+    public flush(): void {
+        if (this.count > 0) {
+            this.bytes[this.length++] = this.bits & 0xff;
+        }
+        this.bits = 0;
+        this.count = 0;
+    }
+}
+
+/**
+ * Encodes bytes as a single fixed-Huffman DEFLATE block (RFC 1951)
+ *
+ * @private
+ * @param {Uint8Array} data - Bytes to compress
+ * @returns {Uint8Array} Raw DEFLATE stream
+ */
+function deflateRaw(data: Uint8Array): Uint8Array {
+    // No symbol takes more than 9 bits per input byte
+    const out = new BitWriter(Math.ceil(data.length * 9 / 8) + 16);
+    out.write(1, 1); // BFINAL
+    out.write(1, 2); // BTYPE = fixed Huffman codes
+
+    const head = new Int32Array(1 << HASH_BITS).fill(-1);
+    const prev = new Int32Array(WINDOW_SIZE);
+    const hashAt = (i: number) =>
+        Math.imul((data[i] << 16) | (data[i + 1] << 8) | data[i + 2], 0x9e3779b1) >>> (32 - HASH_BITS);
+    const insert = (i: number) => {
+        const hash = hashAt(i);
+        prev[i % WINDOW_SIZE] = head[hash];
+        head[hash] = i;
+    };
+
+    let i = 0;
+    while (i < data.length) {
+        let bestLength = 0;
+        let bestDistance = 0;
+
+        if (i + MIN_MATCH <= data.length) {
+            const maxLength = Math.min(MAX_MATCH, data.length - i);
+            let candidate = head[hashAt(i)];
+            for (let chain = 0; chain < MAX_CHAIN && candidate >= 0 && i - candidate <= WINDOW_SIZE; chain++) {
+                // Check the byte that would extend the best match first
+                if (data[candidate + bestLength] === data[i + bestLength]) {
+                    let length = 0;
+                    while (length < maxLength && data[candidate + length] === data[i + length]) length++;
+                    if (length > bestLength) {
+                        bestLength = length;
+                        bestDistance = i - candidate;
+                        if (length === maxLength) break;
+                    }
+                }
+                candidate = prev[candidate % WINDOW_SIZE];
+            }
+        }
+
+        if (bestLength >= MIN_MATCH) {
+            writeLength(out, bestLength);
+            writeDistance(out, bestDistance);
+            const end = i + bestLength;
+            for (; i < end; i++) {
+                if (i + MIN_MATCH <= data.length) insert(i);
+            }
+        } else {
+            writeLiteral(out, data[i]);
+            if (i + MIN_MATCH <= data.length) insert(i);
+            i++;
+        }
+    }
+
+    writeLiteral(out, 256); // End of block
+    out.flush();
+    return out.bytes.subarray(0, out.length);
+}
+
+/**
+ * Writes a literal byte or the end-of-block symbol with its fixed code
+ *
+ * @private
+ * @param {BitWriter} out - Output
+ * @param {number} symbol - Literal/length symbol (0-287)
+ * @returns {void}
+ */
+function writeLiteral(out: BitWriter, symbol: number): void {
+    if (symbol < 144) out.writeCode(0x30 + symbol, 8);
+    else if (symbol < 256) out.writeCode(0x190 + symbol - 144, 9);
+    else if (symbol < 280) out.writeCode(symbol - 256, 7);
+    else out.writeCode(0xc0 + symbol - 280, 8);
+}
+
+/**
+ * Writes a match length as its length code and extra bits
+ *
+ * @private
+ * @param {BitWriter} out - Output
+ * @param {number} length - Match length (3-258)
+ * @returns {void}
+ */
+function writeLength(out: BitWriter, length: number): void {
+    let code = LENGTH_BASE.length - 1;
+    while (LENGTH_BASE[code] > length) code--;
+    writeLiteral(out, 257 + code);
+    if (LENGTH_EXTRA[code] > 0) out.write(length - LENGTH_BASE[code], LENGTH_EXTRA[code]);
+}
+
+/**
+ * Writes a match distance as its 5-bit fixed code and extra bits
+ *
+ * @private
+ * @param {BitWriter} out - Output
+ * @param {number} distance - Match distance (1-32768)
+ * @returns {void}
+ */
+function writeDistance(out: BitWriter, distance: number): void {
+    let code = DISTANCE_BASE.length - 1;
+    while (DISTANCE_BASE[code] > distance) code--;
+    out.writeCode(code, 5);
+    if (DISTANCE_EXTRA[code] > 0) out.write(distance - DISTANCE_BASE[code], DISTANCE_EXTRA[code]);
+}
+
+/**
+ * Wraps a DEFLATE stream in the zlib format (what CompressionStream calls 'deflate')
+ *
+ * @private
+ * @param {Uint8Array} deflated - Raw DEFLATE stream
+ * @param {Uint8Array} data - Uncompressed bytes, for the Adler-32 trailer
+ * @returns {Uint8Array} zlib stream
+ */
+function wrapZlib(deflated: Uint8Array, data: Uint8Array): Uint8Array {
+    let a = 1;
+    let b = 0;
+    for (let i = 0; i < data.length; i++) {
+        a = (a + data[i]) % 65521;
+        b = (b + a) % 65521;
+    }
+    const adler = ((b << 16) | a) >>> 0;
+
+    const result = new Uint8Array(deflated.length + 6);
+    result[0] = 0x78; // 32K window, DEFLATE
+    result[1] = 0x01; // Fastest compression, header check bits
+    result.set(deflated, 2);
+    new DataView(result.buffer).setUint32(deflated.length + 2, adler);
+    return result;
+}
+
+/**
+ * Wraps a DEFLATE stream in the gzip format
+ *
+ * @private
+ * @param {Uint8Array} deflated - Raw DEFLATE stream
+ * @param {Uint8Array} data - Uncompressed bytes, for the CRC-32 and size trailer
+ * @returns {Uint8Array} gzip stream
+ */
+function wrapGzip(deflated: Uint8Array, data: Uint8Array): Uint8Array {
+    let crc = 0xffffffff;
+    for (let i = 0; i < data.length; i++) {
+        crc = CRC32_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    }
+
+    const result = new Uint8Array(deflated.length + 18);
+    result.set([0x1f, 0x8b, 8, 0, 0, 0, 0, 0, 0, 0xff]); // Magic, DEFLATE, no flags or mtime, unknown OS
+    result.set(deflated, 10);
+    const trailer = new DataView(result.buffer, deflated.length + 10);
+    trailer.setUint32(0, (crc ^ 0xffffffff) >>> 0, true);
+    trailer.setUint32(4, data.length >>> 0, true);
+    return result;
+}
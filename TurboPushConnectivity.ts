@@ -0,0 +1,189 @@
+/**
+ * TurboPush Connectivity - Online/offline detection
+ *
+ * Tells TurboPush when the network drops and comes back, so uploads wait
+ * for the connection instead of using up their retries. Browsers use
+ * `navigator.onLine` and the window `online`/`offline` events; other
+ * environments poll a probe function.
+ *
+ * @module TurboPushConnectivity
+ * @since 1.1.0
+ *
+ * @example
+ * ```typescript
+ * import { ProbeConnectivity } from './TurboPushConnectivity.js';
+ *
+ * const uploader = new TurboPush({
+ *     endpoint: 'https://example.com/upload',
+ *     connectivity: new ProbeConnectivity({
+ *         probe: async () => (await fetch('https://example.com/health')).ok
+ *     })
+ * });
+ * ```
+ */
+
+import type { ConnectivitySource } from './TurboPush.js';
+
+/**
+ * Options for ProbeConnectivity
+ *
+ * @interface ProbeConnectivityOptions
+ */
+export interface ProbeConnectivityOptions {
+    /** Resolves true if the network is reachable; rejecting counts as offline */
+    probe: () => Promise<boolean>;
+
+    /**
+     * Milliseconds between probes while subscribed (default: 5000ms)
+     * @default 5000
+     */
+    interval?: number;
+}
+
+/**
+ * BrowserConnectivity - navigator.onLine and window online/offline events
+ *
+ * Used by TurboPush when no connectivity source is configured and the
+ * environment supports it.
+ *
+ * @class BrowserConnectivity
+ * @implements {ConnectivitySource}
+ */
+export class BrowserConnectivity implements ConnectivitySource {
+    /**
+     * Checks whether the browser APIs this source needs exist
+     *
+     * @returns {boolean} True in browsers
+     */
+    public static isSupported(): boolean {
+        return typeof window !== 'undefined' &&
+            typeof window.addEventListener === 'function' &&
+            typeof navigator !== 'undefined' &&
+            typeof navigator.onLine === 'boolean';
+    }
+
+    /**
+     * Reads navigator.onLine
+     *
+     * @returns {Promise<boolean>} False if the browser knows it is offline
+     */
+    public async isOnline(): Promise<boolean> {
+        return navigator.onLine;
+    }
+
+    /**
+     * Listens for the window online/offline events
+     *
+     * @param {Function} listener - Called with the new state
+     * @returns {Function} Unsubscribe function
+     */
+    public subscribe(listener: (online: boolean) => void): () => void {
+        const onOnline = () => listener(true);
+        const onOffline = () => listener(false);
+
+        window.addEventListener('online', onOnline);
+        window.addEventListener('offline', onOffline);
+        return () => {
+            window.removeEventListener('online', onOnline);
+            window.removeEventListener('offline', onOffline);
+        };
+    }
+}
+
+/**
+ * ProbeConnectivity - Polls a probe function (Node.js, or to check the
+ * actual server rather than the local network)
+ *
+ * @class ProbeConnectivity
+ * @implements {ConnectivitySource}
+ */
+export class ProbeConnectivity implements ConnectivitySource {
+    /** Probe deciding whether the network is reachable */
+    private probe: () => Promise<boolean>;
+
+    /** Milliseconds between probes while subscribed */
+    private interval: number;
+
+    /** Subscribed listeners */
+    private listeners: Set<(online: boolean) => void> = new Set();
+
+    /** State found by the last probe */
+    private online: boolean = true;
+
+    /** Timer of the next scheduled probe */
+    private timer?: ReturnType<typeof setTimeout>;
+
+    /**
+     * Creates a new ProbeConnectivity
+     *
+     * @param {ProbeConnectivityOptions} options - Probe and polling interval
+     */
+    constructor(options: ProbeConnectivityOptions) {
+        this.probe = options.probe;
+        this.interval = Math.max(100, options.interval ?? 5000);
+    }
+
+    /**
+     * Runs the probe now and notifies listeners if the state changed
+     *
+     * @returns {Promise<boolean>} True if the probe succeeded
+     */
+    public async isOnline(): Promise<boolean> {
+        let online: boolean;
+        try {
+            online = await this.probe();
+        } catch (error) {
+            online = false;
+        }
+
+        if (online !== this.online) {
+            this.online = online;
+            for (const listener of Array.from(this.listeners)) {
+                listener(online);
+            }
+        }
+        return online;
+    }
+
+    /**
+     * Polls the probe while at least one listener is subscribed
+     *
+     * @param {Function} listener - Called with the new state on every change
+     * @returns {Function} Unsubscribe function
+     */
+    public subscribe(listener: (online: boolean) => void): () => void {
+        this.listeners.add(listener);
+        if (this.listeners.size === 1) {
+            this.schedule();
+        }
+
+        return () => {
+            this.listeners.delete(listener);
+            if (this.listeners.size === 0) {
+                clearTimeout(this.timer);
+                this.timer = undefined;
+            }
+        };
+    }
+
+    /**
+     * Schedules the next probe
+     *
+     * @private
+     * @returns {void}
+     */
+    private schedule(): void {
+        const timer = setTimeout(async () => {
+            await this.isOnline();
+
+            // Keep polling unless unsubscribed (or resubscribed) meanwhile
+            if (this.timer === timer) {
+                this.schedule();
+            }
+        }, this.interval);
+        this.timer = timer;
+
+        // Polling alone must not keep a Node.js process alive
+        (timer as { unref?: () => void }).unref?.();
+    }
+}
@@ -0,0 +1,204 @@
+/**
+ * TurboPush Dedup - Content-defined chunking for deduplicated uploads
+ *
+ * Splits files where their content says so instead of at fixed offsets:
+ * a rolling gear hash over the bytes cuts a chunk wherever its top bits
+ * are zero (FastCDC with normalized chunking). Editing a few bytes then
+ * changes only the chunks around the edit, so a new version of a large
+ * file shares almost all chunk hashes with the old one and the server
+ * can tell the client which chunks it does not need to send.
+ *
+ * The gear table and the cut rule must never change: chunks cut
+ * differently hash differently, and nothing would deduplicate against
+ * files uploaded before the change.
+ *
+ * @module TurboPushDedup
+ * @since 1.1.0
+ *
+ * @example
+ * ```typescript
+ * import { ContentDefinedChunker, resolveDedupOptions } from './TurboPushDedup.js';
+ *
+ * const chunker = new ContentDefinedChunker(resolveDedupOptions({ avgChunkSize: 64 * 1024 }));
+ * const cuts = chunker.push(bytes); // offsets in `bytes` where chunks end
+ * ```
+ */
+
+import type { DedupOptions, UploadFile } from './TurboPush.js';
+import { sha256 } from './TurboPushChecksum.js';
+import { readRange } from './TurboPushInput.js';
+
+/** Default average chunk size when none is configured (1 MiB) */
+const DEFAULT_AVG_CHUNK_SIZE = 1024 * 1024;
+
+/**
+ * Gear table: one pseudo-random 32-bit value per byte value
+ * Generated with splitmix32 from a fixed seed so every client cuts alike
+ */
+const GEAR: Uint32Array = (() => {
+    const table = new Uint32Array(256);
+    let state = 0x5475726f; // "Turo"
+    for (let i = 0; i < 256; i++) {
+        state = (state + 0x9e3779b9) >>> 0;
+        let z = state;
+        z = Math.imul(z ^ (z >>> 16), 0x85ebca6b) >>> 0;
+        z = Math.imul(z ^ (z >>> 13), 0xc2b2ae35) >>> 0;
+        table[i] = (z ^ (z >>> 16)) >>> 0;
+    }
+    return table;
+})();
+
+/**
+ * A content-defined chunk of a file
+ *
+ * @interface ContentChunk
+ */
+export interface ContentChunk {
+    /** Starting byte position in the file */
+    start: number;
+
+    /** Ending byte position in the file (exclusive) */
+    end: number;
+
+    /** Lowercase hex SHA-256 of the chunk's bytes */
+    hash: string;
+}
+
+/**
+ * Applies defaults to dedup options and checks them
+ * Minimum and maximum default to a quarter and four times the average
+ *
+ * @param {DedupOptions} [options] - Chunk size bounds
+ * @param {number} [defaultAvgChunkSize] - Average used when none is given (default: 1 MiB)
+ * @returns {Required<DedupOptions>} Options with every size set
+ * @throws {Error} If the sizes do not satisfy 0 < min <= avg <= max
+ */
+export function resolveDedupOptions(
+    options: DedupOptions = {},
+    defaultAvgChunkSize: number = DEFAULT_AVG_CHUNK_SIZE
+): Required<DedupOptions> {
+    const avgChunkSize = options.avgChunkSize ?? defaultAvgChunkSize;
+    const minChunkSize = options.minChunkSize ?? Math.max(1, Math.floor(avgChunkSize / 4));
+    const maxChunkSize = options.maxChunkSize ?? avgChunkSize * 4;
+
+    if (!(minChunkSize > 0) || minChunkSize > avgChunkSize || avgChunkSize > maxChunkSize) {
+        throw new Error('TurboPush: dedup chunk sizes must satisfy 0 < minChunkSize <= avgChunkSize <= maxChunkSize');
+    }
+    return { minChunkSize, avgChunkSize, maxChunkSize };
+}
+
+/**
+ * ContentDefinedChunker - Finds chunk boundaries in a stream of bytes
+ *
+ * Feed the file's bytes in order with push(); the cuts do not depend on
+ * how the bytes are split across calls.
+ *
+ * @class ContentDefinedChunker
+ */
+export class ContentDefinedChunker {
+    /** Chunk size bounds in bytes */
+    public readonly options: Required<DedupOptions>;
+
+    /** Mask used below the average size (more bits: cuts are rarer) */
+    private maskSmall: number;
+
+    /** Mask used above the average size (fewer bits: cuts are likelier) */
+    private maskLarge: number;
+
+    /** Bytes in the current chunk so far */
+    private length: number = 0;
+
+    /** Rolling gear hash of the current chunk */
+    private hash: number = 0;
+
+    /**
+     * Creates a new ContentDefinedChunker
+     *
+     * @param {Required<DedupOptions>} options - Chunk size bounds, see resolveDedupOptions()
+     */
+    constructor(options: Required<DedupOptions>) {
+        this.options = options;
+
+        // The gear hash shifts left, so its top bits depend on the most bytes
+        const bits = Math.round(Math.log2(options.avgChunkSize));
+        this.maskSmall = topBits(bits + 2);
+        this.maskLarge = topBits(bits - 2);
+    }
+
+    /**
+     * Feeds the next bytes
+     *
+     * @param {Uint8Array} data - Bytes following the ones fed so far
+     * @returns {number[]} Offsets in `data` where chunks end (exclusive), in order
+     */
+    public push(data: Uint8Array): number[] {
+        const { minChunkSize, avgChunkSize, maxChunkSize } = this.options;
+        const cuts: number[] = [];
+
+        for (let i = 0; i < data.length; i++) {
+            this.length++;
+
+            // Cuts never fall below the minimum, so hashing starts there
+            if (this.length <= minChunkSize) continue;
+
+            this.hash = ((this.hash << 1) + GEAR[data[i]]) >>> 0;
+            const mask = this.length < avgChunkSize ? this.maskSmall : this.maskLarge;
+
+            if ((this.hash & mask) === 0 || this.length >= maxChunkSize) {
+                cuts.push(i + 1);
+                this.length = 0;
+                this.hash = 0;
+            }
+        }
+        return cuts;
+    }
+}
+
+/**
+ * Splits a file into content-defined chunks and hashes each one
+ * Reads the file once, `maxChunkSize` bytes at a time
+ *
+ * @param {UploadFile} file - File or UploadSource with random access
+ * @param {Required<DedupOptions>} options - Chunk size bounds
+ * @returns {Promise<ContentChunk[]>} Chunks covering the whole file, in order
+ * @throws {Error} If the file cannot be read
+ */
+export async function splitByContent(file: UploadFile, options: Required<DedupOptions>): Promise<ContentChunk[]> {
+    const chunker = new ContentDefinedChunker(options);
+    const chunks: ContentChunk[] = [];
+    let hasher = sha256.create();
+    let chunkStart = 0;
+
+    for (let offset = 0; offset < file.size; offset += options.maxChunkSize) {
+        const end = Math.min(offset + options.maxChunkSize, file.size);
+        const bytes = new Uint8Array(await (await readRange(file, offset, end)).arrayBuffer());
+
+        let consumed = 0;
+        for (const cut of chunker.push(bytes)) {
+            hasher.update(bytes.subarray(consumed, cut));
+            chunks.push({ start: chunkStart, end: offset + cut, hash: hasher.digest() });
+            hasher = sha256.create();
+            chunkStart = offset + cut;
+            consumed = cut;
+        }
+        hasher.update(bytes.subarray(consumed));
+    }
+
+    // The tail after the last cut
+    if (chunkStart < file.size) {
+        chunks.push({ start: chunkStart, end: file.size, hash: hasher.digest() });
+    }
+    return chunks;
+}
+
+/**
+ * Builds a mask of the highest bits of a 32-bit number
+ *
+ * @private
+ * @param {number} count - Number of bits, clamped to 1-31
+ * @returns {number} Mask
+ */
+function topBits(count: number): number {
+    const bits = Math.max(1, Math.min(31, count));
+    return (0xffffffff << (32 - bits)) >>> 0;
+}
@@ -0,0 +1,335 @@
+/**
+ * TurboPush Encryption - End-to-end encryption of chunks
+ *
+ * Every file gets a fresh AES-256-GCM data key. Each chunk is encrypted
+ * with it before it leaves the client, with a 12-byte nonce made of an
+ * 8-byte prefix derived from the fileId and the 4-byte chunk index, so no
+ * nonce repeats under a key. The data key is wrapped with a key-encryption
+ * key from the caller's key provider and travels in an EncryptionHeader
+ * with the finalize request, together with the chunk sizes sealed under
+ * the data key. The server only ever stores ciphertext.
+ *
+ * Stored files are the encrypted chunks back to back, each one
+ * ENCRYPTION_OVERHEAD bytes (the GCM tag) longer than the plaintext.
+ * decryptFile() splits them again, checks every tag and the sealed chunk
+ * sizes, and fails on any modified, reordered, missing or extra byte.
+ *
+ * Needs WebCrypto (`crypto.subtle`): browsers in secure contexts, Node.js 19+
+ * (or 18 with `globalThis.crypto` set to `require('crypto').webcrypto`).
+ *
+ * @module TurboPushEncryption
+ * @since 1.1.0
+ *
+ * @example
+ * ```typescript
+ * import { decryptFile } from './TurboPushEncryption.js';
+ *
+ * const response = await fetch(downloadUrl);
+ * const plaintext = await decryptFile(await response.blob(), header, keyProvider);
+ * ```
+ */
+
+import type { EncryptionHeader, EncryptionKey, EncryptionKeyProvider } from './TurboPush.js';
+import { EncryptionError, IntegrityError } from './TurboPushErrors.js';
+import { utf8 } from './TurboPushChecksum.js';
+
+/** Bytes each chunk grows by when encrypted: the AES-GCM authentication tag */
+export const ENCRYPTION_OVERHEAD = 16;
+
+/** Nonce index reserved for the sealed chunk sizes; chunk indexes stay below it */
+const MANIFEST_INDEX = 0xffffffff;
+
+/**
+ * Encryption state of a file being uploaded
+ *
+ * @interface FileEncryption
+ */
+export interface FileEncryption {
+    /** The file's AES-256-GCM data key */
+    key: CryptoKey;
+
+    /** First 8 bytes of every nonce */
+    noncePrefix: Uint8Array;
+
+    /** Header fields known before the upload (everything but the sealed sizes) */
+    header: Omit<EncryptionHeader, 'manifest'>;
+}
+
+/**
+ * Creates a data key for a file and wraps it with the provider's key
+ *
+ * @param {string} fileId - Upload identifier the nonces are derived from
+ * @param {EncryptionKeyProvider} keyProvider - Supplies the key-encryption key
+ * @returns {Promise<FileEncryption>} Key, nonce prefix and header fields
+ * @throws {EncryptionError} If the provider fails or its key cannot wrap keys
+ */
+export async function createFileEncryption(fileId: string, keyProvider: EncryptionKeyProvider): Promise<FileEncryption> {
+    const subtle = getSubtle();
+    const wrapping = await provideKey(keyProvider);
+
+    try {
+        const key = await subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+        const noncePrefix = new Uint8Array(await subtle.digest('SHA-256', utf8(fileId) as BufferSource)).slice(0, 8);
+        const wrapAlgorithm = wrapping.key.algorithm.name;
+        const wrapIv = wrapAlgorithm === 'AES-GCM' ? crypto.getRandomValues(new Uint8Array(12)) : undefined;
+        const wrappedKey = await subtle.wrapKey('raw', key, wrapping.key, wrapParams(wrapAlgorithm, wrapIv));
+
+        return {
+            key,
+            noncePrefix,
+            header: {
+                version: 1,
+                algorithm: 'AES-GCM',
+                keyId: wrapping.id,
+                wrapAlgorithm,
+                ...(wrapIv && { wrapIv: toBase64(wrapIv) }),
+                wrappedKey: toBase64(new Uint8Array(wrappedKey)),
+                noncePrefix: toBase64(noncePrefix)
+            }
+        };
+    } catch (error) {
+        if (error instanceof EncryptionError) throw error;
+        throw new EncryptionError(`Cannot wrap the data key: ${(error as Error)?.message}`, { cause: error });
+    }
+}
+
+/**
+ * Encrypts a chunk
+ * The same chunk always encrypts to the same bytes, so retries are safe
+ *
+ * @param {FileEncryption} encryption - The file's encryption state
+ * @param {number} index - Chunk index, below 2^32 - 1
+ * @param {Uint8Array} data - Chunk data
+ * @returns {Promise<Uint8Array>} Ciphertext followed by the tag
+ * @throws {EncryptionError} If the chunk cannot be encrypted
+ */
+export async function encryptChunk(encryption: FileEncryption, index: number, data: Uint8Array): Promise<Uint8Array> {
+    if (index >= MANIFEST_INDEX) {
+        throw new EncryptionError('Too many chunks to encrypt', { chunkIndex: index });
+    }
+    return encrypt(encryption, index, data);
+}
+
+/**
+ * Completes the header with the file's chunk sizes, sealed under the data key
+ *
+ * @param {FileEncryption} encryption - The file's encryption state
+ * @param {number[]} chunkSizes - Plaintext size of every chunk in file order
+ * @returns {Promise<EncryptionHeader>} Header for the finalize request
+ * @throws {EncryptionError} If the sizes cannot be encrypted
+ */
+export async function sealHeader(encryption: FileEncryption, chunkSizes: number[]): Promise<EncryptionHeader> {
+    const sizes = new DataView(new ArrayBuffer(4 + 4 * chunkSizes.length));
+    sizes.setUint32(0, chunkSizes.length);
+    chunkSizes.forEach((size, i) => sizes.setUint32(4 + 4 * i, size));
+
+    const manifest = await encrypt(encryption, MANIFEST_INDEX, new Uint8Array(sizes.buffer));
+    return { ...encryption.header, manifest: toBase64(manifest) };
+}
+
+/**
+ * Decrypts a file uploaded with encryption, verifying every chunk
+ *
+ * @param {Blob | Uint8Array} data - The stored (encrypted) file
+ * @param {EncryptionHeader} header - Header sent with the finalize request
+ * @param {EncryptionKeyProvider} keyProvider - Called with `header.keyId` for the unwrapping key
+ * @returns {Promise<Blob>} The original file data
+ * @throws {EncryptionError} If the key cannot be obtained or unwrapped
+ * @throws {IntegrityError} If the data or the chunk sizes were modified
+ */
+export async function decryptFile(
+    data: Blob | Uint8Array,
+    header: EncryptionHeader,
+    keyProvider: EncryptionKeyProvider
+): Promise<Blob> {
+    if (header.version !== 1 || header.algorithm !== 'AES-GCM') {
+        throw new EncryptionError(`Unsupported encryption header: version ${header.version}, ${header.algorithm}`);
+    }
+
+    const subtle = getSubtle();
+    const unwrapping = await provideKey(keyProvider, header.keyId);
+    let key: CryptoKey;
+    try {
+        const wrapIv = header.wrapIv !== undefined ? fromBase64(header.wrapIv) : undefined;
+        key = await subtle.unwrapKey('raw', fromBase64(header.wrappedKey) as BufferSource, unwrapping.key,
+            wrapParams(header.wrapAlgorithm, wrapIv), { name: 'AES-GCM' }, false, ['decrypt']);
+    } catch (error) {
+        throw new EncryptionError(`Cannot unwrap the data key with key ${header.keyId}`, { cause: error });
+    }
+
+    const encryption = { key, noncePrefix: fromBase64(header.noncePrefix) };
+    const sizes = new DataView((await decrypt(encryption, MANIFEST_INDEX, fromBase64(header.manifest))).buffer);
+    if (sizes.byteLength < 4 || sizes.byteLength !== 4 + 4 * sizes.getUint32(0)) {
+        throw new IntegrityError('Encryption header has malformed chunk sizes');
+    }
+    const chunkSizes = Array.from({ length: sizes.getUint32(0) }, (_, i) => sizes.getUint32(4 + 4 * i));
+
+    const expectedSize = chunkSizes.reduce((total, size) => total + size + ENCRYPTION_OVERHEAD, 0);
+    const actualSize = data instanceof Uint8Array ? data.length : data.size;
+    if (actualSize !== expectedSize) {
+        throw new IntegrityError(`Encrypted file is ${actualSize} bytes, expected ${expectedSize}`);
+    }
+
+    const parts: Uint8Array[] = [];
+    let offset = 0;
+    for (const [index, size] of chunkSizes.entries()) {
+        const end = offset + size + ENCRYPTION_OVERHEAD;
+        const chunk = data instanceof Uint8Array
+            ? data.subarray(offset, end)
+            : new Uint8Array(await data.slice(offset, end).arrayBuffer());
+        parts.push(await decrypt(encryption, index, chunk));
+        offset = end;
+    }
+    return new Blob(parts as BlobPart[]);
+}
+
+/**
+ * Encrypts data under the file's key with the nonce for an index
+ *
+ * @private
+ * @param {FileEncryption} encryption - Key and nonce prefix
+ * @param {number} index - Nonce index
+ * @param {Uint8Array} data - Plaintext
+ * @returns {Promise<Uint8Array>} Ciphertext followed by the tag
+ */
+async function encrypt(encryption: FileEncryption, index: number, data: Uint8Array): Promise<Uint8Array> {
+    try {
+        const params = { name: 'AES-GCM', iv: nonce(encryption.noncePrefix, index) as BufferSource };
+        return new Uint8Array(await getSubtle().encrypt(params, encryption.key, data as BufferSource));
+    } catch (error) {
+        if (error instanceof EncryptionError) throw error;
+        throw new EncryptionError(`Cannot encrypt chunk ${index}: ${(error as Error)?.message}`, { chunkIndex: index, cause: error });
+    }
+}
+
+/**
+ * Decrypts data under the file's key with the nonce for an index
+ *
+ * @private
+ * @param {Pick<FileEncryption, 'key' | 'noncePrefix'>} encryption - Key and nonce prefix
+ * @param {number} index - Nonce index
+ * @param {Uint8Array} data - Ciphertext followed by the tag
+ * @returns {Promise<Uint8Array>} Plaintext
+ * @throws {IntegrityError} If the tag does not match
+ */
+async function decrypt(
+    encryption: Pick<FileEncryption, 'key' | 'noncePrefix'>,
+    index: number,
+    data: Uint8Array
+): Promise<Uint8Array> {
+    try {
+        const params = { name: 'AES-GCM', iv: nonce(encryption.noncePrefix, index) as BufferSource };
+        return new Uint8Array(await getSubtle().decrypt(params, encryption.key, data as BufferSource));
+    } catch (error) {
+        const what = index === MANIFEST_INDEX ? 'chunk sizes' : `chunk ${index}`;
+        throw new IntegrityError(`Decryption failed for ${what}: modified or wrong key`, {
+            ...(index !== MANIFEST_INDEX && { chunkIndex: index }),
+            cause: error
+        });
+    }
+}
+
+/**
+ * Builds the 12-byte nonce for an index
+ *
+ * @private
+ * @param {Uint8Array} prefix - 8-byte prefix derived from the fileId
+ * @param {number} index - Chunk index, or MANIFEST_INDEX
+ * @returns {Uint8Array} Nonce
+ */
+function nonce(prefix: Uint8Array, index: number): Uint8Array {
+    const iv = new Uint8Array(12);
+    iv.set(prefix.subarray(0, 8));
+    new DataView(iv.buffer).setUint32(8, index);
+    return iv;
+}
+
+/**
+ * Builds the wrapKey()/unwrapKey() parameters for a key-encryption algorithm
+ *
+ * @private
+ * @param {string} algorithm - 'AES-KW', 'AES-GCM' or 'RSA-OAEP'
+ * @param {Uint8Array} [iv] - IV, for AES-GCM
+ * @returns {AlgorithmIdentifier | AesGcmParams} Parameters
+ * @throws {EncryptionError} If the algorithm cannot wrap keys
+ */
+function wrapParams(algorithm: string, iv?: Uint8Array): AlgorithmIdentifier | AesGcmParams {
+    switch (algorithm) {
+        case 'AES-KW':
+        case 'RSA-OAEP':
+            return { name: algorithm };
+        case 'AES-GCM':
+            if (!iv) throw new EncryptionError('Missing IV for the AES-GCM wrapped key');
+            return { name: algorithm, iv: iv as BufferSource };
+        default:
+            throw new EncryptionError(`Key algorithm cannot wrap keys: ${algorithm} (use AES-KW, AES-GCM or RSA-OAEP)`);
+    }
+}
+
+/**
+ * Asks the key provider for a key
+ *
+ * @private
+ * @param {EncryptionKeyProvider} keyProvider - Caller's provider
+ * @param {string} [keyId] - Key to ask for; none for the current key
+ * @returns {Promise<EncryptionKey>} The key
+ * @throws {EncryptionError} If the provider fails or returns no key
+ */
+async function provideKey(keyProvider: EncryptionKeyProvider, keyId?: string): Promise<EncryptionKey> {
+    let result: EncryptionKey | undefined;
+    try {
+        result = await keyProvider(keyId);
+    } catch (error) {
+        throw new EncryptionError(`Key provider failed: ${(error as Error)?.message}`, { cause: error });
+    }
+    if (!result?.key || typeof result.id !== 'string') {
+        throw new EncryptionError('Key provider returned no key');
+    }
+    return result;
+}
+
+/**
+ * Returns WebCrypto's SubtleCrypto
+ *
+ * @private
+ * @returns {SubtleCrypto} SubtleCrypto
+ * @throws {EncryptionError} If WebCrypto is not available
+ */
+function getSubtle(): SubtleCrypto {
+    const subtle = globalThis.crypto?.subtle;
+    if (!subtle) {
+        throw new EncryptionError('Encryption needs WebCrypto (crypto.subtle)');
+    }
+    return subtle;
+}
+
+/**
+ * Encodes bytes as base64
+ *
+ * @private
+ * @param {Uint8Array} bytes - Bytes to encode
+ * @returns {string} Base64 string
+ */
+function toBase64(bytes: Uint8Array): string {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i++) {
+        binary += String.fromCharCode(bytes[i]);
+    }
+    return btoa(binary);
+}
+
+/**
+ * Decodes base64 to bytes
+ *
+ * @private
+ * @param {string} base64 - Base64 string
+ * @returns {Uint8Array} Decoded bytes
+ * @throws {IntegrityError} If the string is not base64
+ */
+function fromBase64(base64: string): Uint8Array {
+    try {
+        return Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+    } catch (error) {
+        throw new IntegrityError('Encryption header is not valid base64', { cause: error });
+    }
+}
@@ -7,7 +7,12 @@
  *
  * Features:
  * - Chunked upload handling
+ * - Upload status queries for resuming
  * - Automatic file merging
+ * - Chunk and file checksum verification (sha256, crc32c)
+ * - Decompression of gzip/deflate compressed chunks
+ * - Storage of the encryption header of client-side encrypted files
+ * - Storage of per-file metadata sent by the client (<file>.metadata.json)
  * - Size validation
  * - Extension filtering
  * - CORS support
@@ -72,6 +77,15 @@ class TurboPushEndpoint
      */
     private $logFile = null;
 
+    /**
+     * Checksum algorithms accepted from the client (client name => PHP hash name)
+     * @var array
+     */
+    private $checksumAlgorithms = [
+        'sha256' => 'sha256',
+        'crc32c' => 'crc32c'
+    ];
+
     /**
      * Constructs a new TurboPushEndpoint instance
      *
@@ -156,7 +170,8 @@ class TurboPushEndpoint
     /**
      * Main request handler
      *
-     * Processes incoming requests and routes them to chunk upload or finalization.
+     * Processes incoming requests and routes them to chunk upload, status query
+     * or finalization.
      * Handles CORS preflight requests and error responses.
      *
      * This method should be called to handle incoming upload requests.
@@ -188,6 +203,9 @@ class TurboPushEndpoint
             if ($json && isset($json['action']) && $json['action'] === 'finalize') {
                 // JSON request with action=finalize -> merge chunks
                 $this->finalizeUpload($json);
+            } elseif ($json && isset($json['action']) && $json['action'] === 'status') {
+                // JSON request with action=status -> report received chunks
+                $this->uploadStatus($json);
             } else {
                 // FormData request -> save chunk
                 $this->handleChunk();
@@ -231,10 +249,18 @@ class TurboPushEndpoint
         // Validate file extension if restrictions are set
         $this->validateFileExtension($fileName);
 
+        // The first chunk carries the file's metadata as JSON
+        $metadata = isset($_POST['metadata']) ? $this->parseMetadata($_POST['metadata']) : null;
+
         // Create temporary directory for this file's chunks
         $fileTempDir = $this->tempDir . $this->sanitizeFileName($fileId) . '/';
         $this->ensureDirectory($fileTempDir);
 
+        // Keep the metadata until finalize
+        if ($metadata !== null) {
+            file_put_contents($fileTempDir . 'metadata.json', json_encode($metadata));
+        }
+
         // Generate chunk filename with zero-padding for proper sorting
         // Example: chunk_0000000003 for chunk index 3
         $chunkPath = $fileTempDir . 'chunk_' . str_pad($chunkIndex, 10, '0', STR_PAD_LEFT);
@@ -244,6 +270,26 @@ class TurboPushEndpoint
             throw new Exception('Failed to save chunk');
         }
 
+        // Restore compressed chunks; the checksum covers the original bytes
+        if (isset($_POST['compression'])) {
+            $originalSize = isset($_POST['originalSize']) ? (int)$_POST['originalSize'] : -1;
+            $this->decompressChunk($chunkPath, $_POST['compression'], $originalSize, $chunkIndex);
+        }
+
+        // Verify chunk digest if the client sent one
+        if (isset($_POST['checksum'])) {
+            $algorithm = isset($_POST['checksumAlgorithm']) ? $_POST['checksumAlgorithm'] : '';
+            if (!$this->verifyChecksum($chunkPath, $algorithm, $_POST['checksum'])) {
+                // Corrupted in transit - discard so the client's retry replaces it
+                unlink($chunkPath);
+                $this->log("Checksum mismatch on chunk $chunkIndex");
+                $this->jsonResponse(false, 'Checksum mismatch', [
+                    'code' => 'checksum_mismatch',
+                    'chunkIndex' => $chunkIndex
+                ], 422);
+            }
+        }
+
         $this->log("Chunk $chunkIndex saved");
 
         // Return success response
@@ -253,6 +299,45 @@ class TurboPushEndpoint
         ]);
     }
 
+    /**
+     * Reports which chunks have already been received for a file
+     *
+     * Lets a client that lost its local state skip chunks stored by an
+     * earlier, interrupted session. An unknown fileId has no chunks.
+     *
+     * @param array $data Status request data containing:
+     *                    - fileId: Unique upload identifier
+     *
+     * @return void Outputs JSON response and exits
+     * @throws Exception If fileId is missing
+     *
+     * @private
+     */
+    private function uploadStatus($data) {
+        if (!isset($data['fileId'])) {
+            throw new Exception('Missing: fileId');
+        }
+
+        $fileId = $data['fileId'];
+        $fileTempDir = $this->tempDir . $this->sanitizeFileName($fileId) . '/';
+        $uploadedChunks = [];
+
+        // Chunk files are named chunk_<zero-padded index>
+        if (is_dir($fileTempDir)) {
+            foreach (glob($fileTempDir . 'chunk_*') as $chunkPath) {
+                $uploadedChunks[] = (int)substr(basename($chunkPath), 6);
+            }
+            sort($uploadedChunks);
+        }
+
+        $this->log("Status: $fileId has " . count($uploadedChunks) . " chunks");
+
+        $this->jsonResponse(true, 'Upload status', [
+            'fileId' => $fileId,
+            'uploadedChunks' => $uploadedChunks
+        ]);
+    }
+
     /**
      * Finalizes upload by merging all chunks into final file
      *
@@ -264,6 +349,13 @@ class TurboPushEndpoint
      *                    - fileId: Unique upload identifier
      *                    - fileSize: Expected final file size
      *                    - totalChunks: Total number of chunks
+     *                    - checksum: Optional whole-file digest
+     *                    - checksumAlgorithm: Algorithm of the digest
+     *                    - encryption: Optional header of an encrypted file,
+     *                      saved next to it as <file>.encryption.json
+     *                    - metadata: Optional metadata, merged over the metadata
+     *                      of the first chunk, saved as <file>.metadata.json
+     *                      and echoed in the response
      *
      * @return void Outputs JSON response and exits
      * @throws Exception If chunks are missing, merge fails, or size mismatch
@@ -276,6 +368,7 @@ class TurboPushEndpoint
         $fileId = $data['fileId'];
         $fileSize = $data['fileSize'];
         $totalChunks = $data['totalChunks'];
+        $metadata = isset($data['metadata']) ? $this->parseMetadata($data['metadata']) : null;
 
         $this->log("Finalizing: $fileName");
 
@@ -325,6 +418,14 @@ class TurboPushEndpoint
         // Close final file
         fclose($finalFile);
 
+        // Metadata from the first chunk; values sent with finalize win
+        $metadataPath = $fileTempDir . 'metadata.json';
+        if (file_exists($metadataPath)) {
+            $received = json_decode(file_get_contents($metadataPath), true);
+            $metadata = array_merge(is_array($received) ? $received : [], $metadata ?: []);
+            unlink($metadataPath);
+        }
+
         // Clean up temporary directory
         @rmdir($fileTempDir);
 
@@ -336,13 +437,40 @@ class TurboPushEndpoint
             throw new Exception("File size mismatch");
         }
 
+        // Verify whole-file digest if the client sent one
+        if (isset($data['checksum'])) {
+            $algorithm = isset($data['checksumAlgorithm']) ? $data['checksumAlgorithm'] : '';
+            if (!$this->verifyChecksum($finalPath, $algorithm, $data['checksum'])) {
+                // Checksum mismatch - delete corrupted file
+                unlink($finalPath);
+                throw new Exception("Checksum mismatch");
+            }
+        }
+
+        // Keep the header of an encrypted file; it is needed to decrypt it
+        if (isset($data['encryption']) && is_array($data['encryption'])) {
+            file_put_contents($finalPath . '.encryption.json', json_encode($data['encryption']));
+        }
+
+        // Keep the metadata next to the file
+        if ($metadata) {
+            file_put_contents($finalPath . '.metadata.json', json_encode($metadata));
+        }
+
         $this->log("Complete: $fileName");
 
         // Return success response with file information
-        $this->jsonResponse(true, 'Upload complete', [
+        $response = [
             'fileName' => basename($finalPath),
             'fileSize' => $actualSize
-        ]);
+        ];
+        if (isset($data['checksum'])) {
+            $response['checksum'] = strtolower($data['checksum']);
+        }
+        if ($metadata) {
+            $response['metadata'] = $metadata;
+        }
+        $this->jsonResponse(true, 'Upload complete', $response);
     }
 
     /**
@@ -370,6 +498,89 @@ class TurboPushEndpoint
         }
     }
 
+    /**
+     * Decompresses a chunk the client sent with a `compression` field
+     *
+     * Output is capped at the announced size, so a small request cannot
+     * expand past the file size limit. A chunk that does not decompress
+     * is treated like a checksum mismatch, so the client retries it.
+     *
+     * @param string $chunkPath    Stored chunk, replaced with the original data
+     * @param string $codec        'gzip' or 'deflate' (zlib format)
+     * @param int    $originalSize Size announced by the client
+     * @param int    $chunkIndex   Index of the chunk, for the error response
+     * @return void
+     * @throws Exception If the codec is unknown or the size is invalid
+     *
+     * @private
+     */
+    private function decompressChunk($chunkPath, $codec, $originalSize, $chunkIndex) {
+        if ($codec !== 'gzip' && $codec !== 'deflate') {
+            unlink($chunkPath);
+            throw new Exception("Unsupported compression: $codec");
+        }
+        if ($originalSize < 0 || $originalSize > $this->maxFileSize) {
+            unlink($chunkPath);
+            throw new Exception("Invalid: originalSize");
+        }
+
+        $compressed = file_get_contents($chunkPath);
+        $data = $codec === 'gzip'
+            ? @gzdecode($compressed, max(1, $originalSize))
+            : @gzuncompress($compressed, max(1, $originalSize));
+
+        if ($data === false || strlen($data) !== $originalSize) {
+            unlink($chunkPath);
+            $this->log("Cannot decompress chunk $chunkIndex");
+            $this->jsonResponse(false, 'Decompression failed', [
+                'code' => 'checksum_mismatch',
+                'chunkIndex' => $chunkIndex
+            ], 422);
+        }
+
+        file_put_contents($chunkPath, $data);
+    }
+
+    /**
+     * Verifies a file's digest against the one sent by the client
+     *
+     * @param string $path      File to hash
+     * @param string $algorithm Client algorithm name (e.g. 'sha256')
+     * @param string $expected  Expected lowercase hex digest
+     * @return bool True if the digest matches
+     * @throws Exception If the algorithm is not supported
+     *
+     * @private
+     */
+    private function verifyChecksum($path, $algorithm, $expected) {
+        if (!isset($this->checksumAlgorithms[$algorithm]) ||
+            !in_array($this->checksumAlgorithms[$algorithm], hash_algos())) {
+            throw new Exception("Unsupported checksum algorithm: $algorithm");
+        }
+
+        $actual = hash_file($this->checksumAlgorithms[$algorithm], $path);
+        return hash_equals($actual, strtolower($expected));
+    }
+
+    /**
+     * Parses the metadata of a file
+     *
+     * Chunk requests send it as JSON text, finalize requests as a JSON object.
+     *
+     * @param mixed $value Metadata field
+     * @return array Metadata by key
+     * @throws Exception If the value is not a JSON object
+     *
+     * @private
+     */
+    private function parseMetadata($value) {
+        $metadata = is_string($value) ? json_decode($value, true) : $value;
+        if (!is_array($metadata) || ($metadata && array_keys($metadata) === range(0, count($metadata) - 1))) {
+            throw new Exception('Invalid: metadata');
+        }
+        return $metadata;
+    }
+
     /**
      * Validates file extension against allowed list
      *
@@ -0,0 +1,275 @@
+/**
+ * TurboPush Errors - Typed failures with retryability
+ *
+ * Every failure reported by TurboPush is a TurboPushError with a `code`,
+ * so callers and the `shouldRetry` policy can tell transient problems
+ * (network, timeout, 5xx) from permanent ones (4xx, rejected files).
+ *
+ * @module TurboPushErrors
+ * @since 1.1.0
+ *
+ * @example
+ * ```typescript
+ * import { TurboPushError } from './TurboPushErrors.js';
+ *
+ * uploader.on('error', (error) => {
+ *     if (error.code === 'http-4xx' && error.status === 413) {
+ *         alert('File too large for the server');
+ *     }
+ * });
+ * ```
+ */
+
+/**
+ * Category of a failure
+ */
+export type TurboPushErrorCode =
+    | 'network'
+    | 'timeout'
+    | 'aborted'
+    | 'http-4xx'
+    | 'http-5xx'
+    | 'server-rejected'
+    | 'validation'
+    | 'integrity'
+    | 'read'
+    | 'encryption'
+    | 'preprocess';
+
+/**
+ * Context attached to a failure
+ *
+ * @interface TurboPushErrorDetails
+ */
+export interface TurboPushErrorDetails {
+    /** HTTP status code of the failed request */
+    status?: number;
+
+    /** Index of the chunk that failed */
+    chunkIndex?: number;
+
+    /** Attempt number of the chunk, 1 for the first try */
+    attempt?: number;
+
+    /** Delay in milliseconds the server asked for with `Retry-After` */
+    retryAfter?: number;
+
+    /** Underlying error, e.g. the TypeError of a failed fetch */
+    cause?: unknown;
+}
+
+/**
+ * TurboPushError - Base class of every TurboPush failure
+ *
+ * @class TurboPushError
+ * @extends {Error}
+ */
+export class TurboPushError extends Error {
+    /** Category of the failure */
+    public readonly code: TurboPushErrorCode;
+
+    /** HTTP status code of the failed request */
+    public status?: number;
+
+    /** Index of the chunk that failed */
+    public chunkIndex?: number;
+
+    /** Attempt number of the chunk, 1 for the first try */
+    public attempt?: number;
+
+    /** Delay in milliseconds the server asked for with `Retry-After` */
+    public retryAfter?: number;
+
+    /** Underlying error */
+    public readonly cause?: unknown;
+
+    /**
+     * Creates a new TurboPushError
+     *
+     * @param {TurboPushErrorCode} code - Category of the failure
+     * @param {string} message - Human-readable description
+     * @param {TurboPushErrorDetails} [details] - Status, chunk and attempt
+     */
+    constructor(code: TurboPushErrorCode, message: string, details: TurboPushErrorDetails = {}) {
+        super(message);
+        this.name = 'TurboPushError';
+        this.code = code;
+        this.status = details.status;
+        this.chunkIndex = details.chunkIndex;
+        this.attempt = details.attempt;
+        this.retryAfter = details.retryAfter;
+        this.cause = details.cause;
+    }
+}
+
+/**
+ * NetworkError - The request did not reach the server or got no response
+ *
+ * @class NetworkError
+ * @extends {TurboPushError}
+ */
+export class NetworkError extends TurboPushError {
+    constructor(message: string = 'Network error', details: TurboPushErrorDetails = {}) {
+        super('network', message, details);
+        this.name = 'NetworkError';
+    }
+}
+
+/**
+ * TimeoutError - The request took longer than `timeout`
+ *
+ * @class TimeoutError
+ * @extends {TurboPushError}
+ */
+export class TimeoutError extends TurboPushError {
+    constructor(message: string = 'Upload timeout', details: TurboPushErrorDetails = {}) {
+        super('timeout', message, details);
+        this.name = 'TimeoutError';
+    }
+}
+
+/**
+ * AbortedError - The request was aborted by pause() or cancel()
+ *
+ * @class AbortedError
+ * @extends {TurboPushError}
+ */
+export class AbortedError extends TurboPushError {
+    constructor(message: string = 'Upload aborted', details: TurboPushErrorDetails = {}) {
+        super('aborted', message, details);
+        this.name = 'AbortedError';
+    }
+}
+
+/**
+ * HttpError - The server answered with a non-2xx status
+ * The code is 'http-4xx' or 'http-5xx' depending on the status
+ *
+ * @class HttpError
+ * @extends {TurboPushError}
+ */
+export class HttpError extends TurboPushError {
+    /** HTTP status code */
+    public status: number;
+
+    constructor(status: number, statusText: string, details: TurboPushErrorDetails = {}) {
+        super(status >= 500 ? 'http-5xx' : 'http-4xx', `HTTP ${status}: ${statusText}`, details);
+        this.name = 'HttpError';
+        this.status = status;
+    }
+}
+
+/**
+ * ServerRejectedError - The server answered but reported failure in its body
+ *
+ * @class ServerRejectedError
+ * @extends {TurboPushError}
+ */
+export class ServerRejectedError extends TurboPushError {
+    constructor(message: string, details: TurboPushErrorDetails = {}) {
+        super('server-rejected', message, details);
+        this.name = 'ServerRejectedError';
+    }
+}
+
+/**
+ * IntegrityError - Data arrived corrupted (checksum mismatch)
+ *
+ * @class IntegrityError
+ * @extends {TurboPushError}
+ */
+export class IntegrityError extends TurboPushError {
+    constructor(message: string, details: TurboPushErrorDetails = {}) {
+        super('integrity', message, details);
+        this.name = 'IntegrityError';
+    }
+}
+
+/**
+ * ReadError - The file data could not be read (e.g. a deleted file or a
+ * stream that errored)
+ *
+ * @class ReadError
+ * @extends {TurboPushError}
+ */
+export class ReadError extends TurboPushError {
+    constructor(message: string = 'Could not read the file', details: TurboPushErrorDetails = {}) {
+        super('read', message, details);
+        this.name = 'ReadError';
+    }
+}
+
+/**
+ * EncryptionError - No usable key, or a chunk could not be encrypted
+ *
+ * @class EncryptionError
+ * @extends {TurboPushError}
+ */
+export class EncryptionError extends TurboPushError {
+    constructor(message: string, details: TurboPushErrorDetails = {}) {
+        super('encryption', message, details);
+        this.name = 'EncryptionError';
+    }
+}
+
+/**
+ * PreprocessError - A `preprocess` transform failed (e.g. an image that
+ * cannot be decoded)
+ *
+ * @class PreprocessError
+ * @extends {TurboPushError}
+ */
+export class PreprocessError extends TurboPushError {
+    constructor(message: string, details: TurboPushErrorDetails = {}) {
+        super('preprocess', message, details);
+        this.name = 'PreprocessError';
+    }
+}
+
+/**
+ * Default retry policy: retries transient failures only
+ * Network errors, timeouts, 5xx, 408 and 429 responses and checksum
+ * mismatches are retried; other 4xx, rejections, read, encryption and
+ * preprocessing failures and aborts fail fast
+ *
+ * @param {TurboPushError} error - The failure
+ * @returns {boolean} True if the request should be retried
+ */
+export function isRetryable(error: TurboPushError): boolean {
+    switch (error.code) {
+        case 'network':
+        case 'timeout':
+        case 'http-5xx':
+        case 'integrity':
+            return true;
+        case 'http-4xx':
+            return error.status === 408 || error.status === 429;
+        default:
+            return false;
+    }
+}
+
+/**
+ * Converts any thrown value into a TurboPushError
+ * Errors named 'AbortError' become AbortedError; other unknown errors
+ * (e.g. the TypeError of a failed fetch) become NetworkError
+ *
+ * @param {unknown} error - Thrown value
+ * @param {TurboPushErrorDetails} [details] - Context to fill in where missing
+ * @returns {TurboPushError} Typed error
+ */
+export function toTurboPushError(error: unknown, details: TurboPushErrorDetails = {}): TurboPushError {
+    let typed: TurboPushError;
+    if (error instanceof TurboPushError) {
+        typed = error;
+    } else if ((error as Error)?.name === 'AbortError') {
+        typed = new AbortedError(undefined, { cause: error });
+    } else {
+        typed = new NetworkError((error as Error)?.message || String(error), { cause: error });
+    }
+
+    typed.status ??= details.status;
+    typed.chunkIndex ??= details.chunkIndex;
+    typed.attempt ??= details.attempt;
+    return typed;
+}
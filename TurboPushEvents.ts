@@ -0,0 +1,146 @@
+/**
+ * TurboPush Events - Typed event emitter
+ *
+ * Keeps any number of listeners per event, so independent modules (UI,
+ * analytics, logging) can subscribe to the same uploader. Every
+ * subscription returns a disposer that removes it again.
+ *
+ * @module TurboPushEvents
+ * @since 1.1.0
+ *
+ * @example
+ * ```typescript
+ * import { TypedEventEmitter } from './TurboPushEvents.js';
+ *
+ * const emitter = new TypedEventEmitter<{ tick: (count: number) => void }>();
+ * const dispose = emitter.on('tick', count => console.log(count));
+ * emitter.emit('tick', 1);
+ * dispose();
+ * ```
+ */
+
+/**
+ * Map of event names to listener signatures
+ */
+type EventMap<Events> = { [E in keyof Events]: (...args: never[]) => void };
+
+/**
+ * Registered listener
+ *
+ * @interface Subscription
+ * @private
+ */
+interface Subscription<Listener> {
+    /** Listener as passed to on() or once() */
+    listener: Listener;
+
+    /** Whether the listener is removed after its first call */
+    once: boolean;
+}
+
+/**
+ * TypedEventEmitter - Multiple listeners per event with typed arguments
+ *
+ * @class TypedEventEmitter
+ */
+export class TypedEventEmitter<Events extends EventMap<Events>> {
+    /** Listeners by event, in registration order */
+    private subscriptions: { [E in keyof Events]?: Array<Subscription<Events[E]>> } = {};
+
+    /**
+     * Adds a listener
+     *
+     * @param {string} event - Event name
+     * @param {Function} listener - Called with the event arguments
+     * @returns {Function} Disposer that removes the listener
+     */
+    public on<E extends keyof Events>(event: E, listener: Events[E]): () => void {
+        return this.subscribe(event, { listener, once: false });
+    }
+
+    /**
+     * Adds a listener that is removed after its first call
+     *
+     * @param {string} event - Event name
+     * @param {Function} listener - Called with the event arguments
+     * @returns {Function} Disposer that removes the listener
+     */
+    public once<E extends keyof Events>(event: E, listener: Events[E]): () => void {
+        return this.subscribe(event, { listener, once: true });
+    }
+
+    /**
+     * Removes a listener added with on() or once()
+     * If it was added several times, the earliest registration is removed
+     *
+     * @param {string} event - Event name
+     * @param {Function} listener - Listener to remove
+     * @returns {void}
+     */
+    public off<E extends keyof Events>(event: E, listener: Events[E]): void {
+        const subscriptions = this.subscriptions[event];
+        const index = subscriptions?.findIndex(subscription => subscription.listener === listener) ?? -1;
+        if (index >= 0) {
+            subscriptions!.splice(index, 1);
+        }
+    }
+
+    /**
+     * Calls every listener of an event in registration order
+     * Listeners added or removed while emitting take effect from the next emit
+     *
+     * @param {string} event - Event name
+     * @param {...unknown} args - Event arguments
+     * @returns {void}
+     */
+    public emit<E extends keyof Events>(event: E, ...args: Parameters<Events[E]>): void {
+        const subscriptions = this.subscriptions[event];
+        if (!subscriptions) return;
+
+        for (const subscription of [...subscriptions]) {
+            if (subscription.once) {
+                this.remove(event, subscription);
+            }
+            subscription.listener(...args);
+        }
+    }
+
+    /**
+     * Gets the number of listeners of an event
+     *
+     * @param {string} event - Event name
+     * @returns {number} Number of listeners
+     */
+    public listenerCount(event: keyof Events): number {
+        return this.subscriptions[event]?.length ?? 0;
+    }
+
+    /**
+     * Registers a subscription
+     *
+     * @private
+     * @param {string} event - Event name
+     * @param {Subscription} subscription - Listener and options
+     * @returns {Function} Disposer that removes the subscription
+     */
+    private subscribe<E extends keyof Events>(event: E, subscription: Subscription<Events[E]>): () => void {
+        (this.subscriptions[event] ??= []).push(subscription);
+        return () => this.remove(event, subscription);
+    }
+
+    /**
+     * Removes a subscription, if still registered
+     *
+     * @private
+     * @param {string} event - Event name
+     * @param {Subscription} subscription - Subscription to remove
+     * @returns {void}
+     */
+    private remove<E extends keyof Events>(event: E, subscription: Subscription<Events[E]>): void {
+        const subscriptions = this.subscriptions[event];
+        const index = subscriptions?.indexOf(subscription) ?? -1;
+        if (index >= 0) {
+            subscriptions!.splice(index, 1);
+        }
+    }
+}
@@ -0,0 +1,382 @@
+/**
+ * TurboPush Input - File data from outside the DOM
+ *
+ * Wraps file paths, `fs.FileHandle`s, Buffers and streams as UploadSources,
+ * so TurboPush runs in Node.js tools and Electron main processes without a
+ * `File` shim. Paths and file handles are read one chunk at a time when the
+ * chunk is sent; streams of unknown length are chunked as the data arrives.
+ *
+ * @module TurboPushInput
+ * @since 1.1.0
+ *
+ * @example
+ * ```typescript
+ * import { fromPath, fromStream } from './TurboPushInput.js';
+ *
+ * uploader.addFile(await fromPath('/var/backups/db.tar.gz'));
+ * uploader.addFile(fromStream(process.stdin, 'stdin.log', { type: 'text/plain' }));
+ * await uploader.push();
+ * ```
+ */
+
+import type { UploadSource, UploadFile } from './TurboPush.js';
+
+/**
+ * Optional metadata for an UploadSource
+ *
+ * @interface SourceOptions
+ */
+export interface SourceOptions {
+    /** MIME type (default: empty, i.e. unknown) */
+    type?: string;
+
+    /** Modification time in milliseconds since epoch (default: from the file system, or now) */
+    lastModified?: number;
+}
+
+/**
+ * Options for stream sources
+ *
+ * @interface StreamSourceOptions
+ */
+export interface StreamSourceOptions extends SourceOptions {
+    /**
+     * Size in bytes, if known up front
+     * Without it the size is known only once the stream ends
+     */
+    size?: number;
+}
+
+/**
+ * The parts of `fs.FileHandle` that sources use
+ * Declared here so the module does not require Node.js typings
+ *
+ * @interface ReadableFileHandle
+ */
+export interface ReadableFileHandle {
+    read(buffer: Uint8Array, offset: number, length: number, position: number): Promise<{ bytesRead: number }>;
+    stat(): Promise<{ size: number; mtimeMs: number }>;
+}
+
+/**
+ * Checks whether a queued file is an UploadSource rather than a DOM File
+ *
+ * @param {UploadFile} file - Queued file
+ * @returns {boolean} True for UploadSources
+ */
+export function isUploadSource(file: UploadFile): file is UploadSource {
+    return typeof (file as UploadSource).read === 'function';
+}
+
+/**
+ * Checks whether the final size of a file is known
+ *
+ * @param {UploadFile} file - Queued file
+ * @returns {boolean} False only for streams of unknown length that have not ended
+ */
+export function isSizeKnown(file: UploadFile): boolean {
+    return !isUploadSource(file) || file.sizeKnown;
+}
+
+/**
+ * Reads a byte range of a File or UploadSource
+ *
+ * @param {UploadFile} file - File to read
+ * @param {number} start - First byte
+ * @param {number} end - Byte after the last one
+ * @returns {Promise<Blob>} The bytes
+ */
+export async function readRange(file: UploadFile, start: number, end: number): Promise<Blob> {
+    return isUploadSource(file) ? file.read(start, end) : file.slice(start, end);
+}
+
+/**
+ * Creates a source for in-memory bytes (a Node.js Buffer or any Uint8Array)
+ *
+ * @param {Uint8Array} data - File contents
+ * @param {string} name - File name including extension
+ * @param {SourceOptions} [options] - MIME type and modification time
+ * @returns {UploadSource} The source
+ */
+export function fromBuffer(data: Uint8Array, name: string, options: SourceOptions = {}): UploadSource {
+    return new RandomAccessSource(name, data.byteLength, options.type ?? '', options.lastModified ?? Date.now(),
+        async (start, end) => data.subarray(start, end));
+}
+
+/**
+ * Creates a source for a file on disk (Node.js)
+ * Only the file's size is read now; chunks are read from disk when sent
+ *
+ * @param {string} path - Path of the file
+ * @param {SourceOptions & { name?: string }} [options] - Name (default: the path's base name), MIME type and modification time
+ * @returns {Promise<UploadSource>} The source
+ * @throws {Error} If the file does not exist or is not a regular file
+ */
+export async function fromPath(path: string, options: SourceOptions & { name?: string } = {}): Promise<UploadSource> {
+    const fs = await import('fs/promises');
+    const stats = await fs.stat(path);
+    if (!stats.isFile()) {
+        throw new Error(`TurboPush: ${path} is not a file`);
+    }
+
+    const name = options.name ?? path.split(/[\\/]/).pop()!;
+    return new RandomAccessSource(name, stats.size, options.type ?? '', options.lastModified ?? stats.mtimeMs,
+        async (start, end) => {
+            // Opened per read so no handle outlives the upload
+            const handle = await fs.open(path, 'r');
+            try {
+                return await readFromHandle(handle, start, end);
+            } finally {
+                await handle.close();
+            }
+        });
+}
+
+/**
+ * Creates a source for an open `fs.FileHandle` (Node.js)
+ * The handle stays open; closing it after the upload is up to the caller
+ *
+ * @param {ReadableFileHandle} handle - Open file handle
+ * @param {string} name - File name including extension
+ * @param {SourceOptions} [options] - MIME type and modification time
+ * @returns {Promise<UploadSource>} The source
+ */
+export async function fromFileHandle(
+    handle: ReadableFileHandle,
+    name: string,
+    options: SourceOptions = {}
+): Promise<UploadSource> {
+    const stats = await handle.stat();
+    return new RandomAccessSource(name, stats.size, options.type ?? '', options.lastModified ?? stats.mtimeMs,
+        (start, end) => readFromHandle(handle, start, end));
+}
+
+/**
+ * Creates a source for a stream, e.g. a Node.js Readable or `process.stdin`
+ * Any async iterable of byte chunks works. The stream is read once, in
+ * order, as chunks are uploaded; without `size` chunks are created as data
+ * arrives until the stream ends
+ *
+ * @param {AsyncIterable<Uint8Array>} stream - Stream of bytes
+ * @param {string} name - File name including extension
+ * @param {StreamSourceOptions} [options] - Size if known, MIME type and modification time
+ * @returns {UploadSource} The source
+ */
+export function fromStream(
+    stream: AsyncIterable<Uint8Array>,
+    name: string,
+    options: StreamSourceOptions = {}
+): UploadSource {
+    return new StreamSource(stream, name, options);
+}
+
+/**
+ * Reads a byte range through a file handle
+ *
+ * @private
+ * @param {ReadableFileHandle} handle - Open file handle
+ * @param {number} start - First byte
+ * @param {number} end - Byte after the last one
+ * @returns {Promise<Uint8Array>} The bytes (fewer if the file is shorter)
+ */
+async function readFromHandle(handle: ReadableFileHandle, start: number, end: number): Promise<Uint8Array> {
+    const buffer = new Uint8Array(end - start);
+    let filled = 0;
+
+    // A single read may return fewer bytes than asked for
+    while (filled < buffer.length) {
+        const { bytesRead } = await handle.read(buffer, filled, buffer.length - filled, start + filled);
+        if (bytesRead === 0) break;
+        filled += bytesRead;
+    }
+    return buffer.subarray(0, filled);
+}
+
+/**
+ * RandomAccessSource - Source whose bytes can be read in any order, any number of times
+ *
+ * @private
+ * @class RandomAccessSource
+ * @implements {UploadSource}
+ */
+class RandomAccessSource implements UploadSource {
+    public readonly name: string;
+    public readonly size: number;
+    public readonly type: string;
+    public readonly lastModified: number;
+    public readonly sizeKnown = true;
+    public readonly sequential = false;
+
+    /** Reads a byte range */
+    private readBytes: (start: number, end: number) => Promise<Uint8Array>;
+
+    /**
+     * Creates a new RandomAccessSource
+     *
+     * @param {string} name - File name
+     * @param {number} size - Size in bytes
+     * @param {string} type - MIME type
+     * @param {number} lastModified - Modification time
+     * @param {Function} readBytes - Reads a byte range
+     */
+    constructor(
+        name: string,
+        size: number,
+        type: string,
+        lastModified: number,
+        readBytes: (start: number, end: number) => Promise<Uint8Array>
+    ) {
+        this.name = name;
+        this.size = size;
+        this.type = type;
+        this.lastModified = lastModified;
+        this.readBytes = readBytes;
+    }
+
+    /**
+     * Reads the bytes from `start` to `end` (exclusive)
+     *
+     * @param {number} start - First byte
+     * @param {number} end - Byte after the last one
+     * @returns {Promise<Blob>} The bytes
+     */
+    public async read(start: number, end: number): Promise<Blob> {
+        const bytes = await this.readBytes(start, Math.min(end, this.size));
+        return new Blob([bytes as BlobPart], { type: this.type });
+    }
+}
+
+/**
+ * StreamSource - Source reading a stream once, in order
+ *
+ * @private
+ * @class StreamSource
+ * @implements {UploadSource}
+ */
+class StreamSource implements UploadSource {
+    public readonly name: string;
+    public readonly type: string;
+    public readonly lastModified: number;
+    public readonly sequential = true;
+
+    /** Iterator over the stream's byte chunks */
+    private iterator: AsyncIterator<Uint8Array>;
+
+    /** Size given up front, if any */
+    private declaredSize?: number;
+
+    /** Bytes read from the stream so far */
+    private position: number = 0;
+
+    /** Bytes received from the stream past `position` */
+    private leftover?: Uint8Array;
+
+    /** Whether the stream has ended */
+    private ended: boolean = false;
+
+    /** Error the stream failed with; a failed stream does not end, it stays broken */
+    private failure?: unknown;
+
+    /** Read in progress; reads run one after the other */
+    private pending: Promise<unknown> = Promise.resolve();
+
+    /**
+     * Creates a new StreamSource
+     *
+     * @param {AsyncIterable<Uint8Array>} stream - Stream of bytes
+     * @param {string} name - File name
+     * @param {StreamSourceOptions} options - Size, MIME type and modification time
+     */
+    constructor(stream: AsyncIterable<Uint8Array>, name: string, options: StreamSourceOptions) {
+        this.iterator = stream[Symbol.asyncIterator]();
+        this.name = name;
+        this.type = options.type ?? '';
+        this.lastModified = options.lastModified ?? Date.now();
+        this.declaredSize = options.size;
+    }
+
+    /**
+     * Size in bytes; the bytes read so far until a stream of unknown length ends
+     */
+    public get size(): number {
+        return this.declaredSize ?? this.position;
+    }
+
+    /**
+     * Whether the final size is known
+     */
+    public get sizeKnown(): boolean {
+        return this.declaredSize !== undefined || this.ended;
+    }
+
+    /**
+     * Reads the next bytes of the stream
+     * `start` must be where the previous read ended
+     *
+     * @param {number} start - First byte
+     * @param {number} end - Byte after the last one
+     * @returns {Promise<Blob>} The bytes; fewer than asked for once the stream ends
+     * @throws {Error} If the range does not follow the previous read, or the stream errors
+     */
+    public read(start: number, end: number): Promise<Blob> {
+        const result = this.pending.then(() => this.readNext(start, end));
+        this.pending = result.catch(() => undefined);
+        return result;
+    }
+
+    /**
+     * Pulls bytes from the stream until the range is filled or the stream ends
+     *
+     * @private
+     * @param {number} start - First byte
+     * @param {number} end - Byte after the last one
+     * @returns {Promise<Blob>} The bytes
+     */
+    private async readNext(start: number, end: number): Promise<Blob> {
+        if (start !== this.position) {
+            throw new Error(`TurboPush: ${this.name} is a stream and must be read in order ` +
+                `(asked for byte ${start}, next is ${this.position})`);
+        }
+
+        const parts: Uint8Array[] = [];
+        let length = 0;
+        const wanted = end - start;
+
+        while (length < wanted) {
+            let part = this.leftover;
+            this.leftover = undefined;
+
+            if (!part) {
+                if (this.ended) break;
+                if (this.failure !== undefined) throw this.failure;
+
+                let next: IteratorResult<Uint8Array>;
+                try {
+                    next = await this.iterator.next();
+                } catch (error) {
+                    this.failure = error ?? new Error(`TurboPush: ${this.name} failed`);
+                    throw this.failure;
+                }
+                if (next.done) {
+                    this.ended = true;
+                    break;
+                }
+                part = next.value;
+            }
+
+            // Keep what does not fit for the next read
+            if (length + part.byteLength > wanted) {
+                this.leftover = part.subarray(wanted - length);
+                part = part.subarray(0, wanted - length);
+            }
+            parts.push(part);
+            length += part.byteLength;
+        }
+        this.position += length;
+
+        if (this.ended && this.declaredSize !== undefined && this.position !== this.declaredSize) {
+            throw new Error(`TurboPush: ${this.name} ended after ${this.position} of ${this.declaredSize} bytes`);
+        }
+        return new Blob(parts as BlobPart[], { type: this.type });
+    }
+}
@@ -0,0 +1,675 @@
+/**
+ * TurboPush Preprocess - File transforms run before chunking
+ *
+ * The `preprocess` option runs an ordered list of FileTransforms over each
+ * file before it is split into chunks; each one returns the file as it
+ * should be uploaded. The built-in transforms cover photos:
+ * resizeImage() downscales to a maximum dimension, encodeImage()
+ * re-encodes as JPEG or WebP at a quality level, and stripExif() removes
+ * EXIF (GPS position included) and XMP metadata without re-encoding.
+ *
+ * resizeImage() and encodeImage() decode with createImageBitmap(), which
+ * applies the EXIF orientation, and encode with a canvas (OffscreenCanvas
+ * where available), which writes no metadata; they need a browser.
+ * stripExif() edits the bytes of JPEG, PNG and WebP files and runs anywhere.
+ *
+ * @module TurboPushPreprocess
+ * @since 1.1.0
+ *
+ * @example
+ * ```typescript
+ * import { resizeImage, stripExif } from './TurboPushPreprocess.js';
+ *
+ * const uploader = new TurboPush({
+ *     endpoint: '/api/upload',
+ *     preprocess: [resizeImage({ maxDimension: 2048, quality: 0.85 }), stripExif()]
+ * });
+ * ```
+ */
+
+import type { FileTransform, FileTransformContext, UploadFile } from './TurboPush.js';
+import { PreprocessError, TurboPushError } from './TurboPushErrors.js';
+import { isSizeKnown, isUploadSource, readRange } from './TurboPushInput.js';
+
+/**
+ * Options for resizeImage()
+ *
+ * @interface ResizeImageOptions
+ */
+export interface ResizeImageOptions {
+    /** Longest side of the result in pixels; smaller images are left alone */
+    maxDimension: number;
+
+    /** Type of the result (default: the input type if a canvas can encode it, else JPEG) */
+    type?: EncodableImageType;
+
+    /** Encoder quality for JPEG and WebP, 0-1 (default: 0.9) */
+    quality?: number;
+}
+
+/**
+ * Options for encodeImage()
+ *
+ * @interface EncodeImageOptions
+ */
+export interface EncodeImageOptions {
+    /** Type to encode to (default: 'image/jpeg') */
+    type?: 'image/jpeg' | 'image/webp';
+
+    /** Encoder quality, 0-1 (default: 0.85) */
+    quality?: number;
+}
+
+/** Image types every browser's canvas can encode */
+type EncodableImageType = 'image/jpeg' | 'image/png' | 'image/webp';
+
+/** File extension written for each encodable type */
+const OUTPUT_EXTENSIONS: Record<EncodableImageType, string> = {
+    'image/jpeg': 'jpg',
+    'image/png': 'png',
+    'image/webp': 'webp'
+};
+
+/** Image types by extension, for files without a useful MIME type */
+const IMAGE_EXTENSIONS: Record<string, string> = {
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    png: 'image/png',
+    webp: 'image/webp',
+    gif: 'image/gif',
+    bmp: 'image/bmp',
+    heic: 'image/heic',
+    heif: 'image/heif',
+    avif: 'image/avif',
+    tif: 'image/tiff',
+    tiff: 'image/tiff'
+};
+
+/**
+ * Types the image transforms decode; GIFs would lose their animation and
+ * SVGs have no pixels to scale
+ */
+const DECODABLE_TYPES = new Set([
+    'image/jpeg', 'image/png', 'image/webp', 'image/bmp', 'image/heic', 'image/heif', 'image/avif', 'image/tiff'
+]);
+
+/** Types whose metadata stripExif() cannot remove; convert them with encodeImage() */
+const UNSTRIPPABLE_TYPES = new Set(['image/heic', 'image/heif', 'image/avif', 'image/tiff']);
+
+/** Start of the payload of a JPEG APP1 segment holding EXIF */
+const EXIF_ID = ascii('Exif\0\0');
+
+/** Starts of the payloads of JPEG APP1 segments holding XMP */
+const XMP_IDS = [ascii('http://ns.adobe.com/xap/1.0/\0'), ascii('http://ns.adobe.com/xmp/extension/\0')];
+
+/** EXIF tag of the image orientation */
+const ORIENTATION_TAG = 0x0112;
+
+/**
+ * Runs transforms over a file in order
+ * A transform returning a Blob without a name keeps the previous name
+ *
+ * @param {UploadFile} file - File as queued
+ * @param {FileTransform[]} transforms - Transforms to run
+ * @param {FileTransformContext} context - Passed to every transform
+ * @returns {Promise<UploadFile>} File to upload; `file` itself if no transform changed it
+ * @throws {TurboPushError} If a transform fails (a PreprocessError unless it threw a TurboPushError)
+ */
+export async function applyTransforms(
+    file: UploadFile,
+    transforms: FileTransform[],
+    context: FileTransformContext
+): Promise<UploadFile> {
+    let current = file;
+    for (const transform of transforms) {
+        let result: UploadFile | Blob;
+        try {
+            result = await transform(current, context);
+        } catch (error) {
+            if (error instanceof TurboPushError) throw error;
+            throw new PreprocessError(`Preprocessing failed: ${(error as Error)?.message ?? error}`, { cause: error });
+        }
+        if (!result || typeof result.size !== 'number') {
+            throw new PreprocessError('Preprocessing failed: a transform returned no file');
+        }
+        current = toUploadFile(result, current);
+    }
+    return current;
+}
+
+/**
+ * Creates a transform that downscales images to fit a maximum dimension
+ * Images already within it keep their bytes unless `type` asks for another type
+ *
+ * @param {ResizeImageOptions} options - Maximum dimension and encoding
+ * @returns {FileTransform} The transform; other files pass through
+ * @throws {Error} If the options are invalid
+ */
+export function resizeImage(options: ResizeImageOptions): FileTransform {
+    if (!(options.maxDimension >= 1)) {
+        throw new Error('TurboPush: resizeImage needs a maxDimension of at least 1');
+    }
+    const quality = checkQuality(options.quality ?? 0.9);
+    if (options.type) checkEncodable(options.type);
+
+    return async (file) => {
+        const type = imageType(file);
+        if (!type || !DECODABLE_TYPES.has(type) || !isSizeKnown(file)) return file;
+
+        const source = await readRange(file, 0, file.size);
+        const bitmap = await decodeImage(source);
+        try {
+            const scale = options.maxDimension / Math.max(bitmap.width, bitmap.height);
+            const outputType = options.type ?? (isEncodable(type) ? type : 'image/jpeg');
+            if (scale >= 1 && (!options.type || options.type === type)) {
+                return isUploadSource(file) ? source : file;
+            }
+
+            const factor = Math.min(1, scale);
+            const width = Math.max(1, Math.round(bitmap.width * factor));
+            const height = Math.max(1, Math.round(bitmap.height * factor));
+            return renamed(await renderImage(bitmap, width, height, outputType, quality), file, outputType);
+        } finally {
+            bitmap.close();
+        }
+    };
+}
+
+/**
+ * Creates a transform that re-encodes images as JPEG or WebP
+ * The result carries no metadata; the EXIF orientation is applied to the pixels
+ *
+ * @param {EncodeImageOptions} [options] - Type and quality
+ * @returns {FileTransform} The transform; other files pass through
+ * @throws {Error} If the options are invalid
+ */
+export function encodeImage(options: EncodeImageOptions = {}): FileTransform {
+    const type = options.type ?? 'image/jpeg';
+    const quality = checkQuality(options.quality ?? 0.85);
+    checkEncodable(type);
+
+    return async (file) => {
+        const inputType = imageType(file);
+        if (!inputType || !DECODABLE_TYPES.has(inputType) || !isSizeKnown(file)) return file;
+
+        const bitmap = await decodeImage(await readRange(file, 0, file.size));
+        try {
+            return renamed(await renderImage(bitmap, bitmap.width, bitmap.height, type, quality), file, type);
+        } finally {
+            bitmap.close();
+        }
+    };
+}
+
+/**
+ * Creates a transform that removes EXIF and XMP metadata from images
+ * JPEG, PNG and WebP files are edited in place without re-encoding; a
+ * JPEG keeps its orientation tag so it still displays upright. Formats
+ * whose metadata cannot be removed this way (HEIC, AVIF, TIFF) fail with
+ * a PreprocessError: run encodeImage() before stripExif() to convert them
+ *
+ * @returns {FileTransform} The transform; other files pass through
+ */
+export function stripExif(): FileTransform {
+    return async (file) => {
+        const type = imageType(file);
+        if (!type || !isSizeKnown(file)) return file;
+        if (UNSTRIPPABLE_TYPES.has(type)) {
+            throw new PreprocessError(`Cannot remove metadata from ${type} files; convert them with encodeImage() first`);
+        }
+
+        const strip = type === 'image/jpeg' ? stripJpeg : type === 'image/png' ? stripPng : type === 'image/webp' ? stripWebp : undefined;
+        if (!strip) return file;
+
+        const bytes = new Uint8Array(await (await readRange(file, 0, file.size)).arrayBuffer());
+        const stripped = strip(bytes);
+        if (stripped === bytes && !isUploadSource(file)) return file;
+        return new File([stripped as BlobPart], file.name, { type: file.type || type, lastModified: file.lastModified });
+    };
+}
+
+/**
+ * Removes APP1 (EXIF, XMP) and APP13 (IPTC) segments from a JPEG
+ * The orientation is kept in a minimal EXIF segment
+ *
+ * @private
+ * @param {Uint8Array} bytes - JPEG file
+ * @returns {Uint8Array} Stripped file, or `bytes` if there was nothing to remove
+ * @throws {PreprocessError} If the file is not a well-formed JPEG
+ */
+function stripJpeg(bytes: Uint8Array): Uint8Array {
+    if (bytes[0] !== 0xff || bytes[1] !== 0xd8) {
+        throw new PreprocessError('Cannot remove metadata: not a JPEG file');
+    }
+
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const parts: Uint8Array[] = [bytes.subarray(0, 2)];
+    let removed = false;
+    let offset = 2;
+
+    while (offset < bytes.length) {
+        if (bytes[offset] !== 0xff || offset + 1 >= bytes.length) {
+            throw new PreprocessError('Cannot remove metadata: malformed JPEG file');
+        }
+        const marker = bytes[offset + 1];
+
+        // Fill bytes before a marker
+        if (marker === 0xff) {
+            offset++;
+            continue;
+        }
+
+        // Image data follows the start of scan; metadata comes before it
+        if (marker === 0xda || marker === 0xd9) {
+            parts.push(bytes.subarray(offset));
+            break;
+        }
+
+        // Markers without a payload
+        if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+            parts.push(bytes.subarray(offset, offset + 2));
+            offset += 2;
+            continue;
+        }
+
+        if (offset + 4 > bytes.length) {
+            throw new PreprocessError('Cannot remove metadata: malformed JPEG file');
+        }
+        const end = offset + 2 + view.getUint16(offset + 2);
+        if (end < offset + 4 || end > bytes.length) {
+            throw new PreprocessError('Cannot remove metadata: malformed JPEG file');
+        }
+        const payload = bytes.subarray(offset + 4, end);
+
+        if (marker === 0xe1 && startsWith(payload, EXIF_ID)) {
+            const orientation = readOrientation(payload.subarray(EXIF_ID.length));
+            if (orientation !== undefined && orientation !== 1) {
+                parts.push(orientationSegment(orientation));
+            }
+            removed = true;
+        } else if ((marker === 0xe1 && XMP_IDS.some(id => startsWith(payload, id))) || marker === 0xed) {
+            removed = true;
+        } else {
+            parts.push(bytes.subarray(offset, end));
+        }
+        offset = end;
+    }
+
+    return removed ? concat(parts) : bytes;
+}
+
+/**
+ * Removes eXIf chunks and text chunks holding XMP or raw EXIF/IPTC profiles from a PNG
+ *
+ * @private
+ * @param {Uint8Array} bytes - PNG file
+ * @returns {Uint8Array} Stripped file, or `bytes` if there was nothing to remove
+ * @throws {PreprocessError} If the file is not a well-formed PNG
+ */
+function stripPng(bytes: Uint8Array): Uint8Array {
+    const signature = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+    if (!signature.every((byte, i) => bytes[i] === byte)) {
+        throw new PreprocessError('Cannot remove metadata: not a PNG file');
+    }
+
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const parts: Uint8Array[] = [bytes.subarray(0, 8)];
+    let removed = false;
+    let offset = 8;
+
+    while (offset + 12 <= bytes.length) {
+        const end = offset + 12 + view.getUint32(offset);
+        if (end > bytes.length) {
+            throw new PreprocessError('Cannot remove metadata: malformed PNG file');
+        }
+        const type = text(bytes.subarray(offset + 4, offset + 8));
+
+        if (type === 'eXIf' || ((type === 'tEXt' || type === 'iTXt' || type === 'zTXt') && isMetadataKeyword(bytes.subarray(offset + 8, end - 4)))) {
+            removed = true;
+        } else {
+            parts.push(bytes.subarray(offset, end));
+        }
+        offset = end;
+    }
+    parts.push(bytes.subarray(offset));
+
+    return removed ? concat(parts) : bytes;
+}
+
+/**
+ * Removes EXIF and XMP chunks from a WebP and clears their VP8X flags
+ *
+ * @private
+ * @param {Uint8Array} bytes - WebP file
+ * @returns {Uint8Array} Stripped file, or `bytes` if there was nothing to remove
+ * @throws {PreprocessError} If the file is not a well-formed WebP
+ */
+function stripWebp(bytes: Uint8Array): Uint8Array {
+    if (bytes.length < 12 || text(bytes.subarray(0, 4)) !== 'RIFF' || text(bytes.subarray(8, 12)) !== 'WEBP') {
+        throw new PreprocessError('Cannot remove metadata: not a WebP file');
+    }
+
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const parts: Uint8Array[] = [];
+    let removed = false;
+    let offset = 12;
+
+    while (offset + 8 <= bytes.length) {
+        const type = text(bytes.subarray(offset, offset + 4));
+        const size = view.getUint32(offset + 4, true);
+        // Chunks are padded to an even size, except possibly the last one
+        const end = Math.min(offset + 8 + size + (size & 1), bytes.length);
+        if (offset + 8 + size > bytes.length) {
+            throw new PreprocessError('Cannot remove metadata: malformed WebP file');
+        }
+
+        if (type === 'EXIF' || type === 'XMP ') {
+            removed = true;
+        } else if (type === 'VP8X' && size > 0) {
+            const chunk = bytes.slice(offset, end);
+            chunk[8] &= ~(0x08 | 0x04); // EXIF and XMP present flags
+            parts.push(chunk);
+        } else {
+            parts.push(bytes.subarray(offset, end));
+        }
+        offset = end;
+    }
+    if (!removed) return bytes;
+
+    const header = bytes.slice(0, 12);
+    const body = concat(parts);
+    new DataView(header.buffer).setUint32(4, 4 + body.length, true);
+    return concat([header, body]);
+}
+
+/**
+ * Reads the orientation from the first IFD of an EXIF TIFF structure
+ *
+ * @private
+ * @param {Uint8Array} tiff - TIFF header and IFDs
+ * @returns {number | undefined} Orientation 1-8, or undefined if absent or malformed
+ */
+function readOrientation(tiff: Uint8Array): number | undefined {
+    if (tiff.length < 8) return undefined;
+    const littleEndian = tiff[0] === 0x49 && tiff[1] === 0x49;
+    if (!littleEndian && !(tiff[0] === 0x4d && tiff[1] === 0x4d)) return undefined;
+
+    const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+    const ifd = view.getUint32(4, littleEndian);
+    if (ifd + 2 > tiff.length) return undefined;
+
+    const count = view.getUint16(ifd, littleEndian);
+    for (let i = 0; i < count; i++) {
+        const entry = ifd + 2 + 12 * i;
+        if (entry + 12 > tiff.length) return undefined;
+        if (view.getUint16(entry, littleEndian) === ORIENTATION_TAG) {
+            const orientation = view.getUint16(entry + 8, littleEndian);
+            return orientation >= 1 && orientation <= 8 ? orientation : undefined;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Builds a JPEG APP1 segment whose EXIF holds only the orientation
+ *
+ * @private
+ * @param {number} orientation - Orientation 1-8
+ * @returns {Uint8Array} Segment, marker included
+ */
+function orientationSegment(orientation: number): Uint8Array {
+    const segment = new Uint8Array(36);
+    const view = new DataView(segment.buffer);
+    view.setUint16(0, 0xffe1);
+    view.setUint16(2, segment.length - 2);
+    segment.set(EXIF_ID, 4);
+
+    // Big-endian TIFF header, then one IFD with a single SHORT entry
+    segment.set([0x4d, 0x4d, 0x00, 0x2a], 10);
+    view.setUint32(14, 8);
+    view.setUint16(18, 1);
+    view.setUint16(20, ORIENTATION_TAG);
+    view.setUint16(22, 3);
+    view.setUint32(24, 1);
+    view.setUint16(28, orientation);
+    return segment;
+}
+
+/**
+ * Checks whether a PNG text chunk holds XMP or a raw metadata profile
+ *
+ * @private
+ * @param {Uint8Array} data - Chunk data, starting with the null-terminated keyword
+ * @returns {boolean} True for metadata
+ */
+function isMetadataKeyword(data: Uint8Array): boolean {
+    // Keywords are 1-79 bytes long
+    const head = data.subarray(0, 80);
+    const end = head.indexOf(0);
+    const keyword = text(head.subarray(0, end < 0 ? head.length : end));
+    return keyword === 'XML:com.adobe.xmp' || keyword.startsWith('Raw profile type ');
+}
+
+/**
+ * Works out a file's image type from its MIME type, or its extension
+ * when the MIME type is missing or generic
+ *
+ * @private
+ * @param {UploadFile} file - File to check
+ * @returns {string | undefined} Image MIME type, or undefined for other files
+ */
+function imageType(file: UploadFile): string | undefined {
+    const type = file.type.split(';')[0].trim().toLowerCase();
+    if (type.startsWith('image/')) return type === 'image/jpg' ? 'image/jpeg' : type;
+    if (type && type !== 'application/octet-stream') return undefined;
+
+    const extension = /\.([^.]+)$/.exec(file.name)?.[1].toLowerCase();
+    return extension !== undefined ? IMAGE_EXTENSIONS[extension] : undefined;
+}
+
+/**
+ * Decodes an image, applying its EXIF orientation
+ *
+ * @private
+ * @param {Blob} blob - Encoded image
+ * @returns {Promise<ImageBitmap>} Decoded image
+ * @throws {PreprocessError} If decoding is unavailable or fails
+ */
+async function decodeImage(blob: Blob): Promise<ImageBitmap> {
+    if (typeof createImageBitmap !== 'function') {
+        throw new PreprocessError('Image transforms need createImageBitmap() (browsers only)');
+    }
+    try {
+        return await createImageBitmap(blob, { imageOrientation: 'from-image' });
+    } catch (error) {
+        throw new PreprocessError(`Cannot decode the image: ${(error as Error)?.message ?? error}`, { cause: error });
+    }
+}
+
+/**
+ * Draws an image at a size and encodes it
+ *
+ * @private
+ * @param {ImageBitmap} bitmap - Decoded image
+ * @param {number} width - Output width in pixels
+ * @param {number} height - Output height in pixels
+ * @param {EncodableImageType} type - Output type
+ * @param {number} quality - Encoder quality for JPEG and WebP, 0-1
+ * @returns {Promise<Blob>} Encoded image
+ * @throws {PreprocessError} If there is no canvas or it cannot encode `type`
+ */
+async function renderImage(
+    bitmap: ImageBitmap,
+    width: number,
+    height: number,
+    type: EncodableImageType,
+    quality: number
+): Promise<Blob> {
+    let blob: Blob | null;
+    if (typeof OffscreenCanvas !== 'undefined') {
+        const canvas = new OffscreenCanvas(width, height);
+        draw(canvas.getContext('2d'), bitmap, width, height);
+        blob = await canvas.convertToBlob({ type, quality });
+    } else if (typeof document !== 'undefined') {
+        const canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+        draw(canvas.getContext('2d'), bitmap, width, height);
+        blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, type, quality));
+    } else {
+        throw new PreprocessError('Image transforms need a canvas (browsers only)');
+    }
+
+    // Canvases fall back to PNG for types they cannot encode
+    if (!blob || blob.type !== type) {
+        throw new PreprocessError(`This browser cannot encode ${type} images`);
+    }
+    return blob;
+}
+
+/**
+ * Draws an image scaled onto a canvas context
+ *
+ * @private
+ * @param {CanvasDrawImage | null} context - 2D context of the canvas
+ * @param {ImageBitmap} bitmap - Decoded image
+ * @param {number} width - Output width in pixels
+ * @param {number} height - Output height in pixels
+ * @returns {void}
+ * @throws {PreprocessError} If the canvas has no 2D context
+ */
+function draw(
+    context: (CanvasDrawImage & CanvasImageSmoothing) | null,
+    bitmap: ImageBitmap,
+    width: number,
+    height: number
+): void {
+    if (!context) {
+        throw new PreprocessError('Image transforms need a canvas with a 2D context');
+    }
+    context.imageSmoothingQuality = 'high';
+    context.drawImage(bitmap, 0, 0, width, height);
+}
+
+/**
+ * Wraps an encoded image as a File named after the original, with the
+ * extension of its new type
+ *
+ * @private
+ * @param {Blob} blob - Encoded image
+ * @param {UploadFile} original - File it was made from
+ * @param {EncodableImageType} type - Type of `blob`
+ * @returns {File} The new file
+ */
+function renamed(blob: Blob, original: UploadFile, type: EncodableImageType): File {
+    const extension = /\.([^.]+)$/.exec(original.name)?.[1];
+    const base = extension !== undefined ? original.name.slice(0, -(extension.length + 1)) : original.name;
+    const name = extension !== undefined && IMAGE_EXTENSIONS[extension.toLowerCase()] === type
+        ? original.name
+        : `${base}.${OUTPUT_EXTENSIONS[type]}`;
+    return new File([blob], name, { type, lastModified: original.lastModified });
+}
+
+/**
+ * Turns a transform result into a queueable file
+ *
+ * @private
+ * @param {UploadFile | Blob} result - What the transform returned
+ * @param {UploadFile} previous - File the transform was given
+ * @returns {UploadFile} `result` if it is a File or UploadSource, else a File with the previous name
+ */
+function toUploadFile(result: UploadFile | Blob, previous: UploadFile): UploadFile {
+    if (typeof (result as UploadFile).name === 'string') return result as UploadFile;
+    return new File([result as Blob], previous.name, { type: result.type || previous.type, lastModified: previous.lastModified });
+}
+
+/**
+ * Checks an encoder quality
+ *
+ * @private
+ * @param {number} quality - Quality to check
+ * @returns {number} The quality
+ * @throws {Error} If it is not between 0 and 1
+ */
+function checkQuality(quality: number): number {
+    if (!(quality >= 0 && quality <= 1)) {
+        throw new Error('TurboPush: image quality must be between 0 and 1');
+    }
+    return quality;
+}
+
+/**
+ * Checks that an output type is one canvases can encode
+ *
+ * @private
+ * @param {string} type - Output type
+ * @returns {void}
+ * @throws {Error} If it is not JPEG, PNG or WebP
+ */
+function checkEncodable(type: string): void {
+    if (!isEncodable(type)) {
+        throw new Error(`TurboPush: cannot encode images as ${type}`);
+    }
+}
+
+/**
+ * Checks whether canvases can encode a type
+ *
+ * @private
+ * @param {string} type - Image MIME type
+ * @returns {boolean} True for JPEG, PNG and WebP
+ */
+function isEncodable(type: string): type is EncodableImageType {
+    return Object.prototype.hasOwnProperty.call(OUTPUT_EXTENSIONS, type);
+}
+
+/**
+ * Checks whether bytes start with a prefix
+ *
+ * @private
+ * @param {Uint8Array} bytes - Bytes to check
+ * @param {Uint8Array} prefix - Expected start
+ * @returns {boolean} True if `bytes` starts with `prefix`
+ */
+function startsWith(bytes: Uint8Array, prefix: Uint8Array): boolean {
+    return bytes.length >= prefix.length && prefix.every((byte, i) => bytes[i] === byte);
+}
+
+/**
+ * Encodes an ASCII string as bytes
+ *
+ * @private
+ * @param {string} value - ASCII text
+ * @returns {Uint8Array} Bytes
+ */
+function ascii(value: string): Uint8Array {
+    return Uint8Array.from(value, char => char.charCodeAt(0));
+}
+
+/**
+ * Decodes bytes as Latin-1 text
+ *
+ * @private
+ * @param {Uint8Array} bytes - Bytes
+ * @returns {string} Text
+ */
+function text(bytes: Uint8Array): string {
+    return String.fromCharCode(...bytes);
+}
+
+/**
+ * Joins byte arrays into one
+ *
+ * @private
+ * @param {Uint8Array[]} parts - Byte arrays to join
+ * @returns {Uint8Array} Concatenated bytes
+ */
+function concat(parts: Uint8Array[]): Uint8Array {
+    const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        result.set(part, offset);
+        offset += part.length;
+    }
+    return result;
+}
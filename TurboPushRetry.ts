@@ -0,0 +1,143 @@
+/**
+ * TurboPush Retry - Backoff strategies and circuit breaker
+ *
+ * Computes how long a failed chunk waits before its next attempt, honouring
+ * `Retry-After` from the server, and counts consecutive failures across the
+ * queue so an outage pauses uploads instead of burning every chunk's retries.
+ *
+ * @module TurboPushRetry
+ * @since 1.1.0
+ *
+ * @example
+ * ```typescript
+ * import { computeRetryDelay } from './TurboPushRetry.js';
+ *
+ * // 1000, 2000, 4000... capped at 30s, each scaled by a random factor in [0.5, 1]
+ * const delay = computeRetryDelay({ strategy: 'exponential' }, 1000, {
+ *     attempt: 3,
+ *     previousDelay: 2000,
+ *     error
+ * });
+ * ```
+ */
+
+import type { RetryPolicy, RetryDelayContext } from './TurboPush.js';
+
+/** Default cap on computed backoff delays */
+const DEFAULT_MAX_DELAY = 30000;
+
+/**
+ * Computes the delay before retrying a chunk
+ * `Retry-After` sent with the failure wins over a shorter computed delay and
+ * is not capped by `maxDelay`
+ *
+ * @param {RetryPolicy} policy - Configured retry policy
+ * @param {number} baseDelay - `retryDelay` from the configuration
+ * @param {RetryDelayContext} context - Attempt, previous delay and failure
+ * @param {Function} [random] - Source of randomness in [0, 1), for tests
+ * @returns {number} Delay in milliseconds
+ */
+export function computeRetryDelay(
+    policy: RetryPolicy,
+    baseDelay: number,
+    context: RetryDelayContext,
+    random: () => number = Math.random
+): number {
+    const maxDelay = policy.maxDelay ?? DEFAULT_MAX_DELAY;
+    const strategy = policy.strategy ?? 'exponential';
+
+    let delay: number;
+    if (typeof strategy === 'function') {
+        delay = strategy(context);
+    } else if (strategy === 'decorrelated-jitter') {
+        // Random between the base and three times the previous delay (AWS "decorrelated jitter")
+        const upper = Math.max(baseDelay, context.previousDelay * 3);
+        delay = baseDelay + random() * (upper - baseDelay);
+    } else {
+        delay = baseDelay * Math.pow(2, context.attempt - 1);
+        if (policy.jitter !== false) {
+            delay *= 0.5 + random() * 0.5;
+        }
+    }
+    delay = Math.max(0, Math.min(maxDelay, delay));
+
+    const retryAfter = policy.respectRetryAfter !== false ? context.error.retryAfter : undefined;
+    return retryAfter !== undefined ? Math.max(delay, retryAfter) : delay;
+}
+
+/**
+ * Parses a `Retry-After` header (delay in seconds or an HTTP date)
+ *
+ * @param {string | null | undefined} value - Header value
+ * @param {number} [now] - Current time in milliseconds since epoch
+ * @returns {number | undefined} Delay in milliseconds, or undefined if absent or invalid
+ */
+export function parseRetryAfter(value: string | null | undefined, now: number = Date.now()): number | undefined {
+    if (!value) return undefined;
+
+    const trimmed = value.trim();
+    if (/^\d+$/.test(trimmed)) {
+        return parseInt(trimmed, 10) * 1000;
+    }
+
+    const date = Date.parse(trimmed);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * CircuitBreaker - Counts consecutive failures across the whole queue
+ *
+ * @class CircuitBreaker
+ */
+export class CircuitBreaker {
+    /** Consecutive failures that open the circuit */
+    private threshold: number;
+
+    /** Failures since the last success */
+    private failures: number = 0;
+
+    /**
+     * Creates a new CircuitBreaker
+     *
+     * @param {number} threshold - Consecutive failures that open the circuit
+     * @throws {Error} If threshold is not a positive integer
+     */
+    constructor(threshold: number) {
+        if (!Number.isInteger(threshold) || threshold < 1) {
+            throw new Error('TurboPush: circuitBreaker threshold must be a positive integer');
+        }
+        this.threshold = threshold;
+    }
+
+    /**
+     * Records a successful request, closing the circuit
+     *
+     * @returns {void}
+     */
+    public recordSuccess(): void {
+        this.failures = 0;
+    }
+
+    /**
+     * Records a failed request
+     * The count starts over once the circuit opens
+     *
+     * @returns {boolean} True if this failure opens the circuit
+     */
+    public recordFailure(): boolean {
+        this.failures++;
+        if (this.failures < this.threshold) return false;
+
+        this.failures = 0;
+        return true;
+    }
+
+    /**
+     * Gets the number of consecutive failures so far
+     *
+     * @returns {number} Failures since the last success or opening
+     */
+    public getFailures(): number {
+        return this.failures;
+    }
+}
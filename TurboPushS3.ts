@@ -0,0 +1,332 @@
+/**
+ * TurboPush S3 Transport - Direct-to-S3 multipart uploads
+ *
+ * Uploads each chunk as a part of an S3 multipart upload, PUT straight to
+ * a presigned URL so file bytes never pass through the application server.
+ * The backend at `endpoint` only handles the small control requests, sent
+ * as JSON actions like TurboPush's own finalize request:
+ * - `{ action: 'createMultipart' }` -> CreateMultipartUpload, answers `data.uploadId` and `data.key`;
+ *   carries the file's `metadata`, e.g. to store as `x-amz-meta-*` headers
+ * - `{ action: 'completeMultipart', parts }` -> CompleteMultipartUpload
+ * - `{ action: 'abortMultipart' }` -> AbortMultipartUpload (sent by cancel())
+ *
+ * The bucket's CORS configuration must expose the `ETag` header.
+ * S3 requires every part except the last to be at least 5 MiB, so use a
+ * chunkSize of 5 MiB or more.
+ *
+ * @module TurboPushS3
+ * @since 1.1.0
+ *
+ * @example
+ * ```typescript
+ * import { TurboPush } from './TurboPush.js';
+ * import { S3MultipartTransport } from './TurboPushS3';
+ *
+ * const uploader = new TurboPush({
+ *     endpoint: '/api/s3-multipart',
+ *     chunkSize: 8 * 1024 * 1024,
+ *     transport: new S3MultipartTransport({
+ *         getPresignedPartUrl: async (fileId, partNumber, upload) => {
+ *             const res = await fetch(`/api/s3-presign?uploadId=${upload.uploadId}&part=${partNumber}`);
+ *             return (await res.json()).url;
+ *         }
+ *     })
+ * });
+ * ```
+ */
+
+import type {
+    UploadTransport,
+    TransportFileContext,
+    TransportPrepareContext,
+    TransportChunkContext,
+    TransportFinalizeContext
+} from './TurboPush.js';
+import { HttpError, ServerRejectedError } from './TurboPushErrors.js';
+import { parseRetryAfter } from './TurboPushRetry.js';
+
+/** Smallest part size S3 accepts for all but the last part */
+const S3_MIN_PART_SIZE = 5 * 1024 * 1024;
+
+/** Largest number of parts in one S3 multipart upload */
+const S3_MAX_PARTS = 10000;
+
+/**
+ * Multipart upload started by the backend
+ *
+ * @interface S3MultipartUpload
+ */
+interface S3MultipartUpload {
+    /** S3 UploadId */
+    uploadId: string;
+
+    /** Object key chosen by the backend */
+    key: string;
+}
+
+/**
+ * Uploaded part, as sent to CompleteMultipartUpload
+ *
+ * @interface S3Part
+ */
+interface S3Part {
+    /** One-based part number (chunk index + 1) */
+    PartNumber: number;
+
+    /** ETag returned by S3 for the part */
+    ETag: string;
+}
+
+/**
+ * Options for S3MultipartTransport
+ *
+ * @interface S3MultipartOptions
+ */
+interface S3MultipartOptions {
+    /**
+     * Returns a presigned UploadPart URL for a part (required)
+     * Usually fetched from the backend, which holds the AWS credentials
+     */
+    getPresignedPartUrl: (fileId: string, partNumber: number, upload: S3MultipartUpload) => Promise<string>;
+
+    /**
+     * Minimum size of every part but the last (default: 5 MiB, the S3 limit)
+     * Only lower this for S3-compatible stores with smaller limits
+     * @default 5242880
+     */
+    minPartSize?: number;
+}
+
+/**
+ * Multipart upload state tracked for a file
+ *
+ * @interface S3FileUpload
+ * @private
+ */
+interface S3FileUpload extends S3MultipartUpload {
+    /** Map of part number -> ETag for parts S3 has accepted */
+    etags: Map<number, string>;
+}
+
+/**
+ * S3MultipartTransport - Chunks as S3 multipart parts via presigned URLs
+ *
+ * @class S3MultipartTransport
+ * @implements {UploadTransport}
+ */
+export class S3MultipartTransport implements UploadTransport {
+    /** Part sizes are checked up front, so chunks cannot be sized adaptively */
+    public readonly requiresFixedChunks = true;
+
+    /** The upload lives in memory only, so a failed file's parts are aborted */
+    public readonly abortOnFailure = true;
+
+    /** Map of fileId -> multipart upload */
+    private uploads: Map<string, S3FileUpload> = new Map();
+
+    /** User-supplied presigning hook */
+    private getPresignedPartUrl: S3MultipartOptions['getPresignedPartUrl'];
+
+    /** Minimum size of every part but the last */
+    private minPartSize: number;
+
+    /**
+     * Creates a new S3MultipartTransport
+     *
+     * @param {S3MultipartOptions} options - Transport options
+     * @throws {Error} If getPresignedPartUrl is not provided
+     */
+    constructor(options: S3MultipartOptions) {
+        if (!options?.getPresignedPartUrl) {
+            throw new Error('TurboPush: getPresignedPartUrl is required');
+        }
+
+        this.getPresignedPartUrl = options.getPresignedPartUrl;
+        this.minPartSize = options.minPartSize ?? S3_MIN_PART_SIZE;
+    }
+
+    /**
+     * Starts a multipart upload through the backend, or resumes a paused one
+     *
+     * @param {TransportPrepareContext} context - File, chunk ranges and request options
+     * @returns {Promise<number[]>} Indexes of chunks whose parts S3 already accepted
+     * @throws {Error} If the parts violate S3 limits or the backend fails
+     */
+    public async prepareFile(context: TransportPrepareContext): Promise<number[]> {
+        this.validateParts(context);
+
+        const existing = this.uploads.get(context.fileId);
+        if (existing) {
+            return Array.from(existing.etags.keys()).map(partNumber => partNumber - 1);
+        }
+
+        const data = await this.backendAction(context, 'createMultipart', {
+            fileName: context.file.name,
+            fileSize: context.file.size,
+            contentType: context.file.type,
+            totalChunks: context.totalChunks,
+            ...(context.metadata && { metadata: context.metadata })
+        });
+        if (!data?.uploadId || !data.key) {
+            throw new Error('createMultipart response is missing uploadId or key');
+        }
+
+        this.uploads.set(context.fileId, { uploadId: String(data.uploadId), key: String(data.key), etags: new Map() });
+        return [];
+    }
+
+    /**
+     * PUTs a chunk to its presigned part URL and records the ETag
+     *
+     * @param {TransportChunkContext} context - Chunk, file and request options
+     * @returns {Promise<void>} Promise that resolves once S3 accepts the part
+     * @throws {Error} If the PUT fails or S3 returns no ETag
+     */
+    public async uploadChunk(context: TransportChunkContext): Promise<void> {
+        const upload = this.uploads.get(context.fileId);
+        if (!upload) {
+            throw new Error('S3 multipart upload has not been created');
+        }
+
+        const partNumber = context.chunk.index + 1;
+        const url = await this.getPresignedPartUrl(context.fileId, partNumber, {
+            uploadId: upload.uploadId,
+            key: upload.key
+        });
+
+        // Custom headers are meant for the backend and would break the signature
+        const response = await fetch(url, {
+            method: 'PUT',
+            body: context.chunk.blob,
+            signal: context.signal
+        });
+
+        if (!response.ok) {
+            throw new HttpError(response.status, response.statusText, {
+                chunkIndex: context.chunk.index,
+                retryAfter: parseRetryAfter(response.headers.get('Retry-After'))
+            });
+        }
+
+        const etag = response.headers.get('ETag');
+        if (!etag) {
+            throw new ServerRejectedError('S3 returned no ETag (is it exposed in the bucket CORS configuration?)');
+        }
+        upload.etags.set(partNumber, etag);
+    }
+
+    /**
+     * Completes the multipart upload through the backend
+     *
+     * @param {TransportFinalizeContext} context - File, digest and request options
+     * @returns {Promise<unknown>} The `data` payload of the backend response
+     * @throws {Error} If a part is missing or the backend fails
+     */
+    public async finalizeFile(context: TransportFinalizeContext): Promise<unknown> {
+        const upload = this.uploads.get(context.fileId);
+        if (!upload) {
+            throw new Error('S3 multipart upload has not been created');
+        }
+
+        const parts: S3Part[] = [];
+        for (let partNumber = 1; partNumber <= context.totalChunks; partNumber++) {
+            const etag = upload.etags.get(partNumber);
+            if (!etag) {
+                throw new Error(`Missing part: ${partNumber}`);
+            }
+            parts.push({ PartNumber: partNumber, ETag: etag });
+        }
+
+        const data = await this.backendAction(context, 'completeMultipart', {
+            uploadId: upload.uploadId,
+            key: upload.key,
+            fileName: context.file.name,
+            fileSize: context.file.size,
+            parts,
+            ...(context.checksum !== undefined && {
+                checksum: context.checksum,
+                checksumAlgorithm: context.checksumAlgorithm
+            })
+        });
+
+        this.uploads.delete(context.fileId);
+        return data;
+    }
+
+    /**
+     * Aborts the multipart upload through the backend so S3 drops stored parts
+     *
+     * @param {TransportFileContext} context - File and request options
+     * @returns {Promise<void>} Promise that resolves once the backend confirms
+     * @throws {Error} If the backend fails
+     */
+    public async abortFile(context: TransportFileContext): Promise<void> {
+        const upload = this.uploads.get(context.fileId);
+        if (!upload) return;
+
+        this.uploads.delete(context.fileId);
+        await this.backendAction(context, 'abortMultipart', {
+            uploadId: upload.uploadId,
+            key: upload.key
+        });
+    }
+
+    /**
+     * Checks chunk layout against S3 multipart limits before starting
+     *
+     * @private
+     * @param {TransportPrepareContext} context - File and chunk ranges
+     * @returns {void}
+     * @throws {Error} If there are too many parts or a part is too small
+     */
+    private validateParts(context: TransportPrepareContext): void {
+        if (context.chunks.length > S3_MAX_PARTS) {
+            throw new Error(`S3 allows at most ${S3_MAX_PARTS} parts, increase chunkSize`);
+        }
+
+        const tooSmall = context.chunks
+            .slice(0, -1)
+            .some(chunk => chunk.end - chunk.start < this.minPartSize);
+        if (tooSmall) {
+            throw new Error(`S3 parts must be at least ${this.minPartSize} bytes, increase chunkSize`);
+        }
+    }
+
+    /**
+     * Sends a JSON action request to the backend
+     *
+     * @private
+     * @param {TransportFileContext} context - File and request options
+     * @param {string} action - Action name
+     * @param {Record<string, unknown>} payload - Action-specific fields
+     * @returns {Promise<Record<string, unknown> | undefined>} The `data` payload of the response
+     * @throws {Error} If the request fails or the backend reports an error
+     */
+    private async backendAction(
+        context: TransportFileContext,
+        action: string,
+        payload: Record<string, unknown>
+    ): Promise<Record<string, unknown> | undefined> {
+        const response = await fetch(context.endpoint, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...context.headers
+            },
+            body: JSON.stringify({ action, fileId: context.fileId, ...payload }),
+            credentials: context.withCredentials ? 'include' : 'omit'
+        });
+
+        if (!response.ok) {
+            throw new HttpError(response.status, `${action} failed: ${response.statusText}`);
+        }
+
+        const result: { success?: boolean; error?: string; data?: Record<string, unknown> } = await response.json();
+        if (!result.success) {
+            throw new ServerRejectedError(result.error || `${action} failed`);
+        }
+        return result.data;
+    }
+}
+
+export type { S3MultipartOptions, S3MultipartUpload, S3Part };
@@ -0,0 +1,154 @@
+/**
+ * TurboPush Scheduler - Connection slots shared by all files
+ *
+ * Limits the number of chunk requests in flight across every file of a
+ * TurboPush instance. Each request acquires a slot first; when slots are
+ * taken, waiting requests are granted in file order (FIFO, smallest file
+ * first or highest priority first), so earlier files finish first instead
+ * of every file crawling along at once.
+ *
+ * @module TurboPushScheduler
+ * @since 1.1.0
+ *
+ * @example
+ * ```typescript
+ * import { UploadScheduler } from './TurboPushScheduler.js';
+ *
+ * const scheduler = new UploadScheduler(6, (a, b) => a.localeCompare(b));
+ * await scheduler.acquire('file-1');
+ * try {
+ *     // Send the request...
+ * } finally {
+ *     scheduler.release();
+ * }
+ * ```
+ */
+
+/**
+ * Request waiting for a slot
+ *
+ * @interface Waiter
+ * @private
+ */
+interface Waiter {
+    /** File the request belongs to */
+    fileId: string;
+
+    /** Arrival order, breaks ties between requests of equally ranked files */
+    sequence: number;
+
+    /** Grants the slot */
+    resolve: () => void;
+}
+
+/**
+ * UploadScheduler - Global connection limit with ordered hand-out
+ *
+ * @class UploadScheduler
+ */
+export class UploadScheduler {
+    /** Maximum number of slots held at once */
+    private limit: number;
+
+    /** Number of slots currently held */
+    private active: number = 0;
+
+    /** Requests waiting for a slot */
+    private waiters: Waiter[] = [];
+
+    /** Counter used to order waiters */
+    private sequence: number = 0;
+
+    /** Orders files; negative if the first file should be served first */
+    private compareFiles: (a: string, b: string) => number;
+
+    /**
+     * Creates a new UploadScheduler
+     *
+     * @param {number} limit - Maximum number of concurrent requests
+     * @param {Function} compareFiles - Orders files; negative if `a` goes before `b`
+     */
+    constructor(limit: number, compareFiles: (a: string, b: string) => number) {
+        this.limit = limit;
+        this.compareFiles = compareFiles;
+    }
+
+    /**
+     * Waits for a free slot
+     * Must be paired with exactly one release()
+     *
+     * @param {string} fileId - File the request belongs to
+     * @returns {Promise<void>} Promise that resolves once the slot is held
+     */
+    public acquire(fileId: string): Promise<void> {
+        return new Promise(resolve => {
+            this.waiters.push({ fileId, sequence: this.sequence++, resolve });
+            this.grant();
+        });
+    }
+
+    /**
+     * Frees a slot and hands it to the next waiting request
+     *
+     * @returns {void}
+     */
+    public release(): void {
+        this.active = Math.max(0, this.active - 1);
+        this.grant();
+    }
+
+    /**
+     * Changes the number of slots, granting waiting requests if it grew
+     * Requests already in flight are not interrupted when it shrinks
+     *
+     * @param {number} limit - Maximum number of concurrent requests
+     * @returns {void}
+     */
+    public setLimit(limit: number): void {
+        this.limit = limit;
+        this.grant();
+    }
+
+    /**
+     * Gets the number of slots currently held
+     *
+     * @returns {number} Number of requests in flight
+     */
+    public getActiveCount(): number {
+        return this.active;
+    }
+
+    /**
+     * Hands free slots to the best-ranked waiting requests
+     *
+     * @private
+     * @returns {void}
+     */
+    private grant(): void {
+        while (this.active < this.limit && this.waiters.length > 0) {
+            let best = 0;
+            for (let i = 1; i < this.waiters.length; i++) {
+                if (this.compare(this.waiters[i], this.waiters[best]) < 0) {
+                    best = i;
+                }
+            }
+
+            const [waiter] = this.waiters.splice(best, 1);
+            this.active++;
+            waiter.resolve();
+        }
+    }
+
+    /**
+     * Orders two waiting requests by file rank, then arrival
+     *
+     * @private
+     * @param {Waiter} a - First request
+     * @param {Waiter} b - Second request
+     * @returns {number} Negative if `a` should be served first
+     */
+    private compare(a: Waiter, b: Waiter): number {
+        return (a.fileId === b.fileId ? 0 : this.compareFiles(a.fileId, b.fileId)) ||
+            a.sequence - b.sequence;
+    }
+}
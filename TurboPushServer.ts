@@ -0,0 +1,980 @@
+/**
+ * TurboPush Server - Node.js upload endpoint
+ *
+ * TypeScript counterpart of TurboPushEndpoint.php for Node.js backends.
+ * Speaks the same protocol and answers with the same JSON shape
+ * (`{ success, message, data }`):
+ * - Multipart chunk requests are decompressed if the client compressed
+ *   them, verified and handed to the storage backend
+ * - `{ action: 'status' }` lists the chunks received for a fileId
+ * - `{ action: 'finalize' }` merges the chunks into the final file in one
+ *   streaming pass, checking size and whole-file checksum
+ * - `metadata` sent with the first chunk and with finalize is merged,
+ *   passed to `onComplete` and echoed in the finalize response
+ *
+ * Chunks and files are kept by an UploadStorage (see TurboPushStorage.ts);
+ * the default LocalStorage uses `uploadDir` and `tempDir` like the PHP
+ * endpoint. `handle(req, res)` works with a plain `http.createServer()`;
+ * toExpress() and toFastify() adapt it to those frameworks. Uploads that
+ * were never finalized are removed after `staleAfter`.
+ *
+ * @module TurboPushServer
+ * @since 1.1.0
+ *
+ * @example
+ * ```typescript
+ * import { createServer } from 'http';
+ * import { TurboPushServer } from './TurboPushServer.js';
+ *
+ * const endpoint = new TurboPushServer({
+ *     uploadDir: './uploads',
+ *     tempDir: './uploads/temp',
+ *     maxFileSize: 10 * 1024 * 1024 * 1024,
+ *     allowedExtensions: ['jpg', 'png', 'pdf']
+ * });
+ *
+ * createServer((req, res) => endpoint.handle(req, res)).listen(8080);
+ * ```
+ */
+
+import type { IncomingMessage, ServerResponse } from 'http';
+import { createHash } from 'crypto';
+import { gunzipSync, inflateSync } from 'zlib';
+import * as path from 'path';
+import type { ChecksumHasher } from './TurboPush.js';
+import { crc32c } from './TurboPushChecksum.js';
+import { LocalStorage } from './TurboPushStorage.js';
+import type { UploadStorage } from './TurboPushStorage.js';
+
+/** Largest JSON request body accepted (status and finalize requests) */
+const MAX_JSON_BODY = 1024 * 1024;
+
+/** Largest multipart text field accepted */
+const MAX_FIELD_SIZE = 64 * 1024;
+
+/** Largest header block of a multipart part */
+const MAX_PART_HEADERS = 16 * 1024;
+
+/**
+ * Checksum algorithms accepted from the client (client name => hasher)
+ * SHA-256 uses Node's native implementation; CRC32C is not in Node's crypto
+ */
+const CHECKSUM_ALGORITHMS: Record<string, () => ChecksumHasher> = {
+    sha256: () => {
+        const hash = createHash('sha256');
+        return {
+            update: (data) => { hash.update(data); },
+            digest: () => hash.digest('hex')
+        };
+    },
+    crc32c: () => crc32c.create()
+};
+
+/**
+ * Configuration options for TurboPushServer
+ *
+ * @interface ServerOptions
+ */
+export interface ServerOptions {
+    /** Where chunks and files are kept (default: LocalStorage with `uploadDir` and `tempDir`) */
+    storage?: UploadStorage;
+
+    /** Directory where final merged files are stored, without `storage` (default: './uploads') */
+    uploadDir?: string;
+
+    /** Directory where chunks are kept until finalize, without `storage` (default: './uploads/temp') */
+    tempDir?: string;
+
+    /** Maximum allowed file size in bytes (default: 5GB) */
+    maxFileSize?: number;
+
+    /** Maximum chunk size in bytes; a chunk is held in memory until stored (default: 64MB) */
+    maxChunkSize?: number;
+
+    /** Allowed file extensions without dots, case-insensitive (default: all) */
+    allowedExtensions?: string[];
+
+    /**
+     * Age in milliseconds after which unfinished uploads are removed from
+     * `tempDir` (default: 24 hours, 0 = never remove automatically)
+     */
+    staleAfter?: number;
+
+    /** How often to look for stale uploads, in milliseconds (default: 1 hour) */
+    cleanupInterval?: number;
+
+    /** `Access-Control-Allow-Origin` value, or false to send no CORS headers (default: '*') */
+    corsOrigin?: string | false;
+
+    /** Called with a line for every upload activity (default: no logging) */
+    log?: (message: string) => void;
+
+    /** Callbacks for storing received chunks and files elsewhere */
+    hooks?: ServerHooks;
+}
+
+/**
+ * Callbacks run by TurboPushServer
+ * Throw an EndpointError from a hook to answer with its status and message
+ *
+ * @interface ServerHooks
+ */
+export interface ServerHooks {
+    /** Called after a chunk has been verified and stored */
+    onChunk?(chunk: ReceivedChunk): void | Promise<void>;
+
+    /**
+     * Called after a file has been merged and verified, e.g. to move it into
+     * object storage. Returned fields are added to the finalize response data
+     */
+    onComplete?(file: StoredFile): void | Record<string, unknown> | Promise<void | Record<string, unknown>>;
+}
+
+/**
+ * A chunk handed to the storage backend
+ *
+ * @interface ReceivedChunk
+ */
+export interface ReceivedChunk {
+    /** Upload identifier sent by the client */
+    fileId: string;
+
+    /** Sanitized file name */
+    fileName: string;
+
+    /** Index of the chunk */
+    chunkIndex: number;
+
+    /** Total number of chunks of the file */
+    totalChunks: number;
+
+    /** Size of the chunk in bytes */
+    size: number;
+}
+
+/**
+ * A finalized file
+ *
+ * @interface StoredFile
+ */
+export interface StoredFile {
+    /** Upload identifier sent by the client */
+    fileId: string;
+
+    /** Stored file name (a timestamp is added if the name was taken) */
+    fileName: string;
+
+    /** Where the file is stored: a path for LocalStorage, a URL for S3Storage */
+    location: string;
+
+    /** Size in bytes */
+    size: number;
+
+    /** Verified whole-file digest, if the client sent one */
+    checksum?: string;
+
+    /**
+     * Header of a file the client encrypted, as sent with finalize; store
+     * it with the file, it is needed to decrypt it (see TurboPushEncryption.ts)
+     */
+    encryption?: Record<string, unknown>;
+
+    /**
+     * Metadata the client attached to the file, from the first chunk and
+     * finalize (finalize wins); store it with the file if needed
+     */
+    metadata?: Record<string, unknown>;
+}
+
+/**
+ * Request shape used by toExpress(): Node's request plus a parsed body
+ *
+ * @interface ExpressLikeRequest
+ */
+export interface ExpressLikeRequest extends IncomingMessage {
+    body?: unknown;
+}
+
+/**
+ * The parts of a Fastify request used by toFastify()
+ *
+ * @interface FastifyLikeRequest
+ */
+export interface FastifyLikeRequest {
+    raw: IncomingMessage;
+    body?: unknown;
+}
+
+/**
+ * The parts of a Fastify reply used by toFastify()
+ *
+ * @interface FastifyLikeReply
+ */
+export interface FastifyLikeReply {
+    raw: ServerResponse;
+    hijack(): void;
+}
+
+/**
+ * EndpointError - Request rejected with an HTTP status
+ *
+ * Its message is sent to the client. Any other error thrown while handling
+ * a request is logged and answered with a generic HTTP 500.
+ *
+ * @class EndpointError
+ * @extends {Error}
+ */
+export class EndpointError extends Error {
+    /** HTTP status code of the response */
+    public readonly status: number;
+
+    /** Extra fields for the response `data` */
+    public readonly data: Record<string, unknown>;
+
+    /**
+     * Creates a new EndpointError
+     *
+     * @param {number} status - HTTP status code
+     * @param {string} message - Message sent to the client
+     * @param {Record<string, unknown>} [data] - Extra fields for the response `data`
+     */
+    constructor(status: number, message: string, data: Record<string, unknown> = {}) {
+        super(message);
+        this.name = 'EndpointError';
+        this.status = status;
+        this.data = data;
+    }
+}
+
+/**
+ * Fields and file of a parsed chunk request
+ *
+ * @private
+ * @interface ChunkForm
+ */
+interface ChunkForm {
+    /** Text fields by name */
+    fields: Record<string, string>;
+
+    /** Contents of the `file` part, if there was one */
+    file?: Buffer;
+}
+
+/**
+ * TurboPushServer - Receives chunked uploads from TurboPush clients
+ *
+ * @class TurboPushServer
+ */
+export class TurboPushServer {
+    /** Where chunks and files are kept */
+    private storage: UploadStorage;
+
+    /** Maximum allowed file size in bytes */
+    private maxFileSize: number;
+
+    /** Maximum chunk size in bytes */
+    private maxChunkSize: number;
+
+    /** Allowed lowercase extensions (empty = all) */
+    private allowedExtensions: string[];
+
+    /** Age after which unfinished uploads are removed */
+    private staleAfter: number;
+
+    /** How often to look for stale uploads */
+    private cleanupInterval: number;
+
+    /** `Access-Control-Allow-Origin` value, or false */
+    private corsOrigin: string | false;
+
+    /** Log callback */
+    private log: (message: string) => void;
+
+    /** Chunk and file callbacks */
+    private hooks: ServerHooks;
+
+    /** When stale uploads were last looked for */
+    private lastCleanup: number = 0;
+
+    /** Map of fileId -> metadata sent with the first chunk, until finalized (kept in memory) */
+    private chunkMetadata: Map<string, { metadata: Record<string, unknown>; receivedAt: number }> = new Map();
+
+    /** Map of fileId -> sizes of the chunks received, until finalized (kept in memory) */
+    private storedChunks: Map<string, { sizes: Map<number, number>; bytes: number; receivedAt: number }> = new Map();
+
+    /**
+     * Creates a new TurboPushServer
+     *
+     * @param {ServerOptions} [options] - Storage, limits, hooks and logging
+     */
+    constructor(options: ServerOptions = {}) {
+        this.storage = options.storage || new LocalStorage({ uploadDir: options.uploadDir, tempDir: options.tempDir });
+        this.maxFileSize = options.maxFileSize ?? 5 * 1024 * 1024 * 1024;
+        this.maxChunkSize = options.maxChunkSize ?? 64 * 1024 * 1024;
+        this.allowedExtensions = (options.allowedExtensions || []).map(ext => ext.toLowerCase());
+        this.staleAfter = options.staleAfter ?? 24 * 60 * 60 * 1000;
+        this.cleanupInterval = options.cleanupInterval ?? 60 * 60 * 1000;
+        this.corsOrigin = options.corsOrigin ?? '*';
+        this.log = options.log || (() => {});
+        this.hooks = options.hooks || {};
+    }
+
+    /**
+     * Handles a request: a chunk upload, status query or finalization
+     * Always answers; never rejects
+     *
+     * @param {IncomingMessage} req - Incoming request
+     * @param {ServerResponse} res - Response to write
+     * @param {unknown} [parsedBody] - JSON body already read by a framework, if any
+     * @returns {Promise<void>} Resolves once the response has been sent
+     */
+    public async handle(req: IncomingMessage, res: ServerResponse, parsedBody?: unknown): Promise<void> {
+        try {
+            this.setCorsHeaders(res);
+
+            // Handle CORS preflight requests
+            if (req.method === 'OPTIONS') {
+                res.writeHead(200);
+                res.end();
+                return;
+            }
+            if (req.method !== 'POST') {
+                throw new EndpointError(405, 'Method not allowed');
+            }
+
+            this.scheduleCleanup();
+
+            // Route request to the appropriate handler
+            const contentType = req.headers['content-type'] || '';
+            if (/^multipart\/form-data/i.test(contentType)) {
+                const data = await this.receiveChunk(req, contentType);
+                sendJson(res, 200, true, 'Chunk uploaded', data);
+                return;
+            }
+
+            const json = await readJsonBody(req, parsedBody);
+            if (json?.action === 'finalize') {
+                sendJson(res, 200, true, 'Upload complete', await this.finalizeUpload(json));
+            } else if (json?.action === 'status') {
+                sendJson(res, 200, true, 'Upload status', await this.uploadStatus(json));
+            } else {
+                throw new EndpointError(400, 'No file uploaded');
+            }
+        } catch (error) {
+            if (error instanceof EndpointError) {
+                this.log(`ERROR: ${error.message}`);
+                sendJson(res, error.status, false, error.message, error.data);
+            } else {
+                this.log(`ERROR: ${error instanceof Error ? error.stack || error.message : String(error)}`);
+                sendJson(res, 500, false, 'Internal server error');
+            }
+        }
+    }
+
+    /**
+     * Removes unfinished uploads not touched for `maxAge` milliseconds
+     * Runs automatically every `cleanupInterval` while requests come in
+     *
+     * @param {number} [maxAge] - Age in milliseconds (default: `staleAfter`)
+     * @returns {Promise<number>} Number of uploads removed
+     */
+    public async cleanupStale(maxAge: number = this.staleAfter): Promise<number> {
+        for (const [fileId, entry] of this.chunkMetadata) {
+            if (Date.now() - entry.receivedAt > maxAge) {
+                this.chunkMetadata.delete(fileId);
+            }
+        }
+        for (const [fileId, entry] of this.storedChunks) {
+            if (Date.now() - entry.receivedAt > maxAge) {
+                this.storedChunks.delete(fileId);
+            }
+        }
+
+        const removed = await this.storage.cleanupStale(maxAge);
+        if (removed > 0) {
+            this.log(`Removed ${removed} stale uploads`);
+        }
+        return removed;
+    }
+
+    /**
+     * Reads a chunk request, validates it and stores the chunk
+     *
+     * @private
+     * @param {IncomingMessage} req - Multipart request
+     * @param {string} contentType - Content-Type header
+     * @returns {Promise<Record<string, unknown>>} Response data
+     * @throws {EndpointError} If the request is invalid or the checksum does not match
+     */
+    private async receiveChunk(req: IncomingMessage, contentType: string): Promise<Record<string, unknown>> {
+        const boundary = /boundary=(?:"([^"]+)"|([^;\s]+))/i.exec(contentType);
+        if (!boundary) {
+            throw new EndpointError(400, 'Missing multipart boundary');
+        }
+
+        // The file part comes before the fields, so it is held until they have been read
+        const { fields, file } = await parseMultipart(req, boundary[1] || boundary[2],
+            Math.min(this.maxChunkSize, this.maxFileSize));
+
+        // Validate required fields and file upload
+        if (file === undefined) {
+            throw new EndpointError(400, 'No file uploaded');
+        }
+        for (const field of ['fileName', 'fileId', 'chunkIndex', 'totalChunks', 'fileSize']) {
+            if (fields[field] === undefined) {
+                throw new EndpointError(400, `Missing: ${field}`);
+            }
+        }
+
+        const fileName = sanitizeFileName(fields.fileName);
+        const fileId = parseFileId(fields.fileId);
+        const chunkIndex = parseCount('chunkIndex', fields.chunkIndex);
+        const totalChunks = parseCount('totalChunks', fields.totalChunks);
+        const fileSize = parseCount('fileSize', fields.fileSize);
+        if (chunkIndex >= totalChunks) {
+            throw new EndpointError(400, 'Invalid: chunkIndex');
+        }
+
+        this.log(`Receiving chunk ${chunkIndex}/${totalChunks} for: ${fileName}`);
+
+        this.validateFile(fileName, fileSize);
+
+        // Restore compressed chunks; the checksum covers the original bytes
+        const data = fields.compression !== undefined
+            ? this.decompressChunk(file, fields.compression, parseCount('originalSize', fields.originalSize), chunkIndex)
+            : file;
+
+        // Verify chunk digest if the client sent one
+        if (fields.checksum !== undefined) {
+            const hasher = createHasher(fields.checksumAlgorithm || '');
+            hasher.update(data);
+            if (hasher.digest() !== fields.checksum.toLowerCase()) {
+                // Corrupted in transit - not stored, so the client's retry replaces it
+                this.log(`Checksum mismatch on chunk ${chunkIndex}`);
+                throw new EndpointError(422, 'Checksum mismatch', { code: 'checksum_mismatch', chunkIndex });
+            }
+        }
+
+        const metadata = parseMetadata(fields.metadata);
+
+        // The chunks of an upload cannot add up to more than its declared size;
+        // a re-sent chunk replaces the earlier copy
+        const stored = this.storedChunks.get(fileId) || { sizes: new Map(), bytes: 0, receivedAt: 0 };
+        const bytes = stored.bytes - (stored.sizes.get(chunkIndex) || 0) + data.length;
+        if (bytes > fileSize) {
+            throw new EndpointError(413, 'File size exceeds limit');
+        }
+        stored.sizes.set(chunkIndex, data.length);
+        stored.bytes = bytes;
+        stored.receivedAt = Date.now();
+        this.storedChunks.set(fileId, stored);
+
+        await this.storage.putChunk(fileId, chunkIndex, data);
+        if (metadata) {
+            this.chunkMetadata.set(fileId, { metadata, receivedAt: Date.now() });
+        }
+        await this.hooks.onChunk?.({ fileId, fileName, chunkIndex, totalChunks, size: data.length });
+        this.log(`Chunk ${chunkIndex} saved`);
+
+        return { chunkIndex, totalChunks };
+    }
+
+    /**
+     * Decompresses a chunk sent with a `compression` field
+     * Output is capped at the announced size, so a small request cannot
+     * expand past `maxChunkSize`
+     *
+     * @private
+     * @param {Uint8Array} file - Compressed chunk data
+     * @param {string} codec - 'gzip' or 'deflate' (zlib format)
+     * @param {number} originalSize - Size announced by the client
+     * @param {number} chunkIndex - Index of the chunk, for the error response
+     * @returns {Uint8Array} Original chunk data
+     * @throws {EndpointError} If the codec is unknown, the size is over the limit or the data is corrupt
+     */
+    private decompressChunk(file: Uint8Array, codec: string, originalSize: number, chunkIndex: number): Uint8Array {
+        const decompress = codec === 'gzip' ? gunzipSync : codec === 'deflate' ? inflateSync : undefined;
+        if (!decompress) {
+            throw new EndpointError(400, `Unsupported compression: ${codec}`);
+        }
+        if (originalSize > Math.min(this.maxChunkSize, this.maxFileSize)) {
+            throw new EndpointError(413, 'Chunk size exceeds limit');
+        }
+
+        let data: Uint8Array | undefined;
+        try {
+            data = decompress(file, { maxOutputLength: Math.max(1, originalSize) });
+        } catch (error) {
+            data = undefined;
+        }
+        if (!data || data.length !== originalSize) {
+            // Corrupted in transit, like a checksum mismatch: the client retries
+            this.log(`Cannot decompress chunk ${chunkIndex}`);
+            throw new EndpointError(422, 'Decompression failed', { code: 'checksum_mismatch', chunkIndex });
+        }
+        return data;
+    }
+
+    /**
+     * Reports which chunks have already been received for a file
+     * An unknown fileId has no chunks
+     *
+     * @private
+     * @param {Record<string, unknown>} data - Request with `fileId`
+     * @returns {Promise<Record<string, unknown>>} Response data with `uploadedChunks`
+     * @throws {EndpointError} If fileId is missing or invalid
+     */
+    private async uploadStatus(data: Record<string, unknown>): Promise<Record<string, unknown>> {
+        if (data.fileId === undefined) {
+            throw new EndpointError(400, 'Missing: fileId');
+        }
+
+        const fileId = parseFileId(data.fileId);
+        const uploadedChunks = (await this.storage.listChunks(fileId)).sort((a, b) => a - b);
+
+        this.log(`Status: ${fileId} has ${uploadedChunks.length} chunks`);
+        return { fileId, uploadedChunks };
+    }
+
+    /**
+     * Merges all chunks of a file into the final file
+     * The storage streams the chunks into the file while its digest is
+     * computed; a size or checksum mismatch discards the file and the chunks
+     *
+     * @private
+     * @param {Record<string, unknown>} data - Finalize request
+     * @returns {Promise<Record<string, unknown>>} Response data with `fileName`, `fileSize` and `metadata`
+     * @throws {EndpointError} If chunks are missing, the metadata is invalid or the file does not match
+     */
+    private async finalizeUpload(data: Record<string, unknown>): Promise<Record<string, unknown>> {
+        for (const field of ['fileName', 'fileId', 'fileSize', 'totalChunks']) {
+            if (data[field] === undefined) {
+                throw new EndpointError(400, `Missing: ${field}`);
+            }
+        }
+
+        const fileName = sanitizeFileName(String(data.fileName));
+        const fileId = parseFileId(data.fileId);
+        const fileSize = parseCount('fileSize', data.fileSize);
+        const totalChunks = parseCount('totalChunks', data.totalChunks);
+        const checksum = typeof data.checksum === 'string' ? data.checksum.toLowerCase() : undefined;
+        const sent = parseMetadata(data.metadata);
+        const received = this.chunkMetadata.get(fileId)?.metadata;
+        const metadata = received || sent ? { ...received, ...sent } : undefined;
+
+        this.log(`Finalizing: ${fileName}`);
+        this.validateFile(fileName, fileSize);
+
+        // Verify all chunks are present before merging
+        const chunks = new Set(await this.storage.listChunks(fileId));
+        if (chunks.size === 0) {
+            throw new EndpointError(400, 'Temp directory not found');
+        }
+        for (let i = 0; i < totalChunks; i++) {
+            if (!chunks.has(i)) {
+                throw new EndpointError(400, `Missing chunk: ${i}`);
+            }
+        }
+
+        // Merge all chunks in order
+        const hasher = checksum !== undefined ? createHasher(data.checksumAlgorithm) : undefined;
+        const file = await this.storage.compose(fileId, totalChunks, fileName, data => hasher?.update(data));
+
+        // Verify final file size and digest
+        const mismatch = file.size !== fileSize ? 'File size mismatch'
+            : hasher && hasher.digest() !== checksum ? 'Checksum mismatch'
+            : undefined;
+        if (mismatch) {
+            // The chunks cannot make a valid file; a retry must upload them again
+            await this.storage.deleteFile(file.name);
+            await this.storage.deleteChunks(fileId);
+            this.storedChunks.delete(fileId);
+            throw new EndpointError(400, mismatch);
+        }
+
+        // Clean up the chunks
+        await this.storage.deleteChunks(fileId);
+        this.chunkMetadata.delete(fileId);
+        this.storedChunks.delete(fileId);
+
+        const stored: StoredFile = { fileId, fileName: file.name, location: file.location, size: file.size, checksum };
+        if (typeof data.encryption === 'object' && data.encryption !== null && !Array.isArray(data.encryption)) {
+            stored.encryption = data.encryption as Record<string, unknown>;
+        }
+        if (metadata) {
+            stored.metadata = metadata;
+        }
+        const extra = await this.hooks.onComplete?.(stored);
+
+        this.log(`Complete: ${stored.fileName}`);
+
+        return {
+            fileName: stored.fileName,
+            fileSize: stored.size,
+            ...(checksum !== undefined && { checksum }),
+            ...(metadata && { metadata }),
+            ...extra
+        };
+    }
+
+    /**
+     * Validates file size and extension
+     *
+     * @private
+     * @param {string} fileName - Sanitized file name
+     * @param {number} fileSize - Declared file size
+     * @returns {void}
+     * @throws {EndpointError} If the file is too large or its extension is not allowed
+     */
+    private validateFile(fileName: string, fileSize: number): void {
+        if (fileSize > this.maxFileSize) {
+            throw new EndpointError(413, 'File size exceeds limit');
+        }
+
+        if (this.allowedExtensions.length > 0) {
+            const ext = path.extname(fileName).slice(1).toLowerCase();
+            if (!this.allowedExtensions.includes(ext)) {
+                throw new EndpointError(400, `File type not allowed: .${ext}`);
+            }
+        }
+    }
+
+    /**
+     * Starts a stale-upload cleanup in the background if one is due
+     *
+     * @private
+     * @returns {void}
+     */
+    private scheduleCleanup(): void {
+        if (this.staleAfter <= 0 || Date.now() - this.lastCleanup < this.cleanupInterval) return;
+
+        this.lastCleanup = Date.now();
+        this.cleanupStale().catch((error) => this.log(`ERROR: cleanup failed: ${error.message}`));
+    }
+
+    /**
+     * Sets CORS headers for cross-origin requests
+     *
+     * @private
+     * @param {ServerResponse} res - Response
+     * @returns {void}
+     */
+    private setCorsHeaders(res: ServerResponse): void {
+        if (this.corsOrigin === false) return;
+
+        res.setHeader('Access-Control-Allow-Origin', this.corsOrigin);
+        res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+        res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+    }
+}
+
+/**
+ * Adapts a TurboPushServer to an Express route handler
+ * Works with or without `express.json()` in front of it
+ *
+ * @param {TurboPushServer} server - Endpoint to adapt
+ * @returns {Function} `(req, res) => void` handler
+ *
+ * @example
+ * ```typescript
+ * app.post('/upload', express.json(), toExpress(endpoint));
+ * ```
+ */
+export function toExpress(server: TurboPushServer): (req: ExpressLikeRequest, res: ServerResponse) => void {
+    return (req, res) => {
+        void server.handle(req, res, req.body);
+    };
+}
+
+/**
+ * Adapts a TurboPushServer to a Fastify route handler
+ * Fastify rejects multipart bodies unless a parser is registered; register
+ * one that leaves the stream unread, so chunks are streamed to disk:
+ * `fastify.addContentTypeParser('multipart/form-data', (req, payload, done) => done(null))`
+ *
+ * @param {TurboPushServer} server - Endpoint to adapt
+ * @returns {Function} `(request, reply) => Promise<void>` handler
+ *
+ * @example
+ * ```typescript
+ * fastify.post('/upload', toFastify(endpoint));
+ * ```
+ */
+export function toFastify(server: TurboPushServer): (request: FastifyLikeRequest, reply: FastifyLikeReply) => Promise<void> {
+    return (request, reply) => {
+        reply.hijack();
+        return server.handle(request.raw, reply.raw, request.body);
+    };
+}
+
+/**
+ * Reads a multipart/form-data body as it arrives, collecting the text
+ * fields and the `file` part
+ *
+ * @private
+ * @param {AsyncIterable<Buffer>} body - Request body
+ * @param {string} boundary - Multipart boundary
+ * @param {number} maxFileSize - Largest `file` part accepted
+ * @returns {Promise<ChunkForm>} Fields and file contents
+ * @throws {EndpointError} If the body is malformed or exceeds a limit
+ */
+async function parseMultipart(body: AsyncIterable<Buffer>, boundary: string, maxFileSize: number): Promise<ChunkForm> {
+    const delimiter = Buffer.from(`\r\n--${boundary}`);
+    const form: ChunkForm = { fields: {} };
+
+    // Starts with CRLF so the first boundary matches the delimiter too
+    let buffer = Buffer.from('\r\n');
+    let state = 'preamble' as 'preamble' | 'boundary' | 'headers' | 'body' | 'done';
+    let part: { name: string; isFile: boolean; parts: Buffer[]; length: number } | undefined;
+
+    const emit = (data: Buffer): void => {
+        if (!part || data.length === 0) return;
+
+        part.length += data.length;
+        if (part.isFile && part.length > maxFileSize) {
+            throw new EndpointError(413, 'Chunk size exceeds limit');
+        }
+        if (!part.isFile && part.length > MAX_FIELD_SIZE) {
+            throw new EndpointError(400, `Field too large: ${part.name}`);
+        }
+        part.parts.push(data);
+    };
+
+    const consume = (): void => {
+        while (state !== 'done') {
+            if (state === 'preamble' || state === 'body') {
+                const at = buffer.indexOf(delimiter);
+
+                // Hold back bytes that may be the start of a delimiter
+                const safe = at === -1 ? Math.max(0, buffer.length - delimiter.length + 1) : at;
+                if (state === 'body') emit(buffer.subarray(0, safe));
+                if (at === -1) {
+                    buffer = buffer.subarray(safe);
+                    return;
+                }
+
+                if (part?.isFile) {
+                    form.file = Buffer.concat(part.parts);
+                } else if (part) {
+                    form.fields[part.name] = Buffer.concat(part.parts).toString('utf8');
+                }
+                part = undefined;
+                buffer = buffer.subarray(at + delimiter.length);
+                state = 'boundary';
+            }
+
+            if (state === 'boundary') {
+                if (buffer.length < 2) return;
+
+                const marker = buffer.toString('latin1', 0, 2);
+                if (marker === '--') {
+                    state = 'done';
+                    return;
+                }
+                if (marker !== '\r\n') {
+                    throw new EndpointError(400, 'Malformed multipart body');
+                }
+                buffer = buffer.subarray(2);
+                state = 'headers';
+            }
+
+            if (state === 'headers') {
+                const end = buffer.indexOf('\r\n\r\n');
+                if (end === -1) {
+                    if (buffer.length > MAX_PART_HEADERS) {
+                        throw new EndpointError(400, 'Malformed multipart body');
+                    }
+                    return;
+                }
+
+                const headers = buffer.toString('utf8', 0, end);
+                const name = /;\s*name="([^"]*)"/i.exec(headers)?.[1];
+                const isFile = /;\s*filename="/i.test(headers);
+                if (name === undefined) {
+                    throw new EndpointError(400, 'Malformed multipart body');
+                }
+                if (isFile && (name !== 'file' || form.file !== undefined)) {
+                    throw new EndpointError(400, `Unexpected file field: ${name}`);
+                }
+
+                part = { name, isFile, parts: [], length: 0 };
+                buffer = buffer.subarray(end + 4);
+                state = 'body';
+            }
+        }
+    };
+
+    for await (const data of body) {
+        // The epilogue after the closing boundary is read and ignored
+        if (state === 'done') continue;
+
+        buffer = Buffer.concat([buffer, data]);
+        consume();
+    }
+
+    if (state !== 'done') {
+        throw new EndpointError(400, 'Malformed multipart body');
+    }
+    return form;
+}
+
+/**
+ * Reads a JSON request body, or uses one a framework already parsed
+ *
+ * @private
+ * @param {IncomingMessage} req - Request
+ * @param {unknown} parsedBody - Body parsed by a framework, if any
+ * @returns {Promise<Record<string, unknown> | undefined>} The body, or undefined if it is not a JSON object
+ * @throws {EndpointError} If the body is too large
+ */
+async function readJsonBody(req: IncomingMessage, parsedBody: unknown): Promise<Record<string, unknown> | undefined> {
+    // Body parsers consume the stream; without one it is still unread
+    if (parsedBody !== undefined && req.readableEnded) {
+        return typeof parsedBody === 'object' && parsedBody !== null ? parsedBody as Record<string, unknown> : undefined;
+    }
+
+    const parts: Buffer[] = [];
+    let length = 0;
+    for await (const data of req as AsyncIterable<Buffer>) {
+        length += data.length;
+        if (length > MAX_JSON_BODY) {
+            throw new EndpointError(413, 'Request body too large');
+        }
+        parts.push(data);
+    }
+
+    try {
+        const json = JSON.parse(Buffer.concat(parts).toString('utf8'));
+        return typeof json === 'object' && json !== null ? json : undefined;
+    } catch (error) {
+        return undefined;
+    }
+}
+
+/**
+ * Creates a hasher for a client checksum algorithm
+ *
+ * @private
+ * @param {unknown} algorithm - Client algorithm name
+ * @returns {ChecksumHasher} Incremental hasher
+ * @throws {EndpointError} If the algorithm is not supported
+ */
+function createHasher(algorithm: unknown): ChecksumHasher {
+    const create = typeof algorithm === 'string' && Object.prototype.hasOwnProperty.call(CHECKSUM_ALGORITHMS, algorithm)
+        ? CHECKSUM_ALGORITHMS[algorithm]
+        : undefined;
+    if (!create) {
+        throw new EndpointError(400, `Unsupported checksum algorithm: ${algorithm}`);
+    }
+    return create();
+}
+
+/**
+ * Parses a non-negative integer request field
+ *
+ * @private
+ * @param {string} name - Field name, for the error message
+ * @param {unknown} value - Field value
+ * @returns {number} The number
+ * @throws {EndpointError} If the value is not a non-negative integer
+ */
+function parseCount(name: string, value: unknown): number {
+    const number = typeof value === 'number' ? value : Number(value);
+    if (!Number.isInteger(number) || number < 0 || (typeof value === 'string' && value.trim() === '')) {
+        throw new EndpointError(400, `Invalid: ${name}`);
+    }
+    return number;
+}
+
+/**
+ * Parses the `fileId` request field, which names the upload's chunks in the
+ * storage: ids outside of a strict whitelist are rejected rather than
+ * rewritten, so two ids never share their chunks
+ *
+ * @private
+ * @param {unknown} value - Field value
+ * @returns {string} The file ID
+ * @throws {EndpointError} If the value is not a safe file ID
+ */
+function parseFileId(value: unknown): string {
+    if (typeof value !== 'string' || !/^[A-Za-z0-9_][A-Za-z0-9._-]{0,254}$/.test(value)) {
+        throw new EndpointError(400, 'Invalid: fileId');
+    }
+    return value;
+}
+
+/**
+ * Parses the `metadata` request field: a JSON object, as text in chunk
+ * requests and as is in finalize requests
+ *
+ * @private
+ * @param {unknown} value - Field value
+ * @returns {Record<string, unknown> | undefined} The metadata, if sent
+ * @throws {EndpointError} If the value is not a JSON object
+ */
+function parseMetadata(value: unknown): Record<string, unknown> | undefined {
+    if (value === undefined) return undefined;
+
+    let metadata: unknown = value;
+    if (typeof value === 'string') {
+        try {
+            metadata = JSON.parse(value);
+        } catch {
+            metadata = undefined;
+        }
+    }
+    if (typeof metadata !== 'object' || metadata === null || Array.isArray(metadata)) {
+        throw new EndpointError(400, 'Invalid: metadata');
+    }
+    return metadata as Record<string, unknown>;
+}
+
+/**
+ * Sanitizes a file name for safe file system storage
+ * Removes directory components and special characters and truncates long
+ * names while keeping the extension, like TurboPushEndpoint.php
+ *
+ * @private
+ * @param {string} fileName - Original file name
+ * @returns {string} Safe file name
+ */
+function sanitizeFileName(fileName: string): string {
+    // Remove directory components (prevent traversal attacks)
+    let safe = (fileName.split(/[\\/]/).pop() || '').replace(/[^a-zA-Z0-9._-]/g, '_');
+    if (/^\.*$/.test(safe)) {
+        safe = safe.replace(/\./g, '_') || '_';
+    }
+
+    // Truncate long file names to 255 characters (file system limit)
+    if (safe.length > 255) {
+        const ext = path.extname(safe).slice(1);
+        safe = `${safe.slice(0, 250 - ext.length)}.${ext}`;
+    }
+    return safe;
+}
+
+/**
+ * Sends a JSON response in the `{ success, message, data }` shape
+ *
+ * @private
+ * @param {ServerResponse} res - Response
+ * @param {number} status - HTTP status code
+ * @param {boolean} success - Whether the operation was successful
+ * @param {string} message - Human-readable message
+ * @param {Record<string, unknown>} [data] - Additional data
+ * @returns {void}
+ */
+function sendJson(
+    res: ServerResponse,
+    status: number,
+    success: boolean,
+    message: string,
+    data: Record<string, unknown> = {}
+): void {
+    if (res.headersSent) {
+        res.destroy();
+        return;
+    }
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ success, message, data }));
+}
@@ -0,0 +1,287 @@
+/**
+ * TurboPush State Stores - Persistent resume state backends
+ *
+ * Implementations of the UploadStateStore interface used by TurboPush to
+ * remember which chunks of each file have been uploaded, so an upload can
+ * resume after a page reload, crash or process restart.
+ *
+ * @module TurboPushStateStore
+ * @since 1.1.0
+ *
+ * @example
+ * ```typescript
+ * import { TurboPush } from './TurboPush.js';
+ * import { IndexedDBStateStore } from './TurboPushStateStore.js';
+ *
+ * const uploader = new TurboPush({
+ *     endpoint: '/api/upload',
+ *     stateStore: new IndexedDBStateStore()
+ * });
+ * ```
+ */
+
+import type { UploadState, UploadStateStore } from './TurboPush.js';
+
+/**
+ * MemoryStateStore - Keeps resume state in a Map
+ *
+ * State survives pause()/resume() and re-adding files within the same
+ * instance lifetime only. Mainly useful for tests.
+ *
+ * @class MemoryStateStore
+ * @implements {UploadStateStore}
+ */
+export class MemoryStateStore implements UploadStateStore {
+    /** Map of fileId -> stored state */
+    private states: Map<string, UploadState> = new Map();
+
+    /**
+     * Loads the state for a file
+     *
+     * @param {string} fileId - Unique identifier for the file
+     * @returns {Promise<UploadState | undefined>} Copy of the stored state
+     */
+    public async get(fileId: string): Promise<UploadState | undefined> {
+        const state = this.states.get(fileId);
+        return state ? { ...state, uploadedChunks: [...state.uploadedChunks] } : undefined;
+    }
+
+    /**
+     * Stores the state for a file
+     *
+     * @param {UploadState} state - State to store
+     * @returns {Promise<void>}
+     */
+    public async set(state: UploadState): Promise<void> {
+        this.states.set(state.fileId, { ...state, uploadedChunks: [...state.uploadedChunks] });
+    }
+
+    /**
+     * Removes the state for a file
+     *
+     * @param {string} fileId - Unique identifier for the file
+     * @returns {Promise<void>}
+     */
+    public async delete(fileId: string): Promise<void> {
+        this.states.delete(fileId);
+    }
+}
+
+/**
+ * IndexedDBStateStore - Persists resume state in the browser
+ *
+ * Uses a single object store keyed by fileId. The database is opened
+ * lazily on first access.
+ *
+ * @class IndexedDBStateStore
+ * @implements {UploadStateStore}
+ */
+export class IndexedDBStateStore implements UploadStateStore {
+    /** Name of the IndexedDB database */
+    private dbName: string;
+
+    /** Name of the object store holding upload states */
+    private storeName: string;
+
+    /** Pending or opened database connection */
+    private db?: Promise<IDBDatabase>;
+
+    /**
+     * Creates a new IndexedDBStateStore
+     *
+     * @param {string} [dbName='turbopush'] - Database name
+     * @param {string} [storeName='uploads'] - Object store name
+     */
+    constructor(dbName: string = 'turbopush', storeName: string = 'uploads') {
+        this.dbName = dbName;
+        this.storeName = storeName;
+    }
+
+    /**
+     * Loads the state for a file
+     *
+     * @param {string} fileId - Unique identifier for the file
+     * @returns {Promise<UploadState | undefined>} Stored state, if any
+     */
+    public async get(fileId: string): Promise<UploadState | undefined> {
+        const result = await this.request('readonly', store => store.get(fileId));
+        return result as UploadState | undefined;
+    }
+
+    /**
+     * Stores the state for a file
+     *
+     * @param {UploadState} state - State to store
+     * @returns {Promise<void>}
+     */
+    public async set(state: UploadState): Promise<void> {
+        await this.request('readwrite', store => store.put(state));
+    }
+
+    /**
+     * Removes the state for a file
+     *
+     * @param {string} fileId - Unique identifier for the file
+     * @returns {Promise<void>}
+     */
+    public async delete(fileId: string): Promise<void> {
+        await this.request('readwrite', store => store.delete(fileId));
+    }
+
+    /**
+     * Opens the database, creating the object store on first use
+     *
+     * @private
+     * @returns {Promise<IDBDatabase>} Open database connection
+     * @throws {Error} If IndexedDB is unavailable or cannot be opened
+     */
+    private open(): Promise<IDBDatabase> {
+        if (!this.db) {
+            this.db = new Promise((resolve, reject) => {
+                if (typeof indexedDB === 'undefined') {
+                    reject(new Error('TurboPush: IndexedDB is not available'));
+                    return;
+                }
+
+                const request = indexedDB.open(this.dbName, 1);
+                request.onupgradeneeded = () => {
+                    request.result.createObjectStore(this.storeName, { keyPath: 'fileId' });
+                };
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => reject(request.error);
+            });
+        }
+        return this.db;
+    }
+
+    /**
+     * Runs a single request against the object store in its own transaction
+     *
+     * @private
+     * @param {IDBTransactionMode} mode - Transaction mode
+     * @param {Function} operation - Creates the request from the object store
+     * @returns {Promise<unknown>} Request result
+     */
+    private async request(
+        mode: IDBTransactionMode,
+        operation: (store: IDBObjectStore) => IDBRequest
+    ): Promise<unknown> {
+        const db = await this.open();
+
+        return new Promise((resolve, reject) => {
+            const transaction = db.transaction(this.storeName, mode);
+            const request = operation(transaction.objectStore(this.storeName));
+            transaction.oncomplete = () => resolve(request.result);
+            transaction.onerror = () => reject(transaction.error);
+        });
+    }
+}
+
+/**
+ * FileStateStore - Persists resume state to a JSON file (Node.js)
+ *
+ * All states are kept in one JSON object keyed by fileId. Writes are
+ * serialized and go through a temporary file + rename so a crash mid-write
+ * never leaves a truncated state file behind.
+ *
+ * @class FileStateStore
+ * @implements {UploadStateStore}
+ */
+export class FileStateStore implements UploadStateStore {
+    /** Path of the JSON state file */
+    private filePath: string;
+
+    /** In-memory copy of the state file, loaded on first access */
+    private states?: Promise<Record<string, UploadState>>;
+
+    /** Tail of the write queue, used to serialize writes */
+    private writeQueue: Promise<void> = Promise.resolve();
+
+    /**
+     * Creates a new FileStateStore
+     *
+     * @param {string} filePath - Path of the JSON state file
+     */
+    constructor(filePath: string) {
+        this.filePath = filePath;
+    }
+
+    /**
+     * Loads the state for a file
+     *
+     * @param {string} fileId - Unique identifier for the file
+     * @returns {Promise<UploadState | undefined>} Stored state, if any
+     */
+    public async get(fileId: string): Promise<UploadState | undefined> {
+        const states = await this.load();
+        return states[fileId];
+    }
+
+    /**
+     * Stores the state for a file
+     *
+     * @param {UploadState} state - State to store
+     * @returns {Promise<void>}
+     */
+    public async set(state: UploadState): Promise<void> {
+        const states = await this.load();
+        states[state.fileId] = state;
+        await this.flush();
+    }
+
+    /**
+     * Removes the state for a file
+     *
+     * @param {string} fileId - Unique identifier for the file
+     * @returns {Promise<void>}
+     */
+    public async delete(fileId: string): Promise<void> {
+        const states = await this.load();
+        if (!(fileId in states)) return;
+
+        delete states[fileId];
+        await this.flush();
+    }
+
+    /**
+     * Reads the state file once; a missing or corrupt file is treated as empty
+     *
+     * @private
+     * @returns {Promise<Record<string, UploadState>>} All stored states
+     */
+    private load(): Promise<Record<string, UploadState>> {
+        if (!this.states) {
+            this.states = (async () => {
+                // Loaded lazily so this module can be bundled for browsers
+                const fs = await import('fs/promises');
+                try {
+                    return JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+                } catch (error) {
+                    return {};
+                }
+            })();
+        }
+        return this.states;
+    }
+
+    /**
+     * Writes the current states to disk after any pending write finishes
+     *
+     * @private
+     * @returns {Promise<void>} Promise that resolves once this write lands
+     */
+    private flush(): Promise<void> {
+        const write = this.writeQueue.then(async () => {
+            const fs = await import('fs/promises');
+            const states = await this.load();
+            const tempPath = `${this.filePath}.tmp`;
+
+            await fs.writeFile(tempPath, JSON.stringify(states));
+            await fs.rename(tempPath, this.filePath);
+        });
+
+        // Keep the queue alive even if this write fails
+        this.writeQueue = write.catch(() => undefined);
+        return write;
+    }
+}
@@ -0,0 +1,1022 @@
+/**
+ * TurboPush Storage - Where TurboPushServer keeps chunks and files
+ *
+ * Implementations of the UploadStorage interface, so the upload protocol
+ * in TurboPushServer never touches directories or buckets itself:
+ * - LocalStorage keeps chunks in a temp directory and merges them into an
+ *   upload directory, like TurboPushEndpoint.php
+ * - MemoryStorage keeps everything in Maps (tests, short-lived files)
+ * - S3Storage keeps chunks as objects in an S3-compatible bucket (AWS S3,
+ *   MinIO, R2, ...) and streams them into a multipart upload on compose
+ *
+ * @module TurboPushStorage
+ * @since 1.1.0
+ *
+ * @example
+ * ```typescript
+ * import { TurboPushServer } from './TurboPushServer.js';
+ * import { S3Storage } from './TurboPushStorage.js';
+ *
+ * const endpoint = new TurboPushServer({
+ *     storage: new S3Storage({
+ *         endpoint: 'http://localhost:9000',
+ *         bucket: 'uploads',
+ *         accessKeyId: process.env.S3_ACCESS_KEY!,
+ *         secretAccessKey: process.env.S3_SECRET_KEY!
+ *     })
+ * });
+ * ```
+ */
+
+import { promises as fs, createReadStream } from 'fs';
+import { createHash, createHmac, randomBytes } from 'crypto';
+import * as path from 'path';
+
+/** Counter suffixes tried for a taken file name before compose() gives up */
+const MAX_NAME_ATTEMPTS = 1000;
+
+/**
+ * Storage backend for TurboPushServer
+ *
+ * Upload ids and file names passed in are already sanitized (letters,
+ * digits, `.`, `_` and `-` only).
+ *
+ * @interface UploadStorage
+ */
+export interface UploadStorage {
+    /**
+     * Stores a chunk, replacing an earlier copy of it
+     *
+     * @param {string} fileId - Upload identifier
+     * @param {number} index - Chunk index
+     * @param {Uint8Array} data - Chunk bytes
+     * @returns {Promise<void>}
+     */
+    putChunk(fileId: string, index: number, data: Uint8Array): Promise<void>;
+
+    /**
+     * Lists the chunks stored for an upload
+     *
+     * @param {string} fileId - Upload identifier
+     * @returns {Promise<number[]>} Chunk indexes in any order; empty for unknown uploads
+     */
+    listChunks(fileId: string): Promise<number[]>;
+
+    /**
+     * Merges chunks 0 to `totalChunks - 1` into a new file, streaming them in
+     * order. A name already taken gets a timestamp suffix, then a counter.
+     * Chunks are kept until deleteChunks()
+     *
+     * @param {string} fileId - Upload identifier
+     * @param {number} totalChunks - Number of chunks
+     * @param {string} fileName - Name of the file to create
+     * @param {Function} [onData] - Sees the file's bytes in order, e.g. to hash them
+     * @returns {Promise<StoredObject>} The created file
+     * @throws {Error} If a chunk is missing or every candidate name is taken
+     */
+    compose(
+        fileId: string,
+        totalChunks: number,
+        fileName: string,
+        onData?: (data: Uint8Array) => void
+    ): Promise<StoredObject>;
+
+    /**
+     * Deletes a file created by compose()
+     *
+     * @param {string} name - Name returned by compose()
+     * @returns {Promise<void>}
+     */
+    deleteFile(name: string): Promise<void>;
+
+    /**
+     * Deletes all chunks of an upload (after finalize, or to abort it)
+     *
+     * @param {string} fileId - Upload identifier
+     * @returns {Promise<void>}
+     */
+    deleteChunks(fileId: string): Promise<void>;
+
+    /**
+     * Deletes the chunks of uploads that received none for `maxAge` milliseconds
+     *
+     * @param {number} maxAge - Age in milliseconds
+     * @returns {Promise<number>} Number of uploads removed
+     */
+    cleanupStale(maxAge: number): Promise<number>;
+}
+
+/**
+ * A file created by UploadStorage.compose()
+ *
+ * @interface StoredObject
+ */
+export interface StoredObject {
+    /** Stored file name */
+    name: string;
+
+    /** Size in bytes */
+    size: number;
+
+    /** Where the file is: a path, a URL or a `memory:` name */
+    location: string;
+}
+
+/**
+ * Options for LocalStorage
+ *
+ * @interface LocalStorageOptions
+ */
+export interface LocalStorageOptions {
+    /** Directory where merged files are stored (default: './uploads') */
+    uploadDir?: string;
+
+    /** Directory where chunks are kept, one subdirectory per upload (default: './uploads/temp') */
+    tempDir?: string;
+}
+
+/**
+ * Options for S3Storage
+ *
+ * @interface S3StorageOptions
+ */
+export interface S3StorageOptions {
+    /** Service URL, e.g. 'https://s3.eu-west-1.amazonaws.com' or 'http://localhost:9000'; buckets are addressed path-style */
+    endpoint: string;
+
+    /** Bucket name */
+    bucket: string;
+
+    /** Region used for signing (default: 'us-east-1', which MinIO expects) */
+    region?: string;
+
+    /** Access key ID */
+    accessKeyId: string;
+
+    /** Secret access key */
+    secretAccessKey: string;
+
+    /** Session token of temporary credentials */
+    sessionToken?: string;
+
+    /** Key prefix of merged files (default: none) */
+    prefix?: string;
+
+    /** Key prefix of chunk objects (default: '.turbopush-temp/') */
+    tempPrefix?: string;
+
+    /** Smallest part sent to the multipart upload on compose (default: 8 MiB, at least 5 MiB for S3) */
+    partSize?: number;
+
+    /** fetch implementation (default: global fetch) */
+    fetch?: typeof fetch;
+}
+
+/**
+ * Credentials and region for signS3Request()
+ *
+ * @interface S3Credentials
+ */
+export interface S3Credentials {
+    accessKeyId: string;
+    secretAccessKey: string;
+    sessionToken?: string;
+    region: string;
+}
+
+/**
+ * LocalStorage - Chunks and files on the local disk
+ *
+ * Chunks are written to `<tempDir>/<fileId>/chunk_<zero-padded index>`,
+ * the layout TurboPushEndpoint.php uses, so both endpoints can share a
+ * temp directory.
+ *
+ * @class LocalStorage
+ * @implements {UploadStorage}
+ */
+export class LocalStorage implements UploadStorage {
+    /** Directory where merged files are stored */
+    private uploadDir: string;
+
+    /** Directory where chunks are kept */
+    private tempDir: string;
+
+    /** Resolves once both directories exist */
+    private directoriesReady?: Promise<void>;
+
+    /**
+     * Creates a new LocalStorage
+     * Directories are created on first use
+     *
+     * @param {LocalStorageOptions} [options] - Upload and temp directories
+     */
+    constructor(options: LocalStorageOptions = {}) {
+        this.uploadDir = options.uploadDir || './uploads';
+        this.tempDir = options.tempDir || './uploads/temp';
+    }
+
+    /**
+     * Stores a chunk
+     * Written under a temporary name first, so a chunk is listed only once complete
+     *
+     * @param {string} fileId - Upload identifier
+     * @param {number} index - Chunk index
+     * @param {Uint8Array} data - Chunk bytes
+     * @returns {Promise<void>}
+     */
+    public async putChunk(fileId: string, index: number, data: Uint8Array): Promise<void> {
+        const dir = path.join(this.tempDir, fileId);
+        await fs.mkdir(dir, { recursive: true });
+
+        const chunkPath = path.join(dir, chunkName(index));
+        const partialPath = `${chunkPath}.${randomBytes(4).toString('hex')}.part`;
+        try {
+            await fs.writeFile(partialPath, data);
+            await fs.rename(partialPath, chunkPath);
+        } catch (error) {
+            await fs.rm(partialPath, { force: true });
+            throw error;
+        }
+    }
+
+    /**
+     * Lists the chunks stored for an upload
+     *
+     * @param {string} fileId - Upload identifier
+     * @returns {Promise<number[]>} Chunk indexes in directory order
+     */
+    public async listChunks(fileId: string): Promise<number[]> {
+        try {
+            const entries = await fs.readdir(path.join(this.tempDir, fileId));
+            return entries.map(parseChunkName).filter((index): index is number => index !== undefined);
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+            throw error;
+        }
+    }
+
+    /**
+     * Merges chunks into a new file in the upload directory
+     *
+     * @param {string} fileId - Upload identifier
+     * @param {number} totalChunks - Number of chunks
+     * @param {string} fileName - Name of the file to create
+     * @param {Function} [onData] - Sees the file's bytes in order
+     * @returns {Promise<StoredObject>} The created file
+     * @throws {Error} If every candidate name is taken
+     */
+    public async compose(
+        fileId: string,
+        totalChunks: number,
+        fileName: string,
+        onData?: (data: Uint8Array) => void
+    ): Promise<StoredObject> {
+        await this.ensureDirectories();
+
+        let finalPath = '';
+        let output: fs.FileHandle | undefined;
+        for (const name of candidateNames(fileName)) {
+            finalPath = path.join(this.uploadDir, name);
+            try {
+                // 'wx' fails if the file exists, so parallel finalizes never share a name
+                output = await fs.open(finalPath, 'wx');
+                break;
+            } catch (error) {
+                if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+            }
+        }
+        if (!output) {
+            throw new Error(`TurboPush: every name for ${fileName} is taken`);
+        }
+
+        let size = 0;
+        try {
+            for (let i = 0; i < totalChunks; i++) {
+                for await (const bytes of createReadStream(path.join(this.tempDir, fileId, chunkName(i)))) {
+                    onData?.(bytes);
+                    await output.write(bytes);
+                    size += bytes.length;
+                }
+            }
+            await output.close();
+        } catch (error) {
+            await output.close().catch(() => undefined);
+            await fs.rm(finalPath, { force: true });
+            throw error;
+        }
+
+        return { name: path.basename(finalPath), size, location: finalPath };
+    }
+
+    /**
+     * Deletes a merged file
+     *
+     * @param {string} name - Name returned by compose()
+     * @returns {Promise<void>}
+     */
+    public async deleteFile(name: string): Promise<void> {
+        await fs.rm(path.join(this.uploadDir, name), { force: true });
+    }
+
+    /**
+     * Deletes an upload's temp directory
+     *
+     * @param {string} fileId - Upload identifier
+     * @returns {Promise<void>}
+     */
+    public async deleteChunks(fileId: string): Promise<void> {
+        await fs.rm(path.join(this.tempDir, fileId), { recursive: true, force: true });
+    }
+
+    /**
+     * Deletes temp directories not modified for `maxAge` milliseconds
+     *
+     * @param {number} maxAge - Age in milliseconds
+     * @returns {Promise<number>} Number of uploads removed
+     */
+    public async cleanupStale(maxAge: number): Promise<number> {
+        let entries: string[];
+        try {
+            entries = await fs.readdir(this.tempDir);
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') return 0;
+            throw error;
+        }
+
+        const cutoff = Date.now() - maxAge;
+        let removed = 0;
+
+        for (const entry of entries) {
+            const entryPath = path.join(this.tempDir, entry);
+            try {
+                const stats = await fs.stat(entryPath);
+                if (stats.mtimeMs >= cutoff) continue;
+
+                await fs.rm(entryPath, { recursive: true, force: true });
+                removed++;
+            } catch (error) {
+                // Finalized or removed meanwhile
+                if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+            }
+        }
+        return removed;
+    }
+
+    /**
+     * Creates the upload and temp directories once
+     *
+     * @private
+     * @returns {Promise<void>}
+     */
+    private ensureDirectories(): Promise<void> {
+        if (!this.directoriesReady) {
+            this.directoriesReady = Promise.all([
+                fs.mkdir(this.uploadDir, { recursive: true }),
+                fs.mkdir(this.tempDir, { recursive: true })
+            ]).then(() => undefined);
+            this.directoriesReady.catch(() => { this.directoriesReady = undefined; });
+        }
+        return this.directoriesReady;
+    }
+}
+
+/**
+ * MemoryStorage - Chunks and files kept in Maps
+ *
+ * Everything is lost when the process exits. Mainly useful for tests.
+ *
+ * @class MemoryStorage
+ * @implements {UploadStorage}
+ */
+export class MemoryStorage implements UploadStorage {
+    /** Map of fileId -> chunks and when the last one arrived */
+    private uploads: Map<string, { chunks: Map<number, Uint8Array>; updatedAt: number }> = new Map();
+
+    /** Map of file name -> merged bytes */
+    private files: Map<string, Uint8Array> = new Map();
+
+    /**
+     * Stores a copy of a chunk
+     *
+     * @param {string} fileId - Upload identifier
+     * @param {number} index - Chunk index
+     * @param {Uint8Array} data - Chunk bytes
+     * @returns {Promise<void>}
+     */
+    public async putChunk(fileId: string, index: number, data: Uint8Array): Promise<void> {
+        const upload = this.uploads.get(fileId) || { chunks: new Map(), updatedAt: 0 };
+        upload.chunks.set(index, new Uint8Array(data));
+        upload.updatedAt = Date.now();
+        this.uploads.set(fileId, upload);
+    }
+
+    /**
+     * Lists the chunks stored for an upload
+     *
+     * @param {string} fileId - Upload identifier
+     * @returns {Promise<number[]>} Chunk indexes in arrival order
+     */
+    public async listChunks(fileId: string): Promise<number[]> {
+        return Array.from(this.uploads.get(fileId)?.chunks.keys() || []);
+    }
+
+    /**
+     * Concatenates chunks into a new file
+     *
+     * @param {string} fileId - Upload identifier
+     * @param {number} totalChunks - Number of chunks
+     * @param {string} fileName - Name of the file to create
+     * @param {Function} [onData] - Sees the file's bytes in order
+     * @returns {Promise<StoredObject>} The created file
+     * @throws {Error} If a chunk is missing or every candidate name is taken
+     */
+    public async compose(
+        fileId: string,
+        totalChunks: number,
+        fileName: string,
+        onData?: (data: Uint8Array) => void
+    ): Promise<StoredObject> {
+        const chunks: Uint8Array[] = [];
+        for (let i = 0; i < totalChunks; i++) {
+            const chunk = this.uploads.get(fileId)?.chunks.get(i);
+            if (!chunk) {
+                throw new Error(`TurboPush: chunk ${i} of ${fileId} is missing`);
+            }
+            onData?.(chunk);
+            chunks.push(chunk);
+        }
+
+        let name: string | undefined;
+        for (const candidate of candidateNames(fileName)) {
+            if (!this.files.has(candidate)) {
+                name = candidate;
+                break;
+            }
+        }
+        if (name === undefined) {
+            throw new Error(`TurboPush: every name for ${fileName} is taken`);
+        }
+
+        const bytes = concatBytes(chunks);
+        this.files.set(name, bytes);
+        return { name, size: bytes.length, location: `memory:${name}` };
+    }
+
+    /**
+     * Deletes a merged file
+     *
+     * @param {string} name - Name returned by compose()
+     * @returns {Promise<void>}
+     */
+    public async deleteFile(name: string): Promise<void> {
+        this.files.delete(name);
+    }
+
+    /**
+     * Deletes all chunks of an upload
+     *
+     * @param {string} fileId - Upload identifier
+     * @returns {Promise<void>}
+     */
+    public async deleteChunks(fileId: string): Promise<void> {
+        this.uploads.delete(fileId);
+    }
+
+    /**
+     * Deletes uploads that received no chunk for `maxAge` milliseconds
+     *
+     * @param {number} maxAge - Age in milliseconds
+     * @returns {Promise<number>} Number of uploads removed
+     */
+    public async cleanupStale(maxAge: number): Promise<number> {
+        const cutoff = Date.now() - maxAge;
+        let removed = 0;
+        for (const [fileId, upload] of this.uploads) {
+            if (upload.updatedAt < cutoff) {
+                this.uploads.delete(fileId);
+                removed++;
+            }
+        }
+        return removed;
+    }
+
+    /**
+     * Gets the bytes of a merged file
+     *
+     * @param {string} name - Stored file name
+     * @returns {Uint8Array | undefined} The bytes, if the file exists
+     */
+    public getFile(name: string): Uint8Array | undefined {
+        return this.files.get(name);
+    }
+}
+
+/**
+ * S3Storage - Chunks and files in an S3-compatible bucket
+ *
+ * Each chunk is an object under `tempPrefix`. compose() reads the chunks
+ * in order and streams them into a multipart upload, buffering `partSize`
+ * bytes per part since S3 rejects parts under 5 MiB; files smaller than
+ * one part are written with a single PUT. Requests are signed with AWS
+ * Signature Version 4 and sent with fetch, so no SDK is needed.
+ *
+ * Multipart uploads interrupted by a crash are not tracked; add a bucket
+ * lifecycle rule that aborts incomplete multipart uploads.
+ *
+ * @class S3Storage
+ * @implements {UploadStorage}
+ */
+export class S3Storage implements UploadStorage {
+    /** Service URL without trailing slash */
+    private endpoint: string;
+
+    /** Bucket name */
+    private bucket: string;
+
+    /** Signing credentials and region */
+    private credentials: S3Credentials;
+
+    /** Key prefix of merged files */
+    private prefix: string;
+
+    /** Key prefix of chunk objects */
+    private tempPrefix: string;
+
+    /** Smallest part sent to a multipart upload */
+    private partSize: number;
+
+    /** fetch implementation */
+    private fetch: typeof fetch;
+
+    /**
+     * Creates a new S3Storage
+     *
+     * @param {S3StorageOptions} options - Bucket, credentials and key layout
+     */
+    constructor(options: S3StorageOptions) {
+        this.endpoint = options.endpoint.replace(/\/+$/, '');
+        this.bucket = options.bucket;
+        this.credentials = {
+            accessKeyId: options.accessKeyId,
+            secretAccessKey: options.secretAccessKey,
+            sessionToken: options.sessionToken,
+            region: options.region || 'us-east-1'
+        };
+        this.prefix = options.prefix || '';
+        this.tempPrefix = options.tempPrefix || '.turbopush-temp/';
+        this.partSize = options.partSize || 8 * 1024 * 1024;
+        this.fetch = options.fetch || ((input, init) => fetch(input, init));
+    }
+
+    /**
+     * Stores a chunk as an object
+     *
+     * @param {string} fileId - Upload identifier
+     * @param {number} index - Chunk index
+     * @param {Uint8Array} data - Chunk bytes
+     * @returns {Promise<void>}
+     */
+    public async putChunk(fileId: string, index: number, data: Uint8Array): Promise<void> {
+        await this.request('PUT', this.chunkKey(fileId, index), { body: data });
+    }
+
+    /**
+     * Lists the chunk objects of an upload
+     *
+     * @param {string} fileId - Upload identifier
+     * @returns {Promise<number[]>} Chunk indexes in key order
+     */
+    public async listChunks(fileId: string): Promise<number[]> {
+        const objects = await this.listObjects(`${this.tempPrefix}${fileId}/`);
+        return objects
+            .map(object => parseChunkName(object.key.slice(object.key.lastIndexOf('/') + 1)))
+            .filter((index): index is number => index !== undefined);
+    }
+
+    /**
+     * Streams chunk objects into a new object
+     *
+     * @param {string} fileId - Upload identifier
+     * @param {number} totalChunks - Number of chunks
+     * @param {string} fileName - Name of the file to create
+     * @param {Function} [onData] - Sees the file's bytes in order
+     * @returns {Promise<StoredObject>} The created object, located by its URL
+     * @throws {Error} If S3 fails or every candidate name is taken
+     */
+    public async compose(
+        fileId: string,
+        totalChunks: number,
+        fileName: string,
+        onData?: (data: Uint8Array) => void
+    ): Promise<StoredObject> {
+        let name: string | undefined;
+        for (const candidate of candidateNames(fileName)) {
+            const response = await this.request('HEAD', this.prefix + candidate, { allowMissing: true });
+            if (response.status === 404) {
+                name = candidate;
+                break;
+            }
+        }
+        if (name === undefined) {
+            throw new Error(`TurboPush: every name for ${fileName} is taken`);
+        }
+        const key = this.prefix + name;
+
+        let uploadId: string | undefined;
+        const etags: string[] = [];
+        let pending: Uint8Array[] = [];
+        let pendingSize = 0;
+        let size = 0;
+
+        // Sends the buffered bytes as the next part, starting the multipart upload first
+        const flushPart = async (): Promise<void> => {
+            if (uploadId === undefined) {
+                const created = await this.request('POST', key, { query: { uploads: '' } });
+                uploadId = xmlValues(await created.text(), 'UploadId')[0];
+            }
+            const body = concatBytes(pending);
+            pending = [];
+            pendingSize = 0;
+
+            const part = await this.request('PUT', key, {
+                query: { partNumber: String(etags.length + 1), uploadId },
+                body
+            });
+            etags.push(part.headers.get('ETag') || '');
+        };
+
+        try {
+            for (let i = 0; i < totalChunks; i++) {
+                const response = await this.request('GET', this.chunkKey(fileId, i));
+                const bytes = new Uint8Array(await response.arrayBuffer());
+                onData?.(bytes);
+                pending.push(bytes);
+                pendingSize += bytes.length;
+                size += bytes.length;
+
+                if (pendingSize >= this.partSize) {
+                    await flushPart();
+                }
+            }
+
+            if (uploadId === undefined) {
+                // Smaller than one part
+                await this.request('PUT', key, { body: concatBytes(pending) });
+            } else {
+                if (pendingSize > 0) {
+                    await flushPart();
+                }
+                const parts = etags
+                    .map((etag, i) => `<Part><PartNumber>${i + 1}</PartNumber><ETag>${escapeXml(etag)}</ETag></Part>`)
+                    .join('');
+                const completed = await this.request('POST', key, {
+                    query: { uploadId },
+                    body: Buffer.from(`<CompleteMultipartUpload>${parts}</CompleteMultipartUpload>`)
+                });
+
+                // S3 may answer 200 and report the failure in the body
+                const result = await completed.text();
+                if (/<Error>/.test(result)) {
+                    throw new Error(`TurboPush: S3 could not complete ${key}: ${xmlValues(result, 'Code')[0]}`);
+                }
+            }
+        } catch (error) {
+            if (uploadId !== undefined) {
+                await this.request('DELETE', key, { query: { uploadId } }).catch(() => undefined);
+            }
+            throw error;
+        }
+
+        return { name, size, location: `${this.endpoint}/${this.bucket}/${encodeKey(key)}` };
+    }
+
+    /**
+     * Deletes a merged object
+     *
+     * @param {string} name - Name returned by compose()
+     * @returns {Promise<void>}
+     */
+    public async deleteFile(name: string): Promise<void> {
+        await this.request('DELETE', this.prefix + name, { allowMissing: true });
+    }
+
+    /**
+     * Deletes all chunk objects of an upload
+     *
+     * @param {string} fileId - Upload identifier
+     * @returns {Promise<void>}
+     */
+    public async deleteChunks(fileId: string): Promise<void> {
+        for (const object of await this.listObjects(`${this.tempPrefix}${fileId}/`)) {
+            await this.request('DELETE', object.key, { allowMissing: true });
+        }
+    }
+
+    /**
+     * Deletes the chunk objects of uploads whose newest chunk is older than `maxAge`
+     *
+     * @param {number} maxAge - Age in milliseconds
+     * @returns {Promise<number>} Number of uploads removed
+     */
+    public async cleanupStale(maxAge: number): Promise<number> {
+        const newest = new Map<string, { modified: number; keys: string[] }>();
+        for (const object of await this.listObjects(this.tempPrefix)) {
+            const fileId = object.key.slice(this.tempPrefix.length).split('/')[0];
+            const upload = newest.get(fileId) || { modified: 0, keys: [] };
+            upload.modified = Math.max(upload.modified, object.lastModified);
+            upload.keys.push(object.key);
+            newest.set(fileId, upload);
+        }
+
+        const cutoff = Date.now() - maxAge;
+        let removed = 0;
+        for (const upload of newest.values()) {
+            if (upload.modified >= cutoff) continue;
+
+            for (const key of upload.keys) {
+                await this.request('DELETE', key, { allowMissing: true });
+            }
+            removed++;
+        }
+        return removed;
+    }
+
+    /**
+     * Gets the key of a chunk object
+     *
+     * @private
+     * @param {string} fileId - Upload identifier
+     * @param {number} index - Chunk index
+     * @returns {string} Object key
+     */
+    private chunkKey(fileId: string, index: number): string {
+        return `${this.tempPrefix}${fileId}/${chunkName(index)}`;
+    }
+
+    /**
+     * Lists all objects under a prefix, following continuation tokens
+     *
+     * @private
+     * @param {string} prefix - Key prefix
+     * @returns {Promise<Array<{ key: string; lastModified: number }>>} Keys and modification times
+     */
+    private async listObjects(prefix: string): Promise<Array<{ key: string; lastModified: number }>> {
+        const objects: Array<{ key: string; lastModified: number }> = [];
+        let token: string | undefined;
+
+        do {
+            const query: Record<string, string> = { 'list-type': '2', prefix };
+            if (token !== undefined) query['continuation-token'] = token;
+
+            const xml = await (await this.request('GET', '', { query })).text();
+            for (const contents of xmlValues(xml, 'Contents')) {
+                objects.push({
+                    key: xmlValues(contents, 'Key')[0],
+                    lastModified: Date.parse(xmlValues(contents, 'LastModified')[0])
+                });
+            }
+            token = xmlValues(xml, 'IsTruncated')[0] === 'true' ? xmlValues(xml, 'NextContinuationToken')[0] : undefined;
+        } while (token !== undefined);
+
+        return objects;
+    }
+
+    /**
+     * Sends a signed request to the bucket
+     *
+     * @private
+     * @param {string} method - HTTP method
+     * @param {string} key - Object key, or '' for the bucket itself
+     * @param {Object} [options] - Query parameters, body, and whether a 404 is expected
+     * @returns {Promise<Response>} The response
+     * @throws {Error} If S3 answers with an error
+     */
+    private async request(
+        method: string,
+        key: string,
+        options: { query?: Record<string, string | undefined>; body?: Uint8Array; allowMissing?: boolean } = {}
+    ): Promise<Response> {
+        const query = Object.entries(options.query || {})
+            .map(([name, value]) => value ? `${encodeRfc3986(name)}=${encodeRfc3986(value)}` : encodeRfc3986(name))
+            .join('&');
+        const url = `${this.endpoint}/${this.bucket}${key ? `/${encodeKey(key)}` : ''}${query ? `?${query}` : ''}`;
+
+        const body = options.body || new Uint8Array(0);
+        const headers = signS3Request(
+            { method, url, payloadHash: createHash('sha256').update(body).digest('hex') },
+            this.credentials
+        );
+
+        const response = await this.fetch(url, {
+            method,
+            headers,
+            body: options.body as BodyInit | undefined
+        });
+
+        if (!response.ok && !(options.allowMissing && response.status === 404)) {
+            const code = method === 'HEAD' ? '' : xmlValues(await response.text(), 'Code')[0];
+            throw new Error(`TurboPush: S3 ${method} ${key || this.bucket} failed: ${response.status}${code ? ` ${code}` : ''}`);
+        }
+        return response;
+    }
+}
+
+/**
+ * Signs a request with AWS Signature Version 4 (header-based)
+ *
+ * @param {Object} request - Method, full URL, headers to sign and hex SHA-256 of the body
+ * @param {S3Credentials} credentials - Keys and region
+ * @param {Date} [date] - Signing time (default: now)
+ * @returns {Record<string, string>} The given headers plus `x-amz-date`, `x-amz-content-sha256`,
+ *     `x-amz-security-token` (with session tokens) and `Authorization`
+ */
+export function signS3Request(
+    request: { method: string; url: string; headers?: Record<string, string>; payloadHash: string },
+    credentials: S3Credentials,
+    date: Date = new Date()
+): Record<string, string> {
+    const url = new URL(request.url);
+    const amzDate = date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+    const day = amzDate.slice(0, 8);
+    const scope = `${day}/${credentials.region}/s3/aws4_request`;
+
+    const headers: Record<string, string> = {
+        ...request.headers,
+        'x-amz-date': amzDate,
+        'x-amz-content-sha256': request.payloadHash
+    };
+    if (credentials.sessionToken) {
+        headers['x-amz-security-token'] = credentials.sessionToken;
+    }
+
+    // Host is signed but left to fetch to send
+    const canonical = Object.entries({ ...headers, host: url.host })
+        .map(([name, value]) => [name.toLowerCase(), value.trim().replace(/\s+/g, ' ')])
+        .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    const signedHeaders = canonical.map(([name]) => name).join(';');
+
+    const canonicalQuery = url.search.slice(1).split('&')
+        .filter(pair => pair !== '')
+        .map((pair) => {
+            const [name, value = ''] = pair.split('=');
+            return [encodeRfc3986(decodeURIComponent(name)), encodeRfc3986(decodeURIComponent(value))];
+        })
+        .sort(([a, x], [b, y]) => (a < b ? -1 : a > b ? 1 : x < y ? -1 : x > y ? 1 : 0))
+        .map(([name, value]) => `${name}=${value}`)
+        .join('&');
+
+    const canonicalRequest = [
+        request.method,
+        url.pathname,
+        canonicalQuery,
+        canonical.map(([name, value]) => `${name}:${value}\n`).join(''),
+        signedHeaders,
+        request.payloadHash
+    ].join('\n');
+
+    const stringToSign = [
+        'AWS4-HMAC-SHA256',
+        amzDate,
+        scope,
+        createHash('sha256').update(canonicalRequest).digest('hex')
+    ].join('\n');
+
+    let key: Buffer = Buffer.from(`AWS4${credentials.secretAccessKey}`);
+    for (const part of [day, credentials.region, 's3', 'aws4_request']) {
+        key = createHmac('sha256', key).update(part).digest();
+    }
+    const signature = createHmac('sha256', key).update(stringToSign).digest('hex');
+
+    headers['Authorization'] = `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${scope}, ` +
+        `SignedHeaders=${signedHeaders}, Signature=${signature}`;
+    return headers;
+}
+
+/**
+ * Names a chunk, zero-padded so chunks sort in order
+ *
+ * @private
+ * @param {number} index - Chunk index
+ * @returns {string} Name, e.g. chunk_0000000003
+ */
+function chunkName(index: number): string {
+    return `chunk_${String(index).padStart(10, '0')}`;
+}
+
+/**
+ * Parses a chunk name back into its index
+ *
+ * @private
+ * @param {string} name - File or key name
+ * @returns {number | undefined} The index, or undefined for anything else
+ */
+function parseChunkName(name: string): number | undefined {
+    const match = /^chunk_(\d{10})$/.exec(name);
+    return match ? parseInt(match[1], 10) : undefined;
+}
+
+/**
+ * Yields names to try for a new file: the name itself, then with a
+ * timestamp suffix like TurboPushEndpoint.php, then with a counter up to
+ * MAX_NAME_ATTEMPTS
+ *
+ * @private
+ * @param {string} fileName - Wanted name
+ * @returns {Generator<string>} Candidate names
+ */
+function* candidateNames(fileName: string): Generator<string> {
+    const ext = path.extname(fileName);
+    const base = fileName.slice(0, fileName.length - ext.length);
+    const timestamp = Math.floor(Date.now() / 1000);
+
+    yield fileName;
+    yield `${base}_${timestamp}${ext}`;
+    for (let n = 2; n <= MAX_NAME_ATTEMPTS; n++) {
+        yield `${base}_${timestamp}_${n}${ext}`;
+    }
+}
+
+/**
+ * Concatenates byte arrays
+ *
+ * @private
+ * @param {Uint8Array[]} parts - Byte arrays
+ * @returns {Uint8Array} One byte array
+ */
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+    const bytes = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        bytes.set(part, offset);
+        offset += part.length;
+    }
+    return bytes;
+}
+
+/**
+ * Percent-encodes a string as SigV4 requires (RFC 3986 unreserved characters kept)
+ *
+ * @private
+ * @param {string} value - String to encode
+ * @returns {string} Encoded string
+ */
+function encodeRfc3986(value: string): string {
+    return encodeURIComponent(value).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+/**
+ * Percent-encodes an object key, keeping its slashes
+ *
+ * @private
+ * @param {string} key - Object key
+ * @returns {string} Encoded key
+ */
+function encodeKey(key: string): string {
+    return key.split('/').map(encodeRfc3986).join('/');
+}
+
+/**
+ * Extracts the text of all elements with a tag name
+ * Enough for the flat XML S3 answers with; not a general XML parser
+ *
+ * @private
+ * @param {string} xml - XML document or fragment
+ * @param {string} tag - Element name
+ * @returns {string[]} Element contents, entities decoded for leaf elements
+ */
+function xmlValues(xml: string, tag: string): string[] {
+    const values: string[] = [];
+    const pattern = new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, 'g');
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(xml)) !== null) {
+        values.push(match[1].includes('<') ? match[1] : unescapeXml(match[1]));
+    }
+    return values;
+}
+
+/**
+ * Escapes text for XML
+ *
+ * @private
+ * @param {string} text - Text
+ * @returns {string} Escaped text
+ */
+function escapeXml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Decodes the XML entities S3 uses
+ *
+ * @private
+ * @param {string} text - Escaped text
+ * @returns {string} Text
+ */
+function unescapeXml(text: string): string {
+    return text
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, '\'')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&amp;/g, '&');
+}
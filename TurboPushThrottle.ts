@@ -0,0 +1,191 @@
+/**
+ * TurboPush Throttle - Bandwidth cap shared by all uploads
+ *
+ * A token bucket refilled at the configured rate. Every chunk request takes
+ * tokens for its size before it is sent, so all chunks of all files together
+ * stay below the cap. The bucket holds at most one second of tokens, which
+ * limits bursts after idle periods. A chunk larger than the bucket is sent
+ * once the bucket is full and leaves it in debt, delaying the next requests
+ * accordingly.
+ *
+ * @module TurboPushThrottle
+ * @since 1.1.0
+ *
+ * @example
+ * ```typescript
+ * import { BandwidthThrottle } from './TurboPushThrottle.js';
+ *
+ * const throttle = new BandwidthThrottle(512 * 1024); // 512 KiB/s
+ * await throttle.consume(chunk.size);
+ * // Send the chunk...
+ * ```
+ */
+
+/**
+ * Request waiting for tokens
+ *
+ * @interface Waiter
+ * @private
+ */
+interface Waiter {
+    /** Number of bytes to send */
+    bytes: number;
+
+    /** Lets the request go */
+    resolve: () => void;
+
+    /** Abandons the request */
+    reject: (error: Error) => void;
+
+    /** Signal that abandons the request */
+    signal?: AbortSignal;
+
+    /** Abort listener registered on the signal */
+    onAbort?: () => void;
+}
+
+/**
+ * BandwidthThrottle - Token bucket limiting bytes per second
+ *
+ * @class BandwidthThrottle
+ */
+export class BandwidthThrottle {
+    /** Refill rate in bytes per second, 0 for unlimited */
+    private rate: number;
+
+    /** Available tokens (bytes); negative while a large chunk is paid off */
+    private tokens: number;
+
+    /** Time of the last refill */
+    private lastRefill: number = Date.now();
+
+    /** Requests waiting for tokens, served in order */
+    private waiters: Waiter[] = [];
+
+    /** Timer that serves the next waiter once enough tokens accrued */
+    private timer?: ReturnType<typeof setTimeout>;
+
+    /**
+     * Creates a new BandwidthThrottle
+     *
+     * @param {number} bytesPerSecond - Maximum rate, 0 for unlimited
+     */
+    constructor(bytesPerSecond: number) {
+        this.rate = Math.max(0, bytesPerSecond);
+        this.tokens = this.rate;
+    }
+
+    /**
+     * Waits until a request of the given size may be sent
+     *
+     * @param {number} bytes - Number of bytes to send
+     * @param {AbortSignal} [signal] - Abandons the wait
+     * @returns {Promise<void>} Promise that resolves once the bytes may be sent
+     * @throws {Error} AbortError if the signal fires while waiting
+     */
+    public consume(bytes: number, signal?: AbortSignal): Promise<void> {
+        if (signal?.aborted) {
+            return Promise.reject(abortError());
+        }
+        if (this.rate === 0) {
+            return Promise.resolve();
+        }
+
+        return new Promise((resolve, reject) => {
+            const waiter: Waiter = { bytes, resolve, reject, signal };
+
+            if (signal) {
+                waiter.onAbort = () => {
+                    this.waiters = this.waiters.filter(w => w !== waiter);
+                    reject(abortError());
+                    this.drain();
+                };
+                signal.addEventListener('abort', waiter.onAbort);
+            }
+
+            this.waiters.push(waiter);
+            this.drain();
+        });
+    }
+
+    /**
+     * Changes the rate, also for requests already waiting
+     *
+     * @param {number} bytesPerSecond - Maximum rate, 0 for unlimited
+     * @returns {void}
+     */
+    public setRate(bytesPerSecond: number): void {
+        this.refill();
+        this.rate = Math.max(0, bytesPerSecond);
+        this.tokens = Math.min(this.tokens, this.rate);
+        this.drain();
+    }
+
+    /**
+     * Gets the current rate
+     *
+     * @returns {number} Maximum rate in bytes per second, 0 for unlimited
+     */
+    public getRate(): number {
+        return this.rate;
+    }
+
+    /**
+     * Lets waiting requests go while tokens last, then schedules the next check
+     *
+     * @private
+     * @returns {void}
+     */
+    private drain(): void {
+        if (this.timer !== undefined) {
+            clearTimeout(this.timer);
+            this.timer = undefined;
+        }
+        this.refill();
+
+        while (this.waiters.length > 0) {
+            const waiter = this.waiters[0];
+
+            // A chunk larger than the bucket waits for a full bucket only
+            const needed = this.rate === 0 ? 0 : Math.min(waiter.bytes, this.rate);
+            if (this.tokens < needed) {
+                const delay = Math.ceil((needed - this.tokens) / this.rate * 1000);
+                this.timer = setTimeout(() => this.drain(), delay);
+                return;
+            }
+
+            this.waiters.shift();
+            if (this.rate > 0) {
+                this.tokens -= waiter.bytes;
+            }
+            if (waiter.onAbort) {
+                waiter.signal!.removeEventListener('abort', waiter.onAbort);
+            }
+            waiter.resolve();
+        }
+    }
+
+    /**
+     * Adds the tokens accrued since the last refill
+     *
+     * @private
+     * @returns {void}
+     */
+    private refill(): void {
+        const now = Date.now();
+        this.tokens = Math.min(this.rate, this.tokens + (now - this.lastRefill) * this.rate / 1000);
+        this.lastRefill = now;
+    }
+}
+
+/**
+ * Creates the error thrown when a wait is abandoned
+ *
+ * @private
+ * @returns {Error} Error named 'AbortError', like an aborted fetch
+ */
+function abortError(): Error {
+    const error = new Error('The operation was aborted');
+    error.name = 'AbortError';
+    return error;
+}
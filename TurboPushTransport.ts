@@ -0,0 +1,415 @@
+/**
+ * TurboPush Transport - Default TurboPush HTTP protocol
+ *
+ * Speaks the protocol understood by TurboPushEndpoint.php:
+ * - Chunks are POSTed as multipart FormData (`file`, `fileName`, `fileId`,
+ *   `chunkIndex`, `totalChunks`, `fileSize`, optional `checksum`)
+ * - `{ action: 'status' }` JSON requests list the chunks already received
+ * - `{ action: 'finalize' }` JSON requests merge the chunks into the final file
+ * - In dedup mode, chunks carry a `chunkHash` field, `{ action: 'checkHashes' }`
+ *   asks which hashes the server's chunk store holds, and finalize sends a
+ *   `manifest` of chunk hashes and sizes in file order
+ * - Compressed chunks carry `compression` (codec) and `originalSize` fields
+ * - Encrypted uploads report the encrypted size as `fileSize`, and finalize
+ *   sends the `encryption` header holding the wrapped data key
+ * - The first chunk and finalize carry the file's `metadata` as JSON, and
+ *   fields from the `formFields` function are sent alongside the protocol
+ *   fields of every chunk and finalize request (they never replace them)
+ *
+ * HttpTransport sends chunks with fetch(); XhrTransport sends them with
+ * XMLHttpRequest to report bytes sent while a chunk is in flight.
+ *
+ * Other protocols implement the same UploadTransport interface, see
+ * TurboPushTus.ts for tus 1.0.
+ *
+ * @module TurboPushTransport
+ * @since 1.1.0
+ */
+
+import type {
+    UploadTransport,
+    TransportFileContext,
+    TransportChunkContext,
+    TransportFinalizeContext,
+    TransportHashesContext
+} from './TurboPush.js';
+import { HttpError, IntegrityError, NetworkError, ServerRejectedError } from './TurboPushErrors.js';
+import { parseRetryAfter } from './TurboPushRetry.js';
+
+/** Names used by the protocol, which `formFields` cannot override */
+const PROTOCOL_FIELDS = new Set([
+    'action', 'file', 'fileName', 'fileId', 'chunkIndex', 'totalChunks', 'fileSize',
+    'checksum', 'checksumAlgorithm', 'chunkHash', 'compression', 'originalSize',
+    'manifest', 'encryption', 'metadata'
+]);
+
+/**
+ * JSON body of a chunk response, as sent by TurboPushEndpoint.php
+ *
+ * @interface ChunkResponseBody
+ */
+interface ChunkResponseBody {
+    success?: boolean;
+    error?: string;
+    message?: string;
+    data?: { code?: string };
+}
+
+/**
+ * HttpTransport - Multipart FormData chunks plus JSON finalize
+ *
+ * Used by TurboPush when no transport is configured.
+ *
+ * @class HttpTransport
+ * @implements {UploadTransport}
+ */
+export class HttpTransport implements UploadTransport {
+    /** Compressed chunks are labelled with their codec and original size */
+    public readonly supportsCompression = true;
+
+    /** File sizes follow `uploadSize` and finalize carries the encryption header */
+    public readonly supportsEncryption = true;
+
+    /**
+     * Uploads a single chunk as multipart FormData
+     *
+     * @param {TransportChunkContext} context - Chunk, file and request options
+     * @returns {Promise<void>} Promise that resolves when the server accepts the chunk
+     * @throws {TurboPushError} If the request fails or the server rejects the chunk
+     */
+    public async uploadChunk(context: TransportChunkContext): Promise<void> {
+        // Upload the chunk
+        const response = await fetch(context.endpoint, {
+            method: 'POST',
+            body: createChunkForm(context),
+            headers: context.headers,
+            credentials: context.withCredentials ? 'include' : 'omit',
+            signal: context.signal
+        });
+
+        // Check for HTTP errors
+        if (!response.ok) {
+            const body = await readErrorBody(response);
+            const retryAfter = parseRetryAfter(response.headers?.get('Retry-After'));
+            checkChunkResponse(context.chunk.index, response.status, response.statusText, body, retryAfter);
+        }
+
+        // Parse and validate response
+        checkChunkResponse(context.chunk.index, response.status, response.statusText, await response.json());
+    }
+
+    /**
+     * Sends the finalize request telling the server to merge chunks
+     *
+     * @param {TransportFinalizeContext} context - File, digest and request options
+     * @returns {Promise<unknown>} The `data` payload of the server response
+     * @throws {TurboPushError} If finalization fails
+     */
+    public async finalizeFile(context: TransportFinalizeContext): Promise<unknown> {
+        const { file, fileId, checksum, manifest, encryption, metadata } = context;
+
+        const response = await fetch(context.endpoint, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...context.headers
+            },
+            body: JSON.stringify({
+                ...extraFields(context.fields),
+                action: 'finalize',
+                fileName: file.name,
+                fileId: fileId,
+                fileSize: context.uploadSize ?? file.size,
+                totalChunks: context.totalChunks,
+                ...(checksum !== undefined && {
+                    checksum,
+                    checksumAlgorithm: context.checksumAlgorithm
+                }),
+                ...(manifest && { manifest }),
+                ...(encryption && { encryption }),
+                ...(metadata && { metadata })
+            }),
+            credentials: context.withCredentials ? 'include' : 'omit'
+        });
+
+        if (!response.ok) {
+            throw new HttpError(response.status, response.statusText);
+        }
+
+        const result = await response.json();
+        if (!result.success) {
+            throw new ServerRejectedError(result.error || result.message || 'Finalization failed');
+        }
+        return result.data;
+    }
+
+    /**
+     * Asks the server which chunk indexes it already holds for a file
+     *
+     * @param {TransportFileContext} context - File and request options
+     * @returns {Promise<number[]>} Indexes of chunks the server has received
+     * @throws {TurboPushError} If the request fails or the server rejects the action
+     */
+    public async getUploadedChunks(context: TransportFileContext): Promise<number[]> {
+        const response = await fetch(context.endpoint, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...context.headers
+            },
+            body: JSON.stringify({
+                action: 'status',
+                fileId: context.fileId,
+                totalChunks: context.totalChunks
+            }),
+            credentials: context.withCredentials ? 'include' : 'omit'
+        });
+
+        if (!response.ok) {
+            throw new HttpError(response.status, response.statusText);
+        }
+
+        const result = await response.json();
+        if (!result.success) {
+            throw new ServerRejectedError(result.error || result.message || 'Status query failed');
+        }
+
+        const received = result.data?.uploadedChunks;
+        return Array.isArray(received)
+            ? received.filter((index: unknown) => Number.isInteger(index))
+            : [];
+    }
+
+    /**
+     * Asks the server which chunk hashes its chunk store already holds
+     *
+     * @param {TransportHashesContext} context - File, hashes to look up and request options
+     * @returns {Promise<string[]>} The hashes the server holds
+     * @throws {TurboPushError} If the request fails or the server rejects the action
+     */
+    public async getStoredHashes(context: TransportHashesContext): Promise<string[]> {
+        const response = await fetch(context.endpoint, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...context.headers
+            },
+            body: JSON.stringify({
+                action: 'checkHashes',
+                fileId: context.fileId,
+                hashes: context.hashes
+            }),
+            credentials: context.withCredentials ? 'include' : 'omit'
+        });
+
+        if (!response.ok) {
+            throw new HttpError(response.status, response.statusText);
+        }
+
+        const result = await response.json();
+        if (!result.success) {
+            throw new ServerRejectedError(result.error || result.message || 'Hash query failed');
+        }
+
+        const stored = result.data?.storedHashes;
+        return Array.isArray(stored)
+            ? stored.filter((hash: unknown) => typeof hash === 'string')
+            : [];
+    }
+}
+
+/**
+ * XhrTransport - HttpTransport protocol over XMLHttpRequest
+ *
+ * Reports upload progress while a chunk is in flight, so progress moves
+ * smoothly even with large chunks. Needs XMLHttpRequest (browsers).
+ *
+ * @class XhrTransport
+ * @extends {HttpTransport}
+ *
+ * @example
+ * ```typescript
+ * const uploader = new TurboPush({
+ *     endpoint: '/api/upload',
+ *     chunkSize: 10 * 1024 * 1024,
+ *     transport: new XhrTransport()
+ * });
+ * ```
+ */
+export class XhrTransport extends HttpTransport {
+    /**
+     * Uploads a single chunk as multipart FormData, reporting bytes sent
+     *
+     * @param {TransportChunkContext} context - Chunk, file and request options
+     * @returns {Promise<void>} Promise that resolves when the server accepts the chunk
+     * @throws {TurboPushError} If the request fails or the server rejects the chunk
+     */
+    public uploadChunk(context: TransportChunkContext): Promise<void> {
+        const { chunk, signal } = context;
+
+        return new Promise((resolve, reject) => {
+            if (signal.aborted) {
+                reject(abortError());
+                return;
+            }
+
+            const xhr = new XMLHttpRequest();
+            const onAbort = () => xhr.abort();
+            const settle = (settleWith: () => void) => {
+                signal.removeEventListener('abort', onAbort);
+                settleWith();
+            };
+
+            xhr.open('POST', context.endpoint);
+            for (const [name, value] of Object.entries(context.headers)) {
+                xhr.setRequestHeader(name, value);
+            }
+            xhr.withCredentials = context.withCredentials;
+
+            xhr.upload.onprogress = (event) => {
+                if (!event.lengthComputable) return;
+
+                // Count the multipart overhead first, so progress never runs ahead
+                const overhead = event.total - chunk.blob.size;
+                context.onProgress(Math.max(0, event.loaded - overhead));
+            };
+            xhr.onload = () => settle(() => {
+                try {
+                    const retryAfter = parseRetryAfter(xhr.getResponseHeader('Retry-After'));
+                    checkChunkResponse(chunk.index, xhr.status, xhr.statusText, parseJson(xhr.responseText), retryAfter);
+                    resolve();
+                } catch (error) {
+                    reject(error);
+                }
+            });
+            xhr.onerror = () => settle(() => reject(new NetworkError(undefined, { chunkIndex: chunk.index })));
+            xhr.onabort = () => settle(() => reject(abortError()));
+
+            signal.addEventListener('abort', onAbort);
+            xhr.send(createChunkForm(context));
+        });
+    }
+}
+
+/**
+ * Builds the multipart form for a chunk request
+ *
+ * @param {TransportChunkContext} context - Chunk, file and request options
+ * @returns {FormData} Chunk data and metadata
+ */
+function createChunkForm(context: TransportChunkContext): FormData {
+    const { file, fileId, chunk } = context;
+
+    // Prepare form data with chunk and metadata
+    const formData = new FormData();
+    formData.append('file', chunk.blob);
+    formData.append('fileName', file.name);
+    formData.append('fileId', fileId);
+    formData.append('chunkIndex', chunk.index.toString());
+    formData.append('totalChunks', context.totalChunks.toString());
+    formData.append('fileSize', (context.uploadSize ?? file.size).toString());
+
+    if (chunk.checksum !== undefined && context.checksumAlgorithm) {
+        formData.append('checksum', chunk.checksum);
+        formData.append('checksumAlgorithm', context.checksumAlgorithm);
+    }
+    if (chunk.hash !== undefined) {
+        formData.append('chunkHash', chunk.hash);
+    }
+    if (chunk.compression) {
+        formData.append('compression', chunk.compression.codec);
+        formData.append('originalSize', chunk.compression.originalSize.toString());
+    }
+    if (context.metadata && chunk.index === 0) {
+        formData.append('metadata', JSON.stringify(context.metadata));
+    }
+    for (const [name, value] of Object.entries(extraFields(context.fields))) {
+        formData.append(name, value);
+    }
+    return formData;
+}
+
+/**
+ * Drops `formFields` entries named like protocol fields
+ *
+ * @param {Record<string, string>} [fields] - Fields from the `formFields` function
+ * @returns {Record<string, string>} Fields safe to send alongside the protocol fields
+ */
+function extraFields(fields?: Record<string, string>): Record<string, string> {
+    const extra: Record<string, string> = {};
+    for (const [name, value] of Object.entries(fields ?? {})) {
+        if (!PROTOCOL_FIELDS.has(name)) {
+            extra[name] = String(value);
+        }
+    }
+    return extra;
+}
+
+/**
+ * Checks the response to a chunk request
+ *
+ * @param {number} chunkIndex - Index of the uploaded chunk
+ * @param {number} status - HTTP status code
+ * @param {string} statusText - HTTP status text
+ * @param {unknown} body - Parsed JSON body, if any
+ * @param {number} [retryAfter] - Delay from the `Retry-After` header in milliseconds
+ * @returns {void}
+ * @throws {TurboPushError} If the server rejected the chunk
+ */
+function checkChunkResponse(
+    chunkIndex: number,
+    status: number,
+    statusText: string,
+    body: unknown,
+    retryAfter?: number
+): void {
+    const response = typeof body === 'object' && body !== null ? body as ChunkResponseBody : undefined;
+    if (response?.data?.code === 'checksum_mismatch') {
+        throw new IntegrityError(`Checksum mismatch for chunk ${chunkIndex}`, { status, chunkIndex });
+    }
+    if (status < 200 || status >= 300) {
+        throw new HttpError(status, statusText, { chunkIndex, retryAfter });
+    }
+    if (!response?.success) {
+        throw new ServerRejectedError(response?.error || response?.message || 'Upload failed', { status, chunkIndex });
+    }
+}
+
+/**
+ * Parses a JSON response text
+ *
+ * @param {string} text - Response text
+ * @returns {unknown} Parsed body, or undefined if not JSON
+ */
+function parseJson(text: string): unknown {
+    try {
+        return JSON.parse(text);
+    } catch (error) {
+        return undefined;
+    }
+}
+
+/**
+ * Creates the error for an aborted request, named like an aborted fetch
+ *
+ * @returns {Error} Error named 'AbortError'
+ */
+function abortError(): Error {
+    const error = new Error('The operation was aborted');
+    error.name = 'AbortError';
+    return error;
+}
+
+/**
+ * Reads the JSON body of an error response, if it has one
+ *
+ * @param {Response} response - Failed HTTP response
+ * @returns {Promise<unknown>} Parsed body, or undefined if not JSON
+ */
+async function readErrorBody(response: Response): Promise<unknown> {
+    try {
+        return await response.json();
+    } catch (error) {
+        return undefined;
+    }
+}
@@ -0,0 +1,418 @@
+/**
+ * TurboPush tus Transport - tus 1.0 resumable upload protocol
+ *
+ * Lets the TurboPush API upload to any tus 1.0 server (e.g. tusd).
+ * Supported: core protocol (HEAD/PATCH with Upload-Offset), creation,
+ * termination and checksum (sha256) extensions.
+ *
+ * tus appends bytes at the current offset, so TurboPush sends the chunks
+ * of each file one at a time, in order. Files still upload in parallel.
+ * Metadata passed to addFile() joins `filename` and `filetype` in the
+ * Upload-Metadata header, with non-string values sent as JSON.
+ *
+ * @module TurboPushTus
+ * @since 1.1.0
+ * @see https://tus.io/protocols/resumable-upload
+ *
+ * @example
+ * ```typescript
+ * import { TurboPush } from './TurboPush.js';
+ * import { TusTransport } from './TurboPushTus.js';
+ *
+ * const uploader = new TurboPush({
+ *     endpoint: 'https://tusd.example.com/files/',
+ *     transport: new TusTransport({ urlStorage: localStorage })
+ * });
+ * ```
+ */
+
+import type {
+    UploadTransport,
+    TransportFileContext,
+    TransportPrepareContext,
+    TransportChunkContext,
+    TransportFinalizeContext
+} from './TurboPush.js';
+import { TurboPushError, HttpError, IntegrityError, ServerRejectedError } from './TurboPushErrors.js';
+import { parseRetryAfter } from './TurboPushRetry.js';
+import { isSizeKnown } from './TurboPushInput.js';
+
+/** Protocol version sent in every request */
+const TUS_VERSION = '1.0.0';
+
+/**
+ * Minimal key/value storage for upload URLs (localStorage is compatible)
+ *
+ * @interface TusUrlStorage
+ */
+interface TusUrlStorage {
+    getItem(key: string): string | null;
+    setItem(key: string, value: string): void;
+    removeItem(key: string): void;
+}
+
+/**
+ * Options for TusTransport
+ *
+ * @interface TusTransportOptions
+ */
+interface TusTransportOptions {
+    /**
+     * Where to remember upload URLs between sessions (default: memory only)
+     * Only useful together with a TurboPush stateStore, which keeps file IDs
+     * stable across sessions
+     */
+    urlStorage?: TusUrlStorage;
+}
+
+/**
+ * Server-side upload tracked for a file
+ *
+ * @interface TusUpload
+ * @private
+ */
+interface TusUpload {
+    /** Absolute upload URL returned by the creation request */
+    url: string;
+
+    /** Last known server offset, undefined after a failed PATCH */
+    offset?: number;
+}
+
+/**
+ * TusTransport - tus 1.0 client transport
+ *
+ * @class TusTransport
+ * @implements {UploadTransport}
+ */
+export class TusTransport implements UploadTransport {
+    /** tus only accepts bytes at the current offset */
+    public readonly sequential = true;
+
+    /** Map of fileId -> server-side upload */
+    private uploads: Map<string, TusUpload> = new Map();
+
+    /** Optional persistent storage for upload URLs */
+    private urlStorage?: TusUrlStorage;
+
+    /**
+     * Creates a new TusTransport
+     *
+     * @param {TusTransportOptions} [options] - Transport options
+     */
+    constructor(options: TusTransportOptions = {}) {
+        this.urlStorage = options.urlStorage;
+    }
+
+    /**
+     * Resumes a known upload via HEAD, or creates a new one
+     *
+     * @param {TransportPrepareContext} context - File, chunk ranges and request options
+     * @returns {Promise<number[]>} Indexes of chunks fully stored on the server
+     * @throws {Error} If the upload cannot be created
+     */
+    public async prepareFile(context: TransportPrepareContext): Promise<number[]> {
+        const url = this.uploads.get(context.fileId)?.url || this.storedUrl(context.fileId);
+
+        if (url) {
+            const offset = await this.fetchOffset(url, context);
+            if (offset !== undefined) {
+                this.uploads.set(context.fileId, { url, offset });
+                return context.chunks
+                    .filter(chunk => chunk.end <= offset)
+                    .map(chunk => chunk.index);
+            }
+        }
+
+        // Unknown or expired upload - start over
+        await this.createUpload(context);
+        return [];
+    }
+
+    /**
+     * Appends a chunk with PATCH, skipping bytes the server already has
+     *
+     * @param {TransportChunkContext} context - Chunk, file and request options
+     * @returns {Promise<void>} Promise that resolves when the server accepts the bytes
+     * @throws {Error} If the PATCH fails or the offset cannot be reconciled
+     */
+    public async uploadChunk(context: TransportChunkContext): Promise<void> {
+        const { chunk } = context;
+        const upload = this.uploads.get(context.fileId);
+        if (!upload) {
+            throw new Error('tus upload has not been created');
+        }
+
+        // After a failed PATCH the server may hold part of the chunk
+        if (upload.offset === undefined) {
+            const offset = await this.fetchOffset(upload.url, context);
+            if (offset === undefined) {
+                throw new ServerRejectedError('tus upload no longer exists');
+            }
+            upload.offset = offset;
+        }
+
+        const offset = upload.offset;
+        if (offset >= chunk.end) return;
+        if (offset < chunk.start) {
+            throw new Error(`tus offset ${offset} is behind chunk ${chunk.index}`);
+        }
+
+        const partial = offset > chunk.start;
+        const headers: Record<string, string> = {
+            ...context.headers,
+            'Tus-Resumable': TUS_VERSION,
+            'Upload-Offset': offset.toString(),
+            'Content-Type': 'application/offset+octet-stream'
+        };
+
+        // Checksums cover whole chunks only, and tusd knows sha256 but not crc32c
+        if (!partial && chunk.checksum && context.checksumAlgorithm === 'sha256') {
+            headers['Upload-Checksum'] = `sha256 ${hexToBase64(chunk.checksum)}`;
+        }
+
+        let response: Response;
+        try {
+            response = await fetch(upload.url, {
+                method: 'PATCH',
+                headers,
+                body: partial ? chunk.blob.slice(offset - chunk.start) : chunk.blob,
+                credentials: context.withCredentials ? 'include' : 'omit',
+                signal: context.signal
+            });
+        } catch (error) {
+            upload.offset = undefined;
+            throw error;
+        }
+
+        if (response.status !== 204) {
+            upload.offset = undefined;
+            if (response.status === 460) {
+                throw new IntegrityError(`Checksum mismatch for chunk ${chunk.index}`, {
+                    status: response.status,
+                    chunkIndex: chunk.index
+                });
+            }
+            throw new HttpError(response.status, response.statusText, {
+                chunkIndex: chunk.index,
+                retryAfter: parseRetryAfter(response.headers.get('Retry-After'))
+            });
+        }
+
+        const newOffset = parseInt(response.headers.get('Upload-Offset') || '', 10);
+        upload.offset = Number.isNaN(newOffset) ? undefined : newOffset;
+    }
+
+    /**
+     * Confirms the server holds every byte of the file
+     * tus has no finalize step; the upload is complete once offset equals length
+     *
+     * @param {TransportFinalizeContext} context - File and request options
+     * @returns {Promise<unknown>} The upload URL and size
+     * @throws {Error} If the server offset does not match the file size
+     */
+    public async finalizeFile(context: TransportFinalizeContext): Promise<unknown> {
+        const upload = this.uploads.get(context.fileId);
+        if (!upload) {
+            throw new Error('tus upload has not been created');
+        }
+
+        const offset = upload.offset ?? await this.fetchOffset(upload.url, context);
+        if (offset !== context.file.size) {
+            throw new Error(`tus upload incomplete: ${offset} of ${context.file.size} bytes`);
+        }
+
+        this.forget(context.fileId);
+        return { url: upload.url, fileSize: offset };
+    }
+
+    /**
+     * Terminates the upload on the server (termination extension)
+     *
+     * @param {TransportFileContext} context - File and request options
+     * @returns {Promise<void>} Promise that resolves once the server discards the upload
+     * @throws {Error} If the server rejects the termination
+     */
+    public async abortFile(context: TransportFileContext): Promise<void> {
+        const url = this.uploads.get(context.fileId)?.url || this.storedUrl(context.fileId);
+        this.forget(context.fileId);
+        if (!url) return;
+
+        const response = await fetch(url, {
+            method: 'DELETE',
+            headers: { ...context.headers, 'Tus-Resumable': TUS_VERSION },
+            credentials: context.withCredentials ? 'include' : 'omit'
+        });
+
+        if (response.status !== 204 && response.status !== 404 && response.status !== 410) {
+            throw new HttpError(response.status, response.statusText);
+        }
+    }
+
+    /**
+     * Creates a new upload on the server (creation extension)
+     *
+     * @private
+     * @param {TransportFileContext} context - File and request options
+     * @returns {Promise<void>} Promise that resolves once the upload URL is known
+     * @throws {Error} If the server does not return 201 with a Location, the file size is unknown
+     *     or a metadata key is not a valid tus key
+     */
+    private async createUpload(context: TransportFileContext): Promise<void> {
+        const { file } = context;
+        if (!isSizeKnown(file)) {
+            throw new TurboPushError('validation',
+                `TurboPush: tus needs the size of ${file.name} up front; pass \`size\` to fromStream()`);
+        }
+        const metadata = [`filename ${textToBase64(file.name)}`];
+        if (file.type) {
+            metadata.push(`filetype ${textToBase64(file.type)}`);
+        }
+        for (const [key, value] of Object.entries(context.metadata ?? {})) {
+            if (key === 'filename' || key === 'filetype') continue;
+            if (!/^[\x21-\x2b\x2d-\x7e]+$/.test(key)) {
+                throw new TurboPushError('validation',
+                    `TurboPush: tus metadata keys must be ASCII without spaces or commas: ${key}`);
+            }
+            metadata.push(`${key} ${textToBase64(typeof value === 'string' ? value : JSON.stringify(value))}`);
+        }
+
+        const response = await fetch(context.endpoint, {
+            method: 'POST',
+            headers: {
+                ...context.headers,
+                'Tus-Resumable': TUS_VERSION,
+                'Upload-Length': file.size.toString(),
+                'Upload-Metadata': metadata.join(',')
+            },
+            credentials: context.withCredentials ? 'include' : 'omit'
+        });
+
+        const location = response.headers.get('Location');
+        if (response.status !== 201) {
+            throw new HttpError(response.status, `tus creation failed: ${response.statusText}`);
+        }
+        if (!location) {
+            throw new ServerRejectedError('tus creation failed: no Location header');
+        }
+
+        const url = resolveUrl(location, context.endpoint);
+        this.uploads.set(context.fileId, { url, offset: 0 });
+        this.urlStorage?.setItem(this.storageKey(context.fileId), url);
+    }
+
+    /**
+     * Reads the current offset of an upload (HEAD request)
+     *
+     * @private
+     * @param {string} url - Upload URL
+     * @param {TransportFileContext} context - Request options
+     * @returns {Promise<number | undefined>} Offset, or undefined if the upload is gone
+     * @throws {Error} On other HTTP errors
+     */
+    private async fetchOffset(url: string, context: TransportFileContext): Promise<number | undefined> {
+        const response = await fetch(url, {
+            method: 'HEAD',
+            headers: {
+                ...context.headers,
+                'Tus-Resumable': TUS_VERSION,
+                'Cache-Control': 'no-store'
+            },
+            credentials: context.withCredentials ? 'include' : 'omit'
+        });
+
+        if (response.status === 403 || response.status === 404 || response.status === 410) {
+            this.forget(context.fileId);
+            return undefined;
+        }
+        if (!response.ok) {
+            throw new HttpError(response.status, response.statusText);
+        }
+
+        const offset = parseInt(response.headers.get('Upload-Offset') || '', 10);
+        if (Number.isNaN(offset)) {
+            throw new Error('tus server sent no Upload-Offset');
+        }
+        return offset;
+    }
+
+    /**
+     * Looks up a persisted upload URL
+     *
+     * @private
+     * @param {string} fileId - Unique identifier for the file
+     * @returns {string | undefined} Stored URL, if any
+     */
+    private storedUrl(fileId: string): string | undefined {
+        return this.urlStorage?.getItem(this.storageKey(fileId)) || undefined;
+    }
+
+    /**
+     * Drops an upload from memory and persistent storage
+     *
+     * @private
+     * @param {string} fileId - Unique identifier for the file
+     * @returns {void}
+     */
+    private forget(fileId: string): void {
+        this.uploads.delete(fileId);
+        this.urlStorage?.removeItem(this.storageKey(fileId));
+    }
+
+    /**
+     * Builds the storage key for a file's upload URL
+     *
+     * @private
+     * @param {string} fileId - Unique identifier for the file
+     * @returns {string} Storage key
+     */
+    private storageKey(fileId: string): string {
+        return `turbopush-tus::${fileId}`;
+    }
+}
+
+/**
+ * Resolves a Location header against the endpoint it was returned for
+ *
+ * @param {string} location - Absolute or relative URL
+ * @param {string} endpoint - Endpoint the creation request was sent to
+ * @returns {string} Absolute URL (or location unchanged if no base is known)
+ */
+function resolveUrl(location: string, endpoint: string): string {
+    try {
+        const base = new URL(endpoint, globalThis.location?.href);
+        return new URL(location, base).toString();
+    } catch (error) {
+        return location;
+    }
+}
+
+/**
+ * Base64-encodes a string as UTF-8 (for Upload-Metadata values)
+ *
+ * @param {string} text - Text to encode
+ * @returns {string} Base64 string
+ */
+function textToBase64(text: string): string {
+    const binary = encodeURIComponent(text).replace(
+        /%([0-9A-F]{2})/g,
+        (_, hex: string) => String.fromCharCode(parseInt(hex, 16))
+    );
+    return btoa(binary);
+}
+
+/**
+ * Converts a hex digest to base64 (for Upload-Checksum)
+ *
+ * @param {string} hex - Hex digest
+ * @returns {string} Base64 digest
+ */
+function hexToBase64(hex: string): string {
+    let binary = '';
+    for (let i = 0; i < hex.length; i += 2) {
+        binary += String.fromCharCode(parseInt(hex.substring(i, i + 2), 16));
+    }
+    return btoa(binary);
+}
+
+export type { TusTransportOptions, TusUrlStorage };
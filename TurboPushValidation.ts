@@ -0,0 +1,169 @@
+/**
+ * TurboPush Validation - Client-side file rules
+ *
+ * Checks files against the configured rules before they are queued, so
+ * violations are reported immediately instead of after every chunk has
+ * been uploaded and the server rejects the file at finalize.
+ *
+ * @module TurboPushValidation
+ * @since 1.1.0
+ *
+ * @example
+ * ```typescript
+ * import { checkFile } from './TurboPushValidation.js';
+ *
+ * const error = checkFile(file, { maxFileSize: 10 * 1024 * 1024 }, { count: 0, totalBytes: 0 });
+ * if (error) console.warn(error.rule, error.message);
+ * ```
+ */
+
+import type { ValidationRules, FileValidator, UploadFile } from './TurboPush.js';
+import { TurboPushError } from './TurboPushErrors.js';
+import { isSizeKnown } from './TurboPushInput.js';
+
+/**
+ * Rule a rejected file violates
+ */
+export type FileValidationRule =
+    | 'file-too-large'
+    | 'file-too-small'
+    | 'extension-not-allowed'
+    | 'type-not-allowed'
+    | 'too-many-files'
+    | 'total-size-exceeded'
+    | 'custom';
+
+/**
+ * FileValidationError - A file violates a validation rule
+ *
+ * @class FileValidationError
+ * @extends {TurboPushError}
+ */
+export class FileValidationError extends TurboPushError {
+    /** Rule the file violates */
+    public readonly rule: FileValidationRule;
+
+    /** The rejected file */
+    public readonly file: UploadFile;
+
+    /**
+     * Creates a new FileValidationError
+     *
+     * @param {FileValidationRule} rule - Rule the file violates
+     * @param {string} message - Human-readable reason
+     * @param {UploadFile} file - The rejected file
+     */
+    constructor(rule: FileValidationRule, message: string, file: UploadFile) {
+        super('validation', message);
+        this.name = 'FileValidationError';
+        this.rule = rule;
+        this.file = file;
+    }
+}
+
+/**
+ * Checks a file against the synchronous rules
+ * Size rules do not apply to streams whose length is not known yet
+ *
+ * @param {UploadFile} file - File to check
+ * @param {ValidationRules} rules - Configured rules
+ * @param {Object} queued - Files already in the queue
+ * @param {number} queued.count - Number of queued files
+ * @param {number} queued.totalBytes - Combined size of queued files
+ * @returns {FileValidationError | undefined} The first violated rule, if any
+ */
+export function checkFile(
+    file: UploadFile,
+    rules: ValidationRules,
+    queued: { count: number; totalBytes: number }
+): FileValidationError | undefined {
+    const sized = isSizeKnown(file);
+
+    if (sized && rules.maxFileSize !== undefined && file.size > rules.maxFileSize) {
+        return new FileValidationError('file-too-large',
+            `TurboPush: ${file.name} exceeds the maximum file size of ${rules.maxFileSize} bytes`, file);
+    }
+    if (sized && rules.minFileSize !== undefined && file.size < rules.minFileSize) {
+        return new FileValidationError('file-too-small',
+            `TurboPush: ${file.name} is below the minimum file size of ${rules.minFileSize} bytes`, file);
+    }
+    if (rules.allowedExtensions && !hasAllowedExtension(file.name, rules.allowedExtensions)) {
+        return new FileValidationError('extension-not-allowed',
+            `TurboPush: ${file.name} does not have an allowed extension (${rules.allowedExtensions.join(', ')})`, file);
+    }
+    if (rules.allowedMimeTypes && !rules.allowedMimeTypes.some(pattern => matchesMimeType(file.type, pattern))) {
+        return new FileValidationError('type-not-allowed',
+            `TurboPush: ${file.name} has a type that is not allowed (${file.type || 'unknown'})`, file);
+    }
+    if (rules.maxFiles !== undefined && queued.count >= rules.maxFiles) {
+        return new FileValidationError('too-many-files',
+            `TurboPush: ${file.name} exceeds the maximum of ${rules.maxFiles} files`, file);
+    }
+    if (sized && rules.maxTotalSize !== undefined && queued.totalBytes + file.size > rules.maxTotalSize) {
+        return new FileValidationError('total-size-exceeded',
+            `TurboPush: ${file.name} exceeds the maximum total size of ${rules.maxTotalSize} bytes`, file);
+    }
+    return undefined;
+}
+
+/**
+ * Runs custom validators in order, stopping at the first rejection
+ * A validator rejects a file by returning a reason or by throwing
+ *
+ * @param {UploadFile} file - File to check
+ * @param {FileValidator[]} validators - Custom validators
+ * @returns {Promise<FileValidationError | undefined>} The first rejection, if any
+ */
+export async function runValidators(
+    file: UploadFile,
+    validators: FileValidator[]
+): Promise<FileValidationError | undefined> {
+    for (const validator of validators) {
+        let reason: string | void;
+        try {
+            reason = await validator(file);
+        } catch (error) {
+            reason = (error as Error).message || String(error);
+        }
+
+        if (reason) {
+            return new FileValidationError('custom', `TurboPush: ${file.name} was rejected: ${reason}`, file);
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Checks a file name against allowed extensions (case-insensitive, dot optional)
+ *
+ * @private
+ * @param {string} fileName - Name of the file
+ * @param {string[]} extensions - Allowed extensions, e.g. ['jpg', '.png']
+ * @returns {boolean} True if the extension is allowed
+ */
+function hasAllowedExtension(fileName: string, extensions: string[]): boolean {
+    const dot = fileName.lastIndexOf('.');
+    if (dot <= 0) return false;
+
+    const extension = fileName.slice(dot + 1).toLowerCase();
+    return extensions.some(allowed => allowed.replace(/^\./, '').toLowerCase() === extension);
+}
+
+/**
+ * Matches a MIME type against a pattern such as 'image/png' or 'image/*'
+ *
+ * @private
+ * @param {string} type - MIME type of the file (may be empty)
+ * @param {string} pattern - Allowed type, optionally with a wildcard subtype
+ * @returns {boolean} True if the type matches
+ */
+function matchesMimeType(type: string, pattern: string): boolean {
+    const normalizedType = type.toLowerCase();
+    const normalizedPattern = pattern.toLowerCase();
+
+    if (normalizedPattern === '*/*' || normalizedPattern === '*') return true;
+    if (normalizedPattern.endsWith('/*')) {
+        return normalizedType.startsWith(normalizedPattern.slice(0, -1));
+    }
+    return normalizedType === normalizedPattern;
+}
@@ -0,0 +1,19 @@
+/**
+ * TurboPush Upload Server - Example Implementation
+ *
+ * This is an example of how to use the TurboPushServer class with Node's
+ * http module. Copy this file and customize it for your needs.
+ */
+
+import { createServer } from 'http';
+import { TurboPushServer } from '../TurboPushServer.js';
+
+const endpoint = new TurboPushServer({
+    uploadDir: './uploads',
+    tempDir: './uploads/temp',
+    maxFileSize: 10 * 1024 * 1024 * 1024,  // 10GB
+    allowedExtensions: ['jpg', 'png', 'pdf', 'zip', 'gz', 'mp4', 'doc', 'docx', 'txt', 'sql'],
+    log: (message) => console.log(`[${new Date().toISOString()}] ${message}`)
+});
+
+createServer((req, res) => endpoint.handle(req, res)).listen(8080);
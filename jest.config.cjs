@@ -4,8 +4,12 @@ module.exports = {
     roots: ['<rootDir>/tests'],
     testMatch: ['**/*.test.ts'],
     setupFilesAfterEnv: ['<rootDir>/tests/setup.ts'],
+    // Sources import each other with the `.js` specifiers Node needs after the build
+    moduleNameMapper: {
+        '^(\\.{1,2}/.*)\\.js$': '$1'
+    },
     collectCoverageFrom: [
-        'TurboPush.ts',
+        '*.ts',
         '!**/*.d.ts',
         '!**/node_modules/**'
     ],
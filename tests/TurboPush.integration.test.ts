@@ -3,7 +3,20 @@
  */
 
 import { TurboPush } from '../TurboPush';
+import type { CompressionCodec, ConnectivitySource, EncryptionOptions, FileTransform, FormFieldsProvider, UploadTransport } from '../TurboPush';
 import { MockServer } from './mocks/MockServer';
+import { MemoryStateStore } from '../TurboPushStateStore';
+import { HttpTransport } from '../TurboPushTransport';
+import { AbortedError, HttpError } from '../TurboPushErrors';
+import { FileValidationError } from '../TurboPushValidation';
+import { fromPath, fromStream } from '../TurboPushInput';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { gunzipSync } from 'zlib';
+import { webcrypto } from 'crypto';
+import { decryptFile } from '../TurboPushEncryption';
 
 describe('TurboPush Integration Tests', () => {
     let mockServer: MockServer;
@@ -28,7 +41,7 @@ describe('TurboPush Integration Tests', () => {
             });
 
             const completeCallback = jest.fn();
-            turbopush.addFile(file).onComplete(completeCallback);
+            turbopush.addFiles([file]).onComplete(completeCallback);
             await turbopush.push();
 
             expect(completeCallback).toHaveBeenCalledWith(
@@ -50,7 +63,7 @@ describe('TurboPush Integration Tests', () => {
 
             const progressUpdates: number[] = [];
             turbopush
-                .addFile(file)
+                .addFiles([file])
                 .onProgress((progress) => {
                     progressUpdates.push(progress[0].percentage);
                 });
@@ -104,6 +117,39 @@ describe('TurboPush Integration Tests', () => {
             const stats = turbopush.getStats();
             expect(stats.completedFiles).toBe(1);
         });
+
+        test('should keep uploading other files while chunks wait out Retry-After', async () => {
+            const transport = new HttpTransport();
+            const original = transport.uploadChunk.bind(transport);
+            const throttled = new Set<number>();
+            jest.spyOn(transport, 'uploadChunk').mockImplementation(async (context) => {
+                if (context.file.name === 'busy.bin' && !throttled.has(context.chunk.index)) {
+                    throttled.add(context.chunk.index);
+                    throw new HttpError(503, 'Service Unavailable', { retryAfter: 1000 });
+                }
+                await original(context);
+            });
+            const turbopush = new TurboPush({
+                endpoint: mockServer.getEndpoint(),
+                chunkSize: 100,
+                maxConcurrentUploads: 2,
+                retryDelay: 100,
+                transport
+            });
+            turbopush.addFiles([
+                new File([new Blob(['b'.repeat(200)])], 'busy.bin'),
+                new File([new Blob(['q'.repeat(500)])], 'quiet.bin')
+            ]);
+
+            // Both connections are freed while busy.bin's chunks wait a second
+            const completedAt: Record<string, number> = {};
+            const started = Date.now();
+            const stats = await turbopush.onFileComplete(fileName => { completedAt[fileName] = Date.now() - started; }).push();
+
+            expect(stats.completedFiles).toBe(2);
+            expect(completedAt['quiet.bin']).toBeLessThan(1000);
+            expect(completedAt['busy.bin']).toBeGreaterThanOrEqual(1000);
+        });
     });
 
     describe('Progress Tracking', () => {
@@ -118,7 +164,7 @@ describe('TurboPush Integration Tests', () => {
 
             const progressSnapshots: number[] = [];
             turbopush
-                .addFile(file)
+                .addFiles([file])
                 .onProgress((progress) => {
                     progressSnapshots.push(progress[0].percentage);
                 });
@@ -129,5 +175,1485 @@ describe('TurboPush Integration Tests', () => {
             expect(progressSnapshots[progressSnapshots.length - 1]).toBe(100);
         });
     });
+
+    describe('Persistent Resume', () => {
+        const lastModified = 1700000000000;
+
+        function chunkRequests(server: MockServer): number {
+            return server.getRequests().filter(r => typeof r.options?.body !== 'string').length;
+        }
+
+        test('should only upload chunks missing from a previous session', async () => {
+            const store = new MemoryStateStore();
+            const file = new File([new Blob(['a'.repeat(1000)])], 'video.mp4', { lastModified });
+
+            // Simulate a crashed session that uploaded the first three chunks
+            const first = new TurboPush({ endpoint: mockServer.getEndpoint(), chunkSize: 200, stateStore: store });
+            first.addFile(file);
+            const fileId = first.getProgress()[0].fileId;
+            await store.set({
+                fileId,
+                fileName: 'video.mp4',
+                fileSize: 1000,
+                chunkSize: 200,
+                totalChunks: 5,
+                uploadedChunks: [0, 1, 2],
+                updatedAt: Date.now()
+            });
+
+            const second = new TurboPush({ endpoint: mockServer.getEndpoint(), chunkSize: 200, stateStore: store });
+            second.addFile(file);
+            expect(second.getProgress()[0].fileId).toBe(fileId);
+
+            const stats = await second.push();
+
+            expect(stats.completedFiles).toBe(1);
+            expect(chunkRequests(mockServer)).toBe(2);
+            expect(await store.get(fileId)).toBeUndefined();
+        });
+
+        test('should ignore state recorded with a different chunk size', async () => {
+            const store = new MemoryStateStore();
+            const file = new File([new Blob(['a'.repeat(1000)])], 'video.mp4', { lastModified });
+            const turbopush = new TurboPush({ endpoint: mockServer.getEndpoint(), chunkSize: 200, stateStore: store });
+            turbopush.addFile(file);
+            const fileId = turbopush.getProgress()[0].fileId;
+
+            await store.set({
+                fileId,
+                fileName: 'video.mp4',
+                fileSize: 1000,
+                chunkSize: 500,
+                totalChunks: 2,
+                uploadedChunks: [0],
+                updatedAt: Date.now()
+            });
+
+            await turbopush.push();
+
+            expect(chunkRequests(mockServer)).toBe(5);
+        });
+
+        test('should record uploaded chunks while a file is in progress', async () => {
+            const store = new MemoryStateStore();
+            const setSpy = jest.spyOn(store, 'set');
+            const file = new File([new Blob(['a'.repeat(1000)])], 'video.mp4', { lastModified });
+            const turbopush = new TurboPush({
+                endpoint: mockServer.getEndpoint(),
+                chunkSize: 200,
+                maxConcurrentUploads: 1,
+                stateStore: store
+            });
+
+            await turbopush.addFiles([file]).push();
+
+            expect(setSpy).toHaveBeenCalledTimes(5);
+            expect(setSpy.mock.calls[1][0].uploadedChunks).toEqual([0, 1]);
+        });
+
+        test('should give files whose names differ only in punctuation distinct IDs', () => {
+            const first = new TurboPush({ endpoint: mockServer.getEndpoint(), stateStore: new MemoryStateStore() });
+            const second = new TurboPush({ endpoint: mockServer.getEndpoint(), stateStore: new MemoryStateStore() });
+
+            const spaced = first.addFile(new File([new Blob(['abc'])], 'a b.txt', { lastModified }));
+            const underscored = second.addFile(new File([new Blob(['abc'])], 'a_b.txt', { lastModified }));
+
+            expect(spaced.fileId).not.toBe(underscored.fileId);
+        });
+
+        test('should give the same file distinct IDs within one session', () => {
+            const file = new File([new Blob(['abc'])], 'same.txt', { lastModified });
+            const turbopush = new TurboPush({ endpoint: mockServer.getEndpoint(), stateStore: new MemoryStateStore() });
+            turbopush.addFiles([file]).addFile(file);
+
+            const [a, b] = turbopush.getProgress();
+            expect(a.fileId).not.toBe(b.fileId);
+        });
+    });
+
+    describe('Server Status Query', () => {
+        function chunkIndexesSent(server: MockServer): number[] {
+            return server.getRequests()
+                .map(r => r.options?.body)
+                .filter((body): body is FormData => body instanceof FormData)
+                .map(body => parseInt(body.get('chunkIndex') as string, 10))
+                .sort((a, b) => a - b);
+        }
+
+        test('should skip chunks the server already holds', async () => {
+            const file = new File([new Blob(['a'.repeat(1000)])], 'video.mp4');
+            const turbopush = new TurboPush({
+                endpoint: mockServer.getEndpoint(),
+                chunkSize: 200,
+                checkServerStatus: true
+            });
+            turbopush.addFile(file);
+            mockServer.seedReceivedChunks(turbopush.getProgress()[0].fileId, [0, 3]);
+
+            const stats = await turbopush.push();
+
+            expect(stats.completedFiles).toBe(1);
+            expect(chunkIndexesSent(mockServer)).toEqual([1, 2, 4]);
+        });
+
+        test('should skip chunks an earlier session left on the server', async () => {
+            const content = 'a'.repeat(1000);
+            const lastModified = 1700000000000;
+            const config = { endpoint: mockServer.getEndpoint(), chunkSize: 200, maxConcurrentUploads: 1, checkServerStatus: true };
+
+            // The first session dies after three chunks, without any local state
+            const transport = new HttpTransport();
+            const upload = transport.uploadChunk.bind(transport);
+            jest.spyOn(transport, 'uploadChunk').mockImplementation(async (context) => {
+                if (context.chunk.index >= 3) throw new HttpError(400, 'Bad Request');
+                await upload(context);
+            });
+            const first = new TurboPush({ ...config, transport });
+            await first.addFiles([new File([new Blob([content])], 'video.mp4', { lastModified })]).push();
+            expect(chunkIndexesSent(mockServer)).toEqual([0, 1, 2]);
+
+            const second = new TurboPush(config);
+            const handle = second.addFile(new File([new Blob([content])], 'video.mp4', { lastModified }));
+            await second.push();
+
+            expect((await handle.promise).fileSize).toBe(content.length);
+            expect(chunkIndexesSent(mockServer)).toEqual([0, 1, 2, 3, 4]);
+        });
+
+        test('should track received chunks per file on the mock server', async () => {
+            const file = new File([new Blob(['a'.repeat(1000)])], 'video.mp4');
+            const turbopush = new TurboPush({
+                endpoint: mockServer.getEndpoint(),
+                chunkSize: 200,
+                maxConcurrentUploads: 1
+            });
+            turbopush.addFile(file);
+            const fileId = turbopush.getProgress()[0].fileId;
+
+            const seen: number[][] = [];
+            turbopush.onProgress(() => seen.push(mockServer.getReceivedChunks(fileId)));
+            await turbopush.push();
+
+            expect(seen[0]).toEqual([0]);
+            expect(mockServer.getReceivedChunks(fileId)).toEqual([]);
+        });
+
+        test('should not query the server unless enabled', async () => {
+            const file = new File([new Blob(['abc'])], 'small.txt');
+            const turbopush = new TurboPush({ endpoint: mockServer.getEndpoint() });
+
+            await turbopush.addFiles([file]).push();
+
+            const actions = mockServer.getRequests()
+                .filter(r => typeof r.options?.body === 'string')
+                .map(r => JSON.parse(r.options!.body as string).action);
+            expect(actions).toEqual(['finalize']);
+        });
+    });
+
+    describe('Integrity Verification', () => {
+        test('should send a digest with every chunk and the whole file', async () => {
+            const file = new File([new Blob(['0123456789'])], 'digits.txt');
+            const turbopush = new TurboPush({
+                endpoint: mockServer.getEndpoint(),
+                chunkSize: 4,
+                checksum: 'crc32c'
+            });
+
+            await turbopush.addFiles([file]).push();
+
+            const chunkBodies = mockServer.getRequests()
+                .map(r => r.options?.body)
+                .filter((body): body is FormData => body instanceof FormData)
+                .sort((a, b) => Number(a.get('chunkIndex')) - Number(b.get('chunkIndex')));
+            expect(chunkBodies.map(body => body.get('checksum'))).toEqual(['063962b9', '6ad50193', '646a3494']);
+            expect(chunkBodies[0].get('checksumAlgorithm')).toBe('crc32c');
+
+            const finalize = mockServer.getRequests()
+                .map(r => r.options?.body)
+                .filter((body): body is string => typeof body === 'string')
+                .map(body => JSON.parse(body))
+                .find(json => json.action === 'finalize');
+            expect(finalize.checksum).toBe('280c069e');
+            expect(finalize.checksumAlgorithm).toBe('crc32c');
+        });
+
+        test('should expose the file digest on completion', async () => {
+            const file = new File([new Blob(['abc'])], 'abc.txt');
+            const turbopush = new TurboPush({ endpoint: mockServer.getEndpoint(), checksum: 'sha256' });
+
+            const completeCallback = jest.fn();
+            await turbopush.addFiles([file]).onFileComplete(completeCallback).push();
+
+            expect(completeCallback).toHaveBeenCalledWith('abc.txt', expect.any(String), expect.objectContaining({
+                checksum: 'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad',
+                checksumAlgorithm: 'sha256'
+            }));
+        });
+
+        test('should retry chunks the server reports as corrupted', async () => {
+            mockServer.simulateChecksumMismatches(1);
+
+            const file = new File([new Blob(['abc'])], 'abc.txt');
+            const turbopush = new TurboPush({
+                endpoint: mockServer.getEndpoint(),
+                checksum: 'sha256',
+                maxRetries: 2,
+                retryDelay: 100
+            });
+
+            const stats = await turbopush.addFiles([file]).push();
+
+            expect(stats.completedFiles).toBe(1);
+            const chunkUploads = mockServer.getRequests().filter(r => r.options?.body instanceof FormData);
+            expect(chunkUploads).toHaveLength(2);
+        });
+
+        test('should report a mismatch once retries are exhausted', async () => {
+            mockServer.simulateChecksumMismatches(5);
+
+            const file = new File([new Blob(['abc'])], 'abc.txt');
+            const turbopush = new TurboPush({
+                endpoint: mockServer.getEndpoint(),
+                checksum: 'sha256',
+                maxRetries: 1,
+                retryDelay: 100
+            });
+
+            const errorCallback = jest.fn();
+            await turbopush.addFiles([file]).onError(errorCallback).push();
+
+            expect(errorCallback.mock.calls[0][0].message).toContain('Checksum mismatch for chunk 0');
+        });
+    });
+
+    describe('Adaptive Chunk Sizing', () => {
+        const content = 'The quick brown fox jumps over the lazy dog. '.repeat(100);
+
+        function spyOnChunks(transport: HttpTransport): jest.SpyInstance {
+            return jest.spyOn(transport, 'uploadChunk');
+        }
+
+        function sentChunks(spy: jest.SpyInstance): Array<{ index: number; size: number; totalChunks: number }> {
+            return spy.mock.calls
+                .map(([context]) => ({
+                    index: context.chunk.index,
+                    size: context.chunk.end - context.chunk.start,
+                    totalChunks: context.totalChunks
+                }))
+                .sort((a, b) => a.index - b.index);
+        }
+
+        test('should create chunks lazily and grow them on a fast link', async () => {
+            const transport = new HttpTransport();
+            const spy = spyOnChunks(transport);
+            const file = new File([new Blob([content])], 'fox.txt');
+            const turbopush = new TurboPush({
+                endpoint: mockServer.getEndpoint(),
+                maxConcurrentUploads: 1,
+                transport,
+                adaptiveChunkSize: { minChunkSize: 100, maxChunkSize: 800, targetDuration: 1000 }
+            });
+
+            const stats = await turbopush.addFiles([file]).push();
+            expect(stats.completedFiles).toBe(1);
+
+            const chunks = sentChunks(spy);
+            expect(chunks.slice(0, 4).map(c => c.size)).toEqual([100, 200, 400, 800]);
+            expect(chunks.reduce((total, c) => total + c.size, 0)).toBe(content.length);
+
+            // Chunks only exist once they are started
+            expect(chunks.slice(0, 3).map(c => c.totalChunks)).toEqual([1, 2, 3]);
+
+            const finalize = JSON.parse(mockServer.getRequests()
+                .find(r => typeof r.options?.body === 'string')!.options!.body as string);
+            expect(finalize.totalChunks).toBe(chunks.length);
+        });
+
+        test('should report byte-accurate progress with varying chunk sizes', async () => {
+            const file = new File([new Blob([content])], 'fox.txt');
+            const turbopush = new TurboPush({
+                endpoint: mockServer.getEndpoint(),
+                maxConcurrentUploads: 1,
+                adaptiveChunkSize: { minChunkSize: 100, maxChunkSize: 800 }
+            });
+
+            const uploaded: number[] = [];
+            turbopush.addFiles([file]).onProgress(progress => uploaded.push(progress[0].uploadedSize));
+            await turbopush.push();
+
+            expect(uploaded[0]).toBe(100);
+            expect(uploaded[uploaded.length - 1]).toBe(content.length);
+        });
+
+        test('should resume the chunk layout of a previous session', async () => {
+            const store = new MemoryStateStore();
+            const transport = new HttpTransport();
+            const spy = spyOnChunks(transport);
+            const file = new File([new Blob([content])], 'fox.txt', { lastModified: 1700000000000 });
+            const config = {
+                endpoint: mockServer.getEndpoint(),
+                stateStore: store,
+                transport,
+                adaptiveChunkSize: { minChunkSize: 100, maxChunkSize: 800 }
+            };
+
+            const first = new TurboPush(config);
+            first.addFile(file);
+            const fileId = first.getProgress()[0].fileId;
+            await store.set({
+                fileId,
+                fileName: 'fox.txt',
+                fileSize: content.length,
+                chunkSize: 1024 * 1024,
+                totalChunks: 3,
+                uploadedChunks: [0, 2],
+                chunkRanges: [[0, 100], [100, 300], [300, 700]],
+                updatedAt: Date.now()
+            });
+
+            const second = new TurboPush(config);
+            const stats = await second.addFiles([file]).push();
+
+            expect(stats.completedFiles).toBe(1);
+            const chunks = sentChunks(spy);
+            expect(chunks[0]).toEqual({ index: 1, size: 200, totalChunks: expect.any(Number) });
+            expect(chunks.reduce((total, c) => total + c.size, 0)).toBe(content.length - 500);
+        });
+    });
+
+    describe('Deduplication', () => {
+        /** Deterministic pseudo-random bytes */
+        function randomBytes(length: number, seed: number) {
+            const bytes = new Uint8Array(length);
+            let state = seed;
+            for (let i = 0; i < length; i++) {
+                state = (Math.imul(state, 1103515245) + 12345) >>> 0;
+                bytes[i] = state >>> 24;
+            }
+            return bytes;
+        }
+
+        function concat(...parts: Uint8Array[]) {
+            return new Uint8Array(Buffer.concat(parts));
+        }
+
+        function lastFinalize(): { totalChunks: number; checksum?: string; manifest: Array<{ hash: string; size: number }> } {
+            return JSON.parse(mockServer.getRequests()
+                .filter(r => typeof r.options?.body === 'string' && r.options.body.includes('"finalize"'))
+                .pop()!.options!.body as string);
+        }
+
+        const version1 = randomBytes(60000, 1);
+        const version2 = concat(version1.subarray(0, 30000), Buffer.from('a small edit'), version1.subarray(30000));
+
+        test('should send only the chunks the server does not hold', async () => {
+            const config = { endpoint: mockServer.getEndpoint(), dedup: { avgChunkSize: 2048 } };
+
+            const first = new TurboPush(config);
+            const firstHandle = first.addFile(new File([new Blob([version1])], 'image-v1.bin'));
+            await first.push();
+            const firstResult = await firstHandle.promise;
+            const chunkCount = mockServer.getDedupStats().uploadedChunks;
+
+            expect(firstResult.dedupedBytes).toBe(0);
+            expect(chunkCount).toBeGreaterThan(15);
+            expect(lastFinalize().manifest).toHaveLength(chunkCount);
+
+            const second = new TurboPush(config);
+            const secondHandle = second.addFile(new File([new Blob([version2])], 'image-v2.bin'));
+            const stats = await second.push();
+            const secondResult = await secondHandle.promise;
+
+            const dedup = mockServer.getDedupStats();
+            expect(dedup.uploadedChunks - chunkCount).toBeLessThanOrEqual(3);
+            expect(dedup.ratio).toBeGreaterThan(0.4);
+            expect(secondResult.dedupedBytes).toBeGreaterThan(version2.length * 0.8);
+            expect(stats.dedupedBytes).toBe(secondResult.dedupedBytes);
+            expect(stats.uploadedBytes).toBe(version2.length);
+
+            const manifest = lastFinalize().manifest;
+            expect(manifest.reduce((total, entry) => total + entry.size, 0)).toBe(version2.length);
+            expect(lastFinalize().totalChunks).toBe(manifest.length);
+        });
+
+        test('should send a chunk repeated within the file once', async () => {
+            const block = randomBytes(20000, 5);
+            const file = new File([new Blob([concat(block, block, block)])], 'repeated.bin');
+            const transport = new HttpTransport();
+            const spy = jest.spyOn(transport, 'uploadChunk');
+            const turbopush = new TurboPush({ endpoint: mockServer.getEndpoint(), transport, dedup: { avgChunkSize: 2048 } });
+
+            const handle = turbopush.addFile(file);
+            await turbopush.push();
+
+            const hashes = spy.mock.calls.map(([context]) => context.chunk.hash);
+            expect(new Set(hashes).size).toBe(hashes.length);
+            expect(lastFinalize().manifest.length).toBeGreaterThan(hashes.length * 2);
+            // Two of the three copies are not sent (minus chunks spanning the seams)
+            expect((await handle.promise).dedupedBytes).toBeGreaterThan(30000);
+
+            const form = mockServer.getRequests().find(r => r.options?.body instanceof FormData)!.options!.body as FormData;
+            expect(hashes).toContain(form.get('chunkHash'));
+        });
+
+        test('should upload everything if the server cannot answer hash queries', async () => {
+            const transport = new HttpTransport();
+            jest.spyOn(transport, 'getStoredHashes').mockRejectedValue(new Error('Unknown action'));
+            mockServer.seedStoredHashes(['ignored']);
+            const turbopush = new TurboPush({ endpoint: mockServer.getEndpoint(), transport, dedup: { avgChunkSize: 2048 } });
+
+            const stats = await turbopush.addFiles([new File([new Blob([version1])], 'image.bin')]).push();
+
+            expect(stats.completedFiles).toBe(1);
+            expect(stats.dedupedBytes).toBe(0);
+            expect(mockServer.getDedupStats().uploadedChunks).toBe(lastFinalize().manifest.length);
+        });
+
+        test('should reuse dedup hashes as SHA-256 chunk checksums', async () => {
+            const transport = new HttpTransport();
+            const spy = jest.spyOn(transport, 'uploadChunk');
+            const turbopush = new TurboPush({
+                endpoint: mockServer.getEndpoint(),
+                transport,
+                checksum: 'sha256',
+                dedup: { avgChunkSize: 2048 }
+            });
+
+            await turbopush.addFiles([new File([new Blob([version1.slice(0, 8000)])], 'small.bin')]).push();
+
+            for (const [context] of spy.mock.calls) {
+                expect(context.chunk.checksum).toBe(context.chunk.hash);
+            }
+            expect(lastFinalize().checksum).toBeDefined();
+        });
+
+        test('should reject configurations that cannot deduplicate', () => {
+            const noHashes: UploadTransport = {
+                uploadChunk: async () => undefined,
+                finalizeFile: async () => undefined
+            };
+
+            expect(() => new TurboPush({ endpoint: '/upload', dedup: true, transport: noHashes }))
+                .toThrow('dedup needs a transport with getStoredHashes()');
+            expect(() => new TurboPush({ endpoint: '/upload', dedup: true, adaptiveChunkSize: true }))
+                .toThrow('dedup and adaptiveChunkSize cannot be combined');
+        });
+    });
+
+    describe('Compression', () => {
+        const csv = Array.from({ length: 800 }, (_, i) => `${i},sensor-${i % 7},${(i * 37) % 1000},ok\n`).join('');
+
+        function forms(): FormData[] {
+            return mockServer.getRequests()
+                .filter(r => r.options?.body instanceof FormData)
+                .map(r => r.options!.body as FormData);
+        }
+
+        test('should compress chunks and count the bytes sent separately', async () => {
+            const transport = new HttpTransport();
+            const spy = jest.spyOn(transport, 'uploadChunk');
+            const turbopush = new TurboPush({ endpoint: mockServer.getEndpoint(), chunkSize: 5000, transport, compression: 'gzip' });
+
+            const sizes: number[] = [];
+            turbopush.addFiles([new File([new Blob([csv])], 'readings.csv', { type: 'text/csv' })])
+                .onProgress(progress => sizes.push(progress[0].uploadedSize));
+            const stats = await turbopush.push();
+
+            let wireBytes = 0;
+            for (const [context] of spy.mock.calls) {
+                const { start, end, blob, compression } = context.chunk;
+                expect(compression).toEqual({ codec: 'gzip', originalSize: end - start });
+                const sent = Buffer.from(await blob.arrayBuffer());
+                expect(gunzipSync(sent).toString()).toBe(csv.slice(start, end));
+                wireBytes += blob.size;
+            }
+            expect(stats.uploadedBytes).toBe(csv.length);
+            expect(stats.wireBytes).toBe(wireBytes);
+            expect(stats.wireBytes).toBeLessThan(csv.length / 2);
+            expect(sizes[sizes.length - 1]).toBe(csv.length);
+
+            const form = forms()[0];
+            expect(form.get('compression')).toBe('gzip');
+            expect(form.get('originalSize')).toBe('5000');
+        });
+
+        test('should send already-compressed and incompressible data as it is', async () => {
+            const noise = new Uint8Array(4000);
+            for (let i = 0, state = 1; i < noise.length; i++) {
+                state = (Math.imul(state, 1103515245) + 12345) >>> 0;
+                noise[i] = state >>> 24;
+            }
+            const turbopush = new TurboPush({ endpoint: mockServer.getEndpoint(), compression: { codec: 'deflate' } });
+
+            const stats = await turbopush.addFiles([
+                new File([new Blob([csv])], 'chart.png', { type: 'image/png' }),
+                new File([new Blob([noise])], 'noise.bin')
+            ]).push();
+
+            expect(forms()).toHaveLength(2);
+            for (const form of forms()) {
+                expect(form.get('compression')).toBeNull();
+            }
+            expect(stats.wireBytes).toBe(stats.uploadedBytes);
+
+            const always = new TurboPush({ endpoint: mockServer.getEndpoint(), compression: { codec: 'deflate', skipCompressedTypes: false } });
+            await always.addFiles([new File([new Blob([csv])], 'chart.png', { type: 'image/png' })]).push();
+
+            expect(forms()[2].get('compression')).toBe('deflate');
+        });
+
+        test('should reject configurations that cannot compress', () => {
+            const plain: UploadTransport = {
+                uploadChunk: async () => undefined,
+                finalizeFile: async () => undefined
+            };
+
+            expect(() => new TurboPush({ endpoint: '/upload', compression: 'gzip', transport: plain }))
+                .toThrow('compression needs a transport that supports it');
+            expect(() => new TurboPush({ endpoint: '/upload', compression: 'brotli' as unknown as CompressionCodec }))
+                .toThrow('unknown compression codec: brotli');
+        });
+    });
+
+    describe('Encryption', () => {
+        const originalCrypto = globalThis.crypto;
+        const content = Array.from({ length: 300 }, (_, i) => `secret ${i}\n`).join('');
+        let keyProvider: () => Promise<{ id: string; key: CryptoKey }>;
+
+        beforeAll(async () => {
+            Object.defineProperty(globalThis, 'crypto', { value: webcrypto, configurable: true });
+            const key = await webcrypto.subtle.generateKey({ name: 'AES-KW', length: 256 }, false, ['wrapKey', 'unwrapKey']);
+            keyProvider = async () => ({ id: 'kek-1', key: key as unknown as CryptoKey });
+        });
+
+        afterAll(() => {
+            Object.defineProperty(globalThis, 'crypto', { value: originalCrypto, configurable: true });
+        });
+
+        test('should send only ciphertext and the header needed to decrypt it', async () => {
+            const transport = new HttpTransport();
+            const spy = jest.spyOn(transport, 'uploadChunk');
+            const turbopush = new TurboPush({
+                endpoint: mockServer.getEndpoint(),
+                chunkSize: 1000,
+                checksum: 'sha256',
+                transport,
+                encryption: { keyProvider }
+            });
+
+            const handle = turbopush.addFile(new File([new Blob([content])], 'notes.txt'));
+            const stats = await turbopush.push();
+            const result = await handle.promise;
+
+            const sent = [...spy.mock.calls]
+                .sort(([a], [b]) => a.chunk.index - b.chunk.index)
+                .map(([context]) => context);
+            const parts: Buffer[] = [];
+            for (const context of sent) {
+                expect(context.chunk.encrypted).toBe(true);
+                expect(context.chunk.blob.size).toBe(context.chunk.end - context.chunk.start + 16);
+                parts.push(Buffer.from(await context.chunk.blob.arrayBuffer()));
+            }
+            const stored = new Uint8Array(Buffer.concat(parts));
+            expect(Buffer.from(stored).includes('secret 1\n')).toBe(false);
+            expect(stats.uploadedBytes).toBe(content.length);
+            expect(stats.wireBytes).toBe(stored.length);
+
+            const decrypted = await decryptFile(stored, result.encryption!, keyProvider);
+            expect(Buffer.from(await decrypted.arrayBuffer()).toString()).toBe(content);
+
+            const finalize = JSON.parse(mockServer.getRequests()
+                .map(r => r.options?.body)
+                .find(body => typeof body === 'string' && body.includes('finalize')) as string);
+            expect(finalize.fileSize).toBe(stored.length);
+            expect(finalize.checksum).toBeUndefined();
+            expect(finalize.encryption).toEqual(result.encryption);
+            expect(result.checksum).toEqual(expect.any(String));
+        });
+
+        test('should fail the file when the key provider fails', async () => {
+            const turbopush = new TurboPush({
+                endpoint: mockServer.getEndpoint(),
+                encryption: { keyProvider: async () => { throw new Error('vault sealed'); } }
+            });
+
+            const handle = turbopush.addFile(new File([new Blob([content])], 'notes.txt'));
+            await turbopush.push().catch(() => undefined);
+
+            await expect(handle.promise).rejects.toMatchObject({ code: 'encryption', message: 'Key provider failed: vault sealed' });
+            expect(mockServer.getRequests()).toHaveLength(0);
+        });
+
+        test('should reject configurations that cannot encrypt', () => {
+            const plain: UploadTransport = {
+                uploadChunk: async () => undefined,
+                finalizeFile: async () => undefined
+            };
+
+            expect(() => new TurboPush({ endpoint: '/upload', encryption: { keyProvider }, transport: plain }))
+                .toThrow('encryption needs a transport that supports it');
+            expect(() => new TurboPush({ endpoint: '/upload', encryption: { keyProvider }, compression: 'gzip' }))
+                .toThrow('encryption cannot be combined with compression or dedup');
+            expect(() => new TurboPush({ endpoint: '/upload', encryption: {} as EncryptionOptions }))
+                .toThrow('encryption needs a keyProvider');
+        });
+    });
+
+    describe('Preprocessing', () => {
+        const upper: FileTransform = async (file) =>
+            new File([(await (file as File).text()).toUpperCase() + '!'], file.name.replace('.txt', '.TXT'));
+
+        test('should upload the transformed file, showing it as processing first', async () => {
+            const transport = new HttpTransport();
+            const spy = jest.spyOn(transport, 'uploadChunk');
+            const turbopush = new TurboPush({ endpoint: mockServer.getEndpoint(), chunkSize: 4, transport, preprocess: [upper] });
+
+            const statuses: string[] = [];
+            turbopush.onProgress(progress => statuses.push(progress[0].status));
+            const handle = turbopush.addFile(new File([new Blob(['hello world'])], 'notes.txt'));
+            const stats = await turbopush.push();
+            const result = await handle.promise;
+
+            expect(statuses[0]).toBe('processing');
+            expect(statuses).toContain('uploading');
+            expect(result).toMatchObject({ fileName: 'notes.TXT', fileSize: 12 });
+            expect(stats.totalBytes).toBe(12);
+            expect(stats.uploadedBytes).toBe(12);
+
+            const sent = await Promise.all([...spy.mock.calls]
+                .sort(([a], [b]) => a.chunk.index - b.chunk.index)
+                .map(([context]) => context.chunk.blob.text()));
+            expect(sent.join('')).toBe('HELLO WORLD!');
+            expect(spy.mock.calls[0][0].file.name).toBe('notes.TXT');
+        });
+
+        test('should process one file at a time', async () => {
+            let running = 0;
+            let maxRunning = 0;
+            const slow: FileTransform = async (file) => {
+                maxRunning = Math.max(maxRunning, ++running);
+                await new Promise(resolve => setTimeout(resolve, 20));
+                running--;
+                return file;
+            };
+            const turbopush = new TurboPush({ endpoint: mockServer.getEndpoint(), preprocess: [slow] });
+
+            const stats = await turbopush.addFiles([
+                new File([new Blob(['a'])], 'a.txt'),
+                new File([new Blob(['b'])], 'b.txt'),
+                new File([new Blob(['c'])], 'c.txt')
+            ]).push();
+
+            expect(maxRunning).toBe(1);
+            expect(stats.completedFiles).toBe(3);
+        });
+
+        test('should fail only the file whose transform fails', async () => {
+            const picky: FileTransform = async (file) => {
+                if (file.name === 'bad.txt') throw new Error('cannot decode');
+                return file;
+            };
+            const turbopush = new TurboPush({ endpoint: mockServer.getEndpoint(), preprocess: [picky] });
+            const onError = jest.fn();
+            turbopush.onError(onError);
+
+            const bad = turbopush.addFile(new File([new Blob(['x'])], 'bad.txt'));
+            const good = turbopush.addFile(new File([new Blob(['y'])], 'good.txt'));
+            const stats = await turbopush.push();
+
+            await expect(bad.promise).rejects.toMatchObject({ code: 'preprocess', message: 'Preprocessing failed: cannot decode' });
+            await expect(good.promise).resolves.toMatchObject({ fileName: 'good.txt' });
+            expect(stats).toMatchObject({ completedFiles: 1, failedFiles: 1 });
+            expect(onError).toHaveBeenCalledWith(expect.objectContaining({ code: 'preprocess' }), 'bad.txt', bad.fileId);
+            expect(turbopush.getProgress().find(p => p.fileId === bad.fileId)?.status).toBe('failed');
+        });
+    });
+
+    describe('Metadata', () => {
+        const metadata = { albumId: 42, tags: ['beach'], description: 'Sunset' };
+
+        /** FormData bodies of the chunk requests, in chunk order */
+        function chunkForms(): FormData[] {
+            return mockServer.getRequests()
+                .map(request => request.options?.body)
+                .filter((body): body is FormData => body instanceof FormData)
+                .sort((a, b) => Number(a.get('chunkIndex')) - Number(b.get('chunkIndex')));
+        }
+
+        /** Parsed body of the finalize request */
+        function finalizeBody(): Record<string, unknown> {
+            const request = mockServer.getRequests().find(r => typeof r.options?.body === 'string'
+                && JSON.parse(r.options.body as string).action === 'finalize');
+            return JSON.parse(request!.options!.body as string);
+        }
+
+        test('should send metadata with the first chunk and finalize, and get it back', async () => {
+            const turbopush = new TurboPush({ endpoint: mockServer.getEndpoint(), chunkSize: 4 });
+
+            const handle = turbopush.addFile(new File([new Blob(['0123456789'])], 'sunset.txt'), { metadata });
+            await turbopush.push();
+            const result = await handle.promise;
+
+            const forms = chunkForms();
+            expect(forms).toHaveLength(3);
+            expect(JSON.parse(forms[0].get('metadata') as string)).toEqual(metadata);
+            expect(forms[1].get('metadata')).toBeNull();
+            expect(finalizeBody().metadata).toEqual(metadata);
+            expect(result.response).toMatchObject({ fileName: 'sunset.txt', metadata });
+        });
+
+        test('should add fields from formFields to chunk and finalize requests', async () => {
+            const formFields = jest.fn<ReturnType<FormFieldsProvider>, Parameters<FormFieldsProvider>>(({ chunk }) => ({
+                folder: 'trips',
+                part: chunk ? String(chunk.index) : 'final',
+                fileId: 'overridden'
+            }));
+            const turbopush = new TurboPush({ endpoint: mockServer.getEndpoint(), chunkSize: 4, formFields });
+
+            const handle = turbopush.addFile(new File([new Blob(['0123456789'])], 'sunset.txt'), { metadata });
+            await turbopush.push();
+            await handle.promise;
+
+            const forms = chunkForms();
+            expect(forms.map(form => form.get('part'))).toEqual(['0', '1', '2']);
+            expect(forms.every(form => form.get('folder') === 'trips')).toBe(true);
+            expect(forms[0].getAll('fileId')).toEqual([handle.fileId]);
+            expect(finalizeBody()).toMatchObject({ action: 'finalize', folder: 'trips', part: 'final', fileId: handle.fileId });
+            expect(formFields).toHaveBeenCalledWith(expect.objectContaining({
+                fileId: handle.fileId,
+                metadata,
+                chunk: expect.objectContaining({ index: 0, attempt: 1 })
+            }));
+        });
+
+        test('should fail the file without retrying when formFields throws', async () => {
+            const formFields = jest.fn(() => { throw new Error('no folder selected'); });
+            const turbopush = new TurboPush({ endpoint: mockServer.getEndpoint(), formFields, retryDelay: 100 });
+
+            const handle = turbopush.addFile(new File([new Blob(['x'])], 'a.txt'));
+            const stats = await turbopush.push();
+
+            await expect(handle.promise).rejects.toMatchObject({
+                code: 'validation',
+                message: 'TurboPush: formFields failed: no folder selected'
+            });
+            expect(stats.failedFiles).toBe(1);
+            expect(formFields).toHaveBeenCalledTimes(1);
+            expect(mockServer.getRequests()).toHaveLength(0);
+        });
+    });
+
+    describe('Global Scheduling', () => {
+        function trackConcurrency(transport: HttpTransport): { max: number } {
+            const original = transport.uploadChunk.bind(transport);
+            const tracker = { max: 0 };
+            let inFlight = 0;
+
+            jest.spyOn(transport, 'uploadChunk').mockImplementation(async (context) => {
+                tracker.max = Math.max(tracker.max, ++inFlight);
+                try {
+                    await original(context);
+                } finally {
+                    inFlight--;
+                }
+            });
+            return tracker;
+        }
+
+        function files(): File[] {
+            return [
+                new File([new Blob(['a'.repeat(900)])], 'large.bin'),
+                new File([new Blob(['b'.repeat(300)])], 'small.bin'),
+                new File([new Blob(['c'.repeat(600)])], 'medium.bin')
+            ];
+        }
+
+        test('should cap concurrent requests across all files', async () => {
+            const transport = new HttpTransport();
+            const tracker = trackConcurrency(transport);
+            const turbopush = new TurboPush({
+                endpoint: mockServer.getEndpoint(),
+                chunkSize: 100,
+                maxConcurrentUploads: 3,
+                transport
+            });
+
+            const stats = await turbopush.addFiles(files()).push();
+
+            expect(stats.completedFiles).toBe(3);
+            expect(tracker.max).toBe(3);
+        });
+
+        test('should apply the per-file limit', async () => {
+            const transport = new HttpTransport();
+            const spy = jest.spyOn(transport, 'uploadChunk');
+            const turbopush = new TurboPush({
+                endpoint: mockServer.getEndpoint(),
+                chunkSize: 100,
+                maxConcurrentUploads: 4,
+                maxConcurrentUploadsPerFile: 2,
+                transport
+            });
+
+            await turbopush.addFiles(files()).push();
+
+            // The first four requests are shared by the first two files
+            const firstFiles = spy.mock.calls.slice(0, 4).map(([context]) => context.file.name);
+            expect(firstFiles.sort()).toEqual(['large.bin', 'large.bin', 'small.bin', 'small.bin']);
+        });
+
+        test('should give the connection to other files while a chunk backs off', async () => {
+            const transport = new HttpTransport();
+            const original = transport.uploadChunk.bind(transport);
+            const sent: string[] = [];
+            let failed = false;
+            jest.spyOn(transport, 'uploadChunk').mockImplementation(async (context) => {
+                sent.push(`${context.file.name}#${context.chunk.index}`);
+                if (context.file.name === 'flaky.bin' && !failed) {
+                    failed = true;
+                    throw new HttpError(503, 'Service Unavailable');
+                }
+                await original(context);
+            });
+            const turbopush = new TurboPush({
+                endpoint: mockServer.getEndpoint(),
+                chunkSize: 100,
+                maxConcurrentUploads: 1,
+                retryDelay: 400,
+                transport
+            });
+            turbopush.addFiles([
+                new File([new Blob(['f'.repeat(100)])], 'flaky.bin'),
+                new File([new Blob(['s'.repeat(300)])], 'steady.bin')
+            ]);
+
+            const completed: string[] = [];
+            const stats = await turbopush.onFileComplete(fileName => completed.push(fileName)).push();
+
+            expect(stats.completedFiles).toBe(2);
+            expect(sent).toEqual(['flaky.bin#0', 'steady.bin#0', 'steady.bin#1', 'steady.bin#2', 'flaky.bin#0']);
+            expect(completed).toEqual(['steady.bin', 'flaky.bin']);
+        });
+
+        test.each([
+            ['fifo', {}, ['large.bin', 'small.bin', 'medium.bin']],
+            ['smallest-first', {}, ['small.bin', 'medium.bin', 'large.bin']],
+            ['priority', { 'medium.bin': 5, 'small.bin': 1 }, ['medium.bin', 'small.bin', 'large.bin']]
+        ] as const)('should order files %s', async (fileOrder, priorities, expected) => {
+            const turbopush = new TurboPush({
+                endpoint: mockServer.getEndpoint(),
+                chunkSize: 100,
+                maxConcurrentUploads: 2,
+                fileOrder
+            });
+            for (const file of files()) {
+                turbopush.addFile(file, { priority: (priorities as Record<string, number>)[file.name] });
+            }
+
+            const completed: string[] = [];
+            await turbopush.onFileComplete(fileName => completed.push(fileName)).push();
+
+            expect(completed).toEqual(expected);
+        });
+    });
+
+    describe('Per-file Controls', () => {
+        function createUploader(): TurboPush {
+            return new TurboPush({
+                endpoint: mockServer.getEndpoint(),
+                chunkSize: 100,
+                maxConcurrentUploads: 2
+            });
+        }
+
+        function fileIdOf(turbopush: TurboPush, fileName: string): string {
+            return turbopush.getFileProgress(fileName)!.fileId;
+        }
+
+        test('should pause one file while the others finish', async () => {
+            const turbopush = createUploader()
+                .addFiles([
+                    new File([new Blob(['a'.repeat(500)])], 'paused.bin'),
+                    new File([new Blob(['b'.repeat(500)])], 'other.bin')
+                ]);
+            const pausedId = fileIdOf(turbopush, 'paused.bin');
+
+            const completed: string[] = [];
+            turbopush.onFileComplete(fileName => completed.push(fileName));
+            turbopush.pauseFile(pausedId);
+            const pushing = turbopush.push();
+
+            await new Promise(resolve => setTimeout(resolve, 300));
+            expect(completed).toEqual(['other.bin']);
+            expect(turbopush.getFileProgress('paused.bin')!.status).toBe('paused');
+
+            await turbopush.resumeFile(pausedId);
+            const stats = await pushing;
+
+            expect(completed).toEqual(['other.bin', 'paused.bin']);
+            expect(stats.completedFiles).toBe(2);
+        });
+
+        test('should continue a file paused mid-upload', async () => {
+            const turbopush = createUploader();
+            const { fileId } = turbopush.addFile(new File([new Blob(['a'.repeat(1000)])], 'file.bin'));
+
+            turbopush.onProgress(progress => {
+                if (progress[0].uploadedSize === 200) turbopush.pauseFile(fileId);
+            });
+            const pushing = turbopush.push();
+
+            await new Promise(resolve => setTimeout(resolve, 200));
+            const progress = turbopush.getFileProgress('file.bin')!;
+            expect(progress.status).toBe('paused');
+            expect(progress.uploadedSize).toBeLessThan(1000);
+
+            turbopush.resumeFile(fileId);
+            const stats = await pushing;
+
+            expect(stats.completedFiles).toBe(1);
+            expect(stats.uploadedBytes).toBe(1000);
+        });
+
+        test('should cancel one file and leave it out of the statistics', async () => {
+            const turbopush = createUploader()
+                .addFiles([
+                    new File([new Blob(['a'.repeat(1000)])], 'cancelled.bin'),
+                    new File([new Blob(['b'.repeat(300)])], 'kept.bin')
+                ]);
+            const cancelledId = fileIdOf(turbopush, 'cancelled.bin');
+
+            turbopush.onProgress(progress => {
+                if (progress[0].uploadedSize > 0) turbopush.cancelFile(cancelledId);
+            });
+            const stats = await turbopush.push();
+
+            expect(stats.totalFiles).toBe(1);
+            expect(stats.completedFiles).toBe(1);
+            expect(stats.failedFiles).toBe(0);
+            expect(stats.totalBytes).toBe(300);
+            expect(stats.uploadedBytes).toBe(300);
+
+            const cancelled = turbopush.getFileProgress('cancelled.bin')!;
+            expect(cancelled.status).toBe('cancelled');
+            expect(cancelled.uploadedSize).toBe(0);
+        });
+
+        test('should remove files from the queue', async () => {
+            const turbopush = createUploader()
+                .addFiles([
+                    new File([new Blob(['a'.repeat(300)])], 'removed.bin'),
+                    new File([new Blob(['b'.repeat(300)])], 'kept.bin')
+                ]);
+
+            turbopush.removeFile(fileIdOf(turbopush, 'removed.bin'));
+            expect(turbopush.getQueueSize()).toBe(1);
+
+            const stats = await turbopush.push();
+
+            expect(stats.totalFiles).toBe(1);
+            expect(stats.completedFiles).toBe(1);
+            expect(turbopush.getFileProgress('removed.bin')).toBeUndefined();
+        });
+
+        test('should reorder the queue', async () => {
+            const turbopush = new TurboPush({
+                endpoint: mockServer.getEndpoint(),
+                chunkSize: 100,
+                maxConcurrentUploads: 1,
+                fileOrder: 'priority'
+            });
+            turbopush.addFiles([
+                new File([new Blob(['a'.repeat(300)])], 'first.bin'),
+                new File([new Blob(['b'.repeat(300)])], 'second.bin'),
+                new File([new Blob(['c'.repeat(300)])], 'third.bin')
+            ]);
+            turbopush
+                .setPriority(fileIdOf(turbopush, 'second.bin'), 5)
+                .moveToFront(fileIdOf(turbopush, 'third.bin'));
+
+            const completed: string[] = [];
+            await turbopush.onFileComplete(fileName => completed.push(fileName)).push();
+
+            expect(completed).toEqual(['second.bin', 'third.bin', 'first.bin']);
+        });
+    });
+
+    describe('Bandwidth Throttling', () => {
+        test('should hold uploads to the configured rate', async () => {
+            const turbopush = new TurboPush({
+                endpoint: mockServer.getEndpoint(),
+                chunkSize: 100,
+                maxBytesPerSecond: 1000
+            });
+
+            const speeds: number[] = [];
+            turbopush
+                .addFiles([new File([new Blob(['a'.repeat(2000)])], 'throttled.bin')])
+                .onProgress(progress => speeds.push(progress[0].speed));
+            const stats = await turbopush.push();
+
+            // The first second of bytes goes at once, the rest at 1000 B/s
+            expect(stats.completedFiles).toBe(1);
+            expect(stats.duration).toBeGreaterThanOrEqual(0.9);
+            expect(speeds[speeds.length - 1]).toBeGreaterThan(500);
+            expect(speeds[speeds.length - 1]).toBeLessThan(1500);
+        });
+
+        test('should apply a rate changed during the upload', async () => {
+            const turbopush = new TurboPush({
+                endpoint: mockServer.getEndpoint(),
+                chunkSize: 100,
+                maxBytesPerSecond: 100
+            });
+            turbopush.addFile(new File([new Blob(['a'.repeat(1000)])], 'throttled.bin'));
+
+            const pushing = turbopush.push();
+            await new Promise(resolve => setTimeout(resolve, 200));
+            expect(turbopush.getStats().uploadedBytes).toBeLessThan(1000);
+
+            turbopush.setMaxBytesPerSecond(0);
+            const stats = await pushing;
+
+            // 100 B/s would have taken 9 seconds
+            expect(stats.completedFiles).toBe(1);
+            expect(stats.duration).toBeLessThan(2);
+        });
+    });
+
+    describe('Events', () => {
+        test('should emit the upload lifecycle in order', async () => {
+            const turbopush = new TurboPush({
+                endpoint: mockServer.getEndpoint(),
+                chunkSize: 500,
+                maxConcurrentUploads: 1
+            });
+
+            const events: string[] = [];
+            turbopush.on('fileAdded', fileName => events.push(`fileAdded ${fileName}`));
+            turbopush.on('fileStarted', fileName => events.push(`fileStarted ${fileName}`));
+            turbopush.on('chunkStarted', (fileName, fileId, chunk) => events.push(`chunkStarted ${chunk.index}`));
+            turbopush.on('chunkUploaded', (fileName, fileId, chunk) => events.push(`chunkUploaded ${chunk.index}`));
+            turbopush.on('finalizing', fileName => events.push(`finalizing ${fileName}`));
+            turbopush.on('fileComplete', fileName => events.push(`fileComplete ${fileName}`));
+            turbopush.on('complete', stats => events.push(`complete ${stats.completedFiles}`));
+
+            turbopush.addFile(new File([new Blob(['a'.repeat(1000)])], 'file.bin'));
+            await turbopush.push();
+
+            expect(events).toEqual([
+                'fileAdded file.bin',
+                'fileStarted file.bin',
+                'chunkStarted 0',
+                'chunkUploaded 0',
+                'chunkStarted 1',
+                'chunkUploaded 1',
+                'finalizing file.bin',
+                'fileComplete file.bin',
+                'complete 1'
+            ]);
+        });
+
+        test('should emit chunkRetry with the failed attempt', async () => {
+            mockServer.simulateIntermittentFailures(1);
+            const turbopush = new TurboPush({
+                endpoint: mockServer.getEndpoint(),
+                chunkSize: 1000,
+                retryDelay: 100
+            });
+
+            const retry = jest.fn();
+            const started: number[] = [];
+            turbopush.on('chunkRetry', retry);
+            turbopush.on('chunkStarted', (fileName, fileId, chunk) => started.push(chunk.attempt));
+            await turbopush.addFiles([new File([new Blob(['a'.repeat(1000)])], 'file.bin')]).push();
+
+            expect(retry).toHaveBeenCalledTimes(1);
+            const [fileName, , chunk, error] = retry.mock.calls[0];
+            expect(fileName).toBe('file.bin');
+            expect(chunk).toEqual({ index: 0, start: 0, end: 1000, attempt: 1 });
+            expect(error).toBeInstanceOf(Error);
+            expect(started).toEqual([1, 2]);
+        });
+
+        test('should keep every listener of an event', async () => {
+            const turbopush = new TurboPush({
+                endpoint: mockServer.getEndpoint(),
+                chunkSize: 500
+            });
+
+            const ui = jest.fn();
+            const analytics = jest.fn();
+            const removed = jest.fn();
+            turbopush.onComplete(ui).onComplete(analytics).onComplete(removed);
+            turbopush.off('complete', removed);
+
+            await turbopush.addFiles([new File([new Blob(['a'.repeat(1000)])], 'file.bin')]).push();
+
+            expect(ui).toHaveBeenCalledTimes(1);
+            expect(analytics).toHaveBeenCalledTimes(1);
+            expect(removed).not.toHaveBeenCalled();
+        });
+
+        test('should emit paused, resumed and cancelled', () => {
+            const turbopush = new TurboPush({ endpoint: mockServer.getEndpoint() });
+            turbopush.addFile(new File([new Blob(['a'.repeat(1000)])], 'file.bin'));
+            const { fileId } = turbopush.getProgress()[0];
+
+            const events: Array<[string, string | undefined]> = [];
+            turbopush.on('paused', id => events.push(['paused', id]));
+            turbopush.on('resumed', id => events.push(['resumed', id]));
+            turbopush.on('cancelled', id => events.push(['cancelled', id]));
+
+            turbopush.pauseFile(fileId);
+            turbopush.pauseFile(fileId);
+            turbopush.pause();
+            turbopush.resumeFile(fileId);   // Still held by pause()
+            turbopush.cancelFile(fileId);
+            turbopush.resume();
+            turbopush.cancel();
+
+            expect(events).toEqual([
+                ['paused', fileId],
+                ['paused', undefined],
+                ['cancelled', fileId],
+                ['resumed', undefined],
+                ['cancelled', undefined]
+            ]);
+        });
+    });
+
+    describe('Upload Handles', () => {
+        test('should resolve with the server finalize payload', async () => {
+            const turbopush = new TurboPush({
+                endpoint: mockServer.getEndpoint(),
+                chunkSize: 500
+            });
+
+            const first = turbopush.addFile(new File([new Blob(['a'.repeat(1000)])], 'photo.jpg'));
+            const second = turbopush.addFile(new File([new Blob(['b'.repeat(600)])], 'photo.jpg'));
+            expect(first.fileId).not.toBe(second.fileId);
+            expect(first.file.name).toBe('photo.jpg');
+
+            turbopush.push();
+            const [firstResult, secondResult] = await Promise.all([first.promise, second.promise]);
+
+            expect(firstResult).toEqual(expect.objectContaining({
+                fileId: first.fileId,
+                fileName: 'photo.jpg',
+                fileSize: 1000,
+                response: { fileName: 'photo.jpg', fileSize: 1000 }
+            }));
+
+            // The server renamed the second file
+            expect(secondResult.response).toEqual({
+                fileName: expect.stringMatching(/^photo_\d+\.jpg$/),
+                fileSize: 600
+            });
+            expect(turbopush.getProgress()[1].response).toBe(secondResult.response);
+        });
+
+        test('should pass the payload to onFileComplete', async () => {
+            const turbopush = new TurboPush({ endpoint: mockServer.getEndpoint() });
+            const completeCallback = jest.fn();
+
+            await turbopush.addFiles([new File([new Blob(['a'.repeat(100)])], 'doc.pdf')])
+                .onFileComplete(completeCallback)
+                .push();
+
+            const [, , result] = completeCallback.mock.calls[0];
+            expect(result.response).toEqual({ fileName: 'doc.pdf', fileSize: 100 });
+        });
+
+        test('should reject when the file fails', async () => {
+            mockServer.simulateIntermittentFailures(10);
+            const turbopush = new TurboPush({
+                endpoint: mockServer.getEndpoint(),
+                maxRetries: 1,
+                retryDelay: 100
+            });
+
+            const { promise } = turbopush.addFile(new File([new Blob(['a'.repeat(100)])], 'doc.pdf'));
+            await turbopush.push();
+
+            await expect(promise).rejects.toThrow('Simulated failure');
+        });
+
+        test('should reject when the file is cancelled or removed', async () => {
+            const turbopush = new TurboPush({ endpoint: mockServer.getEndpoint() });
+            const cancelled = turbopush.addFile(new File([new Blob(['a'.repeat(100)])], 'a.txt'));
+            const removed = turbopush.addFile(new File([new Blob(['b'.repeat(100)])], 'b.txt'));
+            const queueCancelled = turbopush.addFile(new File([new Blob(['c'.repeat(100)])], 'c.txt'));
+
+            turbopush.cancelFile(cancelled.fileId);
+            turbopush.removeFile(removed.fileId);
+            turbopush.cancel();
+
+            await expect(cancelled.promise).rejects.toThrow('TurboPush: upload cancelled');
+            await expect(removed.promise).rejects.toThrow('TurboPush: file removed');
+            await expect(queueCancelled.promise).rejects.toThrow('TurboPush: upload cancelled');
+            for (const { promise } of [cancelled, removed, queueCancelled]) {
+                await expect(promise).rejects.toBeInstanceOf(AbortedError);
+                await expect(promise).rejects.toMatchObject({ code: 'aborted' });
+            }
+        });
+    });
+
+    describe('Validation', () => {
+        test('should reject violating files before uploading them', async () => {
+            const turbopush = new TurboPush({
+                endpoint: mockServer.getEndpoint(),
+                validation: { maxFileSize: 500, allowedExtensions: ['txt'] }
+            });
+            const rejectedCallback = jest.fn();
+            turbopush.on('fileRejected', rejectedCallback);
+
+            const valid = turbopush.addFile(new File([new Blob(['a'.repeat(500)])], 'ok.txt'));
+            const tooLarge = turbopush.addFile(new File([new Blob(['b'.repeat(501)])], 'big.txt'));
+            const wrongType = turbopush.addFile(new File([new Blob(['c'])], 'script.exe'));
+
+            await expect(tooLarge.promise).rejects.toMatchObject({ rule: 'file-too-large' });
+            await expect(wrongType.promise).rejects.toMatchObject({ rule: 'extension-not-allowed' });
+            expect(rejectedCallback).toHaveBeenCalledTimes(2);
+            expect(rejectedCallback).toHaveBeenCalledWith('big.txt', tooLarge.fileId, expect.any(FileValidationError));
+            expect(turbopush.getProgress().map(progress => progress.fileName)).toEqual(['ok.txt']);
+            expect(turbopush.getStats().totalBytes).toBe(500);
+
+            await turbopush.push();
+            await expect(valid.promise).resolves.toMatchObject({ fileName: 'ok.txt' });
+            expect(mockServer.getRequests()).toHaveLength(2); // One chunk and the finalize request
+        });
+
+        test('should count queued files towards the queue limits', async () => {
+            const turbopush = new TurboPush({
+                endpoint: mockServer.getEndpoint(),
+                validation: { maxFiles: 2, maxTotalSize: 300 }
+            });
+
+            const first = turbopush.addFile(new File([new Blob(['a'.repeat(100)])], 'a.txt'));
+            const tooLarge = turbopush.addFile(new File([new Blob(['b'.repeat(250)])], 'b.txt'));
+            turbopush.addFile(new File([new Blob(['c'.repeat(100)])], 'c.txt'));
+            const tooMany = turbopush.addFile(new File([new Blob(['d'])], 'd.txt'));
+
+            await expect(tooLarge.promise).rejects.toMatchObject({ rule: 'total-size-exceeded' });
+            await expect(tooMany.promise).rejects.toMatchObject({ rule: 'too-many-files' });
+
+            // Cancelled files no longer count
+            turbopush.cancelFile(first.fileId);
+            turbopush.addFile(new File([new Blob(['e'])], 'e.txt'));
+
+            expect(turbopush.getProgress().filter(progress => progress.status !== 'cancelled')
+                .map(progress => progress.fileName)).toEqual(['c.txt', 'e.txt']);
+        });
+
+        test('should remove files rejected by async validators before uploading', async () => {
+            const turbopush = new TurboPush({
+                endpoint: mockServer.getEndpoint(),
+                validation: {
+                    validators: [async (file) => {
+                        await new Promise(resolve => setTimeout(resolve, 20));
+                        if (file.name.startsWith('small')) return 'image must be at least 800px wide';
+                    }]
+                }
+            });
+            const rejectedCallback = jest.fn();
+            turbopush.on('fileRejected', rejectedCallback);
+
+            const wide = turbopush.addFile(new File([new Blob(['a'.repeat(100)])], 'wide.png'));
+            const small = turbopush.addFile(new File([new Blob(['b'.repeat(100)])], 'small.png'));
+            expect(turbopush.getProgress()).toHaveLength(2);
+
+            const stats = await turbopush.push();
+
+            await expect(small.promise).rejects.toThrow('TurboPush: small.png was rejected: image must be at least 800px wide');
+            await expect(wide.promise).resolves.toMatchObject({ fileName: 'wide.png' });
+            expect(rejectedCallback).toHaveBeenCalledWith('small.png', small.fileId, expect.objectContaining({ code: 'validation', rule: 'custom' }));
+            expect(turbopush.getProgress().map(progress => progress.fileName)).toEqual(['wide.png']);
+            expect(stats.totalFiles).toBe(1);
+            expect(mockServer.getRequests()).toHaveLength(2);
+        });
+    });
+
+    describe('Offline Detection', () => {
+        /** Connectivity source switched by the test */
+        class ManualConnectivity implements ConnectivitySource {
+            online = true;
+            private listeners = new Set<(online: boolean) => void>();
+
+            async isOnline(): Promise<boolean> {
+                return this.online;
+            }
+
+            subscribe(listener: (online: boolean) => void): () => void {
+                this.listeners.add(listener);
+                return () => this.listeners.delete(listener);
+            }
+
+            set(online: boolean): void {
+                this.online = online;
+                this.listeners.forEach(listener => listener(online));
+            }
+        }
+
+        test('should wait offline and resume on reconnect', async () => {
+            const connectivity = new ManualConnectivity();
+            const turbopush = new TurboPush({
+                endpoint: mockServer.getEndpoint(),
+                chunkSize: 100,
+                maxConcurrentUploads: 1,
+                connectivity
+            });
+            const events: string[] = [];
+            const retryCallback = jest.fn();
+            turbopush.on('offline', () => events.push('offline'));
+            turbopush.on('online', () => events.push('online'));
+            turbopush.on('chunkRetry', retryCallback);
+            turbopush.once('chunkStarted', () => connectivity.set(false));
+            turbopush.addFiles([new File([new Blob(['x'.repeat(500)])], 'offline.txt')]);
+
+            const pushPromise = turbopush.push();
+            await new Promise(resolve => setTimeout(resolve, 50));
+
+            expect(turbopush.isOfflineState()).toBe(true);
+            expect(turbopush.getProgress()[0].status).toBe('offline');
+
+            // The request in flight was aborted and no new one was sent
+            const requests = mockServer.getRequests();
+            expect(requests).toHaveLength(1);
+            expect(requests[0].options?.signal?.aborted).toBe(true);
+
+            connectivity.set(true);
+            const stats = await pushPromise;
+
+            expect(stats.completedFiles).toBe(1);
+            expect(events).toEqual(['offline', 'online']);
+            expect(retryCallback).not.toHaveBeenCalled();
+        });
+
+        test('should check connectivity on network errors before retrying', async () => {
+            const connectivity = new ManualConnectivity();
+            const turbopush = new TurboPush({
+                endpoint: mockServer.getEndpoint(),
+                maxRetries: 0,
+                connectivity
+            });
+            const errorCallback = jest.fn();
+            turbopush.addFiles([new File([new Blob(['x'.repeat(100)])], 'flaky.txt')]).onError(errorCallback);
+
+            // The connection drops without an event; the request fails
+            mockServer.simulateIntermittentFailures(1);
+            turbopush.once('chunkStarted', () => { connectivity.online = false; });
+            turbopush.once('offline', () => setTimeout(() => connectivity.set(true), 20));
+
+            const stats = await turbopush.push();
+
+            expect(stats.completedFiles).toBe(1);
+            expect(errorCallback).not.toHaveBeenCalled();
+        });
+
+        test('should start offline when the source reports so', async () => {
+            const connectivity = new ManualConnectivity();
+            connectivity.online = false;
+            const turbopush = new TurboPush({ endpoint: mockServer.getEndpoint(), connectivity });
+            turbopush.addFiles([new File([new Blob(['x'.repeat(100)])], 'later.txt')]);
+
+            const pushPromise = turbopush.push();
+            await new Promise(resolve => setTimeout(resolve, 30));
+
+            expect(turbopush.getProgress()[0].status).toBe('offline');
+            expect(mockServer.getRequests()).toHaveLength(0);
+
+            connectivity.set(true);
+            expect((await pushPromise).completedFiles).toBe(1);
+        });
+    });
+
+    describe('Node.js Inputs', () => {
+        /** Transport keeping the bytes of every chunk */
+        function collectingTransport(received: string[]): UploadTransport {
+            return {
+                uploadChunk: async ({ chunk }) => {
+                    received[chunk.index] = await chunk.blob.text();
+                },
+                finalizeFile: async ({ file, totalChunks }) => ({ fileSize: file.size, totalChunks })
+            };
+        }
+
+        test('should upload a file from disk in chunks', async () => {
+            const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'turbopush-'));
+            const filePath = path.join(dir, 'report.csv');
+            fs.writeFileSync(filePath, 'a,b\n1,2\n3,4\n');
+
+            try {
+                const received: string[] = [];
+                const turbopush = new TurboPush({
+                    endpoint: mockServer.getEndpoint(),
+                    chunkSize: 4,
+                    transport: collectingTransport(received)
+                });
+
+                const { promise } = turbopush.addFile(await fromPath(filePath));
+                await turbopush.push();
+
+                expect(received.join('')).toBe('a,b\n1,2\n3,4\n');
+                expect((await promise).response).toEqual({ fileSize: 12, totalChunks: 3 });
+            } finally {
+                fs.rmSync(dir, { recursive: true, force: true });
+            }
+        });
+
+        test('should chunk a stream of unknown length as it arrives', async () => {
+            const received: string[] = [];
+            const turbopush = new TurboPush({
+                endpoint: mockServer.getEndpoint(),
+                chunkSize: 4,
+                transport: collectingTransport(received)
+            });
+
+            const source = fromStream(Readable.from(['abc', 'defgh', 'ij'].map(part => Buffer.from(part))), 'log.txt');
+            const { promise } = turbopush.addFile(source);
+            await turbopush.push();
+
+            expect(received).toEqual(['abcd', 'efgh', 'ij']);
+            expect((await promise).response).toEqual({ fileSize: 10, totalChunks: 3 });
+            expect(turbopush.getProgress()[0]).toEqual(expect.objectContaining({ totalSize: 10, percentage: 100 }));
+        });
+
+        test('should not send an empty chunk when a stream ends at a chunk boundary', async () => {
+            const turbopush = new TurboPush({ endpoint: mockServer.getEndpoint(), chunkSize: 4 });
+
+            const source = fromStream(Readable.from([Buffer.from('abcdefgh')]), 'even.txt');
+            const { promise } = turbopush.addFile(source);
+            await turbopush.push();
+
+            expect((await promise).fileSize).toBe(8);
+            const chunkUploads = mockServer.getRequests().filter(r => r.options?.body instanceof FormData);
+            expect(chunkUploads).toHaveLength(2);
+        });
+
+        test('should hash a stream while reading it', async () => {
+            const turbopush = new TurboPush({ endpoint: mockServer.getEndpoint(), chunkSize: 2, checksum: 'sha256' });
+
+            const { promise } = turbopush.addFile(fromStream(Readable.from([Buffer.from('abc')]), 'abc.txt'));
+            await turbopush.push();
+
+            expect((await promise).checksum).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+        });
+
+        test('should fail the file with a read error when the stream breaks', async () => {
+            async function* broken() {
+                yield Buffer.from('abcd');
+                throw new Error('disk unplugged');
+            }
+            const turbopush = new TurboPush({ endpoint: mockServer.getEndpoint(), chunkSize: 4 });
+
+            const { promise } = turbopush.addFile(fromStream(broken(), 'broken.bin'));
+            await turbopush.push();
+
+            await expect(promise).rejects.toMatchObject({ code: 'read', message: 'disk unplugged' });
+            expect(turbopush.getStats().failedFiles).toBe(1);
+        });
+    });
 });
 
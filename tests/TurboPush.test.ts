@@ -4,6 +4,7 @@
 
 import { TurboPush } from '../TurboPush';
 import type { TurboPushConfig, UploadProgress, UploadStats } from '../TurboPush';
+import { TurboPushError } from '../TurboPushErrors';
 
 global.fetch = jest.fn();
 
@@ -79,7 +80,7 @@ describe('TurboPush', () => {
 
         test('should chain method calls', () => {
             const result = turbopush
-                .addFile(mockFile)
+                .addFiles([mockFile])
                 .setChunkSize(512 * 1024)
                 .setMaxRetries(5);
             expect(result).toBe(turbopush);
@@ -126,7 +127,7 @@ describe('TurboPush', () => {
 
         test('should call complete callback after upload', async () => {
             const completeCallback = jest.fn();
-            turbopush.addFile(mockFile).onComplete(completeCallback);
+            turbopush.addFiles([mockFile]).onComplete(completeCallback);
             await turbopush.push();
             expect(completeCallback).toHaveBeenCalledWith(
                 expect.objectContaining({
@@ -158,7 +159,7 @@ describe('TurboPush', () => {
         test('should handle network errors', async () => {
             (global.fetch as jest.Mock).mockRejectedValue(new Error('Network error'));
             const errorCallback = jest.fn();
-            turbopush.addFile(mockFile).onError(errorCallback);
+            turbopush.addFiles([mockFile]).onError(errorCallback);
 
             await turbopush.push();
 
@@ -174,7 +175,7 @@ describe('TurboPush', () => {
                 statusText: 'Internal Server Error'
             });
             const errorCallback = jest.fn();
-            turbopush.addFile(mockFile).onError(errorCallback);
+            turbopush.addFiles([mockFile]).onError(errorCallback);
 
             await turbopush.push();
 
@@ -182,6 +183,222 @@ describe('TurboPush', () => {
             const stats = turbopush.getStats();
             expect(stats.failedFiles).toBe(1);
         }, 10000); // 10 second timeout for this test
+
+        test('should report typed errors with chunk and attempt', async () => {
+            (global.fetch as jest.Mock).mockRejectedValue(new TypeError('Failed to fetch'));
+            const retryCallback = jest.fn();
+            const { promise } = turbopush.addFile(mockFile);
+            turbopush.on('chunkRetry', retryCallback);
+
+            await turbopush.push();
+
+            await expect(promise).rejects.toMatchObject({
+                name: 'NetworkError',
+                code: 'network',
+                message: 'Failed to fetch',
+                chunkIndex: 0,
+                attempt: 2
+            });
+            expect(retryCallback.mock.calls[0][3]).toBeInstanceOf(TurboPushError);
+            expect(global.fetch).toHaveBeenCalledTimes(2);
+        });
+
+        test('should fail fast on permanent HTTP errors', async () => {
+            (global.fetch as jest.Mock).mockResolvedValue({
+                ok: false,
+                status: 413,
+                statusText: 'Payload Too Large',
+                json: async () => ({ success: false, message: 'File too large' })
+            });
+            const { promise } = turbopush.addFile(mockFile);
+
+            await turbopush.push();
+
+            await expect(promise).rejects.toMatchObject({ code: 'http-4xx', status: 413, attempt: 1 });
+            expect(turbopush.getProgress()[0].error).toBe('HTTP 413: Payload Too Large');
+            expect(global.fetch).toHaveBeenCalledTimes(1);
+        });
+
+        test('should not wait for chunks left unsent after a failure', async () => {
+            (global.fetch as jest.Mock).mockResolvedValue({ ok: false, status: 413, statusText: 'Payload Too Large' });
+            turbopush = new TurboPush({ endpoint: '/upload', chunkSize: 2, maxConcurrentUploads: 1 });
+            const { promise } = turbopush.addFile(new File([new Blob(['0123456789'])], 'five-chunks.txt'));
+
+            await turbopush.push();
+
+            await expect(promise).rejects.toMatchObject({ status: 413, chunkIndex: 0 });
+            expect(global.fetch).toHaveBeenCalledTimes(1);
+        });
+
+        test('should let shouldRetry decide what is retried', async () => {
+            (global.fetch as jest.Mock)
+                .mockResolvedValueOnce({ ok: false, status: 400, statusText: 'Bad Request' })
+                .mockResolvedValue({ ok: true, json: async () => ({ success: true }) });
+            const shouldRetry = jest.fn((error: TurboPushError) => error.status === 400);
+
+            turbopush = new TurboPush({ endpoint: '/upload', chunkSize: 100, retryDelay: 10, shouldRetry });
+            turbopush.addFile(mockFile);
+            const stats = await turbopush.push();
+
+            expect(stats.completedFiles).toBe(1);
+            expect(shouldRetry).toHaveBeenCalledWith(expect.objectContaining({ code: 'http-4xx', chunkIndex: 0 }));
+        });
+
+        test('should report requests exceeding the timeout as timeouts', async () => {
+            jest.useFakeTimers();
+            try {
+                (global.fetch as jest.Mock).mockImplementation((_url, options) => new Promise((_resolve, reject) => {
+                    options.signal?.addEventListener('abort', () => {
+                        const error = new Error('The operation was aborted');
+                        error.name = 'AbortError';
+                        reject(error);
+                    });
+                }));
+                turbopush = new TurboPush({ endpoint: '/upload', timeout: 5000, shouldRetry: () => false });
+                const { promise } = turbopush.addFile(mockFile);
+
+                const pushPromise = turbopush.push();
+                await jest.advanceTimersByTimeAsync(5000);
+                await pushPromise;
+
+                await expect(promise).rejects.toMatchObject({ name: 'TimeoutError', code: 'timeout', message: 'Upload timeout' });
+            } finally {
+                jest.useRealTimers();
+            }
+        });
+
+        test('should not retry when maxRetries is 0', async () => {
+            (global.fetch as jest.Mock).mockRejectedValue(new TypeError('Failed to fetch'));
+            turbopush = new TurboPush({ endpoint: '/upload', maxRetries: 0 });
+            turbopush.addFile(mockFile);
+
+            const stats = await turbopush.push();
+
+            expect(stats.failedFiles).toBe(1);
+            expect(global.fetch).toHaveBeenCalledTimes(1);
+        });
+
+        test('should fail on a retryable response at once when maxRetries is 0', async () => {
+            (global.fetch as jest.Mock).mockResolvedValue({
+                ok: false,
+                status: 503,
+                statusText: 'Service Unavailable',
+                headers: { get: () => null }
+            });
+            const retryCallback = jest.fn();
+            const errorCallback = jest.fn();
+            turbopush = new TurboPush({ endpoint: '/upload', maxRetries: 0, retryDelay: 10 });
+            turbopush.addFiles([mockFile]).onError(errorCallback).on('chunkRetry', retryCallback);
+
+            const stats = await turbopush.push();
+
+            expect(stats.failedFiles).toBe(1);
+            expect(global.fetch).toHaveBeenCalledTimes(1);
+            expect(retryCallback).not.toHaveBeenCalled();
+            expect(errorCallback.mock.calls[0][0]).toMatchObject({ code: 'http-5xx' });
+        });
+
+        test('should wait as long as Retry-After asks', async () => {
+            (global.fetch as jest.Mock)
+                .mockResolvedValueOnce({
+                    ok: false,
+                    status: 503,
+                    statusText: 'Service Unavailable',
+                    headers: { get: (name: string) => name === 'Retry-After' ? '1' : null }
+                })
+                .mockResolvedValue({ ok: true, json: async () => ({ success: true }) });
+            const retryCallback = jest.fn();
+            turbopush = new TurboPush({ endpoint: '/upload', retryDelay: 100 });
+            turbopush.addFiles([mockFile]).on('chunkRetry', retryCallback);
+
+            const started = Date.now();
+            const stats = await turbopush.push();
+
+            expect(stats.completedFiles).toBe(1);
+            expect(retryCallback.mock.calls[0][3]).toMatchObject({ code: 'http-5xx', retryAfter: 1000 });
+            expect(Date.now() - started).toBeGreaterThanOrEqual(1000);
+        });
+
+        test('should pause the queue when the circuit breaker opens', async () => {
+            (global.fetch as jest.Mock).mockRejectedValue(new TypeError('Failed to fetch'));
+            turbopush = new TurboPush({
+                endpoint: '/upload',
+                chunkSize: 10,
+                maxConcurrentUploads: 1,
+                maxRetries: 10,
+                retryDelay: 100,
+                retryPolicy: { circuitBreaker: { threshold: 2, cooldown: 0 } }
+            });
+            const circuitCallback = jest.fn();
+            const pausedCallback = jest.fn();
+            const errorCallback = jest.fn();
+            turbopush.addFiles([mockFile]).onError(errorCallback);
+            turbopush.on('circuitOpened', circuitCallback);
+            turbopush.on('paused', pausedCallback);
+
+            const pushPromise = turbopush.push();
+            while (circuitCallback.mock.calls.length === 0) {
+                await new Promise(resolve => setTimeout(resolve, 10));
+            }
+
+            expect(circuitCallback).toHaveBeenCalledWith(expect.objectContaining({ code: 'network' }), 0);
+            expect(pausedCallback).toHaveBeenCalledWith();
+            expect(turbopush.getProgress()[0].status).toBe('paused');
+            expect(global.fetch).toHaveBeenCalledTimes(2);
+
+            // Recovered: resuming uploads the chunks, including the ones that failed
+            (global.fetch as jest.Mock).mockResolvedValue({ ok: true, json: async () => ({ success: true }) });
+            await turbopush.resume();
+            const stats = await pushPromise;
+
+            expect(stats.completedFiles).toBe(1);
+            expect(errorCallback).not.toHaveBeenCalled();
+        });
+
+        test('should not report a pause as a failure', async () => {
+            (global.fetch as jest.Mock).mockImplementation((_url, options) => new Promise((_resolve, reject) => {
+                options.signal?.addEventListener('abort', () => {
+                    const error = new Error('The operation was aborted');
+                    error.name = 'AbortError';
+                    reject(error);
+                });
+            }));
+            const retryCallback = jest.fn();
+            const errorCallback = jest.fn();
+            turbopush.addFiles([mockFile]).onError(errorCallback).on('chunkRetry', retryCallback);
+
+            const pushPromise = turbopush.push();
+            await new Promise(resolve => setTimeout(resolve, 20));
+            turbopush.pause();
+            await new Promise(resolve => setTimeout(resolve, 20));
+
+            expect(turbopush.getProgress()[0].status).toBe('paused');
+            expect(retryCallback).not.toHaveBeenCalled();
+            expect(errorCallback).not.toHaveBeenCalled();
+
+            turbopush.cancel();
+            await pushPromise;
+        });
+    });
+
+    describe('Server Status Query', () => {
+        test('should upload every chunk when the status query fails', async () => {
+            (global.fetch as jest.Mock).mockImplementation(async (_url, options) => {
+                if (typeof options.body === 'string' && JSON.parse(options.body).action === 'status') {
+                    return { ok: false, status: 400, statusText: 'Bad Request' };
+                }
+                return { ok: true, json: async () => ({ success: true }) };
+            });
+
+            turbopush = new TurboPush({ endpoint: '/upload', chunkSize: 100, checkServerStatus: true });
+            turbopush.addFile(mockFile);
+            const stats = await turbopush.push();
+
+            expect(stats.completedFiles).toBe(1);
+            const chunkCalls = (global.fetch as jest.Mock).mock.calls
+                .filter(([, options]) => typeof options.body !== 'string');
+            expect(chunkCalls).toHaveLength(1);
+        });
     });
 
     describe('Pause and Resume', () => {
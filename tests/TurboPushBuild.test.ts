@@ -0,0 +1,116 @@
+/**
+ * Smoke Tests for the built package, run by Node as published
+ */
+
+import { spawnSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+const root = path.join(__dirname, '..');
+const packageJson = JSON.parse(fs.readFileSync(path.join(root, 'package.json'), 'utf8'));
+
+describe('Built package', () => {
+    let dir: string;
+
+    /** Runs Node on the built package, like an installed one */
+    function node(args: string[]): { status: number | null; stdout: string; stderr: string } {
+        const result = spawnSync(process.execPath, args, { cwd: dir, encoding: 'utf8', timeout: 30000 });
+        return { status: result.status, stdout: result.stdout, stderr: result.stderr };
+    }
+
+    /** Runs an ES module script in the build directory, which imports `./dist/...` */
+    function script(source: string): { status: number | null; stdout: string; stderr: string } {
+        return node(['--input-type=module', '-e', source]);
+    }
+
+    beforeAll(() => {
+        // Build the sources next to a copy of package.json, so Node reads the same module type
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'turbopush-build-'));
+        fs.copyFileSync(path.join(root, 'package.json'), path.join(dir, 'package.json'));
+        fs.writeFileSync(path.join(dir, 'tsconfig.json'), JSON.stringify({
+            extends: path.join(root, 'tsconfig.json'),
+            compilerOptions: {
+                rootDir: root,
+                outDir: path.join(dir, 'dist'),
+                typeRoots: [path.join(root, 'node_modules', '@types')],
+                declaration: false,
+                sourceMap: false
+            },
+            include: [path.join(root, '*.ts')]
+        }));
+
+        const tsc = spawnSync(process.execPath, [require.resolve('typescript/bin/tsc'), '-p', dir], { encoding: 'utf8' });
+        if (tsc.status !== 0) {
+            throw new Error(`Build failed:\n${tsc.stdout}${tsc.stderr}`);
+        }
+    }, 120000);
+
+    afterAll(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    test('should run the built CLI', () => {
+        const result = node([packageJson.bin.turbopush, '--help']);
+
+        expect(result.stderr).toBe('');
+        expect(result.status).toBe(0);
+        expect(result.stdout).toMatch(/^Usage: turbopush/);
+    });
+
+    test('should serve requests from the built server', () => {
+        const result = script(`
+            import { createServer } from 'http';
+            import { TurboPushServer } from './dist/TurboPushServer.js';
+
+            const endpoint = new TurboPushServer({ uploadDir: 'uploads', tempDir: 'temp' });
+            const server = createServer((req, res) => endpoint.handle(req, res));
+            server.listen(0, '127.0.0.1', async () => {
+                const response = await fetch(\`http://127.0.0.1:\${server.address().port}/\`, {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ action: 'status', fileId: 'f1' })
+                });
+                console.log(JSON.stringify(await response.json()));
+                server.close();
+            });
+        `);
+
+        expect(result.stderr).toBe('');
+        expect(JSON.parse(result.stdout)).toMatchObject({ success: true, data: { fileId: 'f1', uploadedChunks: [] } });
+    });
+
+    test('should import the built storage backends', () => {
+        const result = script(`
+            import { LocalStorage } from './dist/TurboPushStorage.js';
+
+            const storage = new LocalStorage({ uploadDir: 'stored', tempDir: 'chunks' });
+            await storage.putChunk('f1', 0, new TextEncoder().encode('hello'));
+            console.log(JSON.stringify(await storage.compose('f1', 1, 'hello.txt')));
+        `);
+
+        expect(result.stderr).toBe('');
+        expect(JSON.parse(result.stdout)).toMatchObject({ name: 'hello.txt', size: 5 });
+    });
+
+    test('should read files and streams through the built inputs', () => {
+        const result = script(`
+            import { writeFileSync } from 'fs';
+            import { Readable } from 'stream';
+            import { fromPath, fromStream } from './dist/TurboPushInput.js';
+
+            writeFileSync('notes.txt', 'hello world');
+            const file = await fromPath('notes.txt');
+            const stream = fromStream(Readable.from([Buffer.from('streamed')]), 'log.txt');
+            console.log(JSON.stringify({
+                name: file.name,
+                size: file.size,
+                range: await (await file.read(6, 11)).text(),
+                stream: await (await stream.read(0, 8)).text()
+            }));
+        `);
+
+        expect(result.stderr).toBe('');
+        expect(JSON.parse(result.stdout)).toEqual({ name: 'notes.txt', size: 11, range: 'world', stream: 'streamed' });
+    });
+});
@@ -0,0 +1,73 @@
+/**
+ * Unit Tests for TurboPush Checksums
+ */
+
+import { createHash } from 'crypto';
+import { sha256, crc32c, resolveChecksumAlgorithm, digestBytes } from '../TurboPushChecksum';
+import type { ChecksumAlgorithm } from '../TurboPush';
+
+function bytes(text: string): Uint8Array {
+    return new Uint8Array(Buffer.from(text));
+}
+
+describe('sha256', () => {
+    test('should match the FIPS 180-4 test vectors', () => {
+        const empty = sha256.create();
+        expect(empty.digest()).toBe('e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855');
+
+        const abc = sha256.create();
+        abc.update(bytes('abc'));
+        expect(abc.digest()).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+    });
+
+    test('should match node crypto across block boundaries', () => {
+        for (const length of [55, 56, 63, 64, 65, 1000]) {
+            const data = new Uint8Array(length).map((_, i) => (i * 31) & 0xff);
+            const hasher = sha256.create();
+            hasher.update(data);
+            expect(hasher.digest()).toBe(createHash('sha256').update(data).digest('hex'));
+        }
+    });
+
+    test('should give the same digest for incremental updates', () => {
+        const data = new Uint8Array(300).map((_, i) => i & 0xff);
+        const hasher = sha256.create();
+        hasher.update(data.subarray(0, 7));
+        hasher.update(data.subarray(7, 200));
+        hasher.update(data.subarray(200));
+        expect(hasher.digest()).toBe(createHash('sha256').update(data).digest('hex'));
+    });
+
+    test('should produce a one-shot digest without WebCrypto', async () => {
+        expect(await digestBytes(sha256, bytes('abc')))
+            .toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+    });
+});
+
+describe('crc32c', () => {
+    test('should match the standard check value', () => {
+        const hasher = crc32c.create();
+        hasher.update(bytes('123456789'));
+        expect(hasher.digest()).toBe('e3069283');
+    });
+
+    test('should zero-pad short digests', async () => {
+        expect(await digestBytes(crc32c, new Uint8Array(0))).toBe('00000000');
+    });
+});
+
+describe('resolveChecksumAlgorithm', () => {
+    test('should resolve built-in names', () => {
+        expect(resolveChecksumAlgorithm('sha256')).toBe(sha256);
+        expect(resolveChecksumAlgorithm('crc32c')).toBe(crc32c);
+    });
+
+    test('should pass custom algorithms through', () => {
+        const custom = { name: 'custom', create: crc32c.create };
+        expect(resolveChecksumAlgorithm(custom)).toBe(custom);
+    });
+
+    test('should reject unknown names', () => {
+        expect(() => resolveChecksumAlgorithm('md5' as unknown as ChecksumAlgorithm)).toThrow('unknown checksum algorithm');
+    });
+});
@@ -0,0 +1,83 @@
+/**
+ * Unit Tests for Adaptive Chunk Sizing
+ */
+
+import { AdaptiveChunkSizer } from '../TurboPushChunkSizer';
+
+describe('AdaptiveChunkSizer', () => {
+    test('should start at the minimum size', () => {
+        const sizer = new AdaptiveChunkSizer();
+        expect(sizer.nextSize()).toBe(256 * 1024);
+        expect(sizer.maxChunkSize).toBe(16 * 1024 * 1024);
+        expect(sizer.targetDuration).toBe(2000);
+    });
+
+    test('should at most double after a fast chunk', () => {
+        const sizer = new AdaptiveChunkSizer({ minChunkSize: 1000, maxChunkSize: 100000, targetDuration: 1000 });
+
+        // 1000 bytes in 1ms would justify 1MB chunks
+        sizer.recordSuccess(1000, 1);
+        expect(sizer.nextSize()).toBe(2000);
+        sizer.recordSuccess(2000, 1);
+        expect(sizer.nextSize()).toBe(4000);
+    });
+
+    test('should converge on the size that takes the target duration', () => {
+        const sizer = new AdaptiveChunkSizer({ minChunkSize: 1000, maxChunkSize: 100000, targetDuration: 1000 });
+
+        // Link moves 10 bytes/ms: 10000-byte chunks take 1000ms
+        for (let i = 0; i < 10; i++) {
+            const size = sizer.nextSize();
+            sizer.recordSuccess(size, size / 10);
+        }
+        expect(sizer.nextSize()).toBe(10000);
+    });
+
+    test('should shrink when requests get slower', () => {
+        const sizer = new AdaptiveChunkSizer({ minChunkSize: 1000, maxChunkSize: 100000, targetDuration: 1000 });
+        for (let i = 0; i < 10; i++) {
+            sizer.recordSuccess(sizer.nextSize(), sizer.nextSize() / 10);
+        }
+
+        // Throughput drops to 2 bytes/ms
+        for (let i = 0; i < 10; i++) {
+            sizer.recordSuccess(sizer.nextSize(), sizer.nextSize() / 2);
+        }
+        expect(sizer.nextSize()).toBeGreaterThanOrEqual(2000);
+        expect(sizer.nextSize()).toBeLessThan(2050);
+    });
+
+    test('should stay within the bounds', () => {
+        const sizer = new AdaptiveChunkSizer({ minChunkSize: 1000, maxChunkSize: 5000, targetDuration: 1000 });
+
+        for (let i = 0; i < 10; i++) {
+            sizer.recordSuccess(sizer.nextSize(), 1);
+        }
+        expect(sizer.nextSize()).toBe(5000);
+
+        const slow = new AdaptiveChunkSizer({ minChunkSize: 1000, maxChunkSize: 5000, targetDuration: 1000 });
+        slow.recordSuccess(1000, 100000);
+        expect(slow.nextSize()).toBe(1000);
+    });
+
+    test('should halve after a failed request', () => {
+        const sizer = new AdaptiveChunkSizer({ minChunkSize: 1000, maxChunkSize: 8000, targetDuration: 1000 });
+        for (let i = 0; i < 5; i++) {
+            sizer.recordSuccess(sizer.nextSize(), 1);
+        }
+        expect(sizer.nextSize()).toBe(8000);
+
+        sizer.recordFailure();
+        expect(sizer.nextSize()).toBe(4000);
+        sizer.recordFailure();
+        sizer.recordFailure();
+        sizer.recordFailure();
+        expect(sizer.nextSize()).toBe(1000);
+    });
+
+    test('should reject invalid bounds', () => {
+        expect(() => new AdaptiveChunkSizer({ minChunkSize: 2000, maxChunkSize: 1000 })).toThrow('minChunkSize');
+        expect(() => new AdaptiveChunkSizer({ minChunkSize: 0 })).toThrow('minChunkSize');
+        expect(() => new AdaptiveChunkSizer({ targetDuration: 0 })).toThrow('targetDuration');
+    });
+});
@@ -0,0 +1,231 @@
+/**
+ * Unit Tests for the TurboPush CLI
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { parseArgs, parseSize, globToRegExp, collectFiles, runCli } from '../TurboPushCli';
+import type { CliIo } from '../TurboPushCli';
+import * as input from '../TurboPushInput';
+import { MockServer } from './mocks/MockServer';
+
+/** Output streams that keep everything written */
+function captureIo(isTTY: boolean = false): CliIo & { out: string[]; err: string[] } {
+    const out: string[] = [];
+    const err: string[] = [];
+    return {
+        out,
+        err,
+        stdout: { write: (text: string) => out.push(text) },
+        stderr: { write: (text: string) => err.push(text), isTTY }
+    };
+}
+
+describe('parseArgs', () => {
+    test('should parse options and file arguments', () => {
+        const options = parseArgs([
+            '-e', 'https://example.com/upload',
+            '--chunk-size=2MB',
+            '--concurrency', '4',
+            '--retries', '0',
+            '-H', 'Authorization: Bearer abc',
+            '--header', 'X-Team:ops',
+            '--state', 'state.json',
+            '--json',
+            'a.txt', 'logs/*.log'
+        ]);
+
+        expect(options).toEqual(expect.objectContaining({
+            endpoint: 'https://example.com/upload',
+            chunkSize: 2 * 1024 * 1024,
+            concurrency: 4,
+            retries: 0,
+            headers: { 'Authorization': 'Bearer abc', 'X-Team': 'ops' },
+            stateFile: 'state.json',
+            json: true,
+            patterns: ['a.txt', 'logs/*.log']
+        }));
+    });
+
+    test('should reject invalid usage', () => {
+        expect(() => parseArgs(['a.txt'])).toThrow('--endpoint is required');
+        expect(() => parseArgs(['-e', '/upload'])).toThrow('no files given');
+        expect(() => parseArgs(['-e', '/upload', '--verbose', 'a.txt'])).toThrow('unknown option --verbose');
+        expect(() => parseArgs(['-e', '/upload', '--concurrency', 'many', 'a.txt'])).toThrow('must be an integer');
+        expect(() => parseArgs(['-e', '/upload', '-H', 'no-colon', 'a.txt'])).toThrow('Name: value');
+        expect(() => parseArgs(['-e'])).toThrow('-e needs a value');
+    });
+
+    test('should parse sizes with binary units', () => {
+        expect(parseSize('1048576')).toBe(1048576);
+        expect(parseSize('512KB')).toBe(512 * 1024);
+        expect(parseSize('1.5m')).toBe(1.5 * 1024 * 1024);
+        expect(parseSize('1GiB')).toBe(1024 ** 3);
+        expect(() => parseSize('0')).toThrow('invalid size');
+        expect(() => parseSize('big')).toThrow('invalid size');
+    });
+});
+
+describe('globToRegExp', () => {
+    test('should match single and any-depth wildcards', () => {
+        expect(globToRegExp('*.txt').test('a.txt')).toBe(true);
+        expect(globToRegExp('*.txt').test('dir/a.txt')).toBe(false);
+        expect(globToRegExp('logs/**/*.log').test('logs/a.log')).toBe(true);
+        expect(globToRegExp('logs/**/*.log').test('logs/2024/01/a.log')).toBe(true);
+        expect(globToRegExp('img?.{png,jpg}').test('img1.jpg')).toBe(true);
+        expect(globToRegExp('img?.{png,jpg}').test('img10.jpg')).toBe(false);
+        expect(globToRegExp('[!.]*').test('.hidden')).toBe(false);
+    });
+});
+
+describe('collectFiles', () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'turbopush-cli-')).replace(/\\/g, '/');
+        fs.mkdirSync(`${dir}/logs/2024`, { recursive: true });
+        fs.writeFileSync(`${dir}/a.txt`, 'a');
+        fs.writeFileSync(`${dir}/b.csv`, 'b');
+        fs.writeFileSync(`${dir}/logs/app.log`, 'log');
+        fs.writeFileSync(`${dir}/logs/2024/old.log`, 'old');
+        fs.writeFileSync(`${dir}/logs/2024/notes.tmp`, 'tmp');
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    /** Paths of the collected files */
+    async function paths(patterns: string[], exclude?: string[]): Promise<string[]> {
+        return (await collectFiles(patterns, exclude)).map(file => file.path);
+    }
+
+    test('should walk directories and expand globs', async () => {
+        expect(await paths([`${dir}/*.txt`])).toEqual([`${dir}/a.txt`]);
+        expect(await paths([`${dir}/logs/**/*.log`])).toEqual([`${dir}/logs/2024/old.log`, `${dir}/logs/app.log`]);
+        expect(await paths([`${dir}/logs`, `${dir}/logs/app.log`])).toEqual([
+            `${dir}/logs/2024/notes.tmp`,
+            `${dir}/logs/2024/old.log`,
+            `${dir}/logs/app.log`
+        ]);
+    });
+
+    test('should name files by their path below the directory or glob base', async () => {
+        expect(await collectFiles([`${dir}/logs`])).toEqual([
+            { path: `${dir}/logs/2024/notes.tmp`, name: '2024/notes.tmp' },
+            { path: `${dir}/logs/2024/old.log`, name: '2024/old.log' },
+            { path: `${dir}/logs/app.log`, name: 'app.log' }
+        ]);
+        expect((await collectFiles([`${dir}/**/*.log`])).map(file => file.name)).toEqual(['logs/2024/old.log', 'logs/app.log']);
+        expect(await collectFiles([`${dir}/logs/app.log`])).toEqual([{ path: `${dir}/logs/app.log`, name: 'app.log' }]);
+    });
+
+    test('should skip excluded files by name or path', async () => {
+        expect(await paths([dir], ['*.tmp', `${dir}/logs/**`])).toEqual([`${dir}/a.txt`, `${dir}/b.csv`]);
+    });
+
+    test('should reject missing paths', async () => {
+        await expect(collectFiles([`${dir}/missing.txt`])).rejects.toThrow('no such file or directory');
+    });
+});
+
+describe('runCli', () => {
+    let mockServer: MockServer;
+    let dir: string;
+
+    beforeEach(() => {
+        mockServer = new MockServer();
+        mockServer.start();
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'turbopush-cli-'));
+        fs.writeFileSync(path.join(dir, 'one.txt'), 'x'.repeat(300));
+        fs.writeFileSync(path.join(dir, 'two.txt'), 'y'.repeat(50));
+    });
+
+    afterEach(() => {
+        mockServer.stop();
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    test('should upload files and print JSON lines', async () => {
+        const io = captureIo();
+
+        const status = await runCli(['-e', mockServer.getEndpoint(), '-c', '100', '--json', dir], io);
+
+        expect(status).toBe(0);
+        const lines = io.out.join('').trim().split('\n').map(line => JSON.parse(line));
+        expect(lines.filter(line => line.event === 'complete').map(line => [path.basename(line.file), line.size]).sort())
+            .toEqual([['one.txt', 300], ['two.txt', 50]]);
+        expect(lines[lines.length - 1]).toEqual(expect.objectContaining({ event: 'summary', completed: 2, failed: 0, bytes: 350 }));
+
+        const chunkUploads = mockServer.getRequests().filter(r => r.options?.body instanceof FormData);
+        expect(chunkUploads).toHaveLength(4);
+    });
+
+    test('should send repeated headers', async () => {
+        await runCli(['-e', mockServer.getEndpoint(), '-H', 'X-One: 1', '-H', 'X-Two: 2', '--json',
+            path.join(dir, 'two.txt')], captureIo());
+
+        expect(mockServer.getRequests()[0].options?.headers).toEqual(expect.objectContaining({ 'X-One': '1', 'X-Two': '2' }));
+    });
+
+    test('should exit with status 1 if a file fails', async () => {
+        mockServer.simulateIntermittentFailures(1);
+        const io = captureIo();
+
+        const status = await runCli(['-e', mockServer.getEndpoint(), '--retries', '0', '--concurrency', '1',
+            '--json', path.join(dir, 'two.txt')], io);
+
+        expect(status).toBe(1);
+        const lines = io.out.join('').trim().split('\n').map(line => JSON.parse(line));
+        expect(lines[0]).toEqual(expect.objectContaining({ event: 'failed', code: 'network', message: 'Simulated failure' }));
+        expect(lines[1]).toEqual(expect.objectContaining({ event: 'summary', completed: 0, failed: 1 }));
+    });
+
+    test('should draw a progress bar on terminals', async () => {
+        const io = captureIo(true);
+
+        const status = await runCli(['-e', mockServer.getEndpoint(), path.join(dir, '*.txt')], io);
+
+        expect(status).toBe(0);
+        expect(io.err.join('')).toContain('100% 350 B/350 B');
+        expect(io.out.join('')).toContain('Uploaded 2 of 2 files (350 B)');
+    });
+
+    test('should keep the directory structure in uploaded names', async () => {
+        fs.mkdirSync(path.join(dir, 'sub'));
+        fs.writeFileSync(path.join(dir, 'sub', 'one.txt'), 'z'.repeat(20));
+
+        expect(await runCli(['-e', mockServer.getEndpoint(), '--json', dir], captureIo())).toBe(0);
+
+        const names = mockServer.getRequests()
+            .map(r => r.options?.body)
+            .filter((body): body is FormData => body instanceof FormData)
+            .map(body => body.get('fileName'))
+            .sort();
+        expect(names).toEqual(['one.txt', 'sub/one.txt', 'two.txt']);
+    });
+
+    test('should exit with status 1 if no file can be opened', async () => {
+        const spy = jest.spyOn(input, 'fromPath').mockRejectedValue(new Error('EACCES: permission denied'));
+        const io = captureIo();
+
+        try {
+            const status = await runCli(['-e', mockServer.getEndpoint(), path.join(dir, 'two.txt')], io);
+
+            expect(status).toBe(1);
+            expect(io.err.join('')).toBe('✗ ' + path.join(dir, 'two.txt').replace(/\\/g, '/') +
+                ': EACCES: permission denied\nTurboPush: No files to upload\n');
+        } finally {
+            spy.mockRestore();
+        }
+    });
+
+    test('should exit with status 2 on invalid usage', async () => {
+        const io = captureIo();
+
+        expect(await runCli(['-e', mockServer.getEndpoint(), path.join(dir, 'none-*.bin')], io)).toBe(2);
+        expect(io.err.join('')).toContain('no files match');
+        expect(mockServer.getRequests()).toHaveLength(0);
+    });
+});
@@ -0,0 +1,106 @@
+/**
+ * Unit Tests for Chunk Compression
+ */
+
+import { CompressionStream as NodeCompressionStream } from 'stream/web';
+import { gunzipSync, inflateSync } from 'zlib';
+import { compressBytes, isCompressedType, resolveCompressionOptions } from '../TurboPushCompression';
+import type { CompressionCodec } from '../TurboPush';
+
+/** Deterministic pseudo-random bytes */
+function randomBytes(length: number, seed: number = 1): Uint8Array {
+    const bytes = new Uint8Array(length);
+    let state = seed;
+    for (let i = 0; i < length; i++) {
+        state = (Math.imul(state, 1103515245) + 12345) >>> 0;
+        bytes[i] = state >>> 24;
+    }
+    return bytes;
+}
+
+const log = Buffer.from(Array.from({ length: 3000 }, (_, i) =>
+    `2026-10-19T12:${String(i % 60).padStart(2, '0')}:00Z INFO request ${i} served in ${i % 97}ms\n`).join(''));
+
+describe('resolveCompressionOptions', () => {
+    test('should accept a codec name or options', () => {
+        expect(resolveCompressionOptions('gzip')).toEqual({ codec: 'gzip', skipCompressedTypes: true });
+        expect(resolveCompressionOptions({ codec: 'deflate', skipCompressedTypes: false }))
+            .toEqual({ codec: 'deflate', skipCompressedTypes: false });
+    });
+
+    test('should reject unknown codecs', () => {
+        expect(() => resolveCompressionOptions('br' as unknown as CompressionCodec)).toThrow('TurboPush: unknown compression codec: br');
+    });
+});
+
+describe('isCompressedType', () => {
+    test('should recognise compressed MIME types', () => {
+        expect(isCompressedType('image/jpeg', 'photo')).toBe(true);
+        expect(isCompressedType('video/mp4', 'clip.txt')).toBe(true);
+        expect(isCompressedType('application/zip', 'a')).toBe(true);
+        expect(isCompressedType('application/epub+zip', 'a')).toBe(true);
+        expect(isCompressedType('application/vnd.openxmlformats-officedocument.wordprocessingml.document', 'a')).toBe(true);
+    });
+
+    test('should compress text and uncompressed media', () => {
+        expect(isCompressedType('text/csv; charset=utf-8', 'data.zip')).toBe(false);
+        expect(isCompressedType('application/json', 'export.json')).toBe(false);
+        expect(isCompressedType('image/svg+xml', 'logo.svg')).toBe(false);
+        expect(isCompressedType('audio/wav', 'take.wav')).toBe(false);
+    });
+
+    test('should fall back to the extension without a useful type', () => {
+        expect(isCompressedType('', 'backup.TAR.GZ')).toBe(true);
+        expect(isCompressedType('application/octet-stream', 'scan.heic')).toBe(true);
+        expect(isCompressedType('', 'server.log')).toBe(false);
+        expect(isCompressedType('', 'README')).toBe(false);
+    });
+});
+
+describe('compressBytes without CompressionStream', () => {
+    const inputs: Array<[string, Uint8Array]> = [
+        ['empty', new Uint8Array(0)],
+        ['one byte', new Uint8Array([42])],
+        ['a log', new Uint8Array(log)],
+        ['random bytes', randomBytes(20000)],
+        ['long runs', new Uint8Array(70000).fill(7)],
+        ['repeats beyond the window', (() => {
+            const block = randomBytes(40000, 3);
+            return new Uint8Array(Buffer.concat([block, block]));
+        })()]
+    ];
+
+    test.each(inputs)('should round-trip %s through gzip and zlib', async (_name, data) => {
+        expect(typeof CompressionStream).toBe('undefined');
+
+        const gzipped = await compressBytes(data, 'gzip');
+        const deflated = await compressBytes(data, 'deflate');
+
+        expect(Buffer.compare(gunzipSync(gzipped), Buffer.from(data))).toBe(0);
+        expect(Buffer.compare(inflateSync(deflated), Buffer.from(data))).toBe(0);
+    });
+
+    test('should shrink text several times', async () => {
+        const deflated = await compressBytes(new Uint8Array(log), 'deflate');
+
+        expect(deflated.length).toBeLessThan(log.length / 4);
+    });
+});
+
+describe('compressBytes with CompressionStream', () => {
+    beforeEach(() => {
+        (globalThis as { CompressionStream?: unknown }).CompressionStream = NodeCompressionStream;
+    });
+
+    afterEach(() => {
+        delete (globalThis as { CompressionStream?: unknown }).CompressionStream;
+    });
+
+    test('should use the standard stream', async () => {
+        const gzipped = await compressBytes(new Uint8Array(log), 'gzip');
+        const deflated = await compressBytes(new Uint8Array(log), 'deflate');
+
+        expect(gunzipSync(gzipped).toString()).toBe(log.toString());
+        expect(inflateSync(deflated).toString()).toBe(log.toString());
+    });
+});
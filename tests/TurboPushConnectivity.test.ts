@@ -0,0 +1,59 @@
+/**
+ * Unit Tests for Connectivity Sources
+ */
+
+import { BrowserConnectivity, ProbeConnectivity } from '../TurboPushConnectivity';
+
+describe('BrowserConnectivity', () => {
+    test('should follow the window online and offline events', async () => {
+        const source = new BrowserConnectivity();
+        const listener = jest.fn();
+
+        expect(BrowserConnectivity.isSupported()).toBe(true);
+        expect(await source.isOnline()).toBe(navigator.onLine);
+
+        const unsubscribe = source.subscribe(listener);
+        window.dispatchEvent(new Event('offline'));
+        window.dispatchEvent(new Event('online'));
+        unsubscribe();
+        window.dispatchEvent(new Event('offline'));
+
+        expect(listener.mock.calls).toEqual([[false], [true]]);
+    });
+});
+
+describe('ProbeConnectivity', () => {
+    beforeEach(() => {
+        jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    test('should poll while subscribed and report changes only', async () => {
+        const results = [true, false, false, true];
+        const probe = jest.fn(async () => results.shift() ?? true);
+        const listener = jest.fn();
+        const source = new ProbeConnectivity({ probe, interval: 1000 });
+
+        const unsubscribe = source.subscribe(listener);
+        await jest.advanceTimersByTimeAsync(4000);
+
+        expect(probe).toHaveBeenCalledTimes(4);
+        expect(listener.mock.calls).toEqual([[false], [true]]);
+
+        unsubscribe();
+        await jest.advanceTimersByTimeAsync(5000);
+        expect(probe).toHaveBeenCalledTimes(4);
+    });
+
+    test('should treat a failing probe as offline', async () => {
+        const source = new ProbeConnectivity({ probe: () => Promise.reject(new Error('ENOTFOUND')) });
+        const listener = jest.fn();
+        source.subscribe(listener);
+
+        expect(await source.isOnline()).toBe(false);
+        expect(listener).toHaveBeenCalledWith(false);
+    });
+});
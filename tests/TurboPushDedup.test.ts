@@ -0,0 +1,118 @@
+/**
+ * Unit Tests for Content-Defined Chunking
+ */
+
+import { createHash } from 'crypto';
+import { ContentDefinedChunker, resolveDedupOptions, splitByContent } from '../TurboPushDedup';
+
+/** Deterministic pseudo-random bytes */
+function randomBytes(length: number, seed: number = 1): Uint8Array {
+    const bytes = new Uint8Array(length);
+    let state = seed;
+    for (let i = 0; i < length; i++) {
+        state = (Math.imul(state, 1103515245) + 12345) >>> 0;
+        bytes[i] = state >>> 24;
+    }
+    return bytes;
+}
+
+/** Chunk lengths found when feeding `data` in pieces of `pieceSize` bytes */
+function chunkLengths(data: Uint8Array, pieceSize: number, options = resolveDedupOptions({ avgChunkSize: 1024 })): number[] {
+    const chunker = new ContentDefinedChunker(options);
+    const lengths: number[] = [];
+    let chunkStart = 0;
+    for (let offset = 0; offset < data.length; offset += pieceSize) {
+        for (const cut of chunker.push(data.subarray(offset, offset + pieceSize))) {
+            lengths.push(offset + cut - chunkStart);
+            chunkStart = offset + cut;
+        }
+    }
+    if (chunkStart < data.length) lengths.push(data.length - chunkStart);
+    return lengths;
+}
+
+describe('resolveDedupOptions', () => {
+    test('should derive bounds from the average size', () => {
+        expect(resolveDedupOptions()).toEqual({ minChunkSize: 256 * 1024, avgChunkSize: 1024 * 1024, maxChunkSize: 4 * 1024 * 1024 });
+        expect(resolveDedupOptions({}, 4096)).toEqual({ minChunkSize: 1024, avgChunkSize: 4096, maxChunkSize: 16384 });
+        expect(resolveDedupOptions({ avgChunkSize: 4096, maxChunkSize: 5000 }).maxChunkSize).toBe(5000);
+    });
+
+    test('should reject inconsistent bounds', () => {
+        expect(() => resolveDedupOptions({ minChunkSize: 0 })).toThrow('0 < minChunkSize');
+        expect(() => resolveDedupOptions({ avgChunkSize: 1000, minChunkSize: 2000 })).toThrow('minChunkSize <= avgChunkSize');
+        expect(() => resolveDedupOptions({ avgChunkSize: 1000, maxChunkSize: 500 })).toThrow('avgChunkSize <= maxChunkSize');
+    });
+});
+
+describe('ContentDefinedChunker', () => {
+    const data = randomBytes(200000);
+
+    test('should cut within the bounds, near the average', () => {
+        const lengths = chunkLengths(data, data.length);
+
+        expect(lengths.reduce((total, length) => total + length, 0)).toBe(data.length);
+        for (const length of lengths.slice(0, -1)) {
+            expect(length).toBeGreaterThanOrEqual(256);
+            expect(length).toBeLessThanOrEqual(4096);
+        }
+        const average = data.length / lengths.length;
+        expect(average).toBeGreaterThan(600);
+        expect(average).toBeLessThan(1800);
+    });
+
+    test('should cut the same however the bytes are fed', () => {
+        const whole = chunkLengths(data, data.length);
+
+        expect(chunkLengths(data, 1)).toEqual(whole);
+        expect(chunkLengths(data, 777)).toEqual(whole);
+    });
+
+    test('should cut at the maximum size when content never matches', () => {
+        expect(chunkLengths(new Uint8Array(10000), 1000)).toEqual([4096, 4096, 1808]);
+    });
+
+    test('should keep the cuts before and after an edit', () => {
+        const edited = new Uint8Array(data.length + 10);
+        edited.set(data.subarray(0, 100000));
+        edited.set(randomBytes(10, 99), 100000);
+        edited.set(data.subarray(100000), 100010);
+
+        const cutsOf = (lengths: number[]) => {
+            const cuts = new Set<number>();
+            let offset = 0;
+            for (const length of lengths) cuts.add(offset += length);
+            return cuts;
+        };
+        const before = cutsOf(chunkLengths(data, 4096));
+        const after = [...cutsOf(chunkLengths(edited, 4096))]
+            .map(cut => cut > 100000 ? cut - 10 : cut);
+
+        const shared = after.filter(cut => before.has(cut)).length;
+        expect(shared).toBeGreaterThanOrEqual(before.size - 2);
+    });
+});
+
+describe('splitByContent', () => {
+    test('should cover the file with chunks and their SHA-256 hashes', async () => {
+        const data = randomBytes(30000, 7);
+        const file = new File([new Blob([Buffer.from(data)])], 'data.bin');
+        const options = resolveDedupOptions({ avgChunkSize: 1024 });
+
+        const chunks = await splitByContent(file, options);
+
+        expect(chunks[0].start).toBe(0);
+        expect(chunks[chunks.length - 1].end).toBe(data.length);
+        for (let i = 0; i < chunks.length; i++) {
+            if (i > 0) expect(chunks[i].start).toBe(chunks[i - 1].end);
+            const expected = createHash('sha256').update(data.subarray(chunks[i].start, chunks[i].end)).digest('hex');
+            expect(chunks[i].hash).toBe(expected);
+        }
+        expect(chunks.map(c => c.end - c.start)).toEqual(chunkLengths(data, 4096, options));
+    });
+
+    test('should return no chunks for an empty file', async () => {
+        const file = new File([new Blob([])], 'empty.bin');
+        expect(await splitByContent(file, resolveDedupOptions())).toEqual([]);
+    });
+});
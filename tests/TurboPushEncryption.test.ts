@@ -0,0 +1,165 @@
+/**
+ * Unit Tests for Chunk Encryption
+ */
+
+import { webcrypto } from 'crypto';
+import {
+    ENCRYPTION_OVERHEAD,
+    createFileEncryption,
+    decryptFile,
+    encryptChunk,
+    sealHeader
+} from '../TurboPushEncryption';
+import type { EncryptionHeader, EncryptionKeyProvider } from '../TurboPush';
+import { EncryptionError, IntegrityError } from '../TurboPushErrors';
+
+const subtle = webcrypto.subtle as unknown as SubtleCrypto;
+
+/** Deterministic pseudo-random bytes */
+function randomBytes(length: number, seed: number = 1): Uint8Array {
+    const bytes = new Uint8Array(length);
+    let state = seed;
+    for (let i = 0; i < length; i++) {
+        state = (Math.imul(state, 1103515245) + 12345) >>> 0;
+        bytes[i] = state >>> 24;
+    }
+    return bytes;
+}
+
+/** Key provider handing out a single key under an id */
+function providerFor(id: string, key: CryptoKey): EncryptionKeyProvider {
+    return async () => ({ id, key });
+}
+
+/** Encrypts `chunks` as the client would and returns the stored bytes and header */
+async function encryptFile(
+    chunks: Uint8Array[],
+    keyProvider: EncryptionKeyProvider,
+    fileId = 'file-1'
+): Promise<{ stored: Uint8Array; header: EncryptionHeader }> {
+    const encryption = await createFileEncryption(fileId, keyProvider);
+    const encrypted = await Promise.all(chunks.map((chunk, i) => encryptChunk(encryption, i, chunk)));
+    const header = await sealHeader(encryption, chunks.map(chunk => chunk.length));
+    return { stored: new Uint8Array(Buffer.concat(encrypted)), header };
+}
+
+/** Reads a decrypted Blob back */
+async function bytesOf(blob: Blob): Promise<Buffer> {
+    return Buffer.from(await blob.arrayBuffer());
+}
+
+describe('TurboPushEncryption', () => {
+    const originalCrypto = globalThis.crypto;
+    const chunks = [randomBytes(1000, 1), randomBytes(1000, 2), randomBytes(321, 3)];
+    const plaintext = Buffer.concat(chunks);
+    let aesKw: CryptoKey;
+
+    beforeAll(async () => {
+        Object.defineProperty(globalThis, 'crypto', { value: webcrypto, configurable: true });
+        aesKw = await subtle.generateKey({ name: 'AES-KW', length: 256 }, false, ['wrapKey', 'unwrapKey']) as CryptoKey;
+    });
+
+    afterAll(() => {
+        Object.defineProperty(globalThis, 'crypto', { value: originalCrypto, configurable: true });
+    });
+
+    test('should round-trip with an AES-KW key', async () => {
+        const { stored, header } = await encryptFile(chunks, providerFor('kek-1', aesKw));
+
+        expect(header).toEqual(expect.objectContaining({ version: 1, algorithm: 'AES-GCM', keyId: 'kek-1', wrapAlgorithm: 'AES-KW' }));
+        expect(header.wrapIv).toBeUndefined();
+        expect(stored.length).toBe(plaintext.length + chunks.length * ENCRYPTION_OVERHEAD);
+        expect(Buffer.from(stored).includes(Buffer.from(chunks[0].subarray(0, 32)))).toBe(false);
+        expect(Buffer.compare(await bytesOf(await decryptFile(stored, header, providerFor('kek-1', aesKw))), plaintext)).toBe(0);
+        expect(Buffer.compare(await bytesOf(await decryptFile(new Blob([stored as BlobPart]), header, providerFor('kek-1', aesKw))), plaintext)).toBe(0);
+    });
+
+    test('should round-trip with AES-GCM and RSA-OAEP keys', async () => {
+        const aesGcm = await subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['wrapKey', 'unwrapKey']) as CryptoKey;
+        const rsa = await subtle.generateKey({
+            name: 'RSA-OAEP', modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]), hash: 'SHA-256'
+        }, false, ['wrapKey', 'unwrapKey']) as CryptoKeyPair;
+
+        const gcm = await encryptFile(chunks, providerFor('gcm', aesGcm));
+        expect(gcm.header.wrapIv).toEqual(expect.any(String));
+        expect(Buffer.compare(await bytesOf(await decryptFile(gcm.stored, gcm.header, providerFor('gcm', aesGcm))), plaintext)).toBe(0);
+
+        // Clients only need the public key; the private key stays with whoever decrypts
+        const oaep = await encryptFile(chunks, providerFor('rsa', rsa.publicKey));
+        const decrypted = await decryptFile(oaep.stored, oaep.header, providerFor('rsa', rsa.privateKey));
+        expect(Buffer.compare(await bytesOf(decrypted), plaintext)).toBe(0);
+    });
+
+    test('should ask the provider for the key named in the header', async () => {
+        const { stored, header } = await encryptFile(chunks, providerFor('kek-1', aesKw));
+        const keyProvider = jest.fn(providerFor('kek-1', aesKw));
+
+        await decryptFile(stored, header, keyProvider);
+
+        expect(keyProvider).toHaveBeenCalledWith('kek-1');
+    });
+
+    test('should use distinct nonces per chunk and file, and repeat them on retry', async () => {
+        const same = new Uint8Array(500);
+        const encryption = await createFileEncryption('file-1', providerFor('kek-1', aesKw));
+        const other = await createFileEncryption('file-2', providerFor('kek-1', aesKw));
+
+        const first = await encryptChunk(encryption, 0, same);
+        expect(Buffer.compare(await encryptChunk(encryption, 0, same), first)).toBe(0);
+        expect(Buffer.compare(await encryptChunk(encryption, 1, same), first)).not.toBe(0);
+        expect(other.header.noncePrefix).not.toBe(encryption.header.noncePrefix);
+        expect(other.header.wrappedKey).not.toBe(encryption.header.wrappedKey);
+    });
+
+    test('should detect modified, reordered and truncated files', async () => {
+        const { stored, header } = await encryptFile(chunks, providerFor('kek-1', aesKw));
+        const keyProvider = providerFor('kek-1', aesKw);
+
+        const modified = stored.slice();
+        modified[1500] ^= 1;
+        await expect(decryptFile(modified, header, keyProvider)).rejects.toThrow('Decryption failed for chunk 1');
+
+        const size = 1000 + ENCRYPTION_OVERHEAD;
+        const reordered = new Uint8Array(Buffer.concat([stored.subarray(size, 2 * size), stored.subarray(0, size), stored.subarray(2 * size)]));
+        await expect(decryptFile(reordered, header, keyProvider)).rejects.toBeInstanceOf(IntegrityError);
+
+        await expect(decryptFile(stored.subarray(0, 2 * size), header, keyProvider))
+            .rejects.toThrow(`Encrypted file is ${2 * size} bytes, expected ${stored.length}`);
+
+        // Any change to the sealed chunk sizes breaks their tag
+        const manifest = Buffer.from(header.manifest, 'base64');
+        manifest[3] ^= 1;
+        await expect(decryptFile(stored, { ...header, manifest: manifest.toString('base64') }, keyProvider))
+            .rejects.toThrow('Decryption failed for chunk sizes');
+    });
+
+    test('should fail with the wrong key', async () => {
+        const { stored, header } = await encryptFile(chunks, providerFor('kek-1', aesKw));
+        const otherKey = await subtle.generateKey({ name: 'AES-KW', length: 256 }, false, ['wrapKey', 'unwrapKey']) as CryptoKey;
+
+        await expect(decryptFile(stored, header, providerFor('kek-1', otherKey)))
+            .rejects.toThrow('Cannot unwrap the data key with key kek-1');
+    });
+
+    test('should report provider and key problems as EncryptionError', async () => {
+        const hmac = await subtle.generateKey({ name: 'HMAC', hash: 'SHA-256' }, false, ['sign']) as CryptoKey;
+
+        await expect(createFileEncryption('f', async () => { throw new Error('vault sealed'); }))
+            .rejects.toThrow('Key provider failed: vault sealed');
+        await expect(createFileEncryption('f', (async () => undefined) as unknown as EncryptionKeyProvider))
+            .rejects.toThrow('Key provider returned no key');
+        await expect(createFileEncryption('f', providerFor('hmac', hmac)))
+            .rejects.toThrow('Key algorithm cannot wrap keys: HMAC');
+        await expect(createFileEncryption('f', providerFor('hmac', hmac))).rejects.toBeInstanceOf(EncryptionError);
+    });
+
+    test('should need WebCrypto', async () => {
+        Object.defineProperty(globalThis, 'crypto', { value: undefined, configurable: true });
+        try {
+            await expect(createFileEncryption('f', providerFor('kek-1', aesKw)))
+                .rejects.toThrow('Encryption needs WebCrypto (crypto.subtle)');
+        } finally {
+            Object.defineProperty(globalThis, 'crypto', { value: webcrypto, configurable: true });
+        }
+    });
+});
@@ -0,0 +1,76 @@
+/**
+ * Unit Tests for the Error Taxonomy
+ */
+
+import {
+    TurboPushError,
+    NetworkError,
+    TimeoutError,
+    AbortedError,
+    HttpError,
+    ServerRejectedError,
+    IntegrityError,
+    EncryptionError,
+    PreprocessError,
+    isRetryable,
+    toTurboPushError
+} from '../TurboPushErrors';
+import { FileValidationError } from '../TurboPushValidation';
+
+describe('TurboPush Errors', () => {
+    test('should classify HTTP errors by status', () => {
+        const clientError = new HttpError(413, 'Payload Too Large', { chunkIndex: 2, attempt: 1 });
+        const serverError = new HttpError(503, 'Service Unavailable');
+
+        expect(clientError).toBeInstanceOf(TurboPushError);
+        expect(clientError).toBeInstanceOf(Error);
+        expect(clientError).toMatchObject({
+            name: 'HttpError',
+            code: 'http-4xx',
+            status: 413,
+            chunkIndex: 2,
+            attempt: 1,
+            message: 'HTTP 413: Payload Too Large'
+        });
+        expect(serverError.code).toBe('http-5xx');
+    });
+
+    test('should retry transient errors only', () => {
+        expect(isRetryable(new NetworkError())).toBe(true);
+        expect(isRetryable(new TimeoutError())).toBe(true);
+        expect(isRetryable(new HttpError(500, 'Internal Server Error'))).toBe(true);
+        expect(isRetryable(new HttpError(408, 'Request Timeout'))).toBe(true);
+        expect(isRetryable(new HttpError(429, 'Too Many Requests'))).toBe(true);
+        expect(isRetryable(new IntegrityError('Checksum mismatch for chunk 0'))).toBe(true);
+
+        expect(isRetryable(new HttpError(400, 'Bad Request'))).toBe(false);
+        expect(isRetryable(new HttpError(413, 'Payload Too Large'))).toBe(false);
+        expect(isRetryable(new ServerRejectedError('Invalid file type'))).toBe(false);
+        expect(isRetryable(new AbortedError())).toBe(false);
+        expect(isRetryable(new EncryptionError('Key provider failed'))).toBe(false);
+        expect(isRetryable(new PreprocessError('Cannot decode the image'))).toBe(false);
+        expect(isRetryable(new FileValidationError('file-too-large', 'too large', new File([], 'a.txt')))).toBe(false);
+    });
+
+    test('should convert unknown errors', () => {
+        const fetchFailure = new TypeError('Failed to fetch');
+        const abort = new Error('The operation was aborted');
+        abort.name = 'AbortError';
+
+        const network = toTurboPushError(fetchFailure, { chunkIndex: 1, attempt: 3 });
+        expect(network).toBeInstanceOf(NetworkError);
+        expect(network).toMatchObject({ message: 'Failed to fetch', chunkIndex: 1, attempt: 3, cause: fetchFailure });
+        expect(toTurboPushError(abort).code).toBe('aborted');
+        expect(toTurboPushError('boom').message).toBe('boom');
+    });
+
+    test('should keep typed errors and fill in missing context', () => {
+        const error = new HttpError(500, 'Internal Server Error', { chunkIndex: 4 });
+
+        const converted = toTurboPushError(error, { chunkIndex: 9, attempt: 2 });
+
+        expect(converted).toBe(error);
+        expect(converted.chunkIndex).toBe(4);
+        expect(converted.attempt).toBe(2);
+    });
+});
@@ -0,0 +1,79 @@
+/**
+ * Unit Tests for the Typed Event Emitter
+ */
+
+import { TypedEventEmitter } from '../TurboPushEvents';
+
+interface TestEvents {
+    tick: (count: number) => void;
+    done: () => void;
+}
+
+describe('TypedEventEmitter', () => {
+    let emitter: TypedEventEmitter<TestEvents>;
+
+    beforeEach(() => {
+        emitter = new TypedEventEmitter<TestEvents>();
+    });
+
+    test('should call every listener in registration order', () => {
+        const calls: string[] = [];
+        emitter.on('tick', count => calls.push(`a${count}`));
+        emitter.on('tick', count => calls.push(`b${count}`));
+
+        emitter.emit('tick', 1);
+        emitter.emit('tick', 2);
+
+        expect(calls).toEqual(['a1', 'b1', 'a2', 'b2']);
+        expect(emitter.listenerCount('tick')).toBe(2);
+        expect(emitter.listenerCount('done')).toBe(0);
+    });
+
+    test('should remove listeners with the disposer or off()', () => {
+        const first = jest.fn();
+        const second = jest.fn();
+        const dispose = emitter.on('tick', first);
+        emitter.on('tick', second);
+
+        dispose();
+        dispose();
+        emitter.emit('tick', 1);
+        emitter.off('tick', second);
+        emitter.emit('tick', 2);
+
+        expect(first).not.toHaveBeenCalled();
+        expect(second).toHaveBeenCalledTimes(1);
+    });
+
+    test('should call once() listeners a single time', () => {
+        const listener = jest.fn();
+        emitter.once('done', listener);
+
+        emitter.emit('done');
+        emitter.emit('done');
+
+        expect(listener).toHaveBeenCalledTimes(1);
+        expect(emitter.listenerCount('done')).toBe(0);
+    });
+
+    test('should remove once() listeners with off()', () => {
+        const listener = jest.fn();
+        emitter.once('done', listener);
+
+        emitter.off('done', listener);
+        emitter.emit('done');
+
+        expect(listener).not.toHaveBeenCalled();
+    });
+
+    test('should apply changes made while emitting from the next emit', () => {
+        const late = jest.fn();
+        emitter.on('tick', () => emitter.on('tick', late));
+
+        emitter.emit('tick', 1);
+        expect(late).not.toHaveBeenCalled();
+
+        emitter.emit('tick', 2);
+        expect(late).toHaveBeenCalledWith(2);
+    });
+});
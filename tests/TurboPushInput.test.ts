@@ -0,0 +1,108 @@
+/**
+ * Unit Tests for TurboPush Input Sources
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { fromBuffer, fromPath, fromFileHandle, fromStream, isUploadSource, isSizeKnown } from '../TurboPushInput';
+
+describe('fromBuffer', () => {
+    test('should read byte ranges', async () => {
+        const source = fromBuffer(Buffer.from('0123456789'), 'digits.txt', { type: 'text/plain' });
+
+        expect(source.size).toBe(10);
+        expect(source.type).toBe('text/plain');
+        expect(await (await source.read(2, 5)).text()).toBe('234');
+        expect(await (await source.read(8, 20)).text()).toBe('89');
+    });
+
+    test('should be told apart from DOM files', () => {
+        expect(isUploadSource(fromBuffer(new Uint8Array(1), 'a.bin'))).toBe(true);
+        expect(isUploadSource(new File([new Blob(['a'])], 'a.txt'))).toBe(false);
+    });
+});
+
+describe('fromPath and fromFileHandle', () => {
+    let dir: string;
+    let filePath: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'turbopush-'));
+        filePath = path.join(dir, 'notes.txt');
+        fs.writeFileSync(filePath, 'hello world');
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    test('should take the name and size from the file system', async () => {
+        const source = await fromPath(filePath);
+
+        expect(source.name).toBe('notes.txt');
+        expect(source.size).toBe(11);
+        expect(source.lastModified).toBe(fs.statSync(filePath).mtimeMs);
+        expect(isSizeKnown(source)).toBe(true);
+    });
+
+    test('should read ranges from disk when asked', async () => {
+        const source = await fromPath(filePath);
+        fs.writeFileSync(filePath, 'HELLO world');
+
+        expect(await (await source.read(0, 5)).text()).toBe('HELLO');
+        expect(await (await source.read(6, 11)).text()).toBe('world');
+    });
+
+    test('should reject paths that are not files', async () => {
+        await expect(fromPath(dir)).rejects.toThrow('is not a file');
+    });
+
+    test('should read through an open file handle', async () => {
+        const handle = await fs.promises.open(filePath, 'r');
+        try {
+            const source = await fromFileHandle(handle, 'notes.txt');
+            expect(source.size).toBe(11);
+            expect(await (await source.read(6, 11)).text()).toBe('world');
+        } finally {
+            await handle.close();
+        }
+    });
+});
+
+describe('fromStream', () => {
+    test('should learn the size once the stream ends', async () => {
+        const source = fromStream(Readable.from([Buffer.from('abc'), Buffer.from('defg')]), 'log.txt');
+        expect(isSizeKnown(source)).toBe(false);
+
+        expect(await (await source.read(0, 5)).text()).toBe('abcde');
+        expect(source.size).toBe(5);
+        expect(isSizeKnown(source)).toBe(false);
+
+        expect(await (await source.read(5, 10)).text()).toBe('fg');
+        expect(source.size).toBe(7);
+        expect(isSizeKnown(source)).toBe(true);
+    });
+
+    test('should serve queued reads in order', async () => {
+        const source = fromStream(Readable.from([Buffer.from('0123456789')]), 'digits.txt');
+
+        const [first, second] = await Promise.all([source.read(0, 4), source.read(4, 8)]);
+        expect(await first.text()).toBe('0123');
+        expect(await second.text()).toBe('4567');
+    });
+
+    test('should refuse reads out of order', async () => {
+        const source = fromStream(Readable.from([Buffer.from('0123456789')]), 'digits.txt');
+
+        await expect(source.read(4, 8)).rejects.toThrow('must be read in order');
+    });
+
+    test('should report a stream shorter than its declared size', async () => {
+        const source = fromStream(Readable.from([Buffer.from('abc')]), 'short.txt', { size: 10 });
+        expect(isSizeKnown(source)).toBe(true);
+
+        await expect(source.read(0, 10)).rejects.toThrow('ended after 3 of 10 bytes');
+    });
+});
@@ -0,0 +1,329 @@
+/**
+ * Unit Tests for File Preprocessing
+ */
+
+import { applyTransforms, encodeImage, resizeImage, stripExif } from '../TurboPushPreprocess';
+import type { EncodeImageOptions } from '../TurboPushPreprocess';
+import type { FileTransform } from '../TurboPush';
+import { NetworkError, PreprocessError } from '../TurboPushErrors';
+import { fromBuffer } from '../TurboPushInput';
+
+/** JPEG segment: marker, big-endian length, payload */
+function segment(marker: number, payload: Buffer): Buffer {
+    const header = Buffer.from([0xff, marker, 0, 0]);
+    header.writeUInt16BE(payload.length + 2, 2);
+    return Buffer.concat([header, payload]);
+}
+
+/** EXIF payload with an orientation and a camera make in IFD0 */
+function exif(orientation: number, littleEndian = false): Buffer {
+    const make = Buffer.from('Secret Phone\0');
+    const tiff = Buffer.alloc(8 + 2 + 2 * 12 + 4 + make.length);
+    const u16 = (value: number, offset: number) => littleEndian ? tiff.writeUInt16LE(value, offset) : tiff.writeUInt16BE(value, offset);
+    const u32 = (value: number, offset: number) => littleEndian ? tiff.writeUInt32LE(value, offset) : tiff.writeUInt32BE(value, offset);
+
+    tiff.write(littleEndian ? 'II' : 'MM', 0, 'latin1');
+    u16(42, 2);
+    u32(8, 4);
+    u16(2, 8);
+    u16(0x010f, 10); u16(2, 12); u32(make.length, 14); u32(38, 18);   // Make -> string after the IFD
+    u16(0x0112, 22); u16(3, 24); u32(1, 26); u16(orientation, 30);    // Orientation
+    u32(0, 34);
+    make.copy(tiff, 38);
+    return Buffer.concat([Buffer.from('Exif\0\0', 'latin1'), tiff]);
+}
+
+/** The minimal EXIF segment stripExif() writes for an orientation */
+function orientationOnly(orientation: number): Buffer {
+    return segment(0xe1, Buffer.concat([
+        Buffer.from('Exif\0\0MM\0*\0\0\0\x08\0\x01\x01\x12\0\x03\0\0\0\x01', 'latin1'),
+        Buffer.from([0, orientation, 0, 0, 0, 0, 0, 0])
+    ]));
+}
+
+const soi = Buffer.from([0xff, 0xd8]);
+const app0 = segment(0xe0, Buffer.from('JFIF\0\x01\x01\0\0\x01\0\x01\0\0', 'latin1'));
+const icc = segment(0xe2, Buffer.from('ICC_PROFILE\0\x01\x01colors', 'latin1'));
+const xmp = segment(0xe1, Buffer.from('http://ns.adobe.com/xap/1.0/\0<x:xmpmeta>GPSLatitude</x:xmpmeta>', 'latin1'));
+const iptc = segment(0xed, Buffer.from('Photoshop 3.0\x008BIM location', 'latin1'));
+const dqt = segment(0xdb, Buffer.alloc(65, 1));
+const scan = Buffer.concat([segment(0xda, Buffer.alloc(10, 2)), Buffer.from([0x12, 0xff, 0x00, 0x34, 0xff, 0xd9])]);
+
+/** PNG chunk; the CRC is not checked by stripExif() and left zero */
+function pngChunk(type: string, data: Buffer): Buffer {
+    const chunk = Buffer.alloc(12 + data.length);
+    chunk.writeUInt32BE(data.length, 0);
+    chunk.write(type, 4, 'latin1');
+    data.copy(chunk, 8);
+    return chunk;
+}
+
+/** RIFF chunk padded to an even size */
+function riffChunk(type: string, data: Buffer): Buffer {
+    const header = Buffer.alloc(8);
+    header.write(type, 0, 'latin1');
+    header.writeUInt32LE(data.length, 4);
+    return Buffer.concat([header, data, Buffer.alloc(data.length & 1)]);
+}
+
+/** WebP file around its chunks */
+function webp(chunks: Buffer[]): Buffer {
+    const body = Buffer.concat(chunks);
+    const header = Buffer.from('RIFF\0\0\0\0WEBP', 'latin1');
+    header.writeUInt32LE(4 + body.length, 4);
+    return Buffer.concat([header, body]);
+}
+
+/** File holding bytes */
+function image(bytes: Buffer, name: string, type?: string): File {
+    return new File([new Uint8Array(bytes)], name, { type });
+}
+
+/** Reads a Blob back */
+async function bytesOf(blob: Blob | File): Promise<Buffer> {
+    return Buffer.from(await blob.arrayBuffer());
+}
+
+describe('applyTransforms', () => {
+    const file = new File([new Blob(['original'])], 'notes.txt', { type: 'text/plain' });
+
+    test('should run transforms in order, keeping names of unnamed Blobs', async () => {
+        const calls: string[] = [];
+        const upper: FileTransform = async (input, { fileId }) => {
+            calls.push(`upper:${input.name}:${fileId}`);
+            return new Blob([(await (input as File).text()).toUpperCase()]);
+        };
+        const rename: FileTransform = async (input) => {
+            calls.push(`rename:${input.name}`);
+            return new File([input as File], 'NOTES.txt', { type: 'text/plain' });
+        };
+
+        const result = await applyTransforms(file, [upper, rename], { fileId: 'f1' });
+
+        expect(calls).toEqual(['upper:notes.txt:f1', 'rename:notes.txt']);
+        expect(result.name).toBe('NOTES.txt');
+        expect((await bytesOf(result as File)).toString()).toBe('ORIGINAL');
+        expect(await applyTransforms(file, [async input => input], { fileId: 'f1' })).toBe(file);
+    });
+
+    test('should report failures as PreprocessError', async () => {
+        const failing: FileTransform = async () => { throw new Error('canvas exploded'); };
+
+        await expect(applyTransforms(file, [failing], { fileId: 'f1' })).rejects.toMatchObject({
+            name: 'PreprocessError', code: 'preprocess', message: 'Preprocessing failed: canvas exploded'
+        });
+        await expect(applyTransforms(file, [async () => { throw new NetworkError('offline'); }], { fileId: 'f1' }))
+            .rejects.toBeInstanceOf(NetworkError);
+        await expect(applyTransforms(file, [(async () => undefined) as unknown as FileTransform], { fileId: 'f1' }))
+            .rejects.toThrow('a transform returned no file');
+    });
+});
+
+describe('stripExif', () => {
+    const strip = stripExif();
+    const run = (file: File) => applyTransforms(file, [strip], { fileId: 'f1' });
+
+    test('should remove EXIF, XMP and IPTC from a JPEG and keep its orientation', async () => {
+        const photo = image(Buffer.concat([soi, app0, segment(0xe1, exif(6)), xmp, icc, iptc, dqt, scan]), 'IMG_0001.JPG', 'image/jpeg');
+
+        const result = await run(photo);
+
+        expect(result.name).toBe('IMG_0001.JPG');
+        expect(result.type).toBe('image/jpeg');
+        expect(await bytesOf(result as File)).toEqual(Buffer.concat([soi, app0, orientationOnly(6), icc, dqt, scan]));
+    });
+
+    test('should drop EXIF entirely for upright JPEGs and read little-endian EXIF', async () => {
+        const upright = image(Buffer.concat([soi, segment(0xe1, exif(1, true)), dqt, scan]), 'a.jpg', 'image/jpeg');
+        const rotated = image(Buffer.concat([soi, segment(0xe1, exif(8, true)), dqt, scan]), 'b.jpg', 'image/jpeg');
+
+        expect(await bytesOf(await run(upright) as File)).toEqual(Buffer.concat([soi, dqt, scan]));
+        expect(await bytesOf(await run(rotated) as File)).toEqual(Buffer.concat([soi, orientationOnly(8), dqt, scan]));
+    });
+
+    test('should leave files without metadata and other files alone', async () => {
+        const clean = image(Buffer.concat([soi, app0, dqt, scan]), 'clean.jpg', 'image/jpeg');
+        const text = new File([new Blob(['Exif'])], 'notes.txt', { type: 'text/plain' });
+        const gif = new File([new Blob(['GIF89a'])], 'anim.gif', { type: 'image/gif' });
+
+        expect(await run(clean)).toBe(clean);
+        expect(await run(text)).toBe(text);
+        expect(await run(gif)).toBe(gif);
+    });
+
+    test('should remove eXIf and XMP chunks from a PNG', async () => {
+        const signature = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+        const ihdr = pngChunk('IHDR', Buffer.alloc(13));
+        const comment = pngChunk('tEXt', Buffer.from('Comment\0hello', 'latin1'));
+        const idat = pngChunk('IDAT', Buffer.alloc(20, 7));
+        const iend = pngChunk('IEND', Buffer.alloc(0));
+        const png = image(Buffer.concat([
+            signature, ihdr,
+            pngChunk('eXIf', exif(6).subarray(6)),
+            pngChunk('iTXt', Buffer.from('XML:com.adobe.xmp\0\0\0\0\0<x:xmpmeta/>', 'latin1')),
+            pngChunk('zTXt', Buffer.from('Raw profile type exif\0\0data', 'latin1')),
+            comment, idat, iend
+        ]), 'screenshot.png', 'image/png');
+
+        expect(await bytesOf(await run(png) as File)).toEqual(Buffer.concat([signature, ihdr, comment, idat, iend]));
+    });
+
+    test('should remove EXIF and XMP chunks from a WebP and clear their flags', async () => {
+        const vp8x = (flags: number) => riffChunk('VP8X', Buffer.from([flags, 0, 0, 0, 9, 0, 0, 9, 0, 0]));
+        const vp8l = riffChunk('VP8L', Buffer.from([0x2f, 1, 2, 3, 4]));
+        const photo = image(webp([
+            vp8x(0x10 | 0x08 | 0x04), vp8l, riffChunk('EXIF', exif(3).subarray(6)), riffChunk('XMP ', Buffer.from('<x:xmpmeta/>'))
+        ]), 'photo.webp', 'image/webp');
+
+        const result = await bytesOf(await run(photo) as File);
+
+        expect(result).toEqual(webp([vp8x(0x10), vp8l]));
+        expect(result.readUInt32LE(4)).toBe(result.length - 8);
+    });
+
+    test('should strip UploadSources and find the type from the extension', async () => {
+        const source = fromBuffer(Buffer.concat([soi, segment(0xe1, exif(1)), dqt, scan]), 'scan.jpeg');
+
+        const result = await run(source as unknown as File);
+
+        expect(result).not.toBe(source);
+        expect(await bytesOf(result as File)).toEqual(Buffer.concat([soi, dqt, scan]));
+    });
+
+    test('should refuse formats it cannot strip and malformed files', async () => {
+        const heic = new File([new Blob(['ftypheic'])], 'IMG_0002.HEIC', { type: 'image/heic' });
+        const broken = image(Buffer.concat([soi, Buffer.from([0xff, 0xe1, 0x00, 0x40, 1, 2])]), 'broken.jpg', 'image/jpeg');
+
+        await expect(run(heic)).rejects.toThrow('Cannot remove metadata from image/heic files; convert them with encodeImage() first');
+        await expect(run(broken)).rejects.toBeInstanceOf(PreprocessError);
+    });
+});
+
+describe('resizeImage and encodeImage', () => {
+    /** Decoded image stand-in; test images hold their size as text, e.g. "4000x3000" */
+    class FakeBitmap {
+        public close = jest.fn();
+
+        constructor(public width: number, public height: number) {}
+    }
+
+    /** OffscreenCanvas stand-in recording what was drawn and encoded */
+    class FakeCanvas {
+        static drawn: Array<{ width: number; height: number }> = [];
+        static encoded: Array<{ type: string; quality: number }> = [];
+        static supportedTypes = ['image/jpeg', 'image/png', 'image/webp'];
+
+        constructor(public width: number, public height: number) {}
+
+        getContext() {
+            return {
+                imageSmoothingQuality: 'low',
+                drawImage: (_bitmap: FakeBitmap, _x: number, _y: number, width: number, height: number) => {
+                    FakeCanvas.drawn.push({ width, height });
+                }
+            };
+        }
+
+        async convertToBlob({ type, quality }: { type: string; quality: number }): Promise<Blob> {
+            FakeCanvas.encoded.push({ type, quality });
+            const actual = FakeCanvas.supportedTypes.includes(type) ? type : 'image/png';
+            return new Blob([`${this.width}x${this.height}`], { type: actual });
+        }
+    }
+
+    /** The browser APIs the transforms use, installed on globalThis by each test */
+    const browser = globalThis as unknown as {
+        OffscreenCanvas?: typeof FakeCanvas;
+        createImageBitmap?: (blob: Blob, options: ImageBitmapOptions) => Promise<FakeBitmap>;
+    };
+
+    const photo = (size: string, name = 'IMG_0001.HEIC', type = 'image/heic') => new File([new Blob([size])], name, { type });
+    const run = (file: File, transform: FileTransform) => applyTransforms(file, [transform], { fileId: 'f1' });
+
+    beforeEach(() => {
+        FakeCanvas.drawn = [];
+        FakeCanvas.encoded = [];
+        browser.OffscreenCanvas = FakeCanvas;
+        browser.createImageBitmap = jest.fn(async (blob: Blob, options: ImageBitmapOptions) => {
+            expect(options).toEqual({ imageOrientation: 'from-image' });
+            const [width, height] = (await blob.text()).split('x').map(Number);
+            return new FakeBitmap(width, height);
+        });
+    });
+
+    afterEach(() => {
+        delete browser.OffscreenCanvas;
+        delete browser.createImageBitmap;
+    });
+
+    test('should downscale to the maximum dimension', async () => {
+        const result = await run(photo('4000x3000', 'IMG_0001.jpg', 'image/jpeg'), resizeImage({ maxDimension: 2048, quality: 0.8 }));
+
+        expect(FakeCanvas.drawn).toEqual([{ width: 2048, height: 1536 }]);
+        expect(FakeCanvas.encoded).toEqual([{ type: 'image/jpeg', quality: 0.8 }]);
+        expect(result).toMatchObject({ name: 'IMG_0001.jpg', type: 'image/jpeg' });
+        expect(await (result as File).text()).toBe('2048x1536');
+    });
+
+    test('should convert types canvases cannot write, and rename the file', async () => {
+        const portrait = await run(photo('3024x4032'), resizeImage({ maxDimension: 1000 }));
+        const webp = await run(photo('800x600', 'shot.png', 'image/png'), resizeImage({ maxDimension: 1000, type: 'image/webp' }));
+
+        expect(portrait).toMatchObject({ name: 'IMG_0001.jpg', type: 'image/jpeg' });
+        expect(await (portrait as File).text()).toBe('750x1000');
+        expect(webp).toMatchObject({ name: 'shot.webp', type: 'image/webp' });
+        expect(await (webp as File).text()).toBe('800x600');
+    });
+
+    test('should keep images that already fit', async () => {
+        const small = photo('640x480', 'small.jpg', 'image/jpeg');
+        const bitmaps: FakeBitmap[] = [];
+        const decode = browser.createImageBitmap!;
+        browser.createImageBitmap = async (blob: Blob, options: ImageBitmapOptions) => {
+            bitmaps.push(await decode(blob, options));
+            return bitmaps[bitmaps.length - 1];
+        };
+
+        expect(await run(small, resizeImage({ maxDimension: 1024 }))).toBe(small);
+        expect(FakeCanvas.encoded).toEqual([]);
+        expect(bitmaps[0].close).toHaveBeenCalled();
+    });
+
+    test('should re-encode at a quality level', async () => {
+        const jpeg = await run(photo('4000x3000'), encodeImage());
+        const webp = await run(photo('4000x3000', 'IMG_0003.JPEG', 'image/jpeg'), encodeImage({ type: 'image/webp', quality: 0.7 }));
+
+        expect(FakeCanvas.drawn).toEqual([{ width: 4000, height: 3000 }, { width: 4000, height: 3000 }]);
+        expect(FakeCanvas.encoded).toEqual([{ type: 'image/jpeg', quality: 0.85 }, { type: 'image/webp', quality: 0.7 }]);
+        expect(jpeg).toMatchObject({ name: 'IMG_0001.jpg', type: 'image/jpeg' });
+        expect(webp).toMatchObject({ name: 'IMG_0003.webp', type: 'image/webp' });
+    });
+
+    test('should pass other files through', async () => {
+        const text = new File([new Blob(['hello'])], 'notes.txt', { type: 'text/plain' });
+        const svg = new File([new Blob(['<svg/>'])], 'logo.svg', { type: 'image/svg+xml' });
+
+        expect(await run(text, encodeImage())).toBe(text);
+        expect(await run(svg, resizeImage({ maxDimension: 10 }))).toBe(svg);
+        expect(browser.createImageBitmap).not.toHaveBeenCalled();
+    });
+
+    test('should fail without browser APIs or when the browser cannot encode the type', async () => {
+        FakeCanvas.supportedTypes = ['image/jpeg', 'image/png'];
+        try {
+            await expect(run(photo('100x100'), encodeImage({ type: 'image/webp' })))
+                .rejects.toThrow('This browser cannot encode image/webp images');
+        } finally {
+            FakeCanvas.supportedTypes = ['image/jpeg', 'image/png', 'image/webp'];
+        }
+
+        delete browser.createImageBitmap;
+        await expect(run(photo('100x100'), encodeImage())).rejects.toThrow('Image transforms need createImageBitmap()');
+    });
+
+    test('should reject invalid options', () => {
+        expect(() => resizeImage({ maxDimension: 0 })).toThrow('resizeImage needs a maxDimension of at least 1');
+        expect(() => encodeImage({ quality: 1.5 })).toThrow('image quality must be between 0 and 1');
+        expect(() => encodeImage({ type: 'image/gif' } as unknown as EncodeImageOptions)).toThrow('cannot encode images as image/gif');
+    });
+});
@@ -0,0 +1,78 @@
+/**
+ * Unit Tests for Retry Delays and the Circuit Breaker
+ */
+
+import { computeRetryDelay, parseRetryAfter, CircuitBreaker } from '../TurboPushRetry';
+import { HttpError, NetworkError } from '../TurboPushErrors';
+
+describe('Retry Delays', () => {
+    const error = new NetworkError();
+    const noJitter = () => 1;
+
+    test('should double exponential delays up to the cap', () => {
+        const delays = [1, 2, 3, 4, 5, 6].map(attempt =>
+            computeRetryDelay({ maxDelay: 10000 }, 1000, { attempt, previousDelay: 0, error }, noJitter));
+
+        expect(delays).toEqual([1000, 2000, 4000, 8000, 10000, 10000]);
+    });
+
+    test('should spread exponential delays with jitter', () => {
+        const context = { attempt: 3, previousDelay: 0, error };
+
+        expect(computeRetryDelay({}, 1000, context, () => 0)).toBe(2000);
+        expect(computeRetryDelay({}, 1000, context, () => 0.5)).toBe(3000);
+        expect(computeRetryDelay({ jitter: false }, 1000, context, () => 0)).toBe(4000);
+    });
+
+    test('should draw decorrelated jitter from the previous delay', () => {
+        const policy = { strategy: 'decorrelated-jitter' as const, maxDelay: 20000 };
+
+        expect(computeRetryDelay(policy, 1000, { attempt: 1, previousDelay: 1000, error }, () => 0)).toBe(1000);
+        expect(computeRetryDelay(policy, 1000, { attempt: 2, previousDelay: 2000, error }, () => 0.5)).toBe(3500);
+        expect(computeRetryDelay(policy, 1000, { attempt: 5, previousDelay: 15000, error }, noJitter)).toBe(20000);
+    });
+
+    test('should use custom strategies', () => {
+        const strategy = jest.fn(() => 750);
+
+        const delay = computeRetryDelay({ strategy }, 1000, { attempt: 2, previousDelay: 500, error });
+
+        expect(delay).toBe(750);
+        expect(strategy).toHaveBeenCalledWith({ attempt: 2, previousDelay: 500, error });
+    });
+
+    test('should honour Retry-After beyond the cap', () => {
+        const throttled = new HttpError(429, 'Too Many Requests', { retryAfter: 60000 });
+        const context = { attempt: 1, previousDelay: 0, error: throttled };
+
+        expect(computeRetryDelay({ maxDelay: 5000 }, 1000, context, noJitter)).toBe(60000);
+        expect(computeRetryDelay({ respectRetryAfter: false }, 1000, context, noJitter)).toBe(1000);
+    });
+
+    test('should parse Retry-After seconds and dates', () => {
+        const now = Date.parse('2024-01-01T00:00:00Z');
+
+        expect(parseRetryAfter('120')).toBe(120000);
+        expect(parseRetryAfter('Mon, 01 Jan 2024 00:00:30 GMT', now)).toBe(30000);
+        expect(parseRetryAfter('Sun, 31 Dec 2023 23:00:00 GMT', now)).toBe(0);
+        expect(parseRetryAfter('soon')).toBeUndefined();
+        expect(parseRetryAfter(null)).toBeUndefined();
+    });
+});
+
+describe('CircuitBreaker', () => {
+    test('should open after consecutive failures only', () => {
+        const breaker = new CircuitBreaker(3);
+
+        expect(breaker.recordFailure()).toBe(false);
+        expect(breaker.recordFailure()).toBe(false);
+        breaker.recordSuccess();
+        expect(breaker.getFailures()).toBe(0);
+
+        expect(breaker.recordFailure()).toBe(false);
+        expect(breaker.recordFailure()).toBe(false);
+        expect(breaker.recordFailure()).toBe(true);
+        expect(breaker.getFailures()).toBe(0);
+        expect(() => new CircuitBreaker(0)).toThrow('threshold');
+    });
+});
@@ -0,0 +1,167 @@
+/**
+ * Integration Tests for the S3 Multipart Transport
+ */
+
+import { TurboPush } from '../TurboPush';
+import { S3MultipartTransport } from '../TurboPushS3';
+import type { S3MultipartOptions } from '../TurboPushS3';
+import { MockS3Server } from './mocks/MockS3Server';
+
+describe('S3MultipartTransport', () => {
+    let s3: MockS3Server;
+    const content = 'The quick brown fox jumps over the lazy dog. '.repeat(20);
+
+    beforeEach(() => {
+        s3 = new MockS3Server();
+        s3.start();
+    });
+
+    afterEach(() => {
+        s3.stop();
+    });
+
+    function createTransport(): S3MultipartTransport {
+        return new S3MultipartTransport({
+            getPresignedPartUrl: async (fileId, partNumber, upload) => s3.presign(upload.uploadId, partNumber),
+            minPartSize: 100
+        });
+    }
+
+    function actions(): string[] {
+        return s3.getRequests()
+            .filter(r => r.url === s3.getEndpoint())
+            .map(r => JSON.parse(r.options!.body as string).action);
+    }
+
+    test('should require getPresignedPartUrl', () => {
+        expect(() => new S3MultipartTransport({} as S3MultipartOptions)).toThrow('TurboPush: getPresignedPartUrl is required');
+    });
+
+    test('should reject adaptive chunk sizing', () => {
+        expect(() => new TurboPush({ endpoint: s3.getEndpoint(), adaptiveChunkSize: true, transport: createTransport() }))
+            .toThrow('TurboPush: adaptiveChunkSize cannot be combined with this transport, set chunkSize instead');
+    });
+
+    test('should PUT parts to presigned URLs and complete through the backend', async () => {
+        const file = new File([content], 'fox.txt', { type: 'text/plain' });
+        const turbopush = new TurboPush({
+            endpoint: s3.getEndpoint(),
+            chunkSize: 100,
+            headers: { 'Authorization': 'Bearer token' },
+            transport: createTransport()
+        });
+
+        const completeCallback = jest.fn();
+        const stats = await turbopush.addFiles([file]).onFileComplete(completeCallback).push();
+
+        expect(stats.completedFiles).toBe(1);
+        expect(actions()).toEqual(['createMultipart', 'completeMultipart']);
+
+        // Parts go straight to the bucket, without the backend's auth header
+        const puts = s3.getRequests().filter(r => r.options?.method === 'PUT');
+        expect(puts).toHaveLength(Math.ceil(content.length / 100));
+        puts.forEach(put => expect(put.options!.headers).toBeUndefined());
+
+        const complete: { parts: Array<{ PartNumber: number; ETag: string }> } = JSON.parse(s3.getRequests()
+            .filter(r => r.url === s3.getEndpoint())
+            .pop()!.options!.body as string);
+        expect(complete.parts.map(p => p.PartNumber)).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9]);
+        expect(complete.parts.every(p => /^".+"$/.test(p.ETag))).toBe(true);
+
+        const [, , result] = completeCallback.mock.calls[0];
+        expect(result.fileSize).toBe(content.length);
+        expect(s3.getObject(`uploads/${result.fileId}/fox.txt`)).toBe(content);
+    });
+
+    test('should send file metadata with createMultipart', async () => {
+        const turbopush = new TurboPush({ endpoint: s3.getEndpoint(), chunkSize: 100, transport: createTransport() });
+
+        const { promise } = turbopush.addFile(new File([content], 'fox.txt'), { metadata: { albumId: 42 } });
+        await turbopush.push();
+        await promise;
+
+        const create = JSON.parse(s3.getRequests()[0].options!.body as string);
+        expect(create).toMatchObject({ action: 'createMultipart', fileName: 'fox.txt', metadata: { albumId: 42 } });
+    });
+
+    test('should retry failed parts', async () => {
+        s3.simulatePartFailures(2);
+
+        const file = new File([content], 'fox.txt');
+        const turbopush = new TurboPush({
+            endpoint: s3.getEndpoint(),
+            chunkSize: 300,
+            retryDelay: 10,
+            transport: createTransport()
+        });
+
+        const completeCallback = jest.fn();
+        const stats = await turbopush.addFiles([file]).onFileComplete(completeCallback).push();
+
+        expect(stats.completedFiles).toBe(1);
+        const [, fileId] = completeCallback.mock.calls[0];
+        expect(s3.getObject(`uploads/${fileId}/fox.txt`)).toBe(content);
+    });
+
+    test('should abort a failed upload and start over when the file is retried', async () => {
+        s3.simulatePartFailures(100);
+
+        const file = new File([content], 'fox.txt');
+        const turbopush = new TurboPush({
+            endpoint: s3.getEndpoint(),
+            chunkSize: 300,
+            maxRetries: 1,
+            retryDelay: 10,
+            transport: createTransport()
+        });
+
+        const { fileId } = turbopush.addFile(file);
+        await turbopush.push();
+        expect(turbopush.getProgress()[0].status).toBe('failed');
+        expect(actions()).toEqual(['createMultipart', 'abortMultipart']);
+        expect(s3.getUploads().size).toBe(0);
+
+        // push() again retries the failed file
+        s3.simulatePartFailures(0);
+        await turbopush.push();
+
+        expect(turbopush.getProgress()[0].status).toBe('completed');
+
+        expect(actions()).toEqual(['createMultipart', 'abortMultipart', 'createMultipart', 'completeMultipart']);
+        expect(s3.getObject(`uploads/${fileId}/fox.txt`)).toBe(content);
+    });
+
+    test('should reject parts below the minimum part size', async () => {
+        const file = new File([content], 'fox.txt');
+        const turbopush = new TurboPush({
+            endpoint: s3.getEndpoint(),
+            chunkSize: 100,
+            transport: new S3MultipartTransport({
+                getPresignedPartUrl: async (fileId, partNumber, upload) => s3.presign(upload.uploadId, partNumber)
+            })
+        });
+
+        const errorCallback = jest.fn();
+        const stats = await turbopush.addFiles([file]).onError(errorCallback).push();
+
+        expect(stats.failedFiles).toBe(1);
+        expect(errorCallback.mock.calls[0][0].message).toContain('S3 parts must be at least 5242880 bytes');
+        expect(actions()).toEqual([]);
+    });
+
+    test('should abort the multipart upload on cancel', async () => {
+        const file = new File([content], 'fox.txt');
+        const turbopush = new TurboPush({
+            endpoint: s3.getEndpoint(),
+            chunkSize: 100,
+            transport: createTransport()
+        });
+
+        turbopush.addFiles([file]).onProgress(() => turbopush.cancel());
+        turbopush.push();
+        await new Promise(resolve => setTimeout(resolve, 200));
+
+        expect(actions()).toEqual(['createMultipart', 'abortMultipart']);
+        expect(s3.getUploads().size).toBe(0);
+    });
+});
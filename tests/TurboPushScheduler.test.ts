@@ -0,0 +1,63 @@
+/**
+ * Unit Tests for the Upload Scheduler
+ */
+
+import { UploadScheduler } from '../TurboPushScheduler';
+
+describe('UploadScheduler', () => {
+    const byName = (a: string, b: string) => a.localeCompare(b);
+
+    test('should grant up to the limit immediately', async () => {
+        const scheduler = new UploadScheduler(2, byName);
+
+        await scheduler.acquire('a');
+        await scheduler.acquire('b');
+        expect(scheduler.getActiveCount()).toBe(2);
+    });
+
+    test('should make requests wait once the limit is reached', async () => {
+        const scheduler = new UploadScheduler(1, byName);
+        await scheduler.acquire('a');
+
+        const granted = jest.fn();
+        scheduler.acquire('a').then(granted);
+        await Promise.resolve();
+        expect(granted).not.toHaveBeenCalled();
+
+        scheduler.release();
+        await Promise.resolve();
+        expect(granted).toHaveBeenCalled();
+        expect(scheduler.getActiveCount()).toBe(1);
+    });
+
+    test('should hand freed slots to the best-ranked file', async () => {
+        const scheduler = new UploadScheduler(1, byName);
+        await scheduler.acquire('x');
+
+        const order: string[] = [];
+        const waiting = ['c', 'a', 'b', 'a'].map(fileId =>
+            scheduler.acquire(fileId).then(() => {
+                order.push(fileId);
+                scheduler.release();
+            })
+        );
+
+        scheduler.release();
+        await Promise.all(waiting);
+        expect(order).toEqual(['a', 'a', 'b', 'c']);
+    });
+
+    test('should grant waiting requests when the limit grows', async () => {
+        const scheduler = new UploadScheduler(1, byName);
+        await scheduler.acquire('a');
+
+        const granted = jest.fn();
+        scheduler.acquire('b').then(granted);
+        scheduler.acquire('c').then(granted);
+
+        scheduler.setLimit(3);
+        await Promise.resolve();
+        expect(granted).toHaveBeenCalledTimes(2);
+        expect(scheduler.getActiveCount()).toBe(3);
+    });
+});
@@ -0,0 +1,564 @@
+/**
+ * Unit Tests for the TurboPush Node.js Server Endpoint
+ */
+
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { createHash, webcrypto } from 'crypto';
+import { deflateSync, gzipSync } from 'zlib';
+import { TurboPushServer, EndpointError, toExpress, toFastify } from '../TurboPushServer';
+import type { ServerOptions } from '../TurboPushServer';
+import { TurboPush } from '../TurboPush';
+import { crc32c } from '../TurboPushChecksum';
+import { MemoryStorage } from '../TurboPushStorage';
+import { decryptFile } from '../TurboPushEncryption';
+
+const BOUNDARY = '----TurboPushTestBoundary';
+
+/** JSON body the endpoint answers with */
+interface EndpointResponse {
+    success: boolean;
+    message: string;
+    data: Record<string, unknown>;
+}
+
+/** Response stand-in recording what the server wrote */
+class FakeResponse {
+    public status = 0;
+    public headers: Record<string, string> = {};
+    public body = '';
+    public headersSent = false;
+
+    setHeader(name: string, value: string): void {
+        this.headers[name.toLowerCase()] = value;
+    }
+
+    writeHead(status: number, headers: Record<string, string> = {}): this {
+        this.status = status;
+        Object.entries(headers).forEach(([name, value]) => this.setHeader(name, value));
+        this.headersSent = true;
+        return this;
+    }
+
+    end(data?: string): void {
+        this.body += data ?? '';
+    }
+
+    destroy(): void {}
+
+    json(): EndpointResponse {
+        return JSON.parse(this.body);
+    }
+}
+
+/** Builds a multipart body; Buffer values become the `file` part */
+function multipart(fields: Record<string, string | Buffer>): Buffer {
+    const parts: Buffer[] = [];
+    for (const [name, value] of Object.entries(fields)) {
+        const disposition = Buffer.isBuffer(value)
+            ? `form-data; name="${name}"; filename="blob"\r\nContent-Type: application/octet-stream`
+            : `form-data; name="${name}"`;
+        parts.push(Buffer.from(`--${BOUNDARY}\r\nContent-Disposition: ${disposition}\r\n\r\n`));
+        parts.push(Buffer.isBuffer(value) ? value : Buffer.from(value));
+        parts.push(Buffer.from('\r\n'));
+    }
+    parts.push(Buffer.from(`--${BOUNDARY}--\r\n`));
+    return Buffer.concat(parts);
+}
+
+/** Request stand-in streaming a body in pieces */
+function fakeRequest(method: string, headers: Record<string, string>, body: Buffer | string = '', pieceSize = 65536): http.IncomingMessage {
+    const bytes = Buffer.from(body);
+    const pieces: Buffer[] = [];
+    for (let i = 0; i < bytes.length; i += pieceSize) {
+        pieces.push(bytes.subarray(i, i + pieceSize));
+    }
+    return Object.assign(Readable.from(pieces), { method, headers }) as unknown as http.IncomingMessage;
+}
+
+/** Chunk request fields */
+function chunkFields(fileId: string, chunkIndex: number, data: string, extra: Record<string, string> = {}) {
+    return {
+        file: Buffer.from(data),
+        fileName: 'notes.txt',
+        fileId,
+        chunkIndex: String(chunkIndex),
+        totalChunks: '2',
+        fileSize: '10',
+        ...extra
+    };
+}
+
+describe('TurboPushServer', () => {
+    let dir: string;
+    let uploadDir: string;
+    let tempDir: string;
+    let server: TurboPushServer;
+
+    const createServer = (options: ServerOptions = {}) =>
+        new TurboPushServer({ uploadDir, tempDir, staleAfter: 0, ...options });
+
+    const send = async (body: Buffer | object, pieceSize?: number): Promise<FakeResponse> => {
+        const res = new FakeResponse();
+        const req = Buffer.isBuffer(body)
+            ? fakeRequest('POST', { 'content-type': `multipart/form-data; boundary=${BOUNDARY}` }, body, pieceSize)
+            : fakeRequest('POST', { 'content-type': 'application/json' }, JSON.stringify(body));
+        await server.handle(req, res as unknown as http.ServerResponse);
+        return res;
+    };
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'turbopush-server-'));
+        uploadDir = path.join(dir, 'uploads');
+        tempDir = path.join(dir, 'temp');
+        server = createServer();
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    test('should store chunks, report them and merge them on finalize', async () => {
+        expect((await send(multipart(chunkFields('f1', 1, 'fghij')))).json()).toEqual({
+            success: true,
+            message: 'Chunk uploaded',
+            data: { chunkIndex: 1, totalChunks: 2 }
+        });
+        await send(multipart(chunkFields('f1', 0, 'abcde')));
+
+        const status = await send({ action: 'status', fileId: 'f1' });
+        expect(status.json().data).toEqual({ fileId: 'f1', uploadedChunks: [0, 1] });
+
+        const finalize = await send({ action: 'finalize', fileName: 'notes.txt', fileId: 'f1', fileSize: 10, totalChunks: 2 });
+        expect(finalize.status).toBe(200);
+        expect(finalize.json().data).toEqual({ fileName: 'notes.txt', fileSize: 10 });
+        expect(fs.readFileSync(path.join(uploadDir, 'notes.txt'), 'utf8')).toBe('abcdefghij');
+        expect(fs.readdirSync(tempDir)).toEqual([]);
+    });
+
+    test('should parse bodies split anywhere, including inside the boundary', async () => {
+        const data = `line\r\n--${BOUNDARY.slice(0, 10)}\r\n-`;
+        for (const pieceSize of [1, 7, 13]) {
+            const res = await send(multipart({ ...chunkFields(`split${pieceSize}`, 0, data), fileSize: String(data.length) }), pieceSize);
+            expect(res.status).toBe(200);
+            expect(fs.readFileSync(path.join(tempDir, `split${pieceSize}`, 'chunk_0000000000'), 'utf8')).toBe(data);
+        }
+    });
+
+    test('should verify chunk and file checksums', async () => {
+        const sha = (text: string) => createHash('sha256').update(text).digest('hex');
+        const crc = (text: string) => {
+            const hasher = crc32c.create();
+            hasher.update(Buffer.from(text));
+            return hasher.digest();
+        };
+
+        const bad = await send(multipart(chunkFields('f1', 0, 'abcde', { checksum: sha('other'), checksumAlgorithm: 'sha256' })));
+        expect(bad.status).toBe(422);
+        expect(bad.json().data).toEqual({ code: 'checksum_mismatch', chunkIndex: 0 });
+        expect((await send({ action: 'status', fileId: 'f1' })).json().data.uploadedChunks).toEqual([]);
+
+        await send(multipart(chunkFields('f1', 0, 'abcde', { checksum: sha('abcde'), checksumAlgorithm: 'sha256' })));
+        await send(multipart(chunkFields('f1', 1, 'fghij', { checksum: crc('fghij'), checksumAlgorithm: 'crc32c' })));
+
+        const finalize = await send({
+            action: 'finalize', fileName: 'notes.txt', fileId: 'f1', fileSize: 10, totalChunks: 2,
+            checksum: sha('abcdefghij').toUpperCase(), checksumAlgorithm: 'sha256'
+        });
+        expect(finalize.json().data).toEqual({ fileName: 'notes.txt', fileSize: 10, checksum: sha('abcdefghij') });
+
+        const unsupported = await send(multipart(chunkFields('f2', 0, 'abcde', { checksum: 'x', checksumAlgorithm: 'md5' })));
+        expect(unsupported.status).toBe(400);
+        expect(unsupported.json().message).toBe('Unsupported checksum algorithm: md5');
+    });
+
+    test('should decompress compressed chunks before verifying them', async () => {
+        const sha = (text: string) => createHash('sha256').update(text).digest('hex');
+        const compressed = (data: Buffer, codec: string, originalSize: number, extra: Record<string, string> = {}) =>
+            ({ file: data, compression: codec, originalSize: String(originalSize), ...extra });
+
+        const gzip = await send(multipart({
+            ...chunkFields('f1', 0, ''),
+            ...compressed(gzipSync('abcde'), 'gzip', 5, { checksum: sha('abcde'), checksumAlgorithm: 'sha256' })
+        }));
+        expect(gzip.json().success).toBe(true);
+        await send(multipart({ ...chunkFields('f1', 1, ''), ...compressed(deflateSync('fghij'), 'deflate', 5) }));
+
+        await send({ action: 'finalize', fileName: 'notes.txt', fileId: 'f1', fileSize: 10, totalChunks: 2 });
+        expect(fs.readFileSync(path.join(uploadDir, 'notes.txt'), 'utf8')).toBe('abcdefghij');
+
+        const corrupt = await send(multipart({ ...chunkFields('f2', 0, ''), ...compressed(Buffer.from('not gzip'), 'gzip', 5) }));
+        expect(corrupt.status).toBe(422);
+        expect(corrupt.json().data).toEqual({ code: 'checksum_mismatch', chunkIndex: 0 });
+
+        const wrongSize = await send(multipart({ ...chunkFields('f2', 0, ''), ...compressed(gzipSync('abcdef'), 'gzip', 5) }));
+        expect(wrongSize.status).toBe(422);
+        expect((await send({ action: 'status', fileId: 'f2' })).json().data.uploadedChunks).toEqual([]);
+
+        const unknown = await send(multipart({ ...chunkFields('f2', 0, ''), ...compressed(gzipSync('abcde'), 'br', 5) }));
+        expect(unknown.status).toBe(400);
+        expect(unknown.json().message).toBe('Unsupported compression: br');
+
+        server = createServer({ maxChunkSize: 4 });
+        const bomb = await send(multipart({ ...chunkFields('f2', 0, ''), ...compressed(gzipSync('abcde'), 'gzip', 5) }));
+        expect(bomb.status).toBe(413);
+    });
+
+    test('should validate size, extension and required fields', async () => {
+        server = createServer({ maxFileSize: 8, allowedExtensions: ['TXT'] });
+
+        const tooLarge = await send(multipart(chunkFields('f1', 0, 'abcde')));
+        expect(tooLarge.status).toBe(413);
+        expect(tooLarge.json()).toEqual({ success: false, message: 'File size exceeds limit', data: {} });
+
+        const wrongType = await send(multipart({ ...chunkFields('f1', 0, 'abc'), fileName: 'run.exe', fileSize: '3' }));
+        expect(wrongType.json().message).toBe('File type not allowed: .exe');
+
+        const { fileId, ...withoutId } = chunkFields('f1', 0, 'abc');
+        expect((await send(multipart({ ...withoutId, fileSize: '3' }))).json().message).toBe('Missing: fileId');
+
+        const { file, ...withoutFile } = chunkFields('f1', 0, 'abc');
+        expect((await send(multipart(withoutFile))).json().message).toBe('No file uploaded');
+
+        const oversizedPart = await send(multipart({ ...chunkFields('f1', 0, 'abcdefghijk'), fileSize: '3' }));
+        expect(oversizedPart.status).toBe(413);
+        expect(fs.existsSync(tempDir)).toBe(false);
+    });
+
+    test('should reject out-of-range chunks, oversized uploads and unsafe file IDs', async () => {
+        const outOfRange = await send(multipart(chunkFields('f1', 2, 'abcde')));
+        expect(outOfRange.status).toBe(400);
+        expect(outOfRange.json().message).toBe('Invalid: chunkIndex');
+
+        await send(multipart(chunkFields('f1', 0, 'abcde')));
+        await send(multipart(chunkFields('f1', 0, 'vwxyz')));
+        const oversized = await send(multipart(chunkFields('f1', 1, 'fghijk')));
+        expect(oversized.status).toBe(413);
+        expect(oversized.json().message).toBe('File size exceeds limit');
+        await send(multipart(chunkFields('f1', 1, 'fghij')));
+        const finalize = await send({ action: 'finalize', fileName: 'notes.txt', fileId: 'f1', fileSize: 10, totalChunks: 2 });
+        expect(fs.readFileSync(path.join(uploadDir, String(finalize.json().data.fileName)), 'utf8')).toBe('vwxyzfghij');
+
+        for (const fileId of ['a/b', '../f1', '..', '']) {
+            const chunk = await send(multipart(chunkFields(fileId, 0, 'abc')));
+            expect(chunk.status).toBe(400);
+            expect(chunk.json().message).toBe('Invalid: fileId');
+        }
+        expect((await send({ action: 'status', fileId: 'a/b' })).json().message).toBe('Invalid: fileId');
+        expect((await send({ action: 'finalize', fileName: 'notes.txt', fileId: 'a/b', fileSize: 3, totalChunks: 1 })).json().message)
+            .toBe('Invalid: fileId');
+        expect(fs.readdirSync(tempDir)).toEqual([]);
+    });
+
+    test('should refuse to finalize incomplete or mismatched uploads', async () => {
+        await send(multipart(chunkFields('f1', 0, 'abcde')));
+
+        const missing = await send({ action: 'finalize', fileName: 'notes.txt', fileId: 'f1', fileSize: 10, totalChunks: 2 });
+        expect(missing.status).toBe(400);
+        expect(missing.json().message).toBe('Missing chunk: 1');
+
+        await send(multipart(chunkFields('f1', 1, 'fghij')));
+        const mismatch = await send({ action: 'finalize', fileName: 'notes.txt', fileId: 'f1', fileSize: 11, totalChunks: 2 });
+        expect(mismatch.json().message).toBe('File size mismatch');
+        expect(fs.readdirSync(uploadDir)).toEqual([]);
+
+        const unknown = await send({ action: 'finalize', fileName: 'notes.txt', fileId: 'f1', fileSize: 10, totalChunks: 2 });
+        expect(unknown.json().message).toBe('Temp directory not found');
+    });
+
+    test('should keep chunks and files in the configured storage', async () => {
+        const storage = new MemoryStorage();
+        server = createServer({ storage, maxChunkSize: 5 });
+
+        await send(multipart(chunkFields('f1', 0, 'abcde')));
+        await send(multipart(chunkFields('f1', 1, 'fghij')));
+        expect(await storage.listChunks('f1')).toEqual([0, 1]);
+
+        const oversized = await send(multipart(chunkFields('f2', 0, 'abcdef')));
+        expect(oversized.status).toBe(413);
+        expect(oversized.json().message).toBe('Chunk size exceeds limit');
+
+        const finalize = await send({ action: 'finalize', fileName: 'notes.txt', fileId: 'f1', fileSize: 10, totalChunks: 2 });
+        expect(finalize.json().data).toEqual({ fileName: 'notes.txt', fileSize: 10 });
+        expect(Buffer.from(storage.getFile('notes.txt')!).toString()).toBe('abcdefghij');
+        expect(await storage.listChunks('f1')).toEqual([]);
+        expect(fs.readdirSync(dir)).toEqual([]);
+    });
+
+    test('should keep existing files and sanitize names', async () => {
+        fs.mkdirSync(uploadDir, { recursive: true });
+        fs.writeFileSync(path.join(uploadDir, 'notes.txt'), 'old');
+
+        await send(multipart({ ...chunkFields('f1', 0, 'abc'), fileName: '../../notes.txt', totalChunks: '1', fileSize: '3' }));
+        const finalize = await send({ action: 'finalize', fileName: '../../notes.txt', fileId: 'f1', fileSize: 3, totalChunks: 1 });
+
+        const fileName = String(finalize.json().data.fileName);
+        expect(fileName).toMatch(/^notes_\d+\.txt$/);
+        expect(fs.readFileSync(path.join(uploadDir, 'notes.txt'), 'utf8')).toBe('old');
+        expect(fs.readFileSync(path.join(uploadDir, fileName), 'utf8')).toBe('abc');
+        expect(fs.readdirSync(dir).sort()).toEqual(['temp', 'uploads']);
+    });
+
+    test('should run hooks and answer with their errors', async () => {
+        const onChunk = jest.fn();
+        const onComplete = jest.fn(async (file) => ({ url: `https://cdn.example.com/${file.fileName}` }));
+        server = createServer({ hooks: { onChunk, onComplete } });
+
+        await send(multipart({ ...chunkFields('f1', 0, 'abc'), totalChunks: '1', fileSize: '3' }));
+        const finalize = await send({ action: 'finalize', fileName: 'notes.txt', fileId: 'f1', fileSize: 3, totalChunks: 1 });
+
+        expect(onChunk).toHaveBeenCalledWith(expect.objectContaining({ fileId: 'f1', chunkIndex: 0, totalChunks: 1, size: 3 }));
+        expect(onComplete).toHaveBeenCalledWith(expect.objectContaining({
+            fileId: 'f1', fileName: 'notes.txt', size: 3, location: path.join(uploadDir, 'notes.txt')
+        }));
+        expect(finalize.json().data).toEqual({ fileName: 'notes.txt', fileSize: 3, url: 'https://cdn.example.com/notes.txt' });
+
+        server = createServer({ hooks: { onChunk: () => { throw new EndpointError(403, 'Quota exceeded'); } } });
+        const rejected = await send(multipart(chunkFields('f2', 0, 'abc')));
+        expect(rejected.status).toBe(403);
+        expect(rejected.json().message).toBe('Quota exceeded');
+
+        const log = jest.fn();
+        server = createServer({ log, hooks: { onChunk: () => { throw new Error('disk on fire'); } } });
+        const failed = await send(multipart(chunkFields('f3', 0, 'abc')));
+        expect(failed.status).toBe(500);
+        expect(failed.json().message).toBe('Internal server error');
+        expect(log).toHaveBeenCalledWith(expect.stringContaining('disk on fire'));
+    });
+
+    test('should merge metadata from the first chunk and finalize', async () => {
+        const onComplete = jest.fn();
+        server = createServer({ hooks: { onComplete } });
+
+        await send(multipart(chunkFields('f1', 0, 'abcde', { metadata: JSON.stringify({ albumId: 7, tags: ['a'] }) })));
+        await send(multipart(chunkFields('f1', 1, 'fghij')));
+        const finalize = await send({
+            action: 'finalize', fileName: 'notes.txt', fileId: 'f1', fileSize: 10, totalChunks: 2,
+            metadata: { tags: ['a', 'b'], folder: 'x' }
+        });
+
+        const metadata = { albumId: 7, tags: ['a', 'b'], folder: 'x' };
+        expect(finalize.json().data).toEqual({ fileName: 'notes.txt', fileSize: 10, metadata });
+        expect(onComplete).toHaveBeenCalledWith(expect.objectContaining({ fileId: 'f1', metadata }));
+
+        const invalid = await send(multipart(chunkFields('f2', 0, 'abcde', { metadata: '[1, 2]' })));
+        expect(invalid.status).toBe(400);
+        expect(invalid.json().message).toBe('Invalid: metadata');
+    });
+
+    test('should answer preflight requests and reject other methods', async () => {
+        const preflight = new FakeResponse();
+        await server.handle(fakeRequest('OPTIONS', {}), preflight as unknown as http.ServerResponse);
+        expect(preflight.status).toBe(200);
+        expect(preflight.headers['access-control-allow-origin']).toBe('*');
+
+        const get = new FakeResponse();
+        await createServer({ corsOrigin: false }).handle(fakeRequest('GET', {}), get as unknown as http.ServerResponse);
+        expect(get.status).toBe(405);
+        expect(get.headers['access-control-allow-origin']).toBeUndefined();
+    });
+
+    test('should remove stale uploads', async () => {
+        await send(multipart(chunkFields('old', 0, 'abc')));
+        await send(multipart(chunkFields('new', 0, 'abc')));
+        const dayAgo = new Date(Date.now() - 25 * 60 * 60 * 1000);
+        fs.utimesSync(path.join(tempDir, 'old'), dayAgo, dayAgo);
+
+        expect(await server.cleanupStale(24 * 60 * 60 * 1000)).toBe(1);
+        expect(fs.readdirSync(tempDir)).toEqual(['new']);
+    });
+});
+
+describe('TurboPushServer adapters', () => {
+    let dir: string;
+    let server: TurboPushServer;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'turbopush-server-'));
+        server = new TurboPushServer({ uploadDir: path.join(dir, 'uploads'), tempDir: path.join(dir, 'temp') });
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    test('should stream chunks over HTTP through the Express adapter', async () => {
+        const httpServer = http.createServer(toExpress(server));
+        await new Promise<void>(resolve => httpServer.listen(0, '127.0.0.1', resolve));
+        const { port } = httpServer.address() as { port: number };
+
+        const post = (body: Buffer | string, contentType: string) => new Promise<EndpointResponse>((resolve, reject) => {
+            const req = http.request({ port, host: '127.0.0.1', method: 'POST', headers: { 'Content-Type': contentType } }, (res) => {
+                let text = '';
+                res.on('data', (data) => { text += data; });
+                res.on('end', () => resolve(JSON.parse(text)));
+            });
+            req.on('error', reject);
+            req.end(body);
+        });
+
+        try {
+            const data = Buffer.alloc(256 * 1024, 7);
+            const chunk = await post(multipart({ ...chunkFields('f1', 0, ''), file: data, totalChunks: '1', fileSize: String(data.length) }),
+                `multipart/form-data; boundary="${BOUNDARY}"`);
+            expect(chunk.success).toBe(true);
+
+            const finalize = await post(JSON.stringify({ action: 'finalize', fileName: 'notes.txt', fileId: 'f1', fileSize: data.length, totalChunks: 1 }),
+                'application/json');
+            expect(finalize.data).toEqual({ fileName: 'notes.txt', fileSize: data.length });
+            expect(fs.readFileSync(path.join(dir, 'uploads', 'notes.txt')).equals(data)).toBe(true);
+        } finally {
+            await new Promise(resolve => httpServer.close(resolve));
+        }
+    });
+
+    test('should use bodies already parsed by the framework', async () => {
+        const req = fakeRequest('POST', { 'content-type': 'application/json' });
+        for await (const _ of req) { /* consumed by the framework's body parser */ }
+        const res = new FakeResponse();
+        const reply = { raw: res as unknown as http.ServerResponse, hijack: jest.fn() };
+
+        await toFastify(server)({ raw: req, body: { action: 'status', fileId: 'f1' } }, reply);
+
+        expect(reply.hijack).toHaveBeenCalled();
+        expect(res.json().data).toEqual({ fileId: 'f1', uploadedChunks: [] });
+    });
+});
+
+describe('TurboPush client against TurboPushServer', () => {
+    let dir: string;
+    let server: TurboPushServer;
+    let originalFormData: typeof FormData;
+
+    /** FormData keeping Blob values (jsdom's turns the test Blob into a string) */
+    class RecordingFormData {
+        public entries: [string, string | Blob][] = [];
+
+        append(name: string, value: string | Blob): void {
+            this.entries.push([name, value]);
+        }
+    }
+
+    /** fetch() that hands requests straight to the server */
+    const serverFetch = async (url: string, options: RequestInit): Promise<Response> => {
+        let req: http.IncomingMessage;
+        if (options.body instanceof RecordingFormData) {
+            const fields: Record<string, string | Buffer> = {};
+            for (const [name, value] of options.body.entries) {
+                fields[name] = typeof value === 'string' ? value : Buffer.from(await value.arrayBuffer());
+            }
+            req = fakeRequest('POST', { 'content-type': `multipart/form-data; boundary=${BOUNDARY}` }, multipart(fields));
+        } else {
+            req = fakeRequest('POST', { 'content-type': 'application/json' }, options.body as string);
+        }
+
+        const res = new FakeResponse();
+        await server.handle(req, res as unknown as http.ServerResponse);
+        return {
+            ok: res.status >= 200 && res.status < 300,
+            status: res.status,
+            statusText: '',
+            headers: { get: () => null },
+            json: async () => res.json()
+        } as unknown as Response;
+    };
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'turbopush-server-'));
+        server = new TurboPushServer({ uploadDir: path.join(dir, 'uploads'), tempDir: path.join(dir, 'temp') });
+        originalFormData = global.FormData;
+        global.FormData = RecordingFormData as unknown as typeof FormData;
+        global.fetch = serverFetch as unknown as typeof fetch;
+    });
+
+    afterEach(() => {
+        global.FormData = originalFormData;
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    test('should upload a file in verified chunks', async () => {
+        const content = Array.from({ length: 500 }, (_, i) => `row ${i}\n`).join('');
+        const file = new File([new Blob([content])], 'report.csv');
+        const turbopush = new TurboPush({ endpoint: '/upload', chunkSize: 1000, checksum: 'sha256' });
+
+        const handle = turbopush.addFile(file);
+        await turbopush.push();
+
+        expect(await handle.promise).toEqual(expect.objectContaining({ fileName: 'report.csv', fileSize: content.length }));
+        expect(fs.readFileSync(path.join(dir, 'uploads', 'report.csv'), 'utf8')).toBe(content);
+    });
+
+    test('should upload a file with a 300-character name under a resumable ID', async () => {
+        const name = `${'q'.repeat(296)}.txt`;
+        const file = new File([new Blob(['content'])], name);
+        const turbopush = new TurboPush({ endpoint: '/upload', checkServerStatus: true });
+
+        const handle = turbopush.addFile(file);
+        const stats = await turbopush.push();
+
+        expect(name).toHaveLength(300);
+        expect(handle.fileId.length).toBeLessThanOrEqual(255);
+        expect(stats).toMatchObject({ completedFiles: 1, failedFiles: 0 });
+        expect(fs.readdirSync(path.join(dir, 'uploads'))).toHaveLength(1);
+    });
+
+    test('should upload dedup files with repeated content to a server without a chunk store', async () => {
+        const block = Buffer.from(Array.from({ length: 20000 }, (_, i) => (i * 7919) % 251));
+        const content = Buffer.concat([block, block, block]);
+        const file = new File([new Blob([new Uint8Array(content)])], 'repeated.bin');
+        const turbopush = new TurboPush({ endpoint: '/upload', dedup: { avgChunkSize: 2048 } });
+
+        const handle = turbopush.addFile(file);
+        const stats = await turbopush.push();
+
+        expect(await handle.promise).toEqual(expect.objectContaining({ fileName: 'repeated.bin', dedupedBytes: 0 }));
+        expect(stats).toMatchObject({ completedFiles: 1, failedFiles: 0 });
+        expect(Buffer.compare(fs.readFileSync(path.join(dir, 'uploads', 'repeated.bin')), content)).toBe(0);
+    });
+
+    test('should upload compressed chunks', async () => {
+        const content = Array.from({ length: 500 }, (_, i) => `row ${i}\n`).join('');
+        const file = new File([new Blob([content])], 'report.csv', { type: 'text/csv' });
+        const turbopush = new TurboPush({ endpoint: '/upload', chunkSize: 1000, checksum: 'sha256', compression: 'gzip' });
+
+        const handle = turbopush.addFile(file);
+        const stats = await turbopush.push();
+
+        expect(await handle.promise).toEqual(expect.objectContaining({ fileName: 'report.csv', fileSize: content.length }));
+        expect(fs.readFileSync(path.join(dir, 'uploads', 'report.csv'), 'utf8')).toBe(content);
+        expect(stats.wireBytes).toBeLessThan(content.length / 2);
+    });
+
+    test('should upload encrypted chunks the server cannot read', async () => {
+        const originalCrypto = globalThis.crypto;
+        Object.defineProperty(globalThis, 'crypto', { value: webcrypto, configurable: true });
+        try {
+            const kek = await webcrypto.subtle.generateKey({ name: 'AES-KW', length: 256 }, false, ['wrapKey', 'unwrapKey']);
+            const keyProvider = async () => ({ id: 'kek-1', key: kek as unknown as CryptoKey });
+            const onComplete = jest.fn();
+            server = new TurboPushServer({ uploadDir: path.join(dir, 'uploads'), tempDir: path.join(dir, 'temp'), hooks: { onComplete } });
+
+            const content = Array.from({ length: 500 }, (_, i) => `row ${i}\n`).join('');
+            const file = new File([new Blob([content])], 'report.csv');
+            const turbopush = new TurboPush({ endpoint: '/upload', chunkSize: 1000, checksum: 'sha256', encryption: { keyProvider } });
+
+            const handle = turbopush.addFile(file);
+            await turbopush.push();
+            const result = await handle.promise;
+
+            const stored = fs.readFileSync(path.join(dir, 'uploads', 'report.csv'));
+            expect(stored.length).toBe(content.length + 16 * Math.ceil(content.length / 1000));
+            expect(stored.includes('row 1\n')).toBe(false);
+            expect(result.encryption).toEqual(expect.objectContaining({ keyId: 'kek-1', wrapAlgorithm: 'AES-KW' }));
+            expect(onComplete).toHaveBeenCalledWith(expect.objectContaining({ encryption: result.encryption, checksum: undefined }));
+
+            const decrypted = await decryptFile(new Uint8Array(stored), result.encryption!, keyProvider);
+            expect(Buffer.from(await decrypted.arrayBuffer()).toString()).toBe(content);
+        } finally {
+            Object.defineProperty(globalThis, 'crypto', { value: originalCrypto, configurable: true });
+        }
+    });
+});
@@ -0,0 +1,90 @@
+/**
+ * Unit Tests for TurboPush State Stores
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { MemoryStateStore, FileStateStore } from '../TurboPushStateStore';
+import type { UploadState } from '../TurboPush';
+
+function makeState(fileId: string, uploadedChunks: number[]): UploadState {
+    return {
+        fileId,
+        fileName: 'video.mp4',
+        fileSize: 1000,
+        chunkSize: 100,
+        totalChunks: 10,
+        uploadedChunks,
+        updatedAt: Date.now()
+    };
+}
+
+describe('MemoryStateStore', () => {
+    test('should store and load state', async () => {
+        const store = new MemoryStateStore();
+        await store.set(makeState('a', [0, 1]));
+        expect((await store.get('a'))?.uploadedChunks).toEqual([0, 1]);
+    });
+
+    test('should return copies that do not alias stored state', async () => {
+        const store = new MemoryStateStore();
+        await store.set(makeState('a', [0]));
+        (await store.get('a'))!.uploadedChunks.push(5);
+        expect((await store.get('a'))?.uploadedChunks).toEqual([0]);
+    });
+
+    test('should delete state', async () => {
+        const store = new MemoryStateStore();
+        await store.set(makeState('a', [0]));
+        await store.delete('a');
+        expect(await store.get('a')).toBeUndefined();
+    });
+});
+
+describe('FileStateStore', () => {
+    let dir: string;
+    let filePath: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'turbopush-'));
+        filePath = path.join(dir, 'state.json');
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    test('should persist state across instances', async () => {
+        await new FileStateStore(filePath).set(makeState('a', [0, 2]));
+
+        const reopened = new FileStateStore(filePath);
+        expect((await reopened.get('a'))?.uploadedChunks).toEqual([0, 2]);
+    });
+
+    test('should serialize concurrent writes', async () => {
+        const store = new FileStateStore(filePath);
+        await Promise.all([
+            store.set(makeState('a', [0])),
+            store.set(makeState('b', [1])),
+            store.set(makeState('a', [0, 1]))
+        ]);
+
+        const saved = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+        expect(Object.keys(saved).sort()).toEqual(['a', 'b']);
+        expect(saved.a.uploadedChunks).toEqual([0, 1]);
+    });
+
+    test('should delete state from disk', async () => {
+        const store = new FileStateStore(filePath);
+        await store.set(makeState('a', [0]));
+        await store.delete('a');
+
+        expect(await new FileStateStore(filePath).get('a')).toBeUndefined();
+    });
+
+    test('should treat a corrupt file as empty', async () => {
+        fs.writeFileSync(filePath, '{not json');
+        expect(await new FileStateStore(filePath).get('a')).toBeUndefined();
+    });
+});
@@ -0,0 +1,89 @@
+/**
+ * Unit Tests for the Bandwidth Throttle
+ */
+
+import { BandwidthThrottle } from '../TurboPushThrottle';
+
+describe('BandwidthThrottle', () => {
+    beforeEach(() => {
+        jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    /** Resolves once pending promise callbacks have run */
+    const flush = () => Promise.resolve().then(() => undefined);
+
+    test('should not wait when unlimited', async () => {
+        const throttle = new BandwidthThrottle(0);
+        await expect(throttle.consume(10 * 1024 * 1024)).resolves.toBeUndefined();
+    });
+
+    test('should allow one second of bytes at once, then pace', async () => {
+        const throttle = new BandwidthThrottle(1000);
+        await throttle.consume(1000);
+
+        const sent = jest.fn();
+        throttle.consume(500).then(sent);
+        jest.advanceTimersByTime(499);
+        await flush();
+        expect(sent).not.toHaveBeenCalled();
+
+        jest.advanceTimersByTime(1);
+        await flush();
+        expect(sent).toHaveBeenCalled();
+    });
+
+    test('should let requests larger than the bucket go into debt', async () => {
+        const throttle = new BandwidthThrottle(1000);
+        await throttle.consume(3000);
+
+        // The next request waits until the 2000 bytes of debt are paid off
+        const sent = jest.fn();
+        throttle.consume(100).then(sent);
+        jest.advanceTimersByTime(2099);
+        await flush();
+        expect(sent).not.toHaveBeenCalled();
+
+        jest.advanceTimersByTime(1);
+        await flush();
+        expect(sent).toHaveBeenCalled();
+    });
+
+    test('should apply a new rate to waiting requests', async () => {
+        const throttle = new BandwidthThrottle(100);
+        await throttle.consume(100);
+
+        const sent = jest.fn();
+        throttle.consume(100).then(sent);
+        throttle.setRate(1000);
+        jest.advanceTimersByTime(100);
+        await flush();
+        expect(sent).toHaveBeenCalled();
+
+        throttle.consume(5000).then(sent);
+        throttle.setRate(0);
+        await flush();
+        expect(sent).toHaveBeenCalledTimes(2);
+        expect(throttle.getRate()).toBe(0);
+    });
+
+    test('should abandon aborted waits and serve the next request', async () => {
+        const throttle = new BandwidthThrottle(1000);
+        await throttle.consume(1000);
+
+        const controller = new AbortController();
+        const aborted = throttle.consume(1000, controller.signal);
+        const sent = jest.fn();
+        throttle.consume(500).then(sent);
+
+        controller.abort();
+        await expect(aborted).rejects.toMatchObject({ name: 'AbortError' });
+
+        jest.advanceTimersByTime(500);
+        await flush();
+        expect(sent).toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,190 @@
+/**
+ * Tests for the XMLHttpRequest Transport and byte-accurate progress
+ */
+
+import { TurboPush } from '../TurboPush';
+import { XhrTransport } from '../TurboPushTransport';
+
+/**
+ * Scripted XMLHttpRequest: tests report upload progress and respond by hand
+ */
+class FakeXhr {
+    static requests: FakeXhr[] = [];
+
+    method = '';
+    url = '';
+    headers: Record<string, string> = {};
+    withCredentials = false;
+    status = 0;
+    statusText = '';
+    responseText = '';
+    body: unknown;
+    upload: { onprogress?: (event: Partial<ProgressEvent>) => void } = {};
+    onload?: () => void;
+    onerror?: () => void;
+    onabort?: () => void;
+
+    open(method: string, url: string): void {
+        this.method = method;
+        this.url = url;
+    }
+
+    setRequestHeader(name: string, value: string): void {
+        this.headers[name] = value;
+    }
+
+    getResponseHeader(_name: string): string | null {
+        return null;
+    }
+
+    send(body: unknown): void {
+        this.body = body;
+        FakeXhr.requests.push(this);
+    }
+
+    abort(): void {
+        this.onabort?.();
+    }
+
+    progress(loaded: number, total: number): void {
+        this.upload.onprogress?.({ lengthComputable: true, loaded, total });
+    }
+
+    respond(status: number, body: unknown): void {
+        this.status = status;
+        this.statusText = status === 200 ? 'OK' : 'Internal Server Error';
+        this.responseText = JSON.stringify(body);
+        this.onload?.();
+    }
+}
+
+describe('XhrTransport', () => {
+    const originalXhr = global.XMLHttpRequest;
+    const content = 'x'.repeat(1000);
+
+    /** Waits until the chunk request count reaches `count` */
+    async function nextRequest(count: number): Promise<FakeXhr> {
+        while (FakeXhr.requests.length < count) {
+            await new Promise(resolve => setTimeout(resolve, 5));
+        }
+        return FakeXhr.requests[count - 1];
+    }
+
+    /** Answers chunk requests until the finalize request, then resolves */
+    function answerFinalize(): void {
+        global.fetch = jest.fn().mockResolvedValue({
+            ok: true,
+            json: async () => ({ success: true, data: { fileSize: content.length } })
+        }) as unknown as typeof fetch;
+    }
+
+    beforeEach(() => {
+        FakeXhr.requests = [];
+        global.XMLHttpRequest = FakeXhr as unknown as typeof XMLHttpRequest;
+        answerFinalize();
+    });
+
+    afterEach(() => {
+        global.XMLHttpRequest = originalXhr;
+    });
+
+    test('should send chunks with headers and credentials', async () => {
+        const turbopush = new TurboPush({
+            endpoint: '/upload',
+            chunkSize: 1000,
+            headers: { 'Authorization': 'Bearer token' },
+            withCredentials: true,
+            transport: new XhrTransport()
+        });
+
+        const pushing = turbopush.addFiles([new File([content], 'file.txt')]).push();
+        const xhr = await nextRequest(1);
+        xhr.respond(200, { success: true });
+        const stats = await pushing;
+
+        expect(stats.completedFiles).toBe(1);
+        expect(xhr.method).toBe('POST');
+        expect(xhr.url).toBe('/upload');
+        expect(xhr.headers).toEqual({ 'Authorization': 'Bearer token' });
+        expect(xhr.withCredentials).toBe(true);
+        expect(xhr.body).toBeInstanceOf(FormData);
+    });
+
+    test('should report bytes sent while a chunk is in flight', async () => {
+        const turbopush = new TurboPush({
+            endpoint: '/upload',
+            chunkSize: 1000,
+            transport: new XhrTransport()
+        });
+
+        const uploaded: number[] = [];
+        const pushing = turbopush
+            .addFiles([new File([content], 'file.txt')])
+            .onProgress(progress => uploaded.push(progress[0].uploadedSize))
+            .push();
+        const xhr = await nextRequest(1);
+
+        // The body holds 200 bytes of multipart overhead, counted first
+        xhr.progress(100, 1200);
+        xhr.progress(700, 1200);
+        expect(turbopush.getStats().uploadedBytes).toBe(500);
+        expect(turbopush.getProgress()[0].percentage).toBe(50);
+
+        xhr.progress(1200, 1200);
+        xhr.respond(200, { success: true });
+        const stats = await pushing;
+
+        expect(uploaded).toEqual([500, 1000, 1000]);
+        expect(stats.uploadedBytes).toBe(1000);
+    });
+
+    test('should roll back bytes sent by a failed attempt', async () => {
+        const turbopush = new TurboPush({
+            endpoint: '/upload',
+            chunkSize: 1000,
+            retryDelay: 100,
+            transport: new XhrTransport()
+        });
+
+        const uploaded: number[] = [];
+        const pushing = turbopush
+            .addFiles([new File([content], 'file.txt')])
+            .onProgress(progress => uploaded.push(progress[0].uploadedSize))
+            .push();
+
+        const first = await nextRequest(1);
+        first.progress(800, 1200);
+        first.respond(500, { success: false, error: 'Disk full' });
+        await new Promise(resolve => setTimeout(resolve, 0));
+        expect(turbopush.getStats().uploadedBytes).toBe(0);
+
+        const retry = await nextRequest(2);
+        retry.progress(1200, 1200);
+        retry.respond(200, { success: true });
+        const stats = await pushing;
+
+        expect(uploaded).toEqual([600, 0, 1000, 1000]);
+        expect(stats.completedFiles).toBe(1);
+        expect(stats.uploadedBytes).toBe(1000);
+    });
+
+    test('should abort the request when paused', async () => {
+        const turbopush = new TurboPush({
+            endpoint: '/upload',
+            chunkSize: 1000,
+            transport: new XhrTransport()
+        });
+
+        turbopush.addFiles([new File([content], 'file.txt')]).push();
+        const xhr = await nextRequest(1);
+        xhr.progress(500, 1200);
+
+        const abort = jest.spyOn(xhr, 'abort');
+        turbopush.pause();
+
+        expect(abort).toHaveBeenCalled();
+        await new Promise(resolve => setTimeout(resolve, 0));
+        expect(turbopush.getStats().uploadedBytes).toBe(0);
+        expect(turbopush.getProgress()[0].uploadedSize).toBe(0);
+    });
+});
@@ -0,0 +1,179 @@
+/**
+ * Integration Tests for the tus Transport
+ */
+
+import { TurboPush } from '../TurboPush';
+import { TusTransport } from '../TurboPushTus';
+import type { TusUrlStorage } from '../TurboPushTus';
+import { MemoryStateStore } from '../TurboPushStateStore';
+import { MockTusServer } from './mocks/MockTusServer';
+
+class MapStorage implements TusUrlStorage {
+    public items: Map<string, string> = new Map();
+    getItem(key: string): string | null { return this.items.get(key) ?? null; }
+    setItem(key: string, value: string): void { this.items.set(key, value); }
+    removeItem(key: string): void { this.items.delete(key); }
+}
+
+describe('TusTransport', () => {
+    let tusServer: MockTusServer;
+    const content = 'The quick brown fox jumps over the lazy dog. '.repeat(20);
+
+    beforeEach(() => {
+        tusServer = new MockTusServer();
+        tusServer.start();
+    });
+
+    afterEach(() => {
+        tusServer.stop();
+    });
+
+    function methods(): string[] {
+        return tusServer.getRequests().map(r => r.method);
+    }
+
+    test('should create an upload and PATCH chunks in order', async () => {
+        const file = new File([content], 'fox.txt', { type: 'text/plain' });
+        const turbopush = new TurboPush({
+            endpoint: tusServer.getEndpoint(),
+            chunkSize: 100,
+            maxConcurrentUploads: 5,
+            transport: new TusTransport()
+        });
+
+        const stats = await turbopush.addFiles([file]).push();
+
+        expect(stats.completedFiles).toBe(1);
+        expect(methods()).toEqual(['POST', ...Array(Math.ceil(content.length / 100)).fill('PATCH')]);
+
+        const [upload] = Array.from(tusServer.getUploads().values());
+        expect(upload.metadata).toEqual({ filename: 'fox.txt', filetype: 'text/plain' });
+        expect(tusServer.getContent('upload-1')).toBe(content);
+    });
+
+    test('should add file metadata to Upload-Metadata', async () => {
+        const file = new File([content], 'fox.txt', { type: 'text/plain' });
+        const turbopush = new TurboPush({ endpoint: tusServer.getEndpoint(), transport: new TusTransport() });
+
+        const { promise } = turbopush.addFile(file, { metadata: { album: 'Zoo', tags: ['fox'], filename: 'x' } });
+        await turbopush.push();
+        await promise;
+
+        const [upload] = Array.from(tusServer.getUploads().values());
+        expect(upload.metadata).toEqual({ filename: 'fox.txt', filetype: 'text/plain', album: 'Zoo', tags: '["fox"]' });
+    });
+
+    test('should reject metadata keys tus cannot carry', async () => {
+        const turbopush = new TurboPush({ endpoint: tusServer.getEndpoint(), transport: new TusTransport() });
+
+        const { promise } = turbopush.addFile(new File([content], 'fox.txt'), { metadata: { 'album name': 'Zoo' } });
+        await turbopush.push();
+
+        await expect(promise).rejects.toMatchObject({
+            code: 'validation',
+            message: 'TurboPush: tus metadata keys must be ASCII without spaces or commas: album name'
+        });
+        expect(methods()).toEqual([]);
+    });
+
+    test('should resume mid-chunk after a dropped connection', async () => {
+        tusServer.simulateInterruptions(1);
+
+        const file = new File([content], 'fox.txt');
+        const turbopush = new TurboPush({
+            endpoint: tusServer.getEndpoint(),
+            chunkSize: 300,
+            retryDelay: 100,
+            transport: new TusTransport()
+        });
+
+        const stats = await turbopush.addFiles([file]).push();
+
+        expect(stats.completedFiles).toBe(1);
+        expect(methods()).toContain('HEAD');
+        expect(tusServer.getContent('upload-1')).toBe(content);
+
+        // The retry only sends the half the server did not receive
+        const patches = tusServer.getRequests().filter(r => r.method === 'PATCH');
+        const offsets = patches.map(r => (r.options!.headers as Record<string, string>)['Upload-Offset']);
+        expect(offsets.slice(0, 3)).toEqual(['0', '150', '300']);
+    });
+
+    test('should send sha256 chunk checksums', async () => {
+        const file = new File([content], 'fox.txt');
+        const turbopush = new TurboPush({
+            endpoint: tusServer.getEndpoint(),
+            chunkSize: 400,
+            checksum: 'sha256',
+            transport: new TusTransport()
+        });
+
+        const stats = await turbopush.addFiles([file]).push();
+
+        expect(stats.completedFiles).toBe(1);
+        const patch = tusServer.getRequests().find(r => r.method === 'PATCH')!;
+        expect((patch.options!.headers as Record<string, string>)['Upload-Checksum']).toMatch(/^sha256 /);
+    });
+
+    test('should finalize once the server holds every byte', async () => {
+        const file = new File([content], 'fox.txt');
+        const turbopush = new TurboPush({ endpoint: tusServer.getEndpoint(), transport: new TusTransport() });
+
+        const completeCallback = jest.fn();
+        await turbopush.addFiles([file]).onFileComplete(completeCallback).push();
+
+        expect(completeCallback).toHaveBeenCalledWith('fox.txt', expect.any(String), expect.objectContaining({
+            fileSize: content.length
+        }));
+    });
+
+    test('should resume a stored upload URL in a new session', async () => {
+        const urlStorage = new MapStorage();
+        const stateStore = new MemoryStateStore();
+        const file = new File([content], 'fox.txt', { lastModified: 1700000000000 });
+
+        // First session stops after two chunks
+        const first = new TurboPush({
+            endpoint: tusServer.getEndpoint(),
+            chunkSize: 100,
+            stateStore,
+            transport: new TusTransport({ urlStorage })
+        });
+        let chunks = 0;
+        first.addFiles([file]).onProgress(() => {
+            if (++chunks === 2) first.pause();
+        });
+        first.push();
+        await new Promise(resolve => setTimeout(resolve, 200));
+        expect(urlStorage.items.size).toBe(1);
+
+        const second = new TurboPush({
+            endpoint: tusServer.getEndpoint(),
+            chunkSize: 100,
+            stateStore,
+            transport: new TusTransport({ urlStorage })
+        });
+        const stats = await second.addFiles([file]).push();
+
+        expect(stats.completedFiles).toBe(1);
+        expect(tusServer.getUploads().size).toBe(1);
+        expect(tusServer.getContent('upload-1')).toBe(content);
+        expect(urlStorage.items.size).toBe(0);
+    });
+
+    test('should terminate the upload on cancel', async () => {
+        const file = new File([content], 'fox.txt');
+        const turbopush = new TurboPush({
+            endpoint: tusServer.getEndpoint(),
+            chunkSize: 100,
+            transport: new TusTransport()
+        });
+
+        turbopush.addFiles([file]).onProgress(() => turbopush.cancel());
+        turbopush.push();
+        await new Promise(resolve => setTimeout(resolve, 200));
+
+        expect(methods()).toContain('DELETE');
+        expect(tusServer.getUploads().size).toBe(0);
+    });
+});
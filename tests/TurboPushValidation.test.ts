@@ -0,0 +1,76 @@
+/**
+ * Unit Tests for Client-side File Validation
+ */
+
+import { checkFile, runValidators, FileValidationError } from '../TurboPushValidation';
+
+const emptyQueue = { count: 0, totalBytes: 0 };
+
+function makeFile(size: number, name: string, type: string = ''): File {
+    return new File([new Blob(['x'.repeat(size)])], name, { type });
+}
+
+describe('File Validation', () => {
+    test('should accept files within every rule', () => {
+        const file = makeFile(100, 'photo.JPG', 'image/jpeg');
+
+        expect(checkFile(file, {
+            maxFileSize: 100,
+            minFileSize: 100,
+            allowedExtensions: ['.jpg', 'png'],
+            allowedMimeTypes: ['image/*'],
+            maxFiles: 1,
+            maxTotalSize: 100
+        }, emptyQueue)).toBeUndefined();
+    });
+
+    test('should reject files outside the size limits', () => {
+        const large = checkFile(makeFile(101, 'a.txt'), { maxFileSize: 100 }, emptyQueue);
+        const small = checkFile(makeFile(1, 'a.txt'), { minFileSize: 2 }, emptyQueue);
+
+        expect(large).toBeInstanceOf(FileValidationError);
+        expect(large!.rule).toBe('file-too-large');
+        expect(large!.message).toBe('TurboPush: a.txt exceeds the maximum file size of 100 bytes');
+        expect(small!.rule).toBe('file-too-small');
+    });
+
+    test('should match extensions and MIME type patterns', () => {
+        const rules = { allowedExtensions: ['pdf'] };
+        expect(checkFile(makeFile(1, 'report.PDF'), rules, emptyQueue)).toBeUndefined();
+        expect(checkFile(makeFile(1, 'report.pdf.exe'), rules, emptyQueue)!.rule).toBe('extension-not-allowed');
+        expect(checkFile(makeFile(1, 'pdf'), rules, emptyQueue)!.rule).toBe('extension-not-allowed');
+
+        const types = { allowedMimeTypes: ['image/*', 'application/pdf'] };
+        expect(checkFile(makeFile(1, 'a', 'image/svg+xml'), types, emptyQueue)).toBeUndefined();
+        expect(checkFile(makeFile(1, 'a', 'application/pdf'), types, emptyQueue)).toBeUndefined();
+        expect(checkFile(makeFile(1, 'a', 'text/plain'), types, emptyQueue)!.rule).toBe('type-not-allowed');
+        expect(checkFile(makeFile(1, 'a'), types, emptyQueue)!.rule).toBe('type-not-allowed');
+    });
+
+    test('should enforce queue limits', () => {
+        const file = makeFile(50, 'a.txt');
+
+        expect(checkFile(file, { maxFiles: 2 }, { count: 2, totalBytes: 0 })!.rule).toBe('too-many-files');
+        expect(checkFile(file, { maxTotalSize: 100 }, { count: 1, totalBytes: 50 })).toBeUndefined();
+        expect(checkFile(file, { maxTotalSize: 100 }, { count: 1, totalBytes: 51 })!.rule).toBe('total-size-exceeded');
+    });
+
+    test('should stop at the first custom validator that rejects', async () => {
+        const file = makeFile(1, 'photo.png');
+        const skipped = jest.fn();
+
+        const returned = await runValidators(file, [
+            () => undefined,
+            async () => 'image must be at least 800px wide',
+            skipped
+        ]);
+        const thrown = await runValidators(file, [() => { throw new Error('corrupt header'); }]);
+
+        expect(returned!.rule).toBe('custom');
+        expect(returned!.message).toBe('TurboPush: photo.png was rejected: image must be at least 800px wide');
+        expect(returned!.file).toBe(file);
+        expect(skipped).not.toHaveBeenCalled();
+        expect(thrown!.message).toBe('TurboPush: photo.png was rejected: corrupt header');
+        expect(await runValidators(file, [async () => undefined])).toBeUndefined();
+    });
+});
@@ -0,0 +1,414 @@
+/**
+ * MockMinio - In-process S3-compatible Bucket for Testing
+ *
+ * Intercepts fetch and answers the subset of the S3 REST API S3Storage
+ * speaks against a MinIO-style path-style endpoint: object PUT/GET/HEAD/DELETE,
+ * ListObjectsV2 with continuation tokens, and multipart create/part/complete/abort.
+ * Requests must carry a SigV4 Authorization header with the expected access
+ * key and an x-amz-content-sha256 matching the body.
+ *
+ * @example
+ * ```typescript
+ * const minio = new MockMinio();
+ * minio.start();
+ *
+ * const storage = new S3Storage({
+ *     endpoint: minio.getEndpoint(),
+ *     bucket: minio.getBucket(),
+ *     accessKeyId: MockMinio.ACCESS_KEY,
+ *     secretAccessKey: 'secret'
+ * });
+ *
+ * // Run tests...
+ *
+ * minio.stop();
+ * ```
+ *
+ * @class MockMinio
+ * @since 1.1.0
+ */
+
+import { createHash } from 'crypto';
+
+/**
+ * Mock HTTP response object matching the parts of Response used by S3Storage
+ */
+interface MockResponse {
+    ok: boolean;
+    status: number;
+    statusText: string;
+    headers: { get(name: string): string | null };
+    text: () => Promise<string>;
+    arrayBuffer: () => Promise<ArrayBuffer>;
+}
+
+/**
+ * Request capture object containing method, URL and options
+ */
+interface CapturedRequest {
+    method: string;
+    url: string;
+    options?: RequestInit;
+}
+
+/**
+ * Stored object
+ */
+interface MockObject {
+    bytes: Uint8Array;
+    lastModified: Date;
+}
+
+/**
+ * Multipart upload in progress
+ */
+interface MockMultipartUpload {
+    key: string;
+    parts: Map<number, { etag: string; bytes: Uint8Array }>;
+}
+
+export class MockMinio {
+    /** Access key requests must be signed with */
+    public static readonly ACCESS_KEY = 'minioadmin';
+
+    /** Array of all captured HTTP requests */
+    private requests: CapturedRequest[] = [];
+
+    /** Map of object key -> object */
+    private objects: Map<string, MockObject> = new Map();
+
+    /** Map of uploadId -> multipart upload in progress */
+    private uploads: Map<string, MockMultipartUpload> = new Map();
+
+    /** Smallest accepted size of every part but the last */
+    private minPartSize: number = 5 * 1024 * 1024;
+
+    /** Most keys returned per ListObjectsV2 page */
+    private maxKeys: number = 1000;
+
+    /** Counter used to generate upload ids */
+    private nextId: number = 1;
+
+    /** Service URL */
+    private endpoint: string = 'http://minio.test:9000';
+
+    /** Name of the only bucket */
+    private bucket: string = 'uploads';
+
+    /** Reference to the original global fetch function */
+    private originalFetch: typeof global.fetch;
+
+    /**
+     * Creates a new MockMinio instance
+     * Saves the original global fetch function for later restoration
+     */
+    constructor() {
+        this.originalFetch = global.fetch;
+    }
+
+    /**
+     * Starts the mock by replacing global.fetch
+     *
+     * @public
+     * @returns {void}
+     */
+    public start(): void {
+        global.fetch = this.mockFetch.bind(this) as unknown as typeof fetch;
+    }
+
+    /**
+     * Stops the mock, restores fetch and discards all state
+     *
+     * @public
+     * @returns {void}
+     */
+    public stop(): void {
+        global.fetch = this.originalFetch;
+        this.requests = [];
+        this.objects.clear();
+        this.uploads.clear();
+        this.minPartSize = 5 * 1024 * 1024;
+        this.maxKeys = 1000;
+    }
+
+    /**
+     * Gets the service URL
+     *
+     * @public
+     * @returns {string} Endpoint URL
+     */
+    public getEndpoint(): string {
+        return this.endpoint;
+    }
+
+    /**
+     * Gets the bucket name
+     *
+     * @public
+     * @returns {string} Bucket name
+     */
+    public getBucket(): string {
+        return this.bucket;
+    }
+
+    /**
+     * Retrieves all captured requests
+     *
+     * @public
+     * @returns {CapturedRequest[]} Array of captured requests
+     */
+    public getRequests(): CapturedRequest[] {
+        return this.requests;
+    }
+
+    /**
+     * Lists all object keys
+     *
+     * @public
+     * @returns {string[]} Keys in sorted order
+     */
+    public getKeys(): string[] {
+        return [...this.objects.keys()].sort();
+    }
+
+    /**
+     * Gets an object as text
+     *
+     * @public
+     * @param {string} key - Object key
+     * @returns {string | undefined} Object content, or undefined if missing
+     */
+    public getObject(key: string): string | undefined {
+        const object = this.objects.get(key);
+        return object ? Buffer.from(object.bytes).toString() : undefined;
+    }
+
+    /**
+     * Gets the multipart uploads still in progress
+     *
+     * @public
+     * @returns {Map<string, MockMultipartUpload>} Map of uploadId -> upload
+     */
+    public getUploads(): Map<string, MockMultipartUpload> {
+        return this.uploads;
+    }
+
+    /**
+     * Sets the smallest accepted part size (S3 and MinIO use 5 MiB)
+     *
+     * @public
+     * @param {number} size - Size in bytes
+     * @returns {void}
+     */
+    public setMinPartSize(size: number): void {
+        this.minPartSize = size;
+    }
+
+    /**
+     * Sets the page size of ListObjectsV2 to exercise continuation tokens
+     *
+     * @public
+     * @param {number} maxKeys - Keys per page
+     * @returns {void}
+     */
+    public setMaxKeys(maxKeys: number): void {
+        this.maxKeys = maxKeys;
+    }
+
+    /**
+     * Backdates all objects under a prefix
+     *
+     * @public
+     * @param {string} prefix - Key prefix
+     * @param {Date} date - New modification time
+     * @returns {void}
+     */
+    public setLastModified(prefix: string, date: Date): void {
+        for (const [key, object] of this.objects) {
+            if (key.startsWith(prefix)) object.lastModified = date;
+        }
+    }
+
+    /**
+     * Mock fetch implementation routing S3 requests
+     *
+     * @private
+     * @param {string | URL | Request} url - Request URL
+     * @param {RequestInit} [options] - Fetch options
+     * @returns {Promise<MockResponse>} Promise resolving to mock response
+     */
+    private async mockFetch(url: string | URL | Request, options: RequestInit = {}): Promise<MockResponse> {
+        const method = options.method || 'GET';
+        this.requests.push({ method, url: url.toString(), options });
+
+        const parsed = new URL(url.toString());
+        const [bucket, ...segments] = parsed.pathname.slice(1).split('/');
+        if (parsed.origin !== this.endpoint || bucket !== this.bucket) {
+            return this.error(404, 'NoSuchBucket');
+        }
+
+        const headers = (options.headers || {}) as Record<string, string>;
+        const body = options.body ? new Uint8Array(options.body as Uint8Array) : new Uint8Array(0);
+        if (!(headers['Authorization'] || '').startsWith(`AWS4-HMAC-SHA256 Credential=${MockMinio.ACCESS_KEY}/`)) {
+            return this.error(403, 'InvalidAccessKeyId');
+        }
+        if (headers['x-amz-content-sha256'] !== createHash('sha256').update(body).digest('hex')) {
+            return this.error(400, 'XAmzContentSHA256Mismatch');
+        }
+
+        const key = segments.map(decodeURIComponent).join('/');
+        const query = parsed.searchParams;
+
+        if (key === '') {
+            return method === 'GET' && query.get('list-type') === '2' ? this.list(query) : this.error(400, 'InvalidRequest');
+        }
+        if (method === 'POST' && query.has('uploads')) {
+            const uploadId = `upload-${this.nextId++}`;
+            this.uploads.set(uploadId, { key, parts: new Map() });
+            return this.respond(200, { body: `<InitiateMultipartUploadResult><UploadId>${uploadId}</UploadId></InitiateMultipartUploadResult>` });
+        }
+        if (query.has('uploadId')) {
+            return this.multipart(method, key, query, body);
+        }
+
+        switch (method) {
+            case 'PUT': {
+                this.objects.set(key, { bytes: body, lastModified: new Date(Date.now()) });
+                return this.respond(200, { headers: { ETag: this.etag(body) } });
+            }
+            case 'GET':
+            case 'HEAD': {
+                const object = this.objects.get(key);
+                if (!object) return this.error(404, 'NoSuchKey');
+                return this.respond(200, {
+                    headers: { 'Content-Length': String(object.bytes.length) },
+                    bytes: method === 'GET' ? object.bytes : undefined
+                });
+            }
+            case 'DELETE':
+                this.objects.delete(key);
+                return this.respond(204);
+            default:
+                return this.error(405, 'MethodNotAllowed');
+        }
+    }
+
+    /**
+     * Handles UploadPart, CompleteMultipartUpload and AbortMultipartUpload
+     *
+     * @private
+     * @param {string} method - HTTP method
+     * @param {string} key - Object key
+     * @param {URLSearchParams} query - Query parameters
+     * @param {Uint8Array} body - Request body
+     * @returns {MockResponse} S3 response
+     */
+    private multipart(method: string, key: string, query: URLSearchParams, body: Uint8Array): MockResponse {
+        const uploadId = query.get('uploadId') || '';
+        const upload = this.uploads.get(uploadId);
+        if (!upload || upload.key !== key) {
+            return this.error(404, 'NoSuchUpload');
+        }
+
+        if (method === 'PUT') {
+            const etag = this.etag(body);
+            upload.parts.set(parseInt(query.get('partNumber') || '', 10), { etag, bytes: body });
+            return this.respond(200, { headers: { ETag: etag } });
+        }
+        if (method === 'DELETE') {
+            this.uploads.delete(uploadId);
+            return this.respond(204);
+        }
+
+        // CompleteMultipartUpload; S3 reports its errors with a 200 here too
+        const xml = Buffer.from(body).toString();
+        const parts = [...xml.matchAll(/<Part><PartNumber>(\d+)<\/PartNumber><ETag>(.*?)<\/ETag><\/Part>/g)]
+            .map(([, partNumber, etag]) => ({ part: upload.parts.get(parseInt(partNumber, 10)), etag: etag.replace(/&quot;/g, '"') }));
+        if (parts.some(({ part, etag }) => !part || part.etag !== etag)) {
+            return this.respond(200, { body: '<Error><Code>InvalidPart</Code></Error>' });
+        }
+        if (parts.slice(0, -1).some(({ part }) => part!.bytes.length < this.minPartSize)) {
+            return this.respond(200, { body: '<Error><Code>EntityTooSmall</Code></Error>' });
+        }
+
+        const bytes = new Uint8Array(Buffer.concat(parts.map(({ part }) => part!.bytes)));
+        this.objects.set(key, { bytes, lastModified: new Date(Date.now()) });
+        this.uploads.delete(uploadId);
+        return this.respond(200, { body: `<CompleteMultipartUploadResult><Key>${key}</Key></CompleteMultipartUploadResult>` });
+    }
+
+    /**
+     * Handles ListObjectsV2, using the index of the next key as continuation token
+     *
+     * @private
+     * @param {URLSearchParams} query - Query parameters
+     * @returns {MockResponse} ListBucketResult
+     */
+    private list(query: URLSearchParams): MockResponse {
+        const prefix = query.get('prefix') || '';
+        const keys = this.getKeys().filter(key => key.startsWith(prefix));
+        const start = parseInt(query.get('continuation-token') || '0', 10);
+        const page = keys.slice(start, start + this.maxKeys);
+        const truncated = start + page.length < keys.length;
+
+        const contents = page
+            .map(key => `<Contents><Key>${key}</Key><LastModified>${this.objects.get(key)!.lastModified.toISOString()}</LastModified>` +
+                `<Size>${this.objects.get(key)!.bytes.length}</Size></Contents>`)
+            .join('');
+        return this.respond(200, {
+            body: `<ListBucketResult><Name>${this.bucket}</Name><Prefix>${prefix}</Prefix>${contents}` +
+                `<IsTruncated>${truncated}</IsTruncated>` +
+                (truncated ? `<NextContinuationToken>${start + page.length}</NextContinuationToken>` : '') +
+                '</ListBucketResult>'
+        });
+    }
+
+    /**
+     * Computes a quoted MD5 ETag
+     *
+     * @private
+     * @param {Uint8Array} bytes - Object or part bytes
+     * @returns {string} ETag
+     */
+    private etag(bytes: Uint8Array): string {
+        return `"${createHash('md5').update(bytes).digest('hex')}"`;
+    }
+
+    /**
+     * Builds an S3 error response
+     *
+     * @private
+     * @param {number} status - HTTP status code
+     * @param {string} code - S3 error code
+     * @returns {MockResponse} Mock response with an XML error body
+     */
+    private error(status: number, code: string): MockResponse {
+        return this.respond(status, { body: `<Error><Code>${code}</Code></Error>` });
+    }
+
+    /**
+     * Builds a mock response
+     *
+     * @private
+     * @param {number} status - HTTP status code
+     * @param {object} [extra] - Response headers, and an XML body or raw bytes
+     * @returns {MockResponse} Mock response
+     */
+    private respond(
+        status: number,
+        extra: { headers?: Record<string, string>; body?: string; bytes?: Uint8Array } = {}
+    ): MockResponse {
+        const headers = extra.headers || {};
+        const bytes = extra.bytes || new Uint8Array(Buffer.from(extra.body || ''));
+        return {
+            ok: status >= 200 && status < 300,
+            status,
+            statusText: String(status),
+            headers: {
+                get: (name: string) => headers[name] ?? null
+            },
+            text: async () => Buffer.from(bytes).toString(),
+            arrayBuffer: async () => bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer
+        };
+    }
+}
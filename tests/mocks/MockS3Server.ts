@@ -0,0 +1,323 @@
+/**
+ * MockS3Server - In-process S3 Multipart Stand-in for Testing
+ *
+ * Intercepts fetch and plays both roles S3MultipartTransport talks to:
+ * the backend handling createMultipart/completeMultipart/abortMultipart
+ * JSON actions at the endpoint, and the bucket accepting part PUTs at
+ * presigned URLs. Completed objects are kept for assertions.
+ *
+ * @example
+ * ```typescript
+ * const s3 = new MockS3Server();
+ * s3.start();
+ *
+ * const transport = new S3MultipartTransport({
+ *     getPresignedPartUrl: async (fileId, partNumber, upload) => s3.presign(upload.uploadId, partNumber),
+ *     minPartSize: 1
+ * });
+ *
+ * // Run tests...
+ *
+ * s3.stop();
+ * ```
+ *
+ * @class MockS3Server
+ * @since 1.1.0
+ */
+
+import { createHash } from 'crypto';
+
+/**
+ * Mock HTTP response object matching the parts of Response used by S3MultipartTransport
+ */
+interface MockResponse {
+    ok: boolean;
+    status: number;
+    statusText: string;
+    headers: { get(name: string): string | null };
+    json: () => Promise<unknown>;
+}
+
+/**
+ * Backend action request body, with the fields of every action
+ */
+interface BackendRequest {
+    action: string;
+    fileId?: string;
+    fileName?: string;
+    uploadId?: string;
+    parts?: Array<{ PartNumber: number; ETag: string }>;
+}
+
+/**
+ * Request capture object containing method, URL and options
+ */
+interface CapturedRequest {
+    method: string;
+    url: string;
+    options?: RequestInit;
+}
+
+/**
+ * Multipart upload in progress
+ */
+interface MockMultipartUpload {
+    key: string;
+    parts: Map<number, { etag: string; bytes: Uint8Array }>;
+}
+
+export class MockS3Server {
+    /** Array of all captured HTTP requests */
+    private requests: CapturedRequest[] = [];
+
+    /** Map of uploadId -> multipart upload in progress */
+    private uploads: Map<string, MockMultipartUpload> = new Map();
+
+    /** Map of object key -> completed object bytes */
+    private objects: Map<string, Uint8Array> = new Map();
+
+    /** Number of upcoming part PUTs to fail with 500 */
+    private failures: number = 0;
+
+    /** Counter used to generate upload ids */
+    private nextId: number = 1;
+
+    /** Backend endpoint handling the control actions */
+    private endpoint: string = '/api/s3-multipart';
+
+    /** Base URL of the mock bucket */
+    private bucketUrl: string = 'https://bucket.s3.example.com';
+
+    /** Reference to the original global fetch function */
+    private originalFetch: typeof global.fetch;
+
+    /**
+     * Creates a new MockS3Server instance
+     * Saves the original global fetch function for later restoration
+     */
+    constructor() {
+        this.originalFetch = global.fetch;
+    }
+
+    /**
+     * Starts the mock server by replacing global.fetch
+     *
+     * @public
+     * @returns {void}
+     */
+    public start(): void {
+        global.fetch = this.mockFetch.bind(this) as unknown as typeof fetch;
+    }
+
+    /**
+     * Stops the mock server, restores fetch and discards all state
+     *
+     * @public
+     * @returns {void}
+     */
+    public stop(): void {
+        global.fetch = this.originalFetch;
+        this.requests = [];
+        this.uploads.clear();
+        this.objects.clear();
+        this.failures = 0;
+    }
+
+    /**
+     * Gets the backend endpoint clients should use
+     *
+     * @public
+     * @returns {string} The mock endpoint URL
+     */
+    public getEndpoint(): string {
+        return this.endpoint;
+    }
+
+    /**
+     * Builds a presigned UploadPart URL
+     *
+     * @public
+     * @param {string} uploadId - Multipart upload id
+     * @param {number} partNumber - One-based part number
+     * @returns {string} URL accepted by the mock bucket
+     */
+    public presign(uploadId: string, partNumber: number): string {
+        return `${this.bucketUrl}/part?uploadId=${uploadId}&partNumber=${partNumber}&X-Amz-Signature=mock`;
+    }
+
+    /**
+     * Retrieves all captured requests
+     *
+     * @public
+     * @returns {CapturedRequest[]} Array of captured requests
+     */
+    public getRequests(): CapturedRequest[] {
+        return this.requests;
+    }
+
+    /**
+     * Gets the multipart uploads still in progress
+     *
+     * @public
+     * @returns {Map<string, MockMultipartUpload>} Map of uploadId -> upload
+     */
+    public getUploads(): Map<string, MockMultipartUpload> {
+        return this.uploads;
+    }
+
+    /**
+     * Gets a completed object as text
+     *
+     * @public
+     * @param {string} key - Object key
+     * @returns {string | undefined} Object content, or undefined if not completed
+     */
+    public getObject(key: string): string | undefined {
+        const bytes = this.objects.get(key);
+        return bytes ? Buffer.from(bytes).toString() : undefined;
+    }
+
+    /**
+     * Makes the next 'count' part PUTs fail with HTTP 500
+     *
+     * @public
+     * @param {number} count - Number of part uploads to fail
+     * @returns {void}
+     */
+    public simulatePartFailures(count: number): void {
+        this.failures = count;
+    }
+
+    /**
+     * Mock fetch implementation routing bucket and backend requests
+     *
+     * @private
+     * @param {string | URL | Request} url - Request URL
+     * @param {RequestInit} [options] - Fetch options
+     * @returns {Promise<MockResponse>} Promise resolving to mock response
+     */
+    private async mockFetch(url: string | URL | Request, options: RequestInit = {}): Promise<MockResponse> {
+        const method = options.method || 'GET';
+        this.requests.push({ method, url: url.toString(), options });
+
+        // Small delay to simulate network latency
+        await new Promise(resolve => setTimeout(resolve, 5));
+
+        if (url.toString().startsWith(this.bucketUrl)) {
+            return this.handlePartUpload(new URL(url.toString()), method, options.body);
+        }
+        if (url.toString() === this.endpoint && method === 'POST') {
+            return this.handleAction(JSON.parse(options.body as string));
+        }
+        return this.respond(404, 'Not Found');
+    }
+
+    /**
+     * Handles UploadPart requests at presigned URLs
+     *
+     * @private
+     * @param {URL} url - Presigned URL
+     * @param {string} method - HTTP method
+     * @param {unknown} body - Request body (Blob)
+     * @returns {Promise<MockResponse>} 200 with the part ETag
+     */
+    private async handlePartUpload(url: URL, method: string, body: unknown): Promise<MockResponse> {
+        const upload = this.uploads.get(url.searchParams.get('uploadId') || '');
+        const partNumber = parseInt(url.searchParams.get('partNumber') || '', 10);
+        if (method !== 'PUT' || !upload || Number.isNaN(partNumber)) {
+            return this.respond(400, 'Bad Request');
+        }
+
+        if (this.failures > 0) {
+            this.failures--;
+            return this.respond(500, 'Internal Server Error');
+        }
+
+        const bytes = new Uint8Array(await (body as Blob).arrayBuffer());
+        const etag = `"${createHash('md5').update(bytes).digest('hex')}"`;
+        upload.parts.set(partNumber, { etag, bytes });
+        return this.respond(200, 'OK', { headers: { ETag: etag } });
+    }
+
+    /**
+     * Handles backend JSON actions
+     *
+     * @private
+     * @param {BackendRequest} data - Parsed request body
+     * @returns {MockResponse} JSON response in TurboPush's success/data format
+     */
+    private handleAction(data: BackendRequest): MockResponse {
+        switch (data.action) {
+            case 'createMultipart': {
+                const uploadId = `mpu-${this.nextId++}`;
+                const key = `uploads/${data.fileId}/${data.fileName}`;
+                this.uploads.set(uploadId, { key, parts: new Map() });
+                return this.respond(200, 'OK', { body: { success: true, data: { uploadId, key } } });
+            }
+            case 'completeMultipart':
+                return this.handleComplete(data);
+            case 'abortMultipart':
+                this.uploads.delete(data.uploadId || '');
+                return this.respond(200, 'OK', { body: { success: true } });
+            default:
+                return this.respond(400, 'Bad Request', { body: { success: false, error: 'Unknown action' } });
+        }
+    }
+
+    /**
+     * Handles completeMultipart, assembling the parts in order
+     *
+     * @private
+     * @param {BackendRequest} data - Parsed request body
+     * @returns {MockResponse} JSON response with the object key and size
+     */
+    private handleComplete(data: BackendRequest): MockResponse {
+        const upload = this.uploads.get(data.uploadId || '');
+        if (!upload) {
+            return this.respond(404, 'Not Found', { body: { success: false, error: 'NoSuchUpload' } });
+        }
+
+        const chunks: Uint8Array[] = [];
+        for (const { PartNumber, ETag } of data.parts || []) {
+            const part = upload.parts.get(PartNumber);
+            if (!part || part.etag !== ETag) {
+                return this.respond(400, 'Bad Request', { body: { success: false, error: 'InvalidPart' } });
+            }
+            chunks.push(part.bytes);
+        }
+
+        const object = new Uint8Array(Buffer.concat(chunks));
+        this.objects.set(upload.key, object);
+        this.uploads.delete(data.uploadId || '');
+
+        return this.respond(200, 'OK', {
+            body: { success: true, data: { key: upload.key, fileSize: object.length } }
+        });
+    }
+
+    /**
+     * Builds a mock response
+     *
+     * @private
+     * @param {number} status - HTTP status code
+     * @param {string} statusText - HTTP status text
+     * @param {object} [extra] - Response headers and JSON body
+     * @returns {MockResponse} Mock response
+     */
+    private respond(
+        status: number,
+        statusText: string,
+        extra: { headers?: Record<string, string>; body?: unknown } = {}
+    ): MockResponse {
+        const headers = extra.headers || {};
+        return {
+            ok: status >= 200 && status < 300,
+            status,
+            statusText,
+            headers: {
+                get: (name: string) => headers[name] ?? null
+            },
+            json: async () => extra.body
+        };
+    }
+}
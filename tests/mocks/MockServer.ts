@@ -2,7 +2,11 @@
  * MockServer - HTTP Mock Server for Testing
  *
  * Simulates a TurboPush upload endpoint for testing without actual HTTP requests.
- * Supports chunk uploads, finalization, and failure simulation.
+ * Supports chunk uploads, status queries, finalization, and failure simulation.
+ * Received chunk indexes are tracked per fileId, like the temp directories
+ * kept by TurboPushEndpoint.php. Chunks sent in dedup mode also go to a
+ * chunk store keyed by hash, shared by all files, so dedup ratios can be
+ * asserted.
  *
  * @example
  * ```typescript
@@ -39,6 +43,15 @@ interface CapturedRequest {
     options?: RequestInit;
 }
 
+/**
+ * Status query request data
+ */
+interface StatusData {
+    action: string;
+    fileId: string;
+    totalChunks?: number;
+}
+
 /**
  * Finalization request data
  */
@@ -48,6 +61,33 @@ interface FinalizeData {
     fileId: string;
     fileSize: number;
     totalChunks: number;
+    checksum?: string;
+    checksumAlgorithm?: string;
+    manifest?: Array<{ hash: string; size: number }>;
+    metadata?: Record<string, unknown>;
+}
+
+/**
+ * Hash query request data (dedup mode)
+ */
+interface CheckHashesData {
+    action: string;
+    fileId: string;
+    hashes: string[];
+}
+
+/**
+ * Chunk store counters (dedup mode)
+ */
+interface DedupStats {
+    /** Chunks referenced by finalized manifests */
+    referencedChunks: number;
+
+    /** Chunks actually received with a hash */
+    uploadedChunks: number;
+
+    /** Share of referenced chunks that did not have to be sent (0-1) */
+    ratio: number;
 }
 
 export class MockServer {
@@ -63,6 +103,27 @@ export class MockServer {
     /** Mock endpoint URL returned to clients */
     private endpoint: string = '/mock-upload';
 
+    /** Number of upcoming chunk uploads to reject with a checksum mismatch */
+    private checksumMismatches: number = 0;
+
+    /** Map of fileId -> chunk indexes received and not yet finalized */
+    private receivedChunks: Map<string, Set<number>> = new Map();
+
+    /** Map of fileId -> metadata sent with the first chunk, until finalized */
+    private chunkMetadata: Map<string, Record<string, unknown>> = new Map();
+
+    /** Names of finalized files, used to rename duplicates like the PHP endpoint */
+    private storedFiles: Set<string> = new Set();
+
+    /** Hashes of chunks in the chunk store, kept across files (dedup mode) */
+    private chunkStore: Set<string> = new Set();
+
+    /** Number of chunks received with a hash */
+    private hashedChunkUploads: number = 0;
+
+    /** Number of chunks referenced by finalized manifests */
+    private referencedChunks: number = 0;
+
     /** Reference to the original global fetch function */
     private originalFetch: typeof global.fetch;
 
@@ -96,6 +157,13 @@ export class MockServer {
         global.fetch = this.originalFetch;
         this.requests = [];
         this.failureCount = 0;
+        this.checksumMismatches = 0;
+        this.receivedChunks.clear();
+        this.chunkMetadata.clear();
+        this.storedFiles.clear();
+        this.chunkStore.clear();
+        this.hashedChunkUploads = 0;
+        this.referencedChunks = 0;
     }
 
     /**
@@ -119,6 +187,66 @@ export class MockServer {
         return this.requests;
     }
 
+    /**
+     * Gets the chunk indexes received for a file that has not been finalized
+     *
+     * @public
+     * @param {string} fileId - Unique identifier for the file
+     * @returns {number[]} Sorted chunk indexes
+     */
+    public getReceivedChunks(fileId: string): number[] {
+        return Array.from(this.receivedChunks.get(fileId) || []).sort((a, b) => a - b);
+    }
+
+    /**
+     * Marks chunks as already received, as if left over from an earlier session
+     *
+     * @public
+     * @param {string} fileId - Unique identifier for the file
+     * @param {number[]} indexes - Chunk indexes to mark as received
+     * @returns {void}
+     */
+    public seedReceivedChunks(fileId: string, indexes: number[]): void {
+        const received = this.receivedChunks.get(fileId) || new Set<number>();
+        indexes.forEach(index => received.add(index));
+        this.receivedChunks.set(fileId, received);
+    }
+
+    /**
+     * Gets the hashes held by the chunk store
+     *
+     * @public
+     * @returns {string[]} Chunk hashes in the order first received
+     */
+    public getStoredHashes(): string[] {
+        return Array.from(this.chunkStore);
+    }
+
+    /**
+     * Puts hashes into the chunk store, as if uploaded by earlier files
+     *
+     * @public
+     * @param {string[]} hashes - Chunk hashes
+     * @returns {void}
+     */
+    public seedStoredHashes(hashes: string[]): void {
+        hashes.forEach(hash => this.chunkStore.add(hash));
+    }
+
+    /**
+     * Compares chunks referenced by finalized files with chunks actually sent
+     *
+     * @public
+     * @returns {DedupStats} Chunk counts and the dedup ratio
+     */
+    public getDedupStats(): DedupStats {
+        return {
+            referencedChunks: this.referencedChunks,
+            uploadedChunks: this.hashedChunkUploads,
+            ratio: this.referencedChunks > 0 ? 1 - this.hashedChunkUploads / this.referencedChunks : 0
+        };
+    }
+
     /**
      * Configures the mock server to simulate intermittent failures
      * The first 'count' requests will fail with an error, then subsequent requests succeed
@@ -138,6 +266,19 @@ export class MockServer {
         this.failureCount = 0;
     }
 
+    /**
+     * Configures the mock server to reject chunk uploads as corrupted
+     * The next 'count' chunk uploads fail with HTTP 422 and a checksum_mismatch
+     * code, the same response TurboPushEndpoint.php sends on digest mismatch
+     *
+     * @public
+     * @param {number} count - Number of chunk uploads to reject
+     * @returns {void}
+     */
+    public simulateChecksumMismatches(count: number): void {
+        this.checksumMismatches = count;
+    }
+
     /**
      * Mock fetch implementation that handles all intercepted requests
      * Simulates chunk uploads and finalization requests
@@ -164,30 +305,70 @@ export class MockServer {
         // Small delay to simulate network latency
         await new Promise(resolve => setTimeout(resolve, 10));
 
-        // Check if this is a finalization request (JSON body with action: 'finalize')
+        // Check if this is a JSON action request (finalize or status)
         if (options?.body && typeof options.body === 'string') {
             try {
                 const json = JSON.parse(options.body);
                 if (json.action === 'finalize') {
                     return this.handleFinalize(json);
                 }
+                if (json.action === 'status') {
+                    return this.handleStatus(json);
+                }
+                if (json.action === 'checkHashes') {
+                    return this.handleCheckHashes(json);
+                }
             } catch (error) {
                 // Not JSON or parse error, treat as chunk upload
             }
         }
 
         // Default to handling as chunk upload
-        return this.handleChunk();
+        return this.handleChunk(options?.body);
     }
 
     /**
      * Handles chunk upload requests
-     * Returns a successful response indicating the chunk was received
+     * Records the chunk index for its fileId and returns a success response
      *
      * @private
+     * @param {unknown} body - Request body (FormData for chunk uploads)
      * @returns {MockResponse} Success response for chunk upload
      */
-    private handleChunk(): MockResponse {
+    private handleChunk(body: unknown): MockResponse {
+        if (this.checksumMismatches > 0) {
+            this.checksumMismatches--;
+            return {
+                ok: false,
+                status: 422,
+                statusText: 'Unprocessable Entity',
+                json: async () => ({
+                    success: false,
+                    message: 'Checksum mismatch',
+                    data: { code: 'checksum_mismatch' }
+                })
+            };
+        }
+
+        if (body instanceof FormData) {
+            const fileId = body.get('fileId');
+            const chunkIndex = body.get('chunkIndex');
+            if (typeof fileId === 'string' && typeof chunkIndex === 'string') {
+                this.seedReceivedChunks(fileId, [parseInt(chunkIndex, 10)]);
+            }
+
+            const metadata = body.get('metadata');
+            if (typeof fileId === 'string' && typeof metadata === 'string') {
+                this.chunkMetadata.set(fileId, JSON.parse(metadata));
+            }
+
+            const chunkHash = body.get('chunkHash');
+            if (typeof chunkHash === 'string') {
+                this.chunkStore.add(chunkHash);
+                this.hashedChunkUploads++;
+            }
+        }
+
         return {
             ok: true,
             status: 200,
@@ -196,22 +377,100 @@ export class MockServer {
         };
     }
 
+    /**
+     * Handles status queries for a partially uploaded file
+     * Returns the chunk indexes received so far
+     *
+     * @private
+     * @param {StatusData} data - Status request data containing the fileId
+     * @returns {MockResponse} Success response with received chunk indexes
+     */
+    private handleStatus(data: StatusData): MockResponse {
+        const uploadedChunks = this.getReceivedChunks(data.fileId);
+        return {
+            ok: true,
+            status: 200,
+            statusText: 'OK',
+            json: async () => ({
+                success: true,
+                data: { fileId: data.fileId, uploadedChunks }
+            })
+        };
+    }
+
+    /**
+     * Handles hash queries (dedup mode)
+     * Returns the requested hashes the chunk store holds
+     *
+     * @private
+     * @param {CheckHashesData} data - Hash query containing the hashes to look up
+     * @returns {MockResponse} Success response with the stored hashes
+     */
+    private handleCheckHashes(data: CheckHashesData): MockResponse {
+        const storedHashes = data.hashes.filter(hash => this.chunkStore.has(hash));
+        return {
+            ok: true,
+            status: 200,
+            statusText: 'OK',
+            json: async () => ({
+                success: true,
+                data: { storedHashes }
+            })
+        };
+    }
+
     /**
      * Handles finalization requests after all chunks are uploaded
-     * Returns success response with the uploaded file information
+     * Discards the received chunks and returns the stored file information.
+     * A dedup manifest must only list stored hashes and add up to the file size.
+     * Like TurboPushEndpoint.php, a name already taken gets a timestamp suffix,
+     * and metadata from the first chunk and finalize is merged and echoed back
      *
      * @private
      * @param {FinalizeData} data - Finalization request data containing file metadata
      * @returns {MockResponse} Success response with file information
      */
     private handleFinalize(data: FinalizeData): MockResponse {
+        if (data.manifest) {
+            const missing = data.manifest.find(entry => !this.chunkStore.has(entry.hash));
+            const size = data.manifest.reduce((total, entry) => total + entry.size, 0);
+            const error = missing ? `Missing chunk: ${missing.hash}`
+                : size !== data.fileSize ? 'File size mismatch'
+                : undefined;
+            if (error) {
+                return {
+                    ok: false,
+                    status: 400,
+                    statusText: 'Bad Request',
+                    json: async () => ({ success: false, message: error, data: {} })
+                };
+            }
+            this.referencedChunks += data.manifest.length;
+        }
+
+        this.receivedChunks.delete(data.fileId);
+
+        const stored = this.chunkMetadata.get(data.fileId);
+        const metadata = stored || data.metadata ? { ...stored, ...data.metadata } : undefined;
+        this.chunkMetadata.delete(data.fileId);
+
+        let fileName = data.fileName;
+        if (this.storedFiles.has(fileName)) {
+            const dot = fileName.lastIndexOf('.');
+            const timestamp = Math.floor(Date.now() / 1000);
+            fileName = dot > 0
+                ? `${fileName.slice(0, dot)}_${timestamp}${fileName.slice(dot)}`
+                : `${fileName}_${timestamp}`;
+        }
+        this.storedFiles.add(fileName);
+
         return {
             ok: true,
             status: 200,
             statusText: 'OK',
             json: async () => ({
                 success: true,
-                data: { fileName: data.fileName }
+                data: { fileName, fileSize: data.fileSize, ...(metadata && { metadata }) }
             })
         };
     }
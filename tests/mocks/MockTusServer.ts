@@ -0,0 +1,315 @@
+/**
+ * MockTusServer - In-process tus 1.0 Server for Testing
+ *
+ * Stands in for tusd by intercepting fetch. Implements the core protocol
+ * (HEAD/PATCH), creation, termination and the sha256 checksum extension,
+ * and keeps the received bytes of every upload for assertions.
+ *
+ * @example
+ * ```typescript
+ * const tusServer = new MockTusServer();
+ * tusServer.start();
+ *
+ * // Drop the connection halfway through the next PATCH
+ * tusServer.simulateInterruptions(1);
+ *
+ * // Run tests...
+ *
+ * tusServer.stop();
+ * ```
+ *
+ * @class MockTusServer
+ * @since 1.1.0
+ */
+
+import { createHash } from 'crypto';
+
+/**
+ * Mock HTTP response object matching the parts of Response used by TusTransport
+ */
+interface MockResponse {
+    ok: boolean;
+    status: number;
+    statusText: string;
+    headers: { get(name: string): string | null };
+    json: () => Promise<unknown>;
+}
+
+/**
+ * Request capture object containing method, URL and options
+ */
+interface CapturedRequest {
+    method: string;
+    url: string;
+    options?: RequestInit;
+}
+
+/**
+ * Upload resource held by the mock server
+ */
+interface MockTusUpload {
+    length: number;
+    metadata: Record<string, string>;
+    bytes: Uint8Array;
+}
+
+export class MockTusServer {
+    /** Array of all captured HTTP requests made to the mock server */
+    private requests: CapturedRequest[] = [];
+
+    /** Map of upload id -> upload resource */
+    private uploads: Map<string, MockTusUpload> = new Map();
+
+    /** Number of upcoming PATCH requests to cut off halfway */
+    private interruptions: number = 0;
+
+    /** Counter used to generate upload ids */
+    private nextId: number = 1;
+
+    /** Mock endpoint (creation URL) returned to clients */
+    private endpoint: string = '/files/';
+
+    /** Reference to the original global fetch function */
+    private originalFetch: typeof global.fetch;
+
+    /**
+     * Creates a new MockTusServer instance
+     * Saves the original global fetch function for later restoration
+     */
+    constructor() {
+        this.originalFetch = global.fetch;
+    }
+
+    /**
+     * Starts the mock server by replacing global.fetch
+     *
+     * @public
+     * @returns {void}
+     */
+    public start(): void {
+        global.fetch = this.mockFetch.bind(this) as unknown as typeof fetch;
+    }
+
+    /**
+     * Stops the mock server, restores fetch and discards all uploads
+     *
+     * @public
+     * @returns {void}
+     */
+    public stop(): void {
+        global.fetch = this.originalFetch;
+        this.requests = [];
+        this.uploads.clear();
+        this.interruptions = 0;
+    }
+
+    /**
+     * Gets the creation endpoint clients should use
+     *
+     * @public
+     * @returns {string} The mock endpoint URL
+     */
+    public getEndpoint(): string {
+        return this.endpoint;
+    }
+
+    /**
+     * Retrieves all captured requests
+     *
+     * @public
+     * @returns {CapturedRequest[]} Array of captured requests
+     */
+    public getRequests(): CapturedRequest[] {
+        return this.requests;
+    }
+
+    /**
+     * Gets every upload still held by the server
+     *
+     * @public
+     * @returns {Map<string, MockTusUpload>} Map of upload id -> upload
+     */
+    public getUploads(): Map<string, MockTusUpload> {
+        return this.uploads;
+    }
+
+    /**
+     * Gets the received bytes of an upload as text
+     *
+     * @public
+     * @param {string} id - Upload id
+     * @returns {string | undefined} Received content, or undefined if unknown
+     */
+    public getContent(id: string): string | undefined {
+        const upload = this.uploads.get(id);
+        return upload ? Buffer.from(upload.bytes).toString() : undefined;
+    }
+
+    /**
+     * Cuts off the next 'count' PATCH requests halfway: the server keeps
+     * the first half of the body and the client sees a network error
+     *
+     * @public
+     * @param {number} count - Number of PATCH requests to interrupt
+     * @returns {void}
+     */
+    public simulateInterruptions(count: number): void {
+        this.interruptions = count;
+    }
+
+    /**
+     * Mock fetch implementation routing tus requests by method
+     *
+     * @private
+     * @param {string | URL | Request} url - Request URL
+     * @param {RequestInit} [options] - Fetch options
+     * @returns {Promise<MockResponse>} Promise resolving to mock response
+     */
+    private async mockFetch(url: string | URL | Request, options: RequestInit = {}): Promise<MockResponse> {
+        const method = options.method || 'GET';
+        this.requests.push({ method, url: url.toString(), options });
+
+        // Small delay to simulate network latency
+        await new Promise(resolve => setTimeout(resolve, 5));
+
+        const headers = (options.headers || {}) as Record<string, string>;
+        if (headers['Tus-Resumable'] !== '1.0.0') {
+            return this.respond(412, 'Precondition Failed');
+        }
+
+        const path = new URL(url.toString(), 'http://localhost').pathname;
+        if (method === 'POST' && path === this.endpoint) {
+            return this.handleCreate(headers);
+        }
+
+        const id = path.startsWith(this.endpoint) ? path.substring(this.endpoint.length) : '';
+        const upload = this.uploads.get(id);
+        if (!upload) {
+            return this.respond(404, 'Not Found');
+        }
+
+        switch (method) {
+            case 'HEAD':
+                return this.respond(200, 'OK', {
+                    'Upload-Offset': upload.bytes.length.toString(),
+                    'Upload-Length': upload.length.toString()
+                });
+            case 'PATCH':
+                return this.handlePatch(upload, headers, options.body);
+            case 'DELETE':
+                this.uploads.delete(id);
+                return this.respond(204, 'No Content');
+            default:
+                return this.respond(405, 'Method Not Allowed');
+        }
+    }
+
+    /**
+     * Handles creation requests (POST to the endpoint)
+     *
+     * @private
+     * @param {Record<string, string>} headers - Request headers
+     * @returns {MockResponse} 201 with the new upload's Location
+     */
+    private handleCreate(headers: Record<string, string>): MockResponse {
+        const length = parseInt(headers['Upload-Length'], 10);
+        if (Number.isNaN(length)) {
+            return this.respond(400, 'Bad Request');
+        }
+
+        const metadata: Record<string, string> = {};
+        for (const pair of (headers['Upload-Metadata'] || '').split(',').filter(Boolean)) {
+            const [key, value] = pair.trim().split(' ');
+            metadata[key] = value ? Buffer.from(value, 'base64').toString() : '';
+        }
+
+        const id = `upload-${this.nextId++}`;
+        this.uploads.set(id, { length, metadata, bytes: new Uint8Array(0) });
+        return this.respond(201, 'Created', { Location: `${this.endpoint}${id}` });
+    }
+
+    /**
+     * Handles PATCH requests appending bytes at the current offset
+     *
+     * @private
+     * @param {MockTusUpload} upload - Target upload
+     * @param {Record<string, string>} headers - Request headers
+     * @param {unknown} body - Request body (Blob)
+     * @returns {Promise<MockResponse>} 204 with the new offset
+     * @throws {Error} When simulating an interrupted connection
+     */
+    private async handlePatch(
+        upload: MockTusUpload,
+        headers: Record<string, string>,
+        body: unknown
+    ): Promise<MockResponse> {
+        if (headers['Content-Type'] !== 'application/offset+octet-stream') {
+            return this.respond(415, 'Unsupported Media Type');
+        }
+        if (parseInt(headers['Upload-Offset'], 10) !== upload.bytes.length) {
+            return this.respond(409, 'Conflict');
+        }
+
+        const data = new Uint8Array(await (body as Blob).arrayBuffer());
+        if (upload.bytes.length + data.length > upload.length) {
+            return this.respond(400, 'Bad Request');
+        }
+
+        if (headers['Upload-Checksum']) {
+            const [algorithm, digest] = headers['Upload-Checksum'].split(' ');
+            if (algorithm !== 'sha256') {
+                return this.respond(400, 'Bad Request');
+            }
+            if (createHash('sha256').update(data).digest('base64') !== digest) {
+                return this.respond(460, 'Checksum Mismatch');
+            }
+        }
+
+        if (this.interruptions > 0) {
+            this.interruptions--;
+            this.append(upload, data.subarray(0, Math.floor(data.length / 2)));
+            throw new Error('Simulated connection reset');
+        }
+
+        this.append(upload, data);
+        return this.respond(204, 'No Content', { 'Upload-Offset': upload.bytes.length.toString() });
+    }
+
+    /**
+     * Appends bytes to an upload
+     *
+     * @private
+     * @param {MockTusUpload} upload - Target upload
+     * @param {Uint8Array} data - Bytes to append
+     * @returns {void}
+     */
+    private append(upload: MockTusUpload, data: Uint8Array): void {
+        const bytes = new Uint8Array(upload.bytes.length + data.length);
+        bytes.set(upload.bytes);
+        bytes.set(data, upload.bytes.length);
+        upload.bytes = bytes;
+    }
+
+    /**
+     * Builds a mock response
+     *
+     * @private
+     * @param {number} status - HTTP status code
+     * @param {string} statusText - HTTP status text
+     * @param {Record<string, string>} [headers] - Response headers
+     * @returns {MockResponse} Mock response
+     */
+    private respond(status: number, statusText: string, headers: Record<string, string> = {}): MockResponse {
+        return {
+            ok: status >= 200 && status < 300,
+            status,
+            statusText,
+            headers: {
+                get: (name: string) => headers[name] ?? null
+            },
+            json: async () => {
+                throw new Error('tus responses have no JSON body');
+            }
+        };
+    }
+}
@@ -11,18 +11,21 @@
  * @since 1.0.0
  */
 
+import { TextEncoder, TextDecoder } from 'util';
+
 /**
  * MockBlob - Mock implementation of the browser Blob API
  *
  * Simulates the Blob interface for testing file operations in Node.js.
- * Supports content storage, slicing, and size calculation.
+ * Supports content storage, byte-accurate slicing, size calculation and
+ * reading content back as an ArrayBuffer or text.
  *
  * @class MockBlob
  * @implements {Blob}
  */
 class MockBlob {
-    /** Array of content parts (strings, ArrayBuffers, or other Blobs) */
-    private content: any[];
+    /** Content parts flattened into bytes */
+    private bytes: Uint8Array;
 
     /** MIME type of the blob content */
     public type: string;
@@ -41,7 +44,7 @@ class MockBlob {
      * ```
      */
     constructor(content: any[], options?: { type?: string }) {
-        this.content = content;
+        this.bytes = MockBlob.concat(content.map(MockBlob.toBytes));
         this.type = options?.type || '';
     }
 
@@ -60,12 +63,29 @@ class MockBlob {
      * ```
      */
     slice(start?: number, end?: number): MockBlob {
-        return new MockBlob(this.content.slice(start, end), { type: this.type });
+        return new MockBlob([this.bytes.slice(start, end)], { type: this.type });
+    }
+
+    /**
+     * Reads the blob content as an ArrayBuffer
+     *
+     * @returns {Promise<ArrayBuffer>} Copy of the blob bytes
+     */
+    async arrayBuffer(): Promise<ArrayBuffer> {
+        return this.bytes.slice().buffer;
     }
 
     /**
-     * Calculates and returns the total size of the blob in bytes
-     * Handles different content types: strings, ArrayBuffers, and nested Blobs
+     * Reads the blob content as a UTF-8 string
+     *
+     * @returns {Promise<string>} Decoded blob content
+     */
+    async text(): Promise<string> {
+        return new TextDecoder().decode(this.bytes);
+    }
+
+    /**
+     * Returns the total size of the blob in bytes
      *
      * @returns {number} Total size in bytes
      *
@@ -78,13 +98,40 @@ class MockBlob {
      * ```
      */
     get size(): number {
-        return this.content.reduce((acc, item) => {
-            // Calculate size based on content type
-            if (typeof item === 'string') return acc + item.length;
-            if (item instanceof ArrayBuffer) return acc + item.byteLength;
-            if (item instanceof MockBlob) return acc + item.size;
-            return acc;
-        }, 0);
+        return this.bytes.byteLength;
+    }
+
+    /**
+     * Converts a single content part to bytes
+     * Handles strings (UTF-8), ArrayBuffers, typed arrays and nested Blobs
+     *
+     * @private
+     * @param {unknown} item - Content part
+     * @returns {Uint8Array} Bytes of the content part
+     */
+    private static toBytes(item: unknown): Uint8Array {
+        if (typeof item === 'string') return new TextEncoder().encode(item);
+        if (item instanceof ArrayBuffer) return new Uint8Array(item);
+        if (ArrayBuffer.isView(item)) return new Uint8Array(item.buffer, item.byteOffset, item.byteLength);
+        if (item instanceof MockBlob) return item.bytes;
+        return new Uint8Array(0);
+    }
+
+    /**
+     * Joins byte arrays into one
+     *
+     * @private
+     * @param {Uint8Array[]} parts - Byte arrays to join
+     * @returns {Uint8Array} Concatenated bytes
+     */
+    private static concat(parts: Uint8Array[]): Uint8Array {
+        const result = new Uint8Array(parts.reduce((acc, part) => acc + part.byteLength, 0));
+        let offset = 0;
+        for (const part of parts) {
+            result.set(part, offset);
+            offset += part.byteLength;
+        }
+        return result;
     }
 }
 
@@ -132,6 +179,58 @@ class MockFile extends MockBlob {
     }
 }
 
+/**
+ * Mock AbortSignal implementation
+ *
+ * Carries the abort state and notifies 'abort' listeners once, like the
+ * browser AbortSignal.
+ *
+ * @class MockAbortSignal
+ * @implements {AbortSignal}
+ */
+class MockAbortSignal {
+    /** Whether the signal has been aborted */
+    public aborted: boolean = false;
+
+    /** Registered 'abort' listeners */
+    private listeners: Array<() => void> = [];
+
+    /**
+     * Registers a listener called when the signal is aborted
+     *
+     * @param {string} type - Event type, only 'abort' is supported
+     * @param {Function} listener - Listener to call
+     * @returns {void}
+     */
+    addEventListener(type: string, listener: () => void): void {
+        if (type === 'abort') this.listeners.push(listener);
+    }
+
+    /**
+     * Removes a listener registered with addEventListener()
+     *
+     * @param {string} type - Event type, only 'abort' is supported
+     * @param {Function} listener - Listener to remove
+     * @returns {void}
+     */
+    removeEventListener(type: string, listener: () => void): void {
+        if (type === 'abort') this.listeners = this.listeners.filter(l => l !== listener);
+    }
+
+    /**
+     * Marks the signal as aborted and notifies listeners
+     *
+     * @returns {void}
+     */
+    abort(): void {
+        if (this.aborted) return;
+        this.aborted = true;
+        const listeners = this.listeners;
+        this.listeners = [];
+        listeners.forEach(listener => listener());
+    }
+}
+
 /**
  * Mock AbortController implementation for upload cancellation
  *
@@ -143,7 +242,7 @@ class MockFile extends MockBlob {
  */
 class MockAbortController {
     /** AbortSignal object containing abort state */
-    public signal: { aborted?: boolean } = {};
+    public signal: MockAbortSignal = new MockAbortSignal();
 
     /**
      * Aborts the associated request by setting signal.aborted to true
@@ -160,7 +259,7 @@ class MockAbortController {
      * ```
      */
     abort(): void {
-        this.signal.aborted = true;
+        this.signal.abort();
     }
 }
 